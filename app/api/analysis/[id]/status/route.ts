@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAnalysisStatus } from "@/lib/analysis-jobs"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/analysis/:id/status
+ *
+ * { analysisId, status, stage, progress (0-100), error?, attempts, createdAt,
+ * updatedAt, completedAt? }, plus `report` once the analysis is completed.
+ * A failed analysis carries the reason in `error`.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	try {
+		const { id } = await params
+		const status = await getAnalysisStatus(id)
+		if (!status) return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+		return NextResponse.json(status)
+	} catch (err: any) {
+		return NextResponse.json({ error: err.message || "Failed to load analysis status" }, { status: 500 })
+	}
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAnalysisStatus, watchAnalysis, type AnalysisStreamMessage } from "@/lib/analysis-jobs"
+
+export const runtime = "nodejs"
+
+/** Comment line sent while nothing changes, so idle proxies keep the connection open */
+const KEEPALIVE_MS = 15_000
+
+function toSse(message: AnalysisStreamMessage): string {
+	return `event: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`
+}
+
+/**
+ * GET /api/analysis/:id/stream
+ *
+ * Server-sent events for one analysis: `status` ({ stage, progress, ... }) on
+ * every stage change (decode, hud, detect, rules) and progress step, `events`
+ * ({ events }) each time more events are found, then `done` with the report
+ * or the error, after which the stream closes. Reconnecting starts over from
+ * the current state, so a client can resume after a dropped connection.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	try {
+		const { id } = await params
+		if (!(await getAnalysisStatus(id))) return NextResponse.json({ error: "Analysis not found" }, { status: 404 })
+
+		const abort = new AbortController()
+		req.signal.addEventListener("abort", () => abort.abort())
+		const messages = watchAnalysis(id, abort.signal)
+		const encoder = new TextEncoder()
+		let keepalive: ReturnType<typeof setInterval> | undefined
+
+		const stream = new ReadableStream<Uint8Array>({
+			async start(controller) {
+				keepalive = setInterval(() => controller.enqueue(encoder.encode(": keepalive\n\n")), KEEPALIVE_MS)
+				try {
+					for await (const message of messages) controller.enqueue(encoder.encode(toSse(message)))
+				} catch (err) {
+					// Closing makes the client reconnect, which starts over from the current state
+					console.error("[Analysis Stream] Failed:", err)
+				} finally {
+					clearInterval(keepalive)
+					if (!abort.signal.aborted) controller.close()
+				}
+			},
+			cancel() {
+				clearInterval(keepalive)
+				abort.abort()
+			},
+		})
+
+		return new Response(stream, {
+			headers: {
+				"content-type": "text/event-stream; charset=utf-8",
+				"cache-control": "no-cache, no-transform",
+				connection: "keep-alive",
+			},
+		})
+	} catch (err: any) {
+		return NextResponse.json({ error: err.message || "Failed to stream analysis" }, { status: 500 })
+	}
+}
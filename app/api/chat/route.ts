@@ -510,7 +510,11 @@ export async function POST(req: NextRequest) {
                 })
                 eventsDigest = formattedEvents.join("\n")
                 const st = anyA.stats || {}
-                statsDigest = `Accuracy: ${Math.round((st.accuracy || 0) * 100)}%, Efficiency: ${Math.round((st.efficiency || 0) * 100)}%, IQ: ${Math.round((st.iq || 0) * 100)}%, Momentum swings: ${st.momentumSwings || 0}`
+                statsDigest = [
+                    st.durationSec !== undefined ? `Duration: ${st.durationSec}s` : "",
+                    st.framesSampled !== undefined ? `Frames sampled: ${st.framesSampled}` : "",
+                    `Detected events: ${Array.isArray(anyA.events) ? anyA.events.length : 0}`,
+                ].filter(Boolean).join(", ")
                 sourceInfo = anyA.sourceInfo?.type === "link" ? `Source: ${anyA.sourceInfo.host}${anyA.sourceInfo.path}` : `Uploaded video: ${anyA.sourceInfo?.id || ""}`
 
                 // Pull detected patterns from analysis if present, otherwise infer simple ones from events
@@ -2,10 +2,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { connectToDatabase } from "@/lib/db"
 import { MetaRule } from "@/models/MetaRule"
 import { COMPREHENSIVE_META_RULES } from "@/lib/comprehensiveMetaRules"
+import { withApiKey } from "@/lib/api-auth"
 
 export const runtime = "nodejs"
 
-export async function POST(_req: NextRequest) {
+export const POST = withApiKey("platform", async (_req: NextRequest) => {
 	try {
 		await connectToDatabase()
 		let inserted = 0
@@ -23,6 +24,6 @@ export async function POST(_req: NextRequest) {
 	} catch (err: any) {
 		return NextResponse.json({ error: err.message || "Seed failed" }, { status: 500 })
 	}
-}
+})
 
 
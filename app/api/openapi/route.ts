@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { buildOpenApiDocument } from "@/lib/openapi"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/openapi
+ *
+ * OpenAPI 3 document for every API route, rendered by the API docs page.
+ */
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument())
+}
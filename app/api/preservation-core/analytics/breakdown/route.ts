@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { BREAKDOWN_DIMENSIONS, getDisconnectBreakdown, parseAnalyticsFilters, type BreakdownDimension } from "@/lib/preservation-core-analytics"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/analytics/breakdown?by=region|platform
+ *
+ * Decision counts per region or platform, from the optional `regionId` /
+ * `platform` sent with classify requests. Decisions without it are grouped
+ * under "unknown". Studio keys only see their studio's decisions.
+ *
+ * Query parameters:
+ *   by        - Required: region | platform
+ *   from, to  - ISO 8601 range on the decision time (default: the last 30 days)
+ *   regionId, platform, policyId - same filters as GET /api/preservation-core/analytics
+ *
+ * Response:
+ * {
+ *   by: "region" | "platform",
+ *   groups: [{ key, decisions, disconnects, preserved, penalized, byType, disconnectRate }]   // most decisions first
+ * }
+ */
+export const GET = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const { filters, errors } = parseAnalyticsFilters(searchParams)
+    const by = searchParams.get("by") || ""
+    if (!(BREAKDOWN_DIMENSIONS as readonly string[]).includes(by)) {
+      errors.push(`by must be one of: ${BREAKDOWN_DIMENSIONS.join(", ")}`)
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid query", details: errors }, { status: 400 })
+    }
+
+    const groups = await getDisconnectBreakdown({ ...filters, studioId: auth.studioId }, by as BreakdownDimension)
+    return NextResponse.json({ by, groups })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load breakdown" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  ANALYTICS_BUCKETS,
+  MAX_ANALYTICS_BUCKETS,
+  countBuckets,
+  getDisconnectAnalytics,
+  parseAnalyticsFilters,
+  type AnalyticsBucket,
+} from "@/lib/preservation-core-analytics"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/analytics
+ *
+ * Aggregated decisions for the analytics dashboard. Studio keys only see their
+ * studio's decisions.
+ *
+ * Query parameters (all optional):
+ *   from, to  - ISO 8601 range on the decision time (default: the last 30 days)
+ *   bucket    - hour | day | week (default: day, at most 1000 buckets per request)
+ *   regionId  - only decisions from one region ("unknown" = sent without regionId)
+ *   platform  - only decisions from one platform ("unknown" = sent without platform)
+ *   policyId  - only decisions made with one policy
+ *
+ * Response:
+ * {
+ *   range: { from, to, bucket },
+ *   totals: { decisions, disconnects, preserved, penalized, byType, preservedShare, penalizedShare },
+ *   timeline: [{ start, decisions, disconnects, preserved, penalized, byType }],   // every bucket, empty ones included
+ *   signals: [{ signal, disconnects, preserved, penalized }],                   // disconnects where the signal was detected
+ *   decidingReasons: [{ code, disconnects, preserved, penalized }]              // last reason of each result
+ * }
+ */
+export const GET = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const { filters, errors } = parseAnalyticsFilters(searchParams)
+    const bucket = searchParams.get("bucket") || "day"
+    if (!(ANALYTICS_BUCKETS as readonly string[]).includes(bucket)) {
+      errors.push(`bucket must be one of: ${ANALYTICS_BUCKETS.join(", ")}`)
+    } else if (!errors.length && countBuckets(filters.from, filters.to, bucket as AnalyticsBucket) > MAX_ANALYTICS_BUCKETS) {
+      errors.push(`range spans more than ${MAX_ANALYTICS_BUCKETS} ${bucket} buckets; use a larger bucket or a shorter range`)
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid query", details: errors }, { status: 400 })
+    }
+
+    const analytics = await getDisconnectAnalytics({ ...filters, studioId: auth.studioId }, bucket as AnalyticsBucket)
+    return NextResponse.json(analytics)
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load analytics" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { reviewAppeal } from "@/lib/preservation-core-appeals"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/appeals/:appealId/review
+ *
+ * Closes an open appeal.
+ *
+ * Request body:
+ * {
+ *   status: "upheld" | "overturned",   // Required
+ *   reviewerId: string,                // Required: who reviewed it
+ *   note?: string                      // Optional: shown to support / sent with the webhook
+ * }
+ *
+ * Overturning marks the decision as overturned in the audit log and emits a
+ * `decision.overturned` webhook so the game backend can refund rank points.
+ * 409 if the appeal was already reviewed.
+ */
+export const POST = withApiKey("admin", async (req: NextRequest, { params }: { params: Promise<{ appealId: string }> }, auth) => {
+  try {
+    const { appealId } = await params
+    const body = await req.json()
+    const errors: string[] = []
+
+    if (body.status !== "upheld" && body.status !== "overturned") {
+      errors.push("status must be 'upheld' or 'overturned'")
+    }
+    const reviewerId = typeof body.reviewerId === "string" ? body.reviewerId.trim() : ""
+    if (!reviewerId) errors.push("reviewerId must be a non-empty string")
+    if (body.note !== undefined && typeof body.note !== "string") errors.push("note must be a string")
+
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid review", details: errors }, { status: 400 })
+    }
+
+    const outcome = await reviewAppeal(appealId, { status: body.status, reviewerId, note: body.note }, auth.studioId)
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    }
+    return NextResponse.json({ appeal: outcome.appeal })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to review appeal" }, { status: 500 })
+  }
+})
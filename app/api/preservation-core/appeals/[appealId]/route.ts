@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAppeal } from "@/lib/preservation-core-appeals"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/appeals/:appealId
+ *
+ * Returns one appeal including the content of its attached client logs.
+ */
+export const GET = withApiKey("read", async (_req: NextRequest, { params }: { params: Promise<{ appealId: string }> }, auth) => {
+  try {
+    const { appealId } = await params
+    const appeal = await getAppeal(appealId, auth.studioId)
+    if (!appeal) return NextResponse.json({ error: "Appeal not found" }, { status: 404 })
+    return NextResponse.json({ appeal })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to load appeal" }, { status: 500 })
+  }
+})
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isValidObjectId } from "mongoose"
+import { listOverturnedDecisions } from "@/lib/preservation-core-appeals"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/appeals/overturned
+ *
+ * Decisions overturned on appeal (appealId) or because the disconnect was part
+ * of a server outage (incidentId), oldest first. Game backends that don't use
+ * webhooks can poll this to refund rank points.
+ *
+ * Query parameters (optional):
+ *   since     - ISO 8601; only decisions overturned after this time (pass the last overturnedAt to page)
+ *   after     - decisionId of the last decision of the previous page (requires since); also returns the
+ *               later decisions overturned at exactly `since`
+ *   playerId  - one player's overturned decisions
+ *   limit     - max results (default 100, max 500)
+ */
+export const GET = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const sinceParam = searchParams.get("since")
+    const since = sinceParam ? new Date(sinceParam) : undefined
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json({ error: "since must be an ISO 8601 date" }, { status: 400 })
+    }
+    const after = (searchParams.get("after") || "").trim() || undefined
+    if (after && (!since || !isValidObjectId(after))) {
+      return NextResponse.json({ error: "after must be a decisionId and requires since" }, { status: 400 })
+    }
+    const decisions = await listOverturnedDecisions({
+      studioId: auth.studioId,
+      since,
+      after,
+      playerId: (searchParams.get("playerId") || "").trim() || undefined,
+      limit: Number(searchParams.get("limit") || 100),
+    })
+    return NextResponse.json({ decisions })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to load overturned decisions" }, { status: 500 })
+  }
+})
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  APPEAL_STATUSES,
+  MAX_APPEAL_MESSAGE_LENGTH,
+  fileAppeal,
+  listAppeals,
+  validateClientLogs,
+  type AppealStatus,
+} from "@/lib/preservation-core-appeals"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/appeals
+ *
+ * Lists the studio's appeals, newest first. Query parameters (optional): status, playerId, decisionId, limit.
+ */
+export const GET = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const status = searchParams.get("status") || undefined
+    if (status && !(APPEAL_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${APPEAL_STATUSES.join(", ")}` },
+        { status: 400 }
+      )
+    }
+    const appeals = await listAppeals({
+      studioId: auth.studioId,
+      status: status as AppealStatus | undefined,
+      playerId: (searchParams.get("playerId") || "").trim() || undefined,
+      decisionId: (searchParams.get("decisionId") || "").trim() || undefined,
+      limit: Number(searchParams.get("limit") || 50),
+    })
+    return NextResponse.json({ appeals })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to load appeals" }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/preservation-core/appeals
+ *
+ * Files an appeal against one of the studio's stored decisions that applied a loss.
+ *
+ * Request body:
+ * {
+ *   decisionId: string,                            // Required: from the classify response / audit log
+ *   message: string,                               // Required: player's explanation (max 4000 chars)
+ *   clientLogs?: { name: string, content: string }[]  // Optional: up to 5 text logs, 256KB each
+ * }
+ *
+ * 404 if the decision doesn't exist, 409 if it didn't apply a loss, was already
+ * overturned, or already has an open appeal.
+ */
+export const POST = withApiKey("classify", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const body = await req.json()
+    const errors: string[] = []
+
+    const decisionId = typeof body.decisionId === "string" ? body.decisionId.trim() : ""
+    if (!decisionId) errors.push("decisionId must be a non-empty string")
+    const message = typeof body.message === "string" ? body.message.trim() : ""
+    if (!message) errors.push("message must be a non-empty string")
+    else if (message.length > MAX_APPEAL_MESSAGE_LENGTH) {
+      errors.push(`message must be at most ${MAX_APPEAL_MESSAGE_LENGTH} characters`)
+    }
+    errors.push(...validateClientLogs(body.clientLogs))
+
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid appeal", details: errors }, { status: 400 })
+    }
+
+    const outcome = await fileAppeal({ studioId: auth.studioId, decisionId, message, clientLogs: body.clientLogs })
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    }
+    return NextResponse.json({ appeal: outcome.appeal }, { status: 201 })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to file appeal" }, { status: 500 })
+  }
+})
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server"
+import { classifyDisconnect, type ClassificationResult, type DisconnectSignals } from "@/lib/preservation-core"
+import { resolvePolicy } from "@/lib/preservation-core-policies"
+import { callerFromHeaders } from "@/lib/preservation-core-decisions"
+import { finalizeClassification } from "@/lib/preservation-core-service"
+import { applyTeamOutage, detectTeamOutages } from "@/lib/preservation-core-batch"
+import { batchEntrySchema, batchRequestSchema, formatSchemaIssues } from "@/lib/preservation-core-schema"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/classify/batch
+ *
+ * Classifies every disconnected player of a match in one request. Each entry is
+ * validated independently: invalid entries are reported per item and do not
+ * prevent the others from being classified.
+ *
+ * Request body:
+ * {
+ *   matchId?: string,                        // Shared: stored with every decision
+ *   policyId?: string,                       // Shared: classification policy for every entry
+ *   fairnessConfidence?: number,             // Shared: used for entries that omit it
+ *   teams?: { [teamId]: string[] },          // Shared: full team rosters (connected players included)
+ *   serverId?: string,                       // Shared: game server id, enables outage correlation
+ *   regionId?: string,                       // Shared: server region, reported on outage incidents and in analytics
+ *   players: [                               // 1 to 64 entries
+ *     { playerId: string, signals: DisconnectSignals, disconnectedAt?: number, platform?: string }
+ *   ]
+ * }
+ *
+ * Entries are only correlated with other drops on `serverId` when they carry
+ * `disconnectedAt` (epoch ms): batches are usually sent at the end of the match,
+ * so the request time says nothing about when each player dropped.
+ *
+ * If every rostered player of a team (2+ players) is classified as a network drop,
+ * the drop is treated as a shared outage (e.g. a failed server region): all of them
+ * are preserved and get a TEAM_WIDE_DISCONNECT reason.
+ *
+ * Shared fields and each entry are validated against the request schemas; an
+ * invalid shared field is a 400 listing every violation in `details`.
+ *
+ * Response (200, even when some entries fail):
+ * {
+ *   matchId?: string,
+ *   teamOutages: string[],
+ *   results: [
+ *     { playerId, ok: true, result: ClassificationResult & { decisionId? } } |
+ *     { playerId, ok: false, errors: string[] }
+ *   ]
+ * }
+ */
+export const POST = withApiKey("classify", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const body = await req.json().catch(() => undefined)
+
+    // Validate the shared match context; entries are validated one by one below
+    const parsed = batchRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: formatSchemaIssues(parsed.error) },
+        { status: 400 }
+      )
+    }
+    const { matchId, policyId, fairnessConfidence, teams = {}, serverId, regionId, players } = parsed.data
+
+    const policy = await resolvePolicy(policyId, auth.studioId)
+    if (!policy) {
+      return NextResponse.json(
+        { error: `Unknown policyId '${policyId}'` },
+        { status: 404 }
+      )
+    }
+    const caller = callerFromHeaders(req.headers, auth)
+
+    // Validate and classify each entry independently
+    const seen = new Set<string>()
+    const entries = players.map((raw: any, index: number) => {
+      // The shared fairnessConfidence applies to entries that omit it
+      const input =
+        raw?.signals && typeof raw.signals === "object" && fairnessConfidence !== undefined
+          ? { ...raw, signals: { fairnessConfidence, ...raw.signals } }
+          : raw
+      const parsedEntry = batchEntrySchema.safeParse(input)
+      const playerId = parsedEntry.success ? parsedEntry.data.playerId : typeof raw?.playerId === "string" ? raw.playerId.trim() : ""
+      const errors = parsedEntry.success ? [] : formatSchemaIssues(parsedEntry.error, "entry")
+      if (playerId && seen.has(playerId)) errors.push(`duplicate playerId '${playerId}'`)
+      if (playerId) seen.add(playerId)
+      if (!parsedEntry.success || errors.length) return { index, playerId, errors }
+
+      const entry = parsedEntry.data
+      const signals: DisconnectSignals = entry.signals
+      return {
+        index,
+        playerId,
+        signals,
+        disconnectedAt: entry.disconnectedAt,
+        platform: entry.platform,
+        result: classifyDisconnect(signals, policy),
+      }
+    })
+
+    // Team case: whole team dropped together → shared outage
+    const classified = new Map<string, ClassificationResult>()
+    for (const entry of entries) {
+      if (entry.result) classified.set(entry.playerId, entry.result)
+    }
+    const teamOutages = detectTeamOutages(teams, classified)
+    const outageTeamSize = new Map<string, number>()
+    for (const teamId of teamOutages) {
+      for (const playerId of teams[teamId]) outageTeamSize.set(playerId, teams[teamId].length)
+    }
+
+    const results = []
+    for (const entry of entries) {
+      if (!entry.result) {
+        results.push({ playerId: entry.playerId || null, ok: false, errors: entry.errors })
+        continue
+      }
+      const teamSize = outageTeamSize.get(entry.playerId)
+      const stored = await finalizeClassification({
+        signals: entry.signals,
+        result: teamSize ? applyTeamOutage(entry.result, teamSize) : entry.result,
+        policy,
+        caller,
+        playerId: entry.playerId,
+        matchId,
+        outage:
+          serverId && entry.disconnectedAt !== undefined
+            ? { serverId, regionId, disconnectedAt: new Date(entry.disconnectedAt) }
+            : undefined,
+        metadata: { regionId, platform: entry.platform },
+        skipOffenderCheck: teamSize !== undefined,
+      })
+      results.push({ playerId: entry.playerId, ok: true, result: stored })
+    }
+
+    return NextResponse.json({ matchId, teamOutages, results })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Internal server error" },
+      { status: 500 }
+    )
+  }
+})
@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from "next/server"
 import {
   classifyDisconnect,
-  validateNetworkSnapshot,
-  validateCompetitiveAdvantage,
-  validateFairnessConfidence,
+  REASON_CODES,
+  DISCONNECT_TYPES,
+  PENALTY_SEVERITIES,
   type DisconnectSignals,
-  type ClassificationResult,
 } from "@/lib/preservation-core"
+import { resolvePolicy } from "@/lib/preservation-core-policies"
+import { callerFromHeaders } from "@/lib/preservation-core-decisions"
+import { finalizeClassification } from "@/lib/preservation-core-service"
+import { createPendingDecision } from "@/lib/preservation-core-pending"
+import { classifyRequestSchema, describeSchema, formatSchemaIssues } from "@/lib/preservation-core-schema"
+import { withApiKey } from "@/lib/api-auth"
 
 export const runtime = "nodejs"
 
@@ -24,84 +29,157 @@ export const runtime = "nodejs"
  *     isConnected: boolean,
  *     timestamp?: number
  *   },
+ *   networkHistory?: NetworkSnapshot[],     // Optional: ordered snapshots leading up to the disconnect (oldest first)
  *   timeSinceLastPacket?: number,           // Optional: milliseconds since last packet
  *   timeoutThreshold?: number,              // Optional: timeout threshold in ms (default: 5000)
+ *   crash?: {                               // Optional: client crash signals (process died)
+ *     exitCode?: number,                    // Process exit code (non-zero = abnormal exit)
+ *     crashReporterId?: string,             // Crash report id from the client's crash reporter
+ *     timeSinceLastHeartbeat?: number       // ms since the client watchdog's last heartbeat
+ *   },
  *   competitiveAdvantage?: number,          // Optional: -1.0 to 1.0 (game-agnostic advantage signal)
- *   fairnessConfidence?: number             // Optional: 0.0 to 1.0 (match outcome certainty)
+ *   fairnessConfidence?: number,            // Optional: 0.0 to 1.0 (match outcome certainty)
+ *   policyId?: string,                      // Optional: registered classification policy (default: "default")
+ *   playerId?: string,                      // Optional: enables repeat-offender detection across matches
+ *   matchId?: string,                       // Optional: stored with the decision in the audit log
+ *   serverId?: string,                      // Optional: game server id, enables outage correlation (requires playerId)
+ *   regionId?: string,                      // Optional: server region, reported on outage incidents and in analytics
+ *   platform?: string,                      // Optional: client platform (e.g. "pc", "ps5"), used in analytics
+ *   disconnectedAt?: number,                // Optional: epoch ms of the disconnect (default: time of the request)
+ *   graceWindowMs?: number                  // Optional: reconnect grace window (requires playerId, max 120000)
  * }
+ *
+ * With `graceWindowMs`, a disconnect is not decided immediately: the response is
+ * 202 { pendingId, status: "pending", expiresAt, provisional: ClassificationResult }.
+ * POST /api/preservation-core/pending/:pendingId/reconnect inside the window
+ * records a `reconnected` outcome instead; otherwise the provisional result is
+ * finalized when the window expires.
+ *
+ * Every field is validated against `classifyRequestSchema`. A 400 response
+ * lists all violations with their JSON paths (or "body must be valid JSON"):
+ * { error: "Invalid request", details: ["networkHistory[3].latencyMs must be a number", ...] }
+ *
+ * Required header: Authorization: Bearer <API key with the classify scope>
+ * Optional header: x-caller-id (identifies the calling service in the audit log)
  * 
  * Response:
  * {
- *   type: "none" | "intentional_disconnect" | "unintentional_disconnect",
- *   lossApplied: boolean,
+ *   decisionId?: string,                    // Audit log id (absent if the decision could not be stored)
+ *   incidentId?: string,                    // Server outage incident the disconnect was correlated with
+ *   type: "none" | "intentional_disconnect" | "unintentional_disconnect" | "suspected_intentional" | "client_crash" | "reconnected",
+ *   lossApplied: boolean,                   // Kept for backward compatibility; see outcome
+ *   outcome: {                              // Graduated outcome from the policy's outcome rules
+ *     severity: "none" | "minor" | "standard" | "severe",
+ *     rankPointMultiplier: number,          // 0 = no gain no loss, 0.5 = halved loss, 1 = full loss
+ *     cooldownMinutes: number,              // Leaver-queue cooldown (0 = none)
+ *     teammateLossForgiveness: boolean
+ *   },
+ *   confidence: number,                     // 0.0 (borderline) to 1.0 (clear-cut)
+ *   reasons: [                              // Ordered: observed signals, then the deciding rule (last)
+ *     { code: string, value?: number, threshold?: number }
+ *   ],
+ *   offender?: {                            // Present when playerId was sent and the result was a network drop
+ *     networkDrops: number,
+ *     dropsWhileLosing: number,
+ *     pValue: number,
+ *     suspicious: boolean,
+ *     penalty?: { name: string, lossApplied: boolean, level: number }
+ *   },
  *   signals: {
  *     quitDetected: boolean,
  *     timeoutDetected: boolean,
  *     highPacketLoss: boolean,
  *     highLatency: boolean,
- *     hardDisconnect: boolean
+ *     hardDisconnect: boolean,
+ *     crashDetected: boolean,
+ *     trend?: {                              // Present when networkHistory was provided
+ *       samples: number,
+ *       sustainedDegradation: boolean,
+ *       highJitter: boolean,
+ *       lossBurst: boolean,
+ *       degradedSamples: number,
+ *       longestLossBurst: number,
+ *       jitterMs: number,
+ *       timeToFailureMs?: number
+ *     }
  *   }
  * }
  */
-export async function POST(req: NextRequest) {
+export const POST = withApiKey("classify", async (req: NextRequest, _ctx, auth) => {
   try {
-    const body = await req.json()
-
-    // Validate required fields
-    if (typeof body.quitAction !== "boolean") {
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
       return NextResponse.json(
-        { error: "Missing or invalid 'quitAction' field (must be boolean)" },
+        { error: "Invalid request", details: ["body must be valid JSON"] },
         { status: 400 }
       )
     }
 
-    // Validate network snapshot if provided
-    if (body.networkBeforeDisconnect) {
-      const validation = validateNetworkSnapshot(body.networkBeforeDisconnect)
-      if (!validation.valid) {
-        return NextResponse.json(
-          { error: "Invalid networkBeforeDisconnect", details: validation.errors },
-          { status: 400 }
-        )
-      }
+    // Validate every field against the request schema and report all violations
+    const parsed = classifyRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: formatSchemaIssues(parsed.error) },
+        { status: 400 }
+      )
     }
+    const {
+      policyId,
+      playerId,
+      matchId,
+      serverId,
+      regionId,
+      platform,
+      disconnectedAt: disconnectedAtMs,
+      graceWindowMs,
+      ...signals
+    } = parsed.data
 
-    // Validate competitive advantage if provided
-    if (body.competitiveAdvantage !== undefined) {
-      const validation = validateCompetitiveAdvantage(body.competitiveAdvantage)
-      if (!validation.valid) {
-        return NextResponse.json(
-          { error: validation.error },
-          { status: 400 }
-        )
-      }
+    // Resolve classification policy
+    const policy = await resolvePolicy(policyId, auth.studioId)
+    if (!policy) {
+      return NextResponse.json(
+        { error: `Unknown policyId '${policyId}'` },
+        { status: 404 }
+      )
     }
 
-    // Validate fairness confidence if provided
-    if (body.fairnessConfidence !== undefined) {
-      const validation = validateFairnessConfidence(body.fairnessConfidence)
-      if (!validation.valid) {
-        return NextResponse.json(
-          { error: validation.error },
-          { status: 400 }
-        )
-      }
-    }
+    const result = classifyDisconnect(signals, policy)
+    const caller = callerFromHeaders(req.headers, auth)
+    const disconnectedAt = new Date(disconnectedAtMs ?? Date.now())
 
-    // Build signals object
-    const signals: DisconnectSignals = {
-      quitAction: body.quitAction,
-      networkBeforeDisconnect: body.networkBeforeDisconnect,
-      timeSinceLastPacket: body.timeSinceLastPacket,
-      timeoutThreshold: body.timeoutThreshold,
-      competitiveAdvantage: body.competitiveAdvantage,
-      fairnessConfidence: body.fairnessConfidence,
+    // Grace mode: hold the decision until the player reconnects or the window expires
+    if (graceWindowMs !== undefined && playerId !== undefined && result.type !== "none") {
+      const pending = await createPendingDecision({
+        playerId,
+        matchId,
+        signals,
+        provisional: result,
+        policy,
+        caller,
+        graceWindowMs,
+        disconnectedAt,
+        outage: serverId ? { serverId, regionId } : undefined,
+        metadata: { regionId, platform },
+      })
+      return NextResponse.json(pending, { status: 202 })
     }
 
-    // Classify disconnect
-    const result = classifyDisconnect(signals)
+    // Classify disconnect, then run outage correlation and repeat-offender detection and record the decision
+    const stored = await finalizeClassification({
+      signals,
+      result,
+      policy,
+      caller,
+      playerId,
+      matchId,
+      outage: serverId ? { serverId, regionId, disconnectedAt } : undefined,
+      metadata: { regionId, platform },
+    })
 
-    return NextResponse.json(result)
+    return NextResponse.json(stored)
   } catch (err: any) {
     console.error("[PreservationCore API] Error:", err)
     return NextResponse.json(
@@ -109,66 +187,111 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
  * GET /api/preservation-core/classify
  * 
  * Returns API documentation and example usage.
+ * Pass `?policyId=` to report that policy's thresholds instead of the default policy.
+ * The endpoint is unauthenticated, so only policies without a studio resolve here.
  */
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const policyId = new URL(req.url).searchParams.get("policyId") || undefined
+  let policy
+  try {
+    policy = await resolvePolicy(policyId)
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Internal server error" },
+      { status: 500 }
+    )
+  }
+  if (!policy) {
+    return NextResponse.json(
+      { error: `Unknown policyId '${policyId}'` },
+      { status: 404 }
+    )
+  }
+
+  const exampleRequest: DisconnectSignals = {
+    quitAction: false,
+    networkBeforeDisconnect: {
+      latencyMs: 1200,
+      packetLossRate: 0.4,
+      isConnected: false,
+    },
+    timeSinceLastPacket: 6000,
+    competitiveAdvantage: 0.7, // Player was winning
+    fairnessConfidence: 0.6, // Match somewhat uncertain
+  }
+
   return NextResponse.json({
     name: "Preservation Core Classification API",
     version: "1.0.0",
     description: "Classifies disconnects as intentional or unintentional, and determines if a loss should be applied.",
     endpoint: "/api/preservation-core/classify",
     method: "POST",
-    request: {
-      quitAction: {
+    authentication: "Authorization: Bearer <API key with the classify scope>. 429 with Retry-After when the key's per-minute rate limit is exceeded.",
+    // Generated from the same schema the POST handler validates against
+    request: describeSchema(classifyRequestSchema),
+    response: {
+      decisionId: {
+        type: "string",
+        description: "Audit log id of the stored decision (absent if it could not be stored). Fetch via GET /api/preservation-core/decisions/:decisionId.",
+      },
+      incidentId: {
+        type: "string",
+        description: "Server outage incident the disconnect was correlated with (the result is preserved with a SERVER_OUTAGE reason). Fetch via GET /api/preservation-core/incidents/:incidentId.",
+      },
+      type: {
+        enum: DISCONNECT_TYPES,
+        description: "Type of disconnect detected. suspected_intentional is a network drop escalated by repeat-offender detection; client_crash is a client process failure handled by the policy's crash outcome; reconnected is a drop the player recovered from within the grace window.",
+      },
+      lossApplied: {
         type: "boolean",
-        required: true,
-        description: "True if user explicitly quit (Alt+F4, quit button, etc.)",
+        description: "Whether a loss should be applied to the player. Kept for backward compatibility; ranked systems with partial outcomes should use outcome.",
       },
-      networkBeforeDisconnect: {
+      outcome: {
         type: "object",
-        required: false,
-        description: "Network state before disconnect occurred",
+        description: "Graduated outcome: the first of the policy's outcome rules matching the type, loss decision and contextual signals. Without a match, a loss is a full loss and anything else is no penalty.",
         properties: {
-          latencyMs: { type: "number", description: "Latency in milliseconds" },
-          packetLossRate: { type: "number", description: "Packet loss rate (0.0 to 1.0)" },
-          isConnected: { type: "boolean", description: "Whether connection was active" },
-          timestamp: { type: "number", description: "Optional: timestamp when snapshot was taken" },
+          severity: { enum: PENALTY_SEVERITIES },
+          rankPointMultiplier: { type: "number", description: "Share of the rank points a loss normally costs: 0 = no gain no loss, 0.5 = halved loss, 1 = full loss" },
+          cooldownMinutes: { type: "number", description: "Leaver-queue cooldown before the player can queue again (0 = none)" },
+          teammateLossForgiveness: { type: "boolean", description: "Whether the teammates left behind are forgiven a loss in this match" },
         },
       },
-      timeSinceLastPacket: {
+      confidence: {
         type: "number",
-        required: false,
-        description: "Milliseconds since last successful packet/acknowledgment",
+        description: "Confidence in the decision (0.0 = borderline call, 1.0 = clear-cut). Measurements just over a threshold lower it; several strong signals raise it.",
       },
-      timeoutThreshold: {
-        type: "number",
-        required: false,
-        description: "Timeout threshold in milliseconds (default: 5000)",
-      },
-      competitiveAdvantage: {
-        type: "number",
-        required: false,
-        description: "Game-agnostic competitive advantage signal (-1.0 to 1.0). -1.0 = losing, 0.0 = neutral, 1.0 = winning. Studio-defined based on game metrics (points, kills, rounds, health, etc.).",
-      },
-      fairnessConfidence: {
-        type: "number",
-        required: false,
-        description: "Game-agnostic fairness confidence signal (0.0 to 1.0). 0.0 = match outcome highly uncertain, 1.0 = match outcome likely settled. Studio-defined based on match state.",
-      },
-    },
-    response: {
-      type: {
-        enum: ["none", "intentional_disconnect", "unintentional_disconnect"],
-        description: "Type of disconnect detected",
+      reasons: {
+        type: "array",
+        description: "Ordered machine-readable reasons: observed signals in evaluation order, followed by the rule that decided the outcome (always last).",
+        items: {
+          code: {
+            enum: REASON_CODES,
+          },
+          value: { type: "number", description: "Measured value, if the reason is threshold-based" },
+          threshold: { type: "number", description: "Policy threshold the value was compared against" },
+        },
       },
-      lossApplied: {
-        type: "boolean",
-        description: "Whether a loss should be applied to the player",
+      offender: {
+        type: "object",
+        description: "Repeat-offender assessment (present when playerId was sent and the disconnect was a network drop)",
+        properties: {
+          networkDrops: { type: "number", description: "Network drops with a known competitiveAdvantage, including this one" },
+          dropsWhileLosing: { type: "number" },
+          pValue: { type: "number", description: "Probability of this many losing drops by chance" },
+          suspicious: { type: "boolean" },
+          penalty: {
+            type: "object",
+            description: "Penalty ladder step applied when suspicious",
+            properties: { name: { type: "string" }, lossApplied: { type: "boolean" }, level: { type: "number" } },
+          },
+        },
       },
       signals: {
         type: "object",
@@ -179,39 +302,45 @@ export async function GET() {
           highPacketLoss: { type: "boolean" },
           highLatency: { type: "boolean" },
           hardDisconnect: { type: "boolean" },
+          crashDetected: { type: "boolean" },
           competitiveAdvantageUsed: { type: "boolean" },
           fairnessConfidenceUsed: { type: "boolean" },
+          trend: {
+            type: "object",
+            description: "Trend features computed from networkHistory (only present when history was provided)",
+            properties: {
+              samples: { type: "number" },
+              sustainedDegradation: { type: "boolean", description: `Last ${policy.trend.sustainedSamples}+ snapshots were degraded` },
+              highJitter: { type: "boolean", description: `Mean latency change between snapshots >= ${policy.trend.jitterMs}ms` },
+              lossBurst: { type: "boolean", description: `${policy.trend.lossBurstSamples}+ consecutive snapshots with high packet loss` },
+              degradedSamples: { type: "number", description: "Length of the trailing run of degraded snapshots" },
+              longestLossBurst: { type: "number", description: "Longest run of consecutive high-loss snapshots" },
+              jitterMs: { type: "number" },
+              timeToFailureMs: { type: "number", description: "Time from the start of the trailing degraded run to the last snapshot" },
+            },
+          },
         },
       },
     },
     example: {
-      request: {
-        quitAction: false,
-        networkBeforeDisconnect: {
-          latencyMs: 1200,
-          packetLossRate: 0.4,
-          isConnected: false,
-        },
-        timeSinceLastPacket: 6000,
-        competitiveAdvantage: 0.7, // Player was winning
-        fairnessConfidence: 0.6, // Match somewhat uncertain
-      },
-      response: {
-        type: "unintentional_disconnect",
-        lossApplied: false,
-        signals: {
-          quitDetected: false,
-          timeoutDetected: true,
-          highPacketLoss: true,
-          highLatency: true,
-          hardDisconnect: true,
-        },
-      },
+      request: exampleRequest,
+      response: classifyDisconnect(exampleRequest, policy),
+    },
+    policy: {
+      id: policy.id,
+      name: policy.name,
+      version: policy.version,
+      contextual: policy.contextual,
+      trend: policy.trend,
+      offender: policy.offender,
+      crash: policy.crash,
+      defaultOutcome: policy.defaultOutcome,
+      outcomes: policy.outcomes,
     },
     thresholds: {
-      HIGH_PACKET_LOSS: 0.25,
-      HIGH_LATENCY_MS: 800,
-      TIMEOUT_MS: 5000,
+      HIGH_PACKET_LOSS: policy.thresholds.highPacketLoss,
+      HIGH_LATENCY_MS: policy.thresholds.highLatencyMs,
+      TIMEOUT_MS: policy.thresholds.timeoutMs,
     },
   })
 }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getDecision } from "@/lib/preservation-core-decisions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/decisions/:decisionId
+ *
+ * Returns a single stored decision with its input signals, result and policy version.
+ */
+export const GET = withApiKey("read", async (_req: NextRequest, { params }: { params: Promise<{ decisionId: string }> }, auth) => {
+  try {
+    const { decisionId } = await params
+    const decision = await getDecision(decisionId, auth.studioId)
+    if (!decision) {
+      return NextResponse.json({ error: "Decision not found" }, { status: 404 })
+    }
+    return NextResponse.json({ decision })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load decision" },
+      { status: 500 }
+    )
+  }
+})
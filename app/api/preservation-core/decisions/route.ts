@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { DISCONNECT_TYPES, type DisconnectType } from "@/lib/preservation-core"
+import { MAX_DECISION_QUERY_LIMIT, parseRangeEnd, queryDecisions } from "@/lib/preservation-core-decisions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/decisions
+ *
+ * Queries the studio's decision audit log, newest first.
+ *
+ * Query parameters (all optional):
+ *   playerId   - decisions for one player
+ *   matchId    - decisions for one match
+ *   incidentId - decisions correlated with one server outage incident
+ *   type       - none | intentional_disconnect | unintentional_disconnect | suspected_intentional | client_crash | reconnected
+ *   from, to   - ISO 8601 date range (inclusive) on the decision time; a date-only `to` includes that whole day (UTC)
+ *   limit      - max results (default 50, max 200)
+ */
+export const GET = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const playerId = (searchParams.get("playerId") || "").trim() || undefined
+    const matchId = (searchParams.get("matchId") || "").trim() || undefined
+    const incidentId = (searchParams.get("incidentId") || "").trim() || undefined
+    const type = searchParams.get("type") || undefined
+    const fromParam = searchParams.get("from")
+    const toParam = searchParams.get("to")
+    const limitParam = searchParams.get("limit")
+
+    const errors: string[] = []
+    if (type && !(DISCONNECT_TYPES as readonly string[]).includes(type)) {
+      errors.push(`type must be one of: ${DISCONNECT_TYPES.join(", ")}`)
+    }
+    const from = fromParam ? new Date(fromParam) : undefined
+    const to = toParam ? parseRangeEnd(toParam) : undefined
+    if (from && isNaN(from.getTime())) errors.push("from must be an ISO 8601 date")
+    if (to && isNaN(to.getTime())) errors.push("to must be an ISO 8601 date")
+    const limit = limitParam ? Number(limitParam) : undefined
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= MAX_DECISION_QUERY_LIMIT)) {
+      errors.push(`limit must be an integer between 1 and ${MAX_DECISION_QUERY_LIMIT}`)
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid query", details: errors }, { status: 400 })
+    }
+
+    const decisions = await queryDecisions({
+      studioId: auth.studioId,
+      playerId,
+      matchId,
+      incidentId,
+      type: type as DisconnectType | undefined,
+      from,
+      to,
+      limit,
+    })
+    return NextResponse.json({ decisions })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load decisions" },
+      { status: 500 }
+    )
+  }
+})
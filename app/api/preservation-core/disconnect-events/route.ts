@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ingestDisconnectEvent, type OutageIncidentInfo } from "@/lib/preservation-core-outages"
+import { resolvePolicy } from "@/lib/preservation-core-policies"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/** Maximum number of events accepted in one request */
+const MAX_EVENTS = 256
+
+/**
+ * POST /api/preservation-core/disconnect-events
+ *
+ * Ingests raw disconnect events from game server hosts for outage correlation.
+ * Hosts usually see a mass disconnect before the game server classifies each
+ * player; reporting the drops here lets the classify endpoint recognise the
+ * outage (and overturns losses already applied to players caught in it).
+ *
+ * Request body:
+ * {
+ *   policyId?: string,         // Policy whose outage settings (minPlayers, windowMs) apply (default: "default")
+ *   events: [                  // 1 to 256 events
+ *     {
+ *       playerId: string,
+ *       serverId: string,
+ *       occurredAt: number,    // epoch ms of the disconnect
+ *       matchId?: string,
+ *       regionId?: string
+ *     }
+ *   ]
+ * }
+ *
+ * Response: { ingested: number, incidents: OutageIncidentInfo[] }
+ * `incidents` lists the outage incidents the events were correlated with.
+ */
+export const POST = withApiKey("classify", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const body = await req.json()
+
+    if (!Array.isArray(body.events) || body.events.length === 0 || body.events.length > MAX_EVENTS) {
+      return NextResponse.json(
+        { error: `Missing or invalid 'events' field (must be an array of 1 to ${MAX_EVENTS} events)` },
+        { status: 400 }
+      )
+    }
+
+    const errors: string[] = []
+    body.events.forEach((event: any, i: number) => {
+      for (const field of ["playerId", "serverId"]) {
+        if (typeof event?.[field] !== "string" || !event[field].trim()) {
+          errors.push(`events[${i}].${field} must be a non-empty string`)
+        }
+      }
+      for (const field of ["matchId", "regionId"]) {
+        if (event?.[field] !== undefined && (typeof event[field] !== "string" || !event[field].trim())) {
+          errors.push(`events[${i}].${field} must be a non-empty string`)
+        }
+      }
+      if (!(Number.isFinite(event?.occurredAt) && event.occurredAt >= 0)) {
+        errors.push(`events[${i}].occurredAt must be epoch milliseconds`)
+      }
+    })
+    if (body.policyId !== undefined && (typeof body.policyId !== "string" || !body.policyId.trim())) {
+      errors.push("policyId must be a non-empty string")
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid events", details: errors }, { status: 400 })
+    }
+
+    const policy = await resolvePolicy(body.policyId?.trim(), auth.studioId)
+    if (!policy) {
+      return NextResponse.json({ error: `Unknown policyId '${body.policyId}'` }, { status: 404 })
+    }
+
+    // Ingest in time order so each cluster grows the way it happened
+    const events = [...body.events].sort((a: any, b: any) => a.occurredAt - b.occurredAt)
+    const incidents = new Map<string, OutageIncidentInfo>()
+    for (const event of events) {
+      const { incident } = await ingestDisconnectEvent(
+        {
+          studioId: auth.studioId,
+          playerId: event.playerId.trim(),
+          matchId: event.matchId?.trim(),
+          serverId: event.serverId.trim(),
+          regionId: event.regionId?.trim(),
+          occurredAt: new Date(event.occurredAt),
+        },
+        policy.outage
+      )
+      if (incident) incidents.set(incident.incidentId, incident)
+    }
+
+    return NextResponse.json({ ingested: events.length, incidents: [...incidents.values()] })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to ingest disconnect events" },
+      { status: 500 }
+    )
+  }
+})
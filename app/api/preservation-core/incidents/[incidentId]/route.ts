@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getIncident } from "@/lib/preservation-core-outages"
+import { MAX_DECISION_QUERY_LIMIT, queryDecisions } from "@/lib/preservation-core-decisions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/incidents/:incidentId
+ *
+ * Returns a single outage incident with the decisions correlated with it.
+ */
+export const GET = withApiKey("read", async (_req: NextRequest, { params }: { params: Promise<{ incidentId: string }> }, auth) => {
+  try {
+    const { incidentId } = await params
+    const incident = await getIncident(incidentId, auth.studioId)
+    if (!incident) {
+      return NextResponse.json({ error: "Incident not found" }, { status: 404 })
+    }
+    const decisions = await queryDecisions({ studioId: auth.studioId, incidentId, limit: MAX_DECISION_QUERY_LIMIT })
+    return NextResponse.json({ incident, decisions })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load incident" },
+      { status: 500 }
+    )
+  }
+})
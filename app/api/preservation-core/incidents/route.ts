@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { MAX_INCIDENT_QUERY_LIMIT, listIncidents } from "@/lib/preservation-core-outages"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/incidents
+ *
+ * Server outage incidents (clustered mass disconnects), newest first. Every
+ * player in an incident is preserved.
+ *
+ * Query parameters (all optional):
+ *   serverId  - incidents on one game server
+ *   regionId  - incidents in one region
+ *   from, to  - ISO 8601 date range (inclusive) on the incident start
+ *   limit     - max results (default 50, max 200)
+ */
+export const GET = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const serverId = (searchParams.get("serverId") || "").trim() || undefined
+    const regionId = (searchParams.get("regionId") || "").trim() || undefined
+    const fromParam = searchParams.get("from")
+    const toParam = searchParams.get("to")
+    const limitParam = searchParams.get("limit")
+
+    const errors: string[] = []
+    const from = fromParam ? new Date(fromParam) : undefined
+    const to = toParam ? new Date(toParam) : undefined
+    if (from && isNaN(from.getTime())) errors.push("from must be an ISO 8601 date")
+    if (to && isNaN(to.getTime())) errors.push("to must be an ISO 8601 date")
+    const limit = limitParam ? Number(limitParam) : undefined
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= MAX_INCIDENT_QUERY_LIMIT)) {
+      errors.push(`limit must be an integer between 1 and ${MAX_INCIDENT_QUERY_LIMIT}`)
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid query", details: errors }, { status: 400 })
+    }
+
+    const incidents = await listIncidents({ studioId: auth.studioId, serverId, regionId, from, to, limit })
+    return NextResponse.json({ incidents })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load incidents" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { reconnectPendingDecision } from "@/lib/preservation-core-pending"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/pending/:pendingId/reconnect
+ *
+ * Reports that the player is back in the match. Inside the grace window the
+ * pending decision is cancelled and a `reconnected` outcome (no loss) is
+ * recorded; after it, 409. The window is checked against the time this
+ * request arrives, whatever `at` says.
+ *
+ * Request body (optional):
+ * {
+ *   at?: number   // epoch ms of the reconnect, between the disconnect and now (default: time of the request)
+ * }
+ */
+export const POST = withApiKey("classify", async (req: NextRequest, { params }: { params: Promise<{ pendingId: string }> }, auth) => {
+  try {
+    const { pendingId } = await params
+    const body = await req.json().catch(() => ({}))
+
+    if (body.at !== undefined && !(typeof body.at === "number" && Number.isFinite(body.at) && body.at >= 0)) {
+      return NextResponse.json(
+        { error: "Invalid 'at' field (must be epoch milliseconds)" },
+        { status: 400 }
+      )
+    }
+
+    const outcome = await reconnectPendingDecision(pendingId, body.at, auth.studioId)
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    }
+    return NextResponse.json({ pending: outcome.pending })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to record reconnect" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getPendingDecision } from "@/lib/preservation-core-pending"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/pending/:pendingId
+ *
+ * Returns a single pending decision. Once resolved it carries the final
+ * result and the audit log decisionId.
+ */
+export const GET = withApiKey("read", async (_req: NextRequest, { params }: { params: Promise<{ pendingId: string }> }, auth) => {
+  try {
+    const { pendingId } = await params
+    const pending = await getPendingDecision(pendingId, auth.studioId)
+    if (!pending) {
+      return NextResponse.json({ error: "Pending decision not found" }, { status: 404 })
+    }
+    return NextResponse.json({ pending })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load pending decision" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  MAX_PENDING_QUERY_LIMIT,
+  PENDING_STATUSES,
+  listPendingDecisions,
+  type PendingStatus,
+} from "@/lib/preservation-core-pending"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/pending
+ *
+ * Pending decisions created in grace mode, newest first.
+ *
+ * Query parameters (all optional):
+ *   playerId  - pending decisions for one player
+ *   matchId   - pending decisions for one match
+ *   status    - pending | reconnected | finalized
+ *   limit     - max results (default 50, max 200)
+ */
+export const GET = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const playerId = (searchParams.get("playerId") || "").trim() || undefined
+    const matchId = (searchParams.get("matchId") || "").trim() || undefined
+    const status = searchParams.get("status") || undefined
+    const limitParam = searchParams.get("limit")
+
+    const errors: string[] = []
+    if (status && !(PENDING_STATUSES as readonly string[]).includes(status)) {
+      errors.push(`status must be one of: ${PENDING_STATUSES.join(", ")}`)
+    }
+    const limit = limitParam ? Number(limitParam) : undefined
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= MAX_PENDING_QUERY_LIMIT)) {
+      errors.push(`limit must be an integer between 1 and ${MAX_PENDING_QUERY_LIMIT}`)
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid query", details: errors }, { status: 400 })
+    }
+
+    const pending = await listPendingDecisions({ studioId: auth.studioId, playerId, matchId, status: status as PendingStatus | undefined, limit })
+    return NextResponse.json({ pending })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load pending decisions" },
+      { status: 500 }
+    )
+  }
+})
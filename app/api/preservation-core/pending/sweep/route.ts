@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { finalizeExpiredPendingDecisions } from "@/lib/preservation-core-pending"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/pending/sweep
+ *
+ * Finalizes every pending decision of the studio whose grace window has
+ * expired (with the platform admin key: of every studio). The server already
+ * sweeps every 30 seconds; this finalizes them right away.
+ */
+export const POST = withApiKey("admin", async (_req, _ctx, auth) => {
+  try {
+    const finalized = await finalizeExpiredPendingDecisions(auth.studioId)
+    return NextResponse.json({ ok: true, finalized })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ ok: false, error: err.message || "Sweep failed" }, { status: 500 })
+  }
+})
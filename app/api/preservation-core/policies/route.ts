@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server"
+import { DEFAULT_POLICY, validatePolicy } from "@/lib/preservation-core"
+import { buildPolicy, listPolicies, registerPolicy } from "@/lib/preservation-core-policies"
+import { formatSchemaIssues, policyInputSchema } from "@/lib/preservation-core-schema"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/policies
+ *
+ * Lists the default policy and the calling studio's registered policies.
+ */
+export const GET = withApiKey("read", async (_req, _ctx, auth) => {
+  try {
+    const policies = await listPolicies(auth.studioId)
+    return NextResponse.json({ policies })
+  } catch (err: any) {
+    // DB unavailable: the default policy is still usable
+    console.error("[PreservationCore API] Failed to list policies:", err)
+    return NextResponse.json({ policies: [DEFAULT_POLICY] })
+  }
+})
+
+/**
+ * POST /api/preservation-core/policies
+ *
+ * Registers a named classification policy that the studio's classify requests can reference by `policyId`.
+ * Omitted thresholds / cut-offs fall back to the default policy values. Policy ids are per studio.
+ *
+ * Request body:
+ * {
+ *   id: string,                              // Required: policyId used by classify requests
+ *   name: string,                            // Required: human-readable name
+ *   thresholds?: {
+ *     highPacketLoss?: number,               // 0.0 to 1.0 (default: 0.25)
+ *     highLatencyMs?: number,                // default: 800
+ *     timeoutMs?: number                     // default: 5000
+ *   },
+ *   contextual?: {
+ *     winningAdvantage?: number,             // default: 0.3
+ *     losingAdvantage?: number,              // default: -0.3
+ *     settledConfidence?: number,            // default: 0.8
+ *     uncertainConfidence?: number           // default: 0.3
+ *   },
+ *   trend?: {
+ *     sustainedSamples?: number,             // default: 3
+ *     jitterMs?: number,                     // default: 150
+ *     lossBurstSamples?: number              // default: 2
+ *   },
+ *   offender?: {
+ *     minNetworkDrops?: number,              // default: 5
+ *     baselineLosingRate?: number,           // default: 0.4
+ *     significance?: number,                 // default: 0.01
+ *     penaltyLadder?: { name: string, lossApplied: boolean }[]  // default: warning → loss → loss_and_review
+ *   },
+ *   crash?: {
+ *     outcome?: "preserve" | "apply_loss",  // default: "preserve"
+ *     heartbeatTimeoutMs?: number            // default: 3000
+ *   },
+ *   outage?: {
+ *     minPlayers?: number,                   // Distinct players dropping from one server that make an outage (default: 8)
+ *     windowMs?: number                      // Max gap between drops in one cluster, up to 30000 (default: 2000)
+ *   },
+ *   defaultOutcome?: "preserve" | "apply_loss", // default: "preserve"
+ *   outcomes?: [                             // Graduated outcomes, first match wins (default: the default policy's rules)
+ *     {
+ *       type: DisconnectType,
+ *       lossApplied?: boolean,               // Only decisions that applied / did not apply a loss
+ *       advantage?: "winning" | "even" | "losing",   // competitiveAdvantage band (contextual cut-offs)
+ *       match?: "uncertain" | "open" | "settled",    // fairnessConfidence band (contextual cut-offs)
+ *       outcome: {
+ *         severity: "none" | "minor" | "standard" | "severe",
+ *         rankPointMultiplier: number,       // 0 to 3
+ *         cooldownMinutes: number,           // 0 to 10080
+ *         teammateLossForgiveness: boolean
+ *       }
+ *     }
+ *   ]
+ * }
+ */
+export const POST = withApiKey("admin", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const body = await req.json()
+    const parsed = policyInputSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid policy", details: formatSchemaIssues(parsed.error) },
+        { status: 400 }
+      )
+    }
+    const policy = buildPolicy(parsed.data)
+
+    if (policy.id === DEFAULT_POLICY.id) {
+      return NextResponse.json(
+        { error: `Policy id '${DEFAULT_POLICY.id}' is reserved` },
+        { status: 400 }
+      )
+    }
+
+    const validation = validatePolicy(policy)
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: "Invalid policy", details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const saved = await registerPolicy(policy, auth.studioId)
+    return NextResponse.json({ policy: saved })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Internal server error" },
+      { status: 500 }
+    )
+  }
+})
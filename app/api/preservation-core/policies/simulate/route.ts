@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { validatePolicy } from "@/lib/preservation-core"
+import { resolvePolicy } from "@/lib/preservation-core-policies"
+import {
+  DEFAULT_EXAMPLES_PER_TRANSITION,
+  MAX_EXAMPLES_PER_TRANSITION,
+  MAX_SIMULATION_CASES,
+  MAX_STORED_CORPUS,
+  derivePolicy,
+  loadStoredCorpus,
+  parseCorpus,
+  simulatePolicies,
+  type SimulationCase,
+} from "@/lib/preservation-core-simulator"
+import { formatSchemaIssues, policyOverridesSchema } from "@/lib/preservation-core-schema"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/policies/simulate
+ *
+ * Replays a corpus of disconnects through the baseline policy and a candidate
+ * policy and reports which outcomes would change. Nothing is stored. Policy ids
+ * resolve among the calling studio's policies.
+ *
+ * Request body:
+ * {
+ *   baselinePolicyId?: string,               // Policy in use (default: "default")
+ *   candidatePolicyId?: string,              // Registered policy to compare against, or:
+ *   candidate?: {                            // Overrides applied to the baseline (same shape as POST /policies)
+ *     thresholds?: {...}, contextual?: {...}, trend?: {...}, offender?: {...}, crash?: {...}, outage?: {...},
+ *     defaultOutcome?: "preserve" | "apply_loss"
+ *   },
+ *   jsonl?: string,                          // Uploaded corpus: one DisconnectSignals (or { decisionId?, playerId?, signals }) per line, or:
+ *   stored?: {                               // Replay stored decisions (only your studio's)
+ *     from?: string,                         // ISO 8601
+ *     to?: string,                           // ISO 8601
+ *     policyId?: string,                     // Only decisions made under this policy
+ *     limit?: number                         // default / max: 5000, newest first
+ *   },
+ *   examplesPerTransition?: number           // 0 to 50 (default: 5)
+ * }
+ *
+ * Response: SimulationReport
+ * {
+ *   cases, baselinePolicy, candidatePolicy,
+ *   totals: { baseline: { no_disconnect, preserved, penalized }, candidate: {...} },
+ *   matrix: { [baselineOutcome]: { [candidateOutcome]: number } },
+ *   typeMatrix: { [baselineType]: { [candidateType]: number } },
+ *   changed, preservedToPenalized, penalizedToPreserved,
+ *   examples: [{ caseId, playerId?, from, to, baseline, candidate, signals }]
+ * }
+ */
+export const POST = withApiKey("read", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const body = await req.json()
+    const details: string[] = []
+
+    for (const field of ["baselinePolicyId", "candidatePolicyId"]) {
+      if (body[field] !== undefined && (typeof body[field] !== "string" || !body[field].trim())) {
+        details.push(`${field} must be a non-empty string`)
+      }
+    }
+    if ((body.candidatePolicyId === undefined) === (body.candidate === undefined)) {
+      details.push("exactly one of candidatePolicyId or candidate is required")
+    } else if (body.candidate !== undefined) {
+      // Parsed as a field so issues are reported as "candidate.<path> ..."
+      const parsed = z.object({ candidate: policyOverridesSchema }).safeParse(body)
+      if (!parsed.success) details.push(...formatSchemaIssues(parsed.error))
+    }
+    if ((body.jsonl === undefined) === (body.stored === undefined)) {
+      details.push("exactly one of jsonl or stored is required")
+    } else if (body.jsonl !== undefined && typeof body.jsonl !== "string") {
+      details.push("jsonl must be a string")
+    } else if (body.stored !== undefined && (typeof body.stored !== "object" || body.stored === null || Array.isArray(body.stored))) {
+      details.push("stored must be an object")
+    }
+
+    const stored = body.stored || {}
+    const from = stored.from !== undefined ? new Date(stored.from) : undefined
+    const to = stored.to !== undefined ? new Date(stored.to) : undefined
+    if (from && isNaN(from.getTime())) details.push("stored.from must be an ISO 8601 date")
+    if (to && isNaN(to.getTime())) details.push("stored.to must be an ISO 8601 date")
+    if (stored.policyId !== undefined && (typeof stored.policyId !== "string" || !stored.policyId.trim())) {
+      details.push("stored.policyId must be a non-empty string")
+    }
+    if (stored.limit !== undefined && !(Number.isInteger(stored.limit) && stored.limit >= 1 && stored.limit <= MAX_STORED_CORPUS)) {
+      details.push(`stored.limit must be an integer between 1 and ${MAX_STORED_CORPUS}`)
+    }
+
+    const examples = body.examplesPerTransition ?? DEFAULT_EXAMPLES_PER_TRANSITION
+    if (!(Number.isInteger(examples) && examples >= 0 && examples <= MAX_EXAMPLES_PER_TRANSITION)) {
+      details.push(`examplesPerTransition must be an integer between 0 and ${MAX_EXAMPLES_PER_TRANSITION}`)
+    }
+
+    if (details.length) {
+      return NextResponse.json({ error: "Invalid request", details }, { status: 400 })
+    }
+
+    const baseline = await resolvePolicy(body.baselinePolicyId, auth.studioId)
+    if (!baseline) {
+      return NextResponse.json(
+        { error: `Unknown policyId '${body.baselinePolicyId}'` },
+        { status: 404 }
+      )
+    }
+
+    let candidate
+    if (body.candidatePolicyId !== undefined) {
+      candidate = await resolvePolicy(body.candidatePolicyId, auth.studioId)
+      if (!candidate) {
+        return NextResponse.json(
+          { error: `Unknown policyId '${body.candidatePolicyId}'` },
+          { status: 404 }
+        )
+      }
+    } else {
+      candidate = derivePolicy(baseline, policyOverridesSchema.parse(body.candidate))
+      const validation = validatePolicy(candidate)
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: "Invalid candidate policy", details: validation.errors },
+          { status: 400 }
+        )
+      }
+    }
+
+    let cases: SimulationCase[]
+    if (body.jsonl !== undefined) {
+      const corpus = parseCorpus(body.jsonl)
+      if (corpus.errors.length) {
+        return NextResponse.json(
+          { error: "Invalid corpus", details: corpus.errors.slice(0, 100) },
+          { status: 400 }
+        )
+      }
+      if (corpus.cases.length > MAX_SIMULATION_CASES) {
+        return NextResponse.json(
+          { error: `Corpus too large (max ${MAX_SIMULATION_CASES} lines)` },
+          { status: 400 }
+        )
+      }
+      cases = corpus.cases
+    } else {
+      cases = await loadStoredCorpus({
+        from,
+        to,
+        policyId: stored.policyId?.trim(),
+        studioId: auth.studioId,
+        limit: stored.limit,
+      })
+    }
+
+    if (cases.length === 0) {
+      return NextResponse.json({ error: "Corpus is empty" }, { status: 400 })
+    }
+
+    return NextResponse.json(simulatePolicies(cases, baseline, candidate, examples))
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Internal server error" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { closeSession } from "@/lib/preservation-core-sessions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/sessions/:sessionId/close
+ *
+ * Closes a session when the match ends. Later heartbeats and disconnect
+ * reports are rejected with 409.
+ */
+export const POST = withApiKey("classify", async (_req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }, auth) => {
+  try {
+    const { sessionId } = await params
+    const outcome = await closeSession(sessionId, auth.studioId)
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    }
+    return NextResponse.json({ session: outcome.value })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to close session" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { callerFromHeaders } from "@/lib/preservation-core-decisions"
+import { formatSchemaIssues, sessionDisconnectSchema } from "@/lib/preservation-core-schema"
+import { reportDisconnect } from "@/lib/preservation-core-sessions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/sessions/:sessionId/disconnect
+ *
+ * Reports a player's disconnect and classifies it from the session timeline.
+ * `networkHistory` comes from the player's heartbeats, `timeSinceLastPacket`
+ * from their last connected heartbeat, and `competitiveAdvantage` from the
+ * last scoreboard sent at or before the disconnect.
+ *
+ * Request body:
+ * {
+ *   playerId: string,                 // Required
+ *   quitAction: boolean,              // Required: true if the player explicitly quit
+ *   at?: number,                      // Optional: epoch ms of the disconnect (default: time of the request)
+ *   crash?: CrashSignals,             // Optional: client crash signals
+ *   competitiveAdvantage?: number,    // Optional: overrides the value computed from the scoreboard
+ *   fairnessConfidence?: number       // Optional: 0.0 to 1.0
+ * }
+ *
+ * Response: same as POST /api/preservation-core/classify
+ * 404 if the session doesn't exist, 409 if it is closed or the player was already reported.
+ */
+export const POST = withApiKey("classify", async (req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }, auth) => {
+  try {
+    const { sessionId } = await params
+    const body = await req.json().catch(() => undefined)
+
+    const parsed = sessionDisconnectSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid disconnect report", details: formatSchemaIssues(parsed.error) }, { status: 400 })
+    }
+
+    const outcome = await reportDisconnect(sessionId, parsed.data, callerFromHeaders(req.headers, auth))
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    }
+    return NextResponse.json(outcome.value)
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to classify disconnect" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { heartbeatSchema, formatSchemaIssues } from "@/lib/preservation-core-schema"
+import { recordHeartbeat } from "@/lib/preservation-core-sessions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/sessions/:sessionId/heartbeats
+ *
+ * Records a heartbeat for an active session. Send one every second or so.
+ *
+ * Request body:
+ * {
+ *   at?: number,                                    // Optional: epoch ms (default: time of the request)
+ *   players?: [                                     // Up to 128 entries
+ *     { playerId: string, network: NetworkSnapshot }  // network.timestamp overrides `at` for that player
+ *   ],
+ *   scores?: { [teamOrPlayerId]: number }           // Optional: full current scoreboard
+ * }
+ *
+ * Response: { recorded: number }
+ * 404 if the session doesn't exist, 409 if it is closed.
+ */
+export const POST = withApiKey("classify", async (req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }, auth) => {
+  try {
+    const { sessionId } = await params
+    const body = await req.json().catch(() => undefined)
+
+    const parsed = heartbeatSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid heartbeat", details: formatSchemaIssues(parsed.error, "heartbeat") }, { status: 400 })
+    }
+    const heartbeat = parsed.data
+
+    const outcome = await recordHeartbeat(sessionId, {
+      at: heartbeat.at ?? Date.now(),
+      players: heartbeat.players ?? [],
+      scores: heartbeat.scores,
+    }, auth.studioId)
+    if (!outcome.ok) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    }
+    return NextResponse.json(outcome.value)
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to record heartbeat" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getSession } from "@/lib/preservation-core-sessions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/sessions/:sessionId
+ *
+ * Returns a match session: status, latest scoreboard and reported disconnects.
+ */
+export const GET = withApiKey("read", async (_req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }, auth) => {
+  try {
+    const { sessionId } = await params
+    const session = await getSession(sessionId, auth.studioId)
+    if (!session) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    }
+    return NextResponse.json({ session })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to load session" },
+      { status: 500 }
+    )
+  }
+})
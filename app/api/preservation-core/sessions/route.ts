@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server"
+import { resolvePolicy } from "@/lib/preservation-core-policies"
+import { openSession } from "@/lib/preservation-core-sessions"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/sessions
+ *
+ * Opens a match session. Stream heartbeats to it during play and report
+ * disconnects; Preservation Core classifies from the recorded timeline.
+ *
+ * Request body:
+ * {
+ *   matchId: string,                       // Required
+ *   policyId?: string,                     // Optional: classification policy (default: "default")
+ *   serverId?: string,                     // Optional: enables outage correlation for the session's disconnects
+ *   regionId?: string,                     // Optional: server region
+ *   teams?: { [teamId]: string[] },        // Optional: rosters; without teams every player is their own side
+ *   maxScoreDifference?: number            // Optional: score lead that means the match is decided
+ * }
+ *
+ * Response (201): { session: SessionInfo }
+ */
+export const POST = withApiKey("classify", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const body = await req.json()
+    const errors: string[] = []
+
+    const matchId = typeof body.matchId === "string" ? body.matchId.trim() : ""
+    if (!matchId) errors.push("matchId must be a non-empty string")
+    for (const field of ["policyId", "serverId", "regionId"]) {
+      if (body[field] !== undefined && (typeof body[field] !== "string" || !body[field].trim())) {
+        errors.push(`${field} must be a non-empty string`)
+      }
+    }
+    const teams = body.teams ?? {}
+    if (
+      typeof teams !== "object" ||
+      Array.isArray(teams) ||
+      !Object.values(teams).every((roster) => Array.isArray(roster) && roster.every((id) => typeof id === "string"))
+    ) {
+      errors.push("teams must map team ids to arrays of player ids")
+    }
+    if (body.maxScoreDifference !== undefined && !(Number.isFinite(body.maxScoreDifference) && body.maxScoreDifference > 0)) {
+      errors.push("maxScoreDifference must be a number > 0")
+    }
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid session", details: errors }, { status: 400 })
+    }
+
+    const policy = await resolvePolicy(body.policyId?.trim(), auth.studioId)
+    if (!policy) {
+      return NextResponse.json(
+        { error: `Unknown policyId '${body.policyId}'` },
+        { status: 404 }
+      )
+    }
+
+    const session = await openSession({
+      studioId: auth.studioId,
+      matchId,
+      policyId: policy.id,
+      serverId: body.serverId?.trim(),
+      regionId: body.regionId?.trim(),
+      teams,
+      maxScoreDifference: body.maxScoreDifference,
+    })
+    return NextResponse.json({ session }, { status: 201 })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json(
+      { error: err.message || "Failed to open session" },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { listDeliveries } from "@/lib/preservation-core-webhooks"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/preservation-core/webhooks/:webhookId/deliveries
+ *
+ * Returns the delivery log of one of the studio's webhooks, newest first:
+ * status, attempts, next retry time and the last response code / error.
+ * Requires an admin key; the platform admin key can read any webhook's log.
+ */
+export const GET = withApiKey("admin", async (req: NextRequest, { params }: { params: Promise<{ webhookId: string }> }, auth) => {
+  try {
+    const { webhookId } = await params
+    const { searchParams } = new URL(req.url)
+    const limit = Math.min(Number(searchParams.get("limit") || 50), 200)
+    const deliveries = await listDeliveries(webhookId, auth.studioId, limit)
+    if (!deliveries) return NextResponse.json({ error: "Webhook not found" }, { status: 404 })
+    return NextResponse.json({ deliveries })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to load deliveries" }, { status: 500 })
+  }
+})
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server"
+import { deleteWebhook } from "@/lib/preservation-core-webhooks"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * DELETE /api/preservation-core/webhooks/:webhookId
+ *
+ * Removes one of the studio's webhooks. Pending deliveries to it fail on their next attempt; the
+ * delivery log is kept. Requires an admin key; the platform admin key can remove any webhook.
+ */
+export const DELETE = withApiKey("admin", async (_req: NextRequest, { params }: { params: Promise<{ webhookId: string }> }, auth) => {
+  try {
+    const { webhookId } = await params
+    const deleted = await deleteWebhook(webhookId, auth.studioId)
+    if (!deleted) return NextResponse.json({ ok: false, error: "Webhook not found" }, { status: 404 })
+    return NextResponse.json({ ok: true })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ ok: false, error: err.message || "Failed" }, { status: 500 })
+  }
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { retryDueDeliveries } from "@/lib/preservation-core-webhooks"
+import { withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/preservation-core/webhooks/retry
+ *
+ * Attempts up to 25 pending deliveries whose backoff has elapsed, 5 at a time.
+ * Retries are also scheduled in-process; call this from a cron so they survive
+ * restarts. Requires the platform admin key.
+ */
+export const POST = withApiKey("platform", async () => {
+  try {
+    const attempted = await retryDueDeliveries()
+    return NextResponse.json({ ok: true, attempted })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ ok: false, error: err.message || "Retry failed" }, { status: 500 })
+  }
+})
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server"
+import { WEBHOOK_EVENTS, checkWebhookUrl, listWebhooks, registerWebhook } from "@/lib/preservation-core-webhooks"
+import { canAccessStudio, getStudio, isPlatformAdmin, withApiKey, type ApiAuth } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * Studio the request acts on: a studio key's own studio, or for the platform
+ * admin key the requested one (none: the platform admin key's decisions).
+ * Null when a studio key asks for another studio.
+ */
+function targetStudio(auth: ApiAuth, requested?: string): { studioId?: string } | null {
+  if (requested && !canAccessStudio(auth, requested)) return null
+  return { studioId: isPlatformAdmin(auth) ? requested : auth.studioId }
+}
+
+/**
+ * GET /api/preservation-core/webhooks
+ *
+ * Lists the studio's registered webhooks (secrets are never returned).
+ * Requires an admin key.
+ *
+ * Query parameters:
+ *   studioId - platform admin key only: the studio's webhooks (default: the webhooks receiving the platform admin key's decisions)
+ */
+export const GET = withApiKey("admin", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const target = targetStudio(auth, new URL(req.url).searchParams.get("studioId")?.trim() || undefined)
+    if (!target) return NextResponse.json({ error: "API key belongs to another studio" }, { status: 403 })
+    const webhooks = await listWebhooks(target.studioId)
+    return NextResponse.json({ webhooks })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to load webhooks" }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/preservation-core/webhooks
+ *
+ * Registers a webhook endpoint that receives a signed payload for every decision of the studio.
+ * Requires an admin key.
+ *
+ * Request body:
+ * {
+ *   studioId?: string,        // Optional, platform admin key only: studio whose decisions are delivered (default: the platform admin key's)
+ *   name: string,             // Required: e.g. "ranking-service"
+ *   url: string,              // Required: public https endpoint receiving POSTs
+ *   events?: string[],        // Optional: subscribed events (default: all)
+ *   secret?: string           // Optional: signing secret (generated if omitted)
+ * }
+ *
+ * Response: { webhook: { webhookId, studioId, name, url, events, active, secret } }
+ * The secret is only returned here; store it to verify the x-preservation-signature header.
+ */
+export const POST = withApiKey("admin", async (req: NextRequest, _ctx, auth) => {
+  try {
+    const body = await req.json()
+    const errors: string[] = []
+
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    if (!name) errors.push("name must be a non-empty string")
+
+    const url = typeof body.url === "string" ? body.url.trim() : ""
+    const urlError = await checkWebhookUrl(url)
+    if (urlError) errors.push(urlError)
+
+    const events: string[] = body.events ?? []
+    if (!Array.isArray(events) || !events.every((e) => (WEBHOOK_EVENTS as readonly string[]).includes(e))) {
+      errors.push(`events must be an array of: ${WEBHOOK_EVENTS.join(", ")}`)
+    }
+    if (body.secret !== undefined && (typeof body.secret !== "string" || body.secret.length < 16)) {
+      errors.push("secret must be a string of at least 16 characters")
+    }
+
+    if (body.studioId !== undefined && (typeof body.studioId !== "string" || !body.studioId.trim())) {
+      errors.push("studioId must be a non-empty string")
+    }
+
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid webhook", details: errors }, { status: 400 })
+    }
+
+    const target = targetStudio(auth, body.studioId?.trim())
+    if (!target) return NextResponse.json({ error: "API key belongs to another studio" }, { status: 403 })
+    if (isPlatformAdmin(auth) && target.studioId && !(await getStudio(target.studioId))) {
+      return NextResponse.json({ error: "Studio not found" }, { status: 404 })
+    }
+
+    const webhook = await registerWebhook({ studioId: target.studioId, name, url: new URL(url).toString(), events, secret: body.secret })
+    return NextResponse.json({ webhook })
+  } catch (err: any) {
+    console.error("[PreservationCore API] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to register webhook" }, { status: 500 })
+  }
+})
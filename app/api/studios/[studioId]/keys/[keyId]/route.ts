@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { canAccessStudio, revokeApiKey, withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * DELETE /api/studios/:studioId/keys/:keyId
+ *
+ * Revokes an API key. The key document and its usage counters are kept.
+ * Requires an admin key of the studio, or the platform admin key.
+ */
+export const DELETE = withApiKey(
+  "admin",
+  async (_req: NextRequest, { params }: { params: Promise<{ studioId: string; keyId: string }> }, auth) => {
+    try {
+      const { studioId, keyId } = await params
+      if (!canAccessStudio(auth, studioId)) {
+        return NextResponse.json({ error: "API key belongs to another studio" }, { status: 403 })
+      }
+      const apiKey = await revokeApiKey(studioId, keyId)
+      if (!apiKey) return NextResponse.json({ error: "API key not found" }, { status: 404 })
+      return NextResponse.json({ apiKey })
+    } catch (err: any) {
+      console.error("[API Auth] Error:", err)
+      return NextResponse.json({ error: err.message || "Failed to revoke API key" }, { status: 500 })
+    }
+  }
+)
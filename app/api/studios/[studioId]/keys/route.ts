@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server"
+import { canAccessStudio, createApiKey, listApiKeys, validateApiKeyInput, withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/studios/:studioId/keys
+ *
+ * Lists the studio's API keys with their usage counters
+ * (usage.requests, usage.rateLimited, lastUsedAt). Requires an admin key of
+ * the studio, or the platform admin key.
+ */
+export const GET = withApiKey("admin", async (_req: NextRequest, { params }: { params: Promise<{ studioId: string }> }, auth) => {
+  try {
+    const { studioId } = await params
+    if (!canAccessStudio(auth, studioId)) {
+      return NextResponse.json({ error: "API key belongs to another studio" }, { status: 403 })
+    }
+    const keys = await listApiKeys(studioId)
+    if (!keys) return NextResponse.json({ error: "Studio not found" }, { status: 404 })
+    return NextResponse.json({ keys })
+  } catch (err: any) {
+    console.error("[API Auth] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to load API keys" }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/studios/:studioId/keys
+ *
+ * Issues an API key for the studio. Requires an admin key of the studio, or
+ * the platform admin key.
+ *
+ * Request body:
+ * {
+ *   name: string,                           // Required: label, e.g. "EU game servers"
+ *   scopes: ("classify" | "read" | "admin")[],
+ *   rateLimitPerMinute?: number             // default: 600
+ * }
+ *
+ * Response: { key: string, apiKey: { keyId, prefix, scopes, rateLimitPerMinute, ... } }
+ * The key is only returned here; only its hash is stored.
+ */
+export const POST = withApiKey("admin", async (req: NextRequest, { params }: { params: Promise<{ studioId: string }> }, auth) => {
+  try {
+    const { studioId } = await params
+    if (!canAccessStudio(auth, studioId)) {
+      return NextResponse.json({ error: "API key belongs to another studio" }, { status: 403 })
+    }
+    const body = await req.json()
+    const errors = validateApiKeyInput(body ?? {})
+    if (errors.length) {
+      return NextResponse.json({ error: "Invalid API key", details: errors }, { status: 400 })
+    }
+
+    const outcome = await createApiKey(studioId, body)
+    if (!outcome.ok) return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    return NextResponse.json({ key: outcome.key, apiKey: outcome.apiKey }, { status: 201 })
+  } catch (err: any) {
+    console.error("[API Auth] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to create API key" }, { status: 500 })
+  }
+})
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createStudio, listStudios, withApiKey } from "@/lib/api-auth"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/studios
+ *
+ * Lists studio accounts. Requires the platform admin key.
+ */
+export const GET = withApiKey("platform", async () => {
+  try {
+    const studios = await listStudios()
+    return NextResponse.json({ studios })
+  } catch (err: any) {
+    console.error("[API Auth] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to load studios" }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/studios
+ *
+ * Creates a studio account. Requires the platform admin key.
+ *
+ * Request body: { name: string }
+ * Response: { studio: { studioId, name, active, createdAt } }
+ */
+export const POST = withApiKey("platform", async (req: NextRequest) => {
+  try {
+    const body = await req.json()
+    if (typeof body?.name !== "string" || !body.name.trim()) {
+      return NextResponse.json({ error: "Invalid studio", details: ["name is required"] }, { status: 400 })
+    }
+
+    const studio = await createStudio(body.name)
+    return NextResponse.json({ studio }, { status: 201 })
+  } catch (err: any) {
+    if (err?.code === 11000) {
+      return NextResponse.json({ error: "A studio with this name already exists" }, { status: 409 })
+    }
+    console.error("[API Auth] Error:", err)
+    return NextResponse.json({ error: err.message || "Failed to create studio" }, { status: 500 })
+  }
+})
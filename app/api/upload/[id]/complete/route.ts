@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server"
+import { completeUpload } from "@/lib/uploads"
+
+export const runtime = "nodejs"
+
+/**
+ * POST /api/upload/:id/complete
+ *
+ * Finishes an upload once every byte is in → { uploadId, path, size, sha256 },
+ * ready for POST /api/analyze. 409 while bytes are missing, 422 (and the
+ * upload is discarded) on a checksum mismatch or a file that isn't an MP4.
+ */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	try {
+		const { id } = await params
+		const outcome = await completeUpload(id)
+		if (!outcome.ok) {
+			return NextResponse.json({ error: outcome.error, offset: outcome.offset }, { status: outcome.status })
+		}
+		return NextResponse.json(outcome.upload)
+	} catch (err: any) {
+		return NextResponse.json({ error: err.message || "Failed to complete upload" }, { status: 500 })
+	}
+}
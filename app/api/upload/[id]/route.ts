@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { appendChunk, getUpload } from "@/lib/uploads"
+
+export const runtime = "nodejs"
+
+/**
+ * GET /api/upload/:id
+ *
+ * Where an upload stands: { uploadId, size, offset, chunkSize, expiresAt, ... }.
+ * A client resuming after a dropped connection continues from `offset`.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	try {
+		const { id } = await params
+		const upload = await getUpload(id)
+		if (!upload) return NextResponse.json({ error: "Upload not found" }, { status: 404 })
+		return NextResponse.json(upload)
+	} catch (err: any) {
+		return NextResponse.json({ error: err.message || "Failed to load upload" }, { status: 500 })
+	}
+}
+
+/**
+ * PUT /api/upload/:id?offset=N
+ *
+ * Appends the raw request body at byte `offset`. An optional
+ * `x-chunk-sha256` header (hex) rejects a corrupted chunk with 422. A wrong
+ * offset is a 409 carrying the offset to continue from.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	try {
+		const { id } = await params
+		const raw = req.nextUrl.searchParams.get("offset")
+		const offset = Number(raw)
+		if (raw === null || !Number.isSafeInteger(offset) || offset < 0) {
+			return NextResponse.json({ error: "offset must be a non-negative integer" }, { status: 400 })
+		}
+
+		const outcome = await appendChunk(id, offset, req.body, req.headers.get("x-chunk-sha256"))
+		if (!outcome.ok) {
+			return NextResponse.json({ error: outcome.error, offset: outcome.offset }, { status: outcome.status })
+		}
+		return NextResponse.json(outcome.upload)
+	} catch (err: any) {
+		return NextResponse.json({ error: err.message || "Failed to store chunk" }, { status: 500 })
+	}
+}
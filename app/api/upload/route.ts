@@ -1,29 +1,38 @@
 import { NextRequest, NextResponse } from "next/server"
-import { randomUUID } from "crypto"
-import { promises as fs } from "fs"
-import path from "path"
+import { createUpload, resolveUploadPlan, validateUploadInput } from "@/lib/uploads"
 
 export const runtime = "nodejs"
 
-const UPLOAD_DIR = path.join(process.cwd(), "uploads")
-
+/**
+ * POST /api/upload
+ *
+ * Starts a chunked upload: { size, sha256, filename? } → 201 { uploadId,
+ * offset: 0, chunkSize, maxBytes, expiresAt, ... }. Send the bytes with
+ * PUT /api/upload/:id?offset=N, then POST /api/upload/:id/complete (see
+ * lib/uploads.ts). `size` is capped by the plan: free without an API key,
+ * studio with one. Free uploads in progress are also capped per address and
+ * in total (429).
+ */
 export async function POST(req: NextRequest) {
 	try {
-		const form = await req.formData()
-		const file = form.get("file") as unknown as File
-		if (!file) return NextResponse.json({ error: "Missing file" }, { status: 400 })
+		if (!(req.headers.get("content-type") || "").includes("application/json")) {
+			return NextResponse.json(
+				{ error: "Start an upload with a JSON body { size, sha256, filename? }, then send the file in chunks" },
+				{ status: 415 }
+			)
+		}
+		const body = await req.json().catch(() => null)
+		if (!body || typeof body !== "object") return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 })
+		const errors = validateUploadInput(body)
+		if (errors.length) return NextResponse.json({ error: errors.join("; ") }, { status: 400 })
 
-		const id = randomUUID()
-		await fs.mkdir(UPLOAD_DIR, { recursive: true })
-		const arrayBuffer = await file.arrayBuffer()
-		const buffer = Buffer.from(arrayBuffer)
-		const filePath = path.join(UPLOAD_DIR, `${id}.mp4`)
-		await fs.writeFile(filePath, buffer)
+		const plan = await resolveUploadPlan(req.headers)
+		if (!plan.ok) return NextResponse.json({ error: plan.error }, { status: plan.status })
 
-		return NextResponse.json({ uploadId: id, path: `/uploads/${id}.mp4` })
+		const outcome = await createUpload({ size: body.size, sha256: body.sha256, filename: body.filename }, plan.plan, plan.client)
+		if (!outcome.ok) return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+		return NextResponse.json(outcome.upload, { status: 201 })
 	} catch (err: any) {
 		return NextResponse.json({ error: err.message || "Upload failed" }, { status: 500 })
 	}
 }
-
-
@@ -8,6 +8,8 @@ import TruePlayPage from "@/components/trueplay-page"
 import DevToolsPage from "@/components/devtools-page"
 import GameGenPage from "@/components/gamegen-page"
 import PreservationCorePage from "@/components/preservation-core-page"
+import AnalyticsPage from "@/components/analytics-page"
+import ApiDocsPage from "@/components/api-docs-page"
 
 export default function Page() {
   const [activeView, setActiveView] = useState("home")
@@ -26,6 +28,8 @@ export default function Page() {
       <DevToolsPage active={activeView === "devtools"} />
       <GameGenPage active={activeView === "gamegen"} />
       <PreservationCorePage active={activeView === "preservation-core"} />
+      <AnalyticsPage active={activeView === "analytics"} />
+      <ApiDocsPage active={activeView === "api-docs"} />
       <footer>© 2025 Igraverse</footer>
     </>
   )
@@ -0,0 +1,294 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import type { DisconnectType } from "@/lib/preservation-core"
+import type { AnalyticsBucket, BreakdownGroup, DisconnectAnalytics } from "@/lib/preservation-core-analytics"
+
+interface AnalyticsPageProps {
+  active: boolean
+}
+
+const RANGES = [
+  { label: "Last 24 hours", days: 1, bucket: "hour" },
+  { label: "Last 7 days", days: 7, bucket: "day" },
+  { label: "Last 30 days", days: 30, bucket: "day" },
+  { label: "Last 90 days", days: 90, bucket: "week" },
+] as const
+
+// Disconnect types charted over time ("none" is a completed match, not a disconnect)
+const TYPE_COLORS: Record<string, string> = {
+  intentional_disconnect: "rgb(239, 68, 68)",
+  unintentional_disconnect: "rgb(59, 130, 246)",
+  suspected_intentional: "rgb(251, 146, 60)",
+  client_crash: "rgb(168, 85, 247)",
+  reconnected: "rgb(34, 197, 94)",
+}
+
+const PRESERVED_COLOR = "rgb(34, 197, 94)"
+const PENALIZED_COLOR = "rgb(239, 68, 68)"
+const AXIS_COLOR = "rgba(148, 163, 184, 0.8)"
+
+const inputStyle = {
+  background: "rgba(15, 23, 42, 0.6)",
+  border: "1px solid rgba(56, 189, 248, 0.4)",
+  borderRadius: "6px",
+  color: "inherit",
+  padding: "6px 8px",
+  fontSize: "13px",
+}
+
+const tooltipStyle = {
+  contentStyle: { background: "rgb(15, 23, 42)", border: "1px solid rgba(56, 189, 248, 0.4)", borderRadius: "6px" },
+}
+
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`
+
+function formatBucket(start: string, bucket: AnalyticsBucket) {
+  const date = new Date(start)
+  return bucket === "hour"
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString([], { month: "short", day: "numeric" })
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="card" style={{ padding: "16px" }}>
+      <div className="title" style={{ fontSize: "16px", marginBottom: "10px" }}>
+        {title}
+      </div>
+      <div style={{ width: "100%", height: "260px" }}>{children}</div>
+    </div>
+  )
+}
+
+function BreakdownChart({ groups }: { groups: BreakdownGroup[] }) {
+  if (!groups.length) return <div className="muted">No decisions in this range.</div>
+  return (
+    <ResponsiveContainer>
+      <BarChart data={groups}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.15)" />
+        <XAxis dataKey="key" stroke={AXIS_COLOR} fontSize={12} />
+        <YAxis stroke={AXIS_COLOR} fontSize={12} allowDecimals={false} />
+        <Tooltip
+          {...tooltipStyle}
+          formatter={(value: number, name: string, item: any) =>
+            name === "Preserved" ? [`${value} (disconnect rate ${percent(item.payload.disconnectRate)})`, name] : [value, name]
+          }
+        />
+        <Legend />
+        <Bar dataKey="preserved" name="Preserved" stackId="outcome" fill={PRESERVED_COLOR} />
+        <Bar dataKey="penalized" name="Penalized" stackId="outcome" fill={PENALIZED_COLOR} />
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+export default function AnalyticsPage({ active }: AnalyticsPageProps) {
+  const [apiKey, setApiKey] = useState("")
+  const [rangeIndex, setRangeIndex] = useState(2)
+  const [regionId, setRegionId] = useState("")
+  const [platform, setPlatform] = useState("")
+  const [analytics, setAnalytics] = useState<DisconnectAnalytics | null>(null)
+  const [regions, setRegions] = useState<BreakdownGroup[]>([])
+  const [platforms, setPlatforms] = useState<BreakdownGroup[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  async function load() {
+    const range = RANGES[rangeIndex]
+    const params = new URLSearchParams({ from: new Date(Date.now() - range.days * 24 * 60 * 60 * 1000).toISOString() })
+    if (regionId.trim()) params.set("regionId", regionId.trim())
+    if (platform.trim()) params.set("platform", platform.trim())
+    const headers: Record<string, string> = apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {}
+
+    async function get<T>(path: string, extra: Record<string, string>): Promise<T> {
+      const search = new URLSearchParams({ ...Object.fromEntries(params), ...extra })
+      const res = await fetch(`/api/preservation-core/analytics${path}?${search}`, { headers })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`)
+      return data
+    }
+
+    setLoading(true)
+    setError("")
+    try {
+      const [summary, byRegion, byPlatform] = await Promise.all([
+        get<DisconnectAnalytics>("", { bucket: range.bucket }),
+        get<{ groups: BreakdownGroup[] }>("/breakdown", { by: "region" }),
+        get<{ groups: BreakdownGroup[] }>("/breakdown", { by: "platform" }),
+      ])
+      setAnalytics(summary)
+      setRegions(byRegion.groups)
+      setPlatforms(byPlatform.groups)
+    } catch (err: any) {
+      setError(err.message || "Failed to load analytics")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const bucket = analytics?.range.bucket ?? RANGES[rangeIndex].bucket
+  // Share of all decisions in each bucket, per disconnect type
+  const rates = (analytics?.timeline || []).map((point) => ({
+    label: formatBucket(point.start, bucket),
+    ...Object.fromEntries(
+      Object.keys(TYPE_COLORS).map((type) => [type, point.decisions ? (point.byType[type as DisconnectType] || 0) / point.decisions : 0])
+    ),
+  }))
+  const outcomes = analytics
+    ? [
+        { name: "Preserved", value: analytics.totals.preserved, color: PRESERVED_COLOR },
+        { name: "Penalized", value: analytics.totals.penalized, color: PENALIZED_COLOR },
+      ]
+    : []
+
+  return (
+    <main id="analytics" className={`view ${active ? "active" : ""}`}>
+      <section className="container section">
+        <div className="card">
+          <div className="title" style={{ fontSize: "26px" }}>
+            Disconnect Analytics
+          </div>
+          <p className="muted" style={{ marginTop: "8px" }}>
+            Aggregate Preservation Core decisions for your studio: disconnect rates by type, preserved versus penalized
+            matches, and the signals behind each decision. Region and platform come from the optional{" "}
+            <code>regionId</code> and <code>platform</code> fields of classify requests. Requires an API key with the{" "}
+            <code>read</code> scope.
+          </p>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "10px", alignItems: "center", marginTop: "14px" }}>
+            <input
+              type="password"
+              style={{ ...inputStyle, flex: "1 1 260px" }}
+              placeholder="API key (igv_…)"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+            <select style={inputStyle} value={rangeIndex} onChange={(e) => setRangeIndex(Number(e.target.value))}>
+              {RANGES.map((range, i) => (
+                <option key={range.label} value={i}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+            <input style={{ ...inputStyle, width: "130px" }} placeholder="Region" value={regionId} onChange={(e) => setRegionId(e.target.value)} />
+            <input style={{ ...inputStyle, width: "130px" }} placeholder="Platform" value={platform} onChange={(e) => setPlatform(e.target.value)} />
+            <button className="btn-ghost" style={{ padding: "8px 20px" }} disabled={loading} onClick={load}>
+              {loading ? "Loading…" : "Load"}
+            </button>
+          </div>
+
+          {error && <div style={{ color: "rgb(239, 68, 68)", marginTop: "12px" }}>{error}</div>}
+        </div>
+
+        {analytics && (
+          <>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: "12px", marginTop: "16px" }}>
+              {[
+                { label: "Decisions", value: analytics.totals.decisions },
+                { label: "Disconnects", value: analytics.totals.disconnects },
+                { label: "Preserved", value: `${analytics.totals.preserved} (${percent(analytics.totals.preservedShare)})` },
+                { label: "Penalized", value: `${analytics.totals.penalized} (${percent(analytics.totals.penalizedShare)})` },
+              ].map((stat) => (
+                <div key={stat.label} className="card" style={{ padding: "14px" }}>
+                  <div className="muted" style={{ fontSize: "13px" }}>
+                    {stat.label}
+                  </div>
+                  <div className="title" style={{ fontSize: "22px" }}>
+                    {stat.value}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(420px, 1fr))", gap: "16px", marginTop: "16px" }}>
+              <ChartCard title="Disconnect rate by type">
+                <ResponsiveContainer>
+                  <LineChart data={rates}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.15)" />
+                    <XAxis dataKey="label" stroke={AXIS_COLOR} fontSize={12} />
+                    <YAxis stroke={AXIS_COLOR} fontSize={12} tickFormatter={percent} />
+                    <Tooltip {...tooltipStyle} formatter={(value: number) => percent(value)} />
+                    <Legend />
+                    {Object.entries(TYPE_COLORS).map(([type, color]) => (
+                      <Line key={type} type="monotone" dataKey={type} stroke={color} dot={false} strokeWidth={2} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </ChartCard>
+
+              <ChartCard title="Preserved vs penalized">
+                {analytics.totals.disconnects ? (
+                  <ResponsiveContainer>
+                    <PieChart>
+                      <Pie data={outcomes} dataKey="value" nameKey="name" innerRadius={60} outerRadius={100} label>
+                        {outcomes.map((outcome) => (
+                          <Cell key={outcome.name} fill={outcome.color} />
+                        ))}
+                      </Pie>
+                      <Tooltip {...tooltipStyle} />
+                      <Legend />
+                    </PieChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="muted">No disconnects in this range.</div>
+                )}
+              </ChartCard>
+
+              <ChartCard title="Signals behind disconnect decisions">
+                <ResponsiveContainer>
+                  <BarChart data={analytics.signals} layout="vertical" margin={{ left: 40 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.15)" />
+                    <XAxis type="number" stroke={AXIS_COLOR} fontSize={12} allowDecimals={false} />
+                    <YAxis type="category" dataKey="signal" stroke={AXIS_COLOR} fontSize={12} width={110} />
+                    <Tooltip {...tooltipStyle} />
+                    <Legend />
+                    <Bar dataKey="preserved" name="Preserved" stackId="outcome" fill={PRESERVED_COLOR} />
+                    <Bar dataKey="penalized" name="Penalized" stackId="outcome" fill={PENALIZED_COLOR} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </ChartCard>
+
+              <ChartCard title="Deciding rules">
+                <ResponsiveContainer>
+                  <BarChart data={analytics.decidingReasons.slice(0, 8)} layout="vertical" margin={{ left: 40 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.15)" />
+                    <XAxis type="number" stroke={AXIS_COLOR} fontSize={12} allowDecimals={false} />
+                    <YAxis type="category" dataKey="code" stroke={AXIS_COLOR} fontSize={11} width={170} />
+                    <Tooltip {...tooltipStyle} />
+                    <Legend />
+                    <Bar dataKey="preserved" name="Preserved" stackId="outcome" fill={PRESERVED_COLOR} />
+                    <Bar dataKey="penalized" name="Penalized" stackId="outcome" fill={PENALIZED_COLOR} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </ChartCard>
+
+              <ChartCard title="By region">
+                <BreakdownChart groups={regions} />
+              </ChartCard>
+
+              <ChartCard title="By platform">
+                <BreakdownChart groups={platforms} />
+              </ChartCard>
+            </div>
+          </>
+        )}
+      </section>
+    </main>
+  )
+}
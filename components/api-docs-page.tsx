@@ -0,0 +1,343 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+interface ApiDocsPageProps {
+  active: boolean
+}
+
+type Schema = Record<string, any>
+
+interface Parameter {
+  name: string
+  in: "query" | "path" | "header"
+  required?: boolean
+  description?: string
+  schema?: Schema
+}
+
+interface Operation {
+  tags?: string[]
+  summary?: string
+  description?: string
+  parameters?: Parameter[]
+  requestBody?: { required?: boolean; content: Record<string, { schema: Schema }> }
+  responses: Record<string, { description: string; content?: Record<string, { schema: Schema }> }>
+  /** API key scope the operation requires (absent for public operations) */
+  "x-required-scope"?: string
+}
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description?: string }
+  tags?: { name: string; description?: string }[]
+  paths: Record<string, Record<string, Operation>>
+  components: { schemas: Record<string, Schema> }
+}
+
+interface Endpoint {
+  method: string
+  path: string
+  operation: Operation
+}
+
+const METHOD_COLORS: Record<string, string> = {
+  get: "rgb(59, 130, 246)",
+  post: "rgb(34, 197, 94)",
+  delete: "rgb(239, 68, 68)",
+}
+
+const codeStyle = {
+  background: "rgba(0,0,0,0.3)",
+  padding: "10px",
+  borderRadius: "6px",
+  fontSize: "12px",
+  overflowX: "auto" as const,
+  whiteSpace: "pre" as const,
+  margin: 0,
+}
+
+const inputStyle = {
+  background: "rgba(15, 23, 42, 0.6)",
+  border: "1px solid rgba(56, 189, 248, 0.4)",
+  borderRadius: "6px",
+  color: "inherit",
+  padding: "6px 8px",
+  fontSize: "13px",
+}
+
+function resolveRef(doc: OpenApiDocument, schema: Schema | undefined): Schema | undefined {
+  if (!schema?.$ref) return schema
+  return doc.components.schemas[schema.$ref.split("/").pop()!]
+}
+
+/** Sample value for a schema: required fields only, so the body is valid as a starting point */
+function exampleFor(doc: OpenApiDocument, schema: Schema | undefined, depth = 0): unknown {
+  const resolved = resolveRef(doc, schema)
+  if (!resolved || depth > 4) return undefined
+  if (resolved.allOf) return Object.assign({}, ...resolved.allOf.map((s: Schema) => exampleFor(doc, s, depth + 1)))
+  if (resolved.enum) return resolved.enum[0]
+  switch (resolved.type) {
+    case "object": {
+      const out: Record<string, unknown> = {}
+      for (const key of resolved.required || []) out[key] = exampleFor(doc, resolved.properties?.[key], depth + 1)
+      return out
+    }
+    case "array":
+      return resolved.minItems ? [exampleFor(doc, resolved.items, depth + 1)] : []
+    case "number":
+    case "integer":
+      return resolved.minimum ?? 0
+    case "boolean":
+      return false
+    case "string":
+      return ""
+    default:
+      return undefined
+  }
+}
+
+function SchemaView({ doc, schema, depth = 0 }: { doc: OpenApiDocument; schema: Schema | undefined; depth?: number }) {
+  const resolved = resolveRef(doc, schema)
+  if (!resolved) return null
+  if (resolved.allOf) {
+    return (
+      <>
+        {resolved.allOf.map((s: Schema, i: number) => (
+          <SchemaView key={i} doc={doc} schema={s} depth={depth} />
+        ))}
+      </>
+    )
+  }
+  if (resolved.type === "array") {
+    return <SchemaView doc={doc} schema={resolved.items} depth={depth} />
+  }
+  if (resolved.type !== "object" || !resolved.properties) return null
+
+  return (
+    <ul style={{ margin: "4px 0", paddingLeft: depth ? "16px" : "0", listStyle: "none", fontSize: "13px" }}>
+      {Object.entries(resolved.properties as Record<string, Schema>).map(([name, property]) => {
+        const field = resolveRef(doc, property) || {}
+        const type = property.$ref ? property.$ref.split("/").pop() : field.type === "array" ? `${resolveRef(doc, field.items)?.type ?? "any"}[]` : field.type
+        return (
+          <li key={name} style={{ marginBottom: "4px" }}>
+            <code>{name}</code> <span className="muted">{type}</span>
+            {resolved.required?.includes(name) && <strong style={{ color: "rgb(251, 191, 36)" }}> required</strong>}
+            {field.enum && <span className="muted"> ({field.enum.join(" | ")})</span>}
+            {field.description && <div className="muted">{field.description}</div>}
+            {depth < 3 && <SchemaView doc={doc} schema={property} depth={depth + 1} />}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+function EndpointCard({ doc, endpoint, apiKey }: { doc: OpenApiDocument; endpoint: Endpoint; apiKey: string }) {
+  const { method, path, operation } = endpoint
+  const bodySchema = operation.requestBody?.content["application/json"]?.schema
+  const [open, setOpen] = useState(false)
+  const [params, setParams] = useState<Record<string, string>>({})
+  const [body, setBody] = useState(() => (bodySchema ? JSON.stringify(exampleFor(doc, bodySchema), null, 2) : ""))
+  const [response, setResponse] = useState<{ status: number; body: string } | null>(null)
+  const [sending, setSending] = useState(false)
+
+  async function send() {
+    let url = path
+    const search = new URLSearchParams()
+    const headers: Record<string, string> = {}
+    if (apiKey.trim()) headers.Authorization = `Bearer ${apiKey.trim()}`
+    for (const param of operation.parameters || []) {
+      const value = params[param.name]
+      if (!value) continue
+      if (param.in === "path") url = url.replace(`{${param.name}}`, encodeURIComponent(value))
+      else if (param.in === "query") search.set(param.name, value)
+      else headers[param.name] = value
+    }
+    if (search.toString()) url += `?${search}`
+
+    setSending(true)
+    try {
+      const init: RequestInit = { method: method.toUpperCase(), headers }
+      if (bodySchema && body.trim()) {
+        headers["Content-Type"] = "application/json"
+        init.body = body
+      }
+      const res = await fetch(url, init)
+      const text = await res.text()
+      let pretty = text
+      try {
+        pretty = JSON.stringify(JSON.parse(text), null, 2)
+      } catch {
+        // Not JSON: show as-is
+      }
+      setResponse({ status: res.status, body: pretty })
+    } catch (err: any) {
+      setResponse({ status: 0, body: err.message || "Request failed" })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div style={{ border: "1px solid rgba(56, 189, 248, 0.3)", borderRadius: "10px", marginBottom: "10px" }}>
+      <div
+        onClick={() => setOpen(!open)}
+        style={{ display: "flex", gap: "12px", alignItems: "center", padding: "10px 14px", cursor: "pointer" }}
+      >
+        <strong style={{ color: METHOD_COLORS[method], minWidth: "60px", textTransform: "uppercase" }}>{method}</strong>
+        <code>{path}</code>
+        {operation["x-required-scope"] && (
+          <span className="muted" style={{ fontSize: "12px" }} title="Requires an API key with this scope">
+            🔒 {operation["x-required-scope"]}
+          </span>
+        )}
+        <span className="muted" style={{ marginLeft: "auto", fontSize: "13px" }}>
+          {operation.summary}
+        </span>
+      </div>
+
+      {open && (
+        <div style={{ padding: "0 14px 14px", display: "flex", flexDirection: "column", gap: "10px" }}>
+          {operation.description && <div className="muted">{operation.description}</div>}
+
+          {!!operation.parameters?.length && (
+            <div>
+              <strong>Parameters</strong>
+              {operation.parameters.map((param) => (
+                <div key={`${param.in}-${param.name}`} style={{ display: "flex", gap: "10px", alignItems: "center", marginTop: "6px" }}>
+                  <code style={{ minWidth: "140px" }}>
+                    {param.name}
+                    {param.required && " *"}
+                  </code>
+                  <span className="muted" style={{ minWidth: "50px", fontSize: "12px" }}>
+                    {param.in}
+                  </span>
+                  <input
+                    style={{ ...inputStyle, flex: 1 }}
+                    placeholder={param.description}
+                    value={params[param.name] || ""}
+                    onChange={(e) => setParams({ ...params, [param.name]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {bodySchema && (
+            <div>
+              <strong>Request body</strong>
+              <SchemaView doc={doc} schema={bodySchema} />
+              <textarea
+                style={{ ...inputStyle, width: "100%", minHeight: "140px", fontFamily: "monospace" }}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div>
+            <strong>Responses</strong>
+            <ul style={{ margin: "4px 0", paddingLeft: "18px", fontSize: "13px" }}>
+              {Object.entries(operation.responses).map(([status, res]) => (
+                <li key={status}>
+                  <code>{status}</code> {res.description}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <button className="btn-ghost" style={{ padding: "8px 20px" }} disabled={sending} onClick={send}>
+              {sending ? "Sending…" : "Try it out"}
+            </button>
+          </div>
+
+          {response && (
+            <div>
+              <strong>
+                Response: {response.status || "network error"}
+              </strong>
+              <pre style={{ ...codeStyle, marginTop: "6px", maxHeight: "360px", overflowY: "auto" }}>{response.body}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function ApiDocsPage({ active }: ApiDocsPageProps) {
+  const [doc, setDoc] = useState<OpenApiDocument | null>(null)
+  const [error, setError] = useState("")
+  const [apiKey, setApiKey] = useState("")
+
+  useEffect(() => {
+    if (!active || doc) return
+    fetch("/api/openapi")
+      .then((res) => res.json())
+      .then(setDoc)
+      .catch((err) => setError(err.message || "Failed to load the API specification"))
+  }, [active, doc])
+
+  const groups = useMemo(() => {
+    if (!doc) return []
+    const byTag = new Map<string, Endpoint[]>()
+    for (const [path, methods] of Object.entries(doc.paths)) {
+      for (const [method, operation] of Object.entries(methods)) {
+        const tag = operation.tags?.[0] || "Other"
+        if (!byTag.has(tag)) byTag.set(tag, [])
+        byTag.get(tag)!.push({ method, path, operation })
+      }
+    }
+    return (doc.tags || []).filter((tag) => byTag.has(tag.name)).map((tag) => ({ ...tag, endpoints: byTag.get(tag.name)! }))
+  }, [doc])
+
+  return (
+    <main id="api-docs" className={`view ${active ? "active" : ""}`}>
+      <section className="container section">
+        <div className="card">
+          <div className="title" style={{ fontSize: "26px" }}>
+            API Documentation
+          </div>
+          <p className="muted" style={{ marginTop: "8px" }}>
+            Generated from the OpenAPI 3 specification at <code>GET /api/openapi</code>. Expand an endpoint to see its
+            request shape and send a request against this deployment.
+          </p>
+
+          <div style={{ display: "flex", gap: "10px", alignItems: "center", marginTop: "12px" }}>
+            <strong style={{ fontSize: "14px" }}>API key</strong>
+            <input
+              type="password"
+              style={{ ...inputStyle, flex: 1, maxWidth: "420px" }}
+              placeholder="igv_… (sent as Authorization: Bearer)"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+            <span className="muted" style={{ fontSize: "13px" }}>
+              Required for 🔒 endpoints; the key needs the scope shown.
+            </span>
+          </div>
+
+          {error && <div style={{ color: "rgb(239, 68, 68)", marginTop: "12px" }}>{error}</div>}
+          {!doc && !error && <div className="muted" style={{ marginTop: "12px" }}>Loading specification…</div>}
+
+          {groups.map((group) => (
+            <div key={group.name} style={{ marginTop: "20px" }}>
+              <div className="title" style={{ fontSize: "20px" }}>
+                {group.name}
+              </div>
+              {group.description && (
+                <p className="muted" style={{ margin: "4px 0 10px" }}>
+                  {group.description}
+                </p>
+              )}
+              {group.endpoints.map((endpoint) => (
+                <EndpointCard key={`${endpoint.method} ${endpoint.path}`} doc={doc!} endpoint={endpoint} apiKey={apiKey} />
+              ))}
+            </div>
+          ))}
+        </div>
+      </section>
+    </main>
+  )
+}
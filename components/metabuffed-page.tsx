@@ -2,6 +2,8 @@
 
 import { useEffect, useRef } from "react"
 import { toast } from "@/components/ui/use-toast"
+import type { AnalysisStatus } from "@/lib/analysis-jobs"
+import { createSha256 } from "@/lib/sha256"
 
 interface MetaBuffedPageProps {
   active: boolean
@@ -73,7 +75,6 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
     const chatSend = document.getElementById("chatSend") as HTMLButtonElement | null
     const chatClear = document.getElementById("chatClear") as HTMLButtonElement | null
     const analysisClear = document.getElementById("analysisClear") as HTMLButtonElement | null
-    const linkIn = document.getElementById("linkIn") as HTMLInputElement | null
     const chatInput = document.getElementById("chatInput") as HTMLInputElement | null
     const chatWindow = document.getElementById("chatWindow") as HTMLDivElement | null
     const analysisFeed = document.getElementById("analysisFeed") as HTMLDivElement | null
@@ -244,7 +245,12 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
         const hudParts: string[] = []
         if (event.hudReads.stamina !== undefined) hudParts.push(`Stamina: ${event.hudReads.stamina}%`)
         if (event.hudReads.health !== undefined) hudParts.push(`Health: ${event.hudReads.health}%`)
-        if (event.hudReads.timer !== undefined) hudParts.push(`Time: ${mm}:${ss}`)
+        if (event.hudReads.timer !== undefined) {
+          const clock = event.hudReads.timer
+          hudParts.push(`Clock: ${Math.floor(clock / 60)}:${String(clock % 60).padStart(2, "0")}`)
+        }
+        if (event.hudReads.shotMeter !== undefined) hudParts.push(`Shot meter: ${event.hudReads.shotMeter}%`)
+        if (event.hudReads.playClock !== undefined) hudParts.push(`Play clock: ${event.hudReads.playClock}`)
         hudDiv.innerText = hudParts.join(" · ")
         card.appendChild(hudDiv)
       }
@@ -331,7 +337,10 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
       const stat = document.createElement("div")
       stat.className = "lead"
       const s = stats || {}
-      stat.textContent = `Accuracy ${Math.round((s.accuracy||0)*100)}% · Efficiency ${Math.round((s.efficiency||0)*100)}% · IQ ${Math.round((s.iq||0)*100)}% · Momentum ${s.momentumSwings||0}`
+      stat.textContent = [
+        s.durationSec !== undefined ? `${Math.floor(s.durationSec / 60)}:${String(s.durationSec % 60).padStart(2, '0')} of video` : '',
+        s.framesSampled !== undefined ? `${s.framesSampled} frames sampled` : '',
+      ].filter(Boolean).join(' · ')
       const sum = document.createElement("div")
       sum.style.marginTop = '8px'
       sum.style.padding = "10px"
@@ -362,61 +371,190 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
       }
     }
 
+    const renderReport = (report: any, analysisId: string) => {
+      if (!analysisFeed) return
+      ;(analysisFeed as HTMLDivElement).innerHTML = ""
+      renderHeader(report?.sourceInfo, report?.stats, report?.summary)
+      report?.events?.forEach((e: any, idx: number) => {
+        renderEvent(e, analysisId, idx)
+      })
+      ;(analysisFeed as HTMLDivElement).dataset.analysisId = analysisId
+      const keyMoment = report?.events?.[0]
+      if (keyMoment) {
+        ;(analysisFeed as HTMLDivElement).dataset.keyLabel = keyMoment.label || ""
+        ;(analysisFeed as HTMLDivElement).dataset.keyTime = String(keyMoment.timecode || 0)
+      }
+    }
+
+    // Also shows upload progress, which only has a stage and a percentage
+    const renderProgress = (status: Pick<AnalysisStatus, "stage" | "progress">, events: any[] = []) => {
+      if (!analysisFeed) return
+      const stages: Record<string, string> = {
+        queued: "Waiting in queue",
+        checksum: "Checking video",
+        upload: "Uploading video",
+        decode: "Decoding video",
+        hud: "Reading HUD",
+        detect: "Detecting events",
+        rules: "Mapping meta rules",
+      }
+      const card = document.createElement("div")
+      card.className = "card"
+      card.style.padding = "12px"
+      card.textContent = `${(status.stage && stages[status.stage]) || "Analyzing"}… ${status.progress || 0}%`
+      ;(analysisFeed as HTMLDivElement).innerHTML = ""
+      analysisFeed.appendChild(card)
+      // Events found so far; feedback buttons come with the final report
+      events.forEach((e: any) => renderEvent(e))
+    }
+
+    // Polls the queued analysis until it completes or fails
+    const waitForAnalysis = async (analysisId: string) => {
+      for (;;) {
+        const res = await fetch(`/api/analysis/${analysisId}/status`)
+        const status = await res.json()
+        if (!res.ok) throw new Error(status.error || "Could not load analysis status")
+        if (status.status === "completed" || status.status === "failed") return status
+        renderProgress(status)
+        await new Promise((resolve) => setTimeout(resolve, 1500))
+      }
+    }
+
+    // Follows the analysis over its progress stream, rendering events as they're found
+    const followAnalysis = (analysisId: string) =>
+      new Promise<any>((resolve, reject) => {
+        if (typeof EventSource === "undefined") {
+          waitForAnalysis(analysisId).then(resolve, reject)
+          return
+        }
+        const source = new EventSource(`/api/analysis/${analysisId}/stream`)
+        let status: AnalysisStatus | null = null
+        let events: any[] = []
+        source.addEventListener("status", (e) => {
+          const next: AnalysisStatus = JSON.parse((e as MessageEvent).data)
+          status = next
+          renderProgress(next, events)
+        })
+        source.addEventListener("events", (e) => {
+          events = JSON.parse((e as MessageEvent).data).events || []
+          if (status) renderProgress(status, events)
+        })
+        source.addEventListener("done", (e) => {
+          source.close()
+          resolve(JSON.parse((e as MessageEvent).data))
+        })
+        source.onerror = () => {
+          // Dropped connections are retried by EventSource; once it gives up, poll instead
+          if (source.readyState !== EventSource.CLOSED) return
+          waitForAnalysis(analysisId).then(resolve, reject)
+        }
+      })
+
     const doAnalyze = async () => {
       try {
-        const link = linkIn?.value?.trim()
         const uploadId = (analysisFeed as HTMLDivElement | null)?.dataset?.uploadId
-        if (!link && !uploadId) {
-          appendChat("Coach", "Paste a video link or upload an MP4 first.")
+        if (!uploadId) {
+          appendChat("Coach", "Upload an MP4 first.")
           return
         }
-        toast({ title: "Analyzing video", description: link ? "Using provided link" : "Using uploaded MP4" })
+        toast({ title: "Analyzing video", description: "Using uploaded MP4" })
         const res = await fetch("/api/analyze", {
           method: "POST",
           headers: { "content-type": "application/json" },
-          body: JSON.stringify(
-            link
-              ? { game: getSelectedGame(), link, sessionId: getSessionId() }
-              : { game: getSelectedGame(), uploadId, sessionId: getSessionId() }
-          ),
+          body: JSON.stringify({ game: getSelectedGame(), uploadId, sessionId: getSessionId() }),
         })
         const data = await res.json()
         if (!res.ok) {
-          appendChat("Coach", data.error || "Could not analyze that input. Provide a valid link or upload.")
+          appendChat("Coach", data.error || "Could not analyze that upload.")
           toast({ title: "Analyze failed", description: data.error || "Please try again." })
           return
         }
-        ;(analysisFeed as HTMLDivElement).innerHTML = ""
-        renderHeader(data.report?.sourceInfo, data.report?.stats, data.report?.summary)
-        data.report?.events?.forEach((e: any, idx: number) => {
-          renderEvent(e, data.analysisId, idx)
-        })
-        ;(analysisFeed as HTMLDivElement).dataset.analysisId = data.analysisId
-        if (data.keyMoment) {
-          ;(analysisFeed as HTMLDivElement).dataset.keyLabel = data.keyMoment.label || ""
-          ;(analysisFeed as HTMLDivElement).dataset.keyTime = String(data.keyMoment.timecode || 0)
+        renderProgress(data)
+        const done = await followAnalysis(data.analysisId)
+        if (done.status === "failed") {
+          appendChat("Coach", done.error || "Could not analyze that video.")
+          toast({ title: "Analyze failed", description: done.error || "Please try again." })
+          return
         }
+        renderReport(done.report, done.analysisId)
         toast({ title: "Analysis complete", description: "Key moments extracted." })
       } catch (e: any) {
-        appendChat("Coach", "Analyze failed. Try a valid link or upload an MP4.")
+        appendChat("Coach", "Analyze failed. Try uploading the MP4 again.")
         toast({ title: "Analyze failed", description: e?.message || "Unexpected error" })
       }
     }
 
+    // Sends the file in chunks; the same file picked again after a failure resumes where it stopped
+    const uploadFile = async (file: File) => {
+      const resumeKey = `mb_upload:${file.name}:${file.size}:${file.lastModified}`
+      let upload: any = null
+      const saved = localStorage.getItem(resumeKey)
+      if (saved) {
+        const res = await fetch(`/api/upload/${saved}`)
+        if (res.ok) upload = await res.json()
+      }
+      if (!upload) {
+        // The server checks the whole file against this on completion
+        const hash = createSha256()
+        const sliceBytes = 8 * 1024 * 1024
+        for (let start = 0; start < file.size; start += sliceBytes) {
+          renderProgress({ stage: "checksum", progress: Math.floor((start / file.size) * 100) })
+          hash.update(new Uint8Array(await file.slice(start, start + sliceBytes).arrayBuffer()))
+        }
+        const res = await fetch("/api/upload", {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ size: file.size, sha256: hash.digest(), filename: file.name }),
+        })
+        upload = await res.json()
+        if (!res.ok) throw new Error(upload.error || "Upload failed")
+        localStorage.setItem(resumeKey, upload.uploadId)
+      }
+
+      let offset = upload.offset || 0
+      let failures = 0
+      while (offset < file.size) {
+        renderProgress({ stage: "upload", progress: Math.floor((offset / file.size) * 100) })
+        const chunk = await file.slice(offset, offset + upload.chunkSize).arrayBuffer()
+        const headers: Record<string, string> = { "content-type": "application/octet-stream" }
+        if (crypto?.subtle) {
+          const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", chunk))
+          headers["x-chunk-sha256"] = Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("")
+        }
+        const res = await fetch(`/api/upload/${upload.uploadId}?offset=${offset}`, { method: "PUT", headers, body: chunk }).catch(() => null)
+        const data = res ? await res.json().catch(() => ({})) : {}
+        if (res?.ok) {
+          offset = data.offset
+          failures = 0
+          continue
+        }
+        // A wrong offset or a corrupted chunk says where to continue; anything else is retried a few times
+        if (typeof data.offset === "number") offset = data.offset
+        if (res?.status === 404 || ++failures > 3) throw new Error(data.error || "Upload failed")
+        await new Promise((resolve) => setTimeout(resolve, 1000 * failures))
+      }
+
+      const res = await fetch(`/api/upload/${upload.uploadId}/complete`, { method: "POST" })
+      const done = await res.json()
+      if (res.status !== 409) localStorage.removeItem(resumeKey)
+      if (!res.ok) throw new Error(done.error || "Upload failed")
+      return done
+    }
+
     const doUpload = async () => {
       const input = document.createElement("input")
       input.type = "file"
       input.accept = "video/mp4"
       input.onchange = async () => {
         if (!input.files || input.files.length === 0) return
-        const fd = new FormData()
-        fd.append("file", input.files[0])
         toast({ title: "Uploading MP4", description: input.files[0].name })
-        const up = await fetch("/api/upload", { method: "POST", body: fd })
-        const upData = await up.json()
-        if (!up.ok) {
-          toast({ title: "Upload failed", description: upData.error || "Try another file." })
-          throw new Error(upData.error || "Upload failed")
+        let upData: any
+        try {
+          upData = await uploadFile(input.files[0])
+        } catch (e: any) {
+          if (analysisFeed) (analysisFeed as HTMLDivElement).innerHTML = ""
+          toast({ title: "Upload failed", description: e?.message || "Try another file." })
+          throw e
         }
         ;(analysisFeed as HTMLDivElement).dataset.uploadId = upData.uploadId
         const res = await fetch("/api/analyze", {
@@ -429,17 +567,15 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
           toast({ title: "Analyze failed", description: data.error || "Please try again." })
           throw new Error(data.error || "Failed")
         }
-        ;(analysisFeed as HTMLDivElement).innerHTML = ""
-        renderHeader(data.report?.sourceInfo, data.report?.stats, data.report?.summary)
-        data.report?.events?.forEach((e: any, idx: number) => {
-          renderEvent(e, data.analysisId, idx)
-        })
-        ;(analysisFeed as HTMLDivElement).dataset.analysisId = data.analysisId
-        if (data.keyMoment) {
-          ;(analysisFeed as HTMLDivElement).dataset.keyLabel = data.keyMoment.label || ""
-          ;(analysisFeed as HTMLDivElement).dataset.keyTime = String(data.keyMoment.timecode || 0)
-        }
         toast({ title: "Upload successful", description: "Analyzing your video now." })
+        renderProgress(data)
+        const done = await followAnalysis(data.analysisId)
+        if (done.status === "failed") {
+          toast({ title: "Analyze failed", description: done.error || "Please try again." })
+          throw new Error(done.error || "Failed")
+        }
+        renderReport(done.report, done.analysisId)
+        toast({ title: "Analysis complete", description: "Key moments extracted." })
       }
       input.click()
     }
@@ -557,15 +693,13 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
         const res = await fetch(`/api/analysis/latest?sessionId=${encodeURIComponent(sid)}`)
         if (!res.ok) return
         const data = await res.json()
-        if (data?.analysis) {
-          ;(analysisFeed as HTMLDivElement).innerHTML = ""
-          renderHeader(data.analysis.sourceInfo, data.analysis.stats, data.analysis.summary)
-          data.analysis.events?.forEach((e: any, idx: number) => renderEvent(e, data.analysisId, idx))
-          ;(analysisFeed as HTMLDivElement).dataset.analysisId = data.analysisId
-          if (data.analysis.events?.[0]) {
-            ;(analysisFeed as HTMLDivElement).dataset.keyLabel = data.analysis.events[0].label || ""
-            ;(analysisFeed as HTMLDivElement).dataset.keyTime = String(data.analysis.events[0].timecode || 0)
-          }
+        if (data?.analysis?.status === "queued" || data?.analysis?.status === "processing") {
+          // Still running (e.g. the page was refreshed mid-analysis): pick the progress back up
+          const done = await followAnalysis(data.analysisId)
+          if (done.status === "completed") renderReport(done.report, done.analysisId)
+          else if (analysisFeed) (analysisFeed as HTMLDivElement).innerHTML = ""
+        } else if (data?.analysis && data.analysis.status !== "failed") {
+          renderReport(data.analysis, data.analysisId)
         }
       } catch {}
     })()
@@ -639,7 +773,7 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
           <div className="z1">
             <div className="drop" id="dropzone">
               <div style={{ fontWeight: 900, fontSize: "18px", marginBottom: "4px" }}>Drop your MP4 here</div>
-              <div style={{ opacity: 0.85, marginBottom: "12px" }}>Or paste a link from YouTube or Twitch</div>
+              <div style={{ opacity: 0.85, marginBottom: "12px" }}>Or use Upload MP4, then press Analyze</div>
               <div style={{ marginBottom: "16px" }}>
                 <label
                   style={{
@@ -707,7 +841,6 @@ export default function MetaBuffedPage({ active }: MetaBuffedPageProps) {
                 </select>
               </div>
               <div className="row">
-                <input id="linkIn" className="in" placeholder="Paste your video link" />
                 <button className="btn" id="analyzeBtn">
                   Analyze
                 </button>
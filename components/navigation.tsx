@@ -19,6 +19,8 @@ export default function Navigation({ onNavigate }: NavigationProps) {
           <a onClick={() => onNavigate("devtools")}>Dev Tools</a>
           <a onClick={() => onNavigate("gamegen")}>Game Generation</a>
           <a onClick={() => onNavigate("preservation-core")}>Preservation Core</a>
+          <a onClick={() => onNavigate("analytics")}>Analytics</a>
+          <a onClick={() => onNavigate("api-docs")}>API Docs</a>
         </div>
       </div>
     </nav>
@@ -1,12 +1,16 @@
 "use client"
 
 import { useEffect, useMemo, useRef, useState } from "react"
+import { classifyDisconnect } from "@/lib/preservation-core"
 import {
-  classifyDisconnect,
+  createPreservationCoreClient,
+  type ClassifyRequest,
+  type ClassifiedResponse,
+  type CrashSignals,
   type DisconnectType,
   type NetworkSnapshot,
-  type ClassificationResult,
-} from "@/lib/preservation-core"
+  type PenaltyOutcome,
+} from "@/lib/preservation-core-client"
 
 interface PreservationCorePageProps {
   active: boolean
@@ -19,15 +23,28 @@ interface MatchReport {
   disconnectDetected: boolean
   disconnectClassification: DisconnectType
   lossApplied: boolean
+  outcome: PenaltyOutcome
   preservationCoreStatus: "active"
   status: MatchStatus
   playerScore: number
   aiScore: number
   networkBeforeDisconnect?: NetworkSnapshot
+  crash?: CrashSignals
 }
 
 const MATCH_DURATION_SECONDS = 40 // within the requested 30–60s window
 
+// The API needs a studio key, which can't ship in the browser bundle. The demo goes through the
+// same SDK studios use, with a transport that answers in the browser using the API's engine
+const localTransport: typeof fetch = async (_input, init) => {
+  const { policyId, playerId, matchId, serverId, regionId, platform, disconnectedAt, ...signals }: ClassifyRequest = JSON.parse(
+    String(init?.body)
+  )
+  return new Response(JSON.stringify(classifyDisconnect(signals)), { headers: { "Content-Type": "application/json" } })
+}
+
+const preservationCore = createPreservationCoreClient({ callerId: "preservation-core-demo", fetch: localTransport })
+
 export default function PreservationCorePage({ active }: PreservationCorePageProps) {
   const [status, setStatus] = useState<MatchStatus>("idle")
   const [remaining, setRemaining] = useState<number>(MATCH_DURATION_SECONDS)
@@ -35,6 +52,7 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
   const [aiScore, setAiScore] = useState(0)
 
   const [quitPressed, setQuitPressed] = useState(false)
+  const [crash, setCrash] = useState<CrashSignals | undefined>(undefined)
   const [network, setNetwork] = useState<NetworkSnapshot>({
     latencyMs: 40,
     packetLossRate: 0.01,
@@ -43,7 +61,7 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
   const [networkBeforeDisconnect, setNetworkBeforeDisconnect] = useState<NetworkSnapshot | undefined>(undefined)
   const [disconnectType, setDisconnectType] = useState<DisconnectType>("none")
   const [lossApplied, setLossApplied] = useState(false)
-  const [classificationResult, setClassificationResult] = useState<ClassificationResult | null>(null)
+  const [classificationResult, setClassificationResult] = useState<ClassifiedResponse | null>(null)
   const [lastPacketTime, setLastPacketTime] = useState<number | null>(null)
 
   const [matchId, setMatchId] = useState<string>(() => createMatchId())
@@ -74,6 +92,7 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
     setPlayerScore(0)
     setAiScore(0)
     setQuitPressed(false)
+    setCrash(undefined)
     setDisconnectType("none")
     setLossApplied(false)
     setClassificationResult(null)
@@ -94,28 +113,25 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
     }
   }
 
-  function performClassification(): ClassificationResult {
+  async function performClassification(): Promise<ClassifiedResponse> {
     const now = Date.now()
     const timeSinceLastPacket = lastPacketTime ? now - lastPacketTime : undefined
 
-    const result = classifyDisconnect({
-      quitAction: quitPressed,
-      networkBeforeDisconnect,
-      timeSinceLastPacket,
-    })
+    const result = await preservationCore.classify({ quitAction: quitPressed, networkBeforeDisconnect, timeSinceLastPacket, crash, matchId })
 
-    console.groupCollapsed("[PreservationCore] classifyDisconnect")
+    console.groupCollapsed("[PreservationCore] classify")
     console.log("quitAction:", quitPressed)
     console.log("networkBeforeDisconnect:", networkBeforeDisconnect)
     console.log("timeSinceLastPacket:", timeSinceLastPacket, "ms")
+    console.log("crash:", crash)
     console.log("Result:", result)
     console.groupEnd()
 
     return result
   }
 
-  function finalizeMatch(finalStatus: MatchStatus) {
-    const result = performClassification()
+  async function finalizeMatch(finalStatus: MatchStatus) {
+    const result = await performClassification()
     setClassificationResult(result)
     setDisconnectType(result.type)
     setLossApplied(result.lossApplied)
@@ -125,11 +141,13 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
       disconnectDetected: result.type !== "none",
       disconnectClassification: result.type,
       lossApplied: result.lossApplied,
+      outcome: result.outcome,
       preservationCoreStatus: "active",
       status: finalStatus,
       playerScore,
       aiScore,
       networkBeforeDisconnect,
+      crash,
     }
     setReport(snapshot)
 
@@ -139,6 +157,7 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
     console.log("disconnectDetected:", snapshot.disconnectDetected)
     console.log("disconnectClassification:", snapshot.disconnectClassification)
     console.log("lossApplied:", snapshot.lossApplied)
+    console.log("outcome:", snapshot.outcome)
     console.log("playerScore:", snapshot.playerScore, "aiScore:", snapshot.aiScore)
     console.log("networkBeforeDisconnect:", snapshot.networkBeforeDisconnect)
     console.log("signals:", result.signals)
@@ -179,6 +198,21 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
     setStatus("disconnected")
   }
 
+  function handleSimulateCrash() {
+    if (status !== "running") return
+    // Simulate the client process dying (access violation): the crash reporter
+    // files a report and the socket closes without any prior network degradation
+    setCrash({
+      exitCode: -1073741819, // 0xC0000005
+      crashReporterId: `CRASH-${Math.random().toString(16).slice(2, 10)}`,
+      timeSinceLastHeartbeat: 3500,
+    })
+    if (!networkBeforeDisconnect) {
+      setNetworkBeforeDisconnect({ ...network, timestamp: Date.now() })
+    }
+    setStatus("disconnected")
+  }
+
   // Main match loop: only ticks when active + running
   useEffect(() => {
     if (!active || status !== "running") {
@@ -243,7 +277,7 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
         clearInterval(timerRef.current)
         timerRef.current = null
       }
-      finalizeMatch(status)
+      finalizeMatch(status).catch((err) => console.error("[PreservationCore] Classification failed:", err))
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [status])
@@ -676,9 +710,9 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
               fontSize: "12px",
             }}
           >
-            <strong>Note:</strong> This demo uses the <strong>exact same logic</strong> as the real API endpoint. The
-            `classifyDisconnect()` function used here is identical to what the API calls. Results in this demo match what
-            you'll get from <code>POST /api/preservation-core/classify</code>.
+            <strong>Note:</strong> This demo classifies through the <strong>same TypeScript SDK</strong> studios use
+            (<code>lib/preservation-core-client.ts</code>). Instead of calling <code>POST /api/preservation-core/classify</code>,
+            which needs a studio API key, its transport runs the API's <code>classifyDisconnect()</code> engine in the browser.
           </div>
 
           <div className="grid-2" style={{ gap: "16px", alignItems: "flex-start", marginTop: "12px" }}>
@@ -760,6 +794,14 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
                 >
                   Simulate Network Drop (Unintentional)
                 </button>
+                <button
+                  className="btn"
+                  onClick={handleSimulateCrash}
+                  disabled={status !== "running"}
+                  title="Simulate client crash (access violation / GPU driver reset / OOM kill)"
+                >
+                  Simulate Crash (Client Crash)
+                </button>
               </div>
 
               <div style={{ marginTop: "8px" }}>
@@ -817,6 +859,11 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
                     <div>
                       <strong>Loss applied</strong>: {currentReport.lossApplied ? "yes" : "no"}
                     </div>
+                    <div>
+                      <strong>Ranked outcome</strong>: {currentReport.outcome.severity} · rank points ×
+                      {currentReport.outcome.rankPointMultiplier} · cooldown {currentReport.outcome.cooldownMinutes} min ·
+                      teammates forgiven: {currentReport.outcome.teammateLossForgiveness ? "yes" : "no"}
+                    </div>
                     <div>
                       <strong>Preservation Core status</strong>: {currentReport.preservationCoreStatus}
                     </div>
@@ -828,6 +875,12 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
                         {currentReport.networkBeforeDisconnect.isConnected ? "yes" : "no"}
                       </div>
                     )}
+                    {currentReport.crash && (
+                      <div>
+                        <strong>Crash report</strong>: {currentReport.crash.crashReporterId} · exit code{" "}
+                        {currentReport.crash.exitCode}
+                      </div>
+                    )}
                   </div>
 
                   {/* Visual debug: show the actual inputs and rule flags used for classification */}
@@ -892,9 +945,27 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
                           <li>
                             <strong>Hard disconnect</strong>: {classificationResult.signals.hardDisconnect ? "✓" : "✗"}
                           </li>
+                          <li>
+                            <strong>Client crash</strong>: {classificationResult.signals.crashDetected ? "✓" : "✗"}
+                          </li>
                         </ul>
                       </div>
                     )}
+                    {classificationResult && (
+                      <div style={{ marginTop: "4px" }}>
+                        <strong>Confidence</strong>: {Math.round(classificationResult.confidence * 100)}%
+                        <ol style={{ marginTop: "4px", paddingLeft: "18px", fontSize: "11px" }}>
+                          {classificationResult.reasons.map((reason, idx) => (
+                            <li key={idx}>
+                              <code>{reason.code}</code>
+                              {reason.value !== undefined && reason.threshold !== undefined && (
+                                <> ({Math.round(reason.value * 100) / 100} vs {reason.threshold})</>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
                     <div style={{ marginTop: "4px" }}>
                       <strong>Final decision</strong>: {currentReport.disconnectClassification} · loss applied:{" "}
                       {currentReport.lossApplied ? "yes" : "no"}
@@ -931,6 +1002,10 @@ export default function PreservationCorePage({ active }: PreservationCorePagePro
                     <strong>Test C – unintentional disconnect</strong>: click Simulate Network Drop → disconnect detected:
                     yes, classification: unintentional_disconnect, loss applied: no.
                   </li>
+                  <li>
+                    <strong>Test D – client crash</strong>: click Simulate Crash → disconnect detected: yes,
+                    classification: client_crash, loss applied: no (default policy preserves crashes).
+                  </li>
                 </ul>
               </div>
             </div>
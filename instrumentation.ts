@@ -0,0 +1,15 @@
+/**
+ * Runs once when a server process starts: resumes analysis jobs that were
+ * queued or cut short by the previous process (lib/analysis-jobs.ts), starts
+ * sweeping abandoned chunked uploads (lib/uploads.ts) and finalizes pending
+ * decisions whose grace window expired (lib/preservation-core-pending.ts).
+ */
+export async function register() {
+	if (process.env.NEXT_RUNTIME !== "nodejs") return
+	const { startAnalysisWorker } = await import("@/lib/analysis-jobs")
+	const { startUploadCleanup } = await import("@/lib/uploads")
+	const { startPendingSweep } = await import("@/lib/preservation-core-pending")
+	startAnalysisWorker()
+	startUploadCleanup()
+	startPendingSweep()
+}
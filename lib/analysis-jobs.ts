@@ -0,0 +1,341 @@
+/**
+ * Analysis Jobs
+ *
+ * The Analysis document is the job: POST /api/analyze queues it and returns,
+ * an in-process worker claims queued jobs from Mongo and runs the video
+ * pipeline, writing stage and percent progress as it goes. A running job
+ * holds a lease it keeps renewing; if the process dies, the lease expires
+ * and the next worker (after a restart, see instrumentation.ts) picks the
+ * job up again, up to MAX_JOB_ATTEMPTS. Every job ends completed or failed
+ * with an error reason.
+ *
+ * Stage changes and the events found so far are written to the document as
+ * they happen; watchAnalysis() follows them for the progress stream.
+ */
+
+import { EventEmitter } from "events"
+import { isValidObjectId } from "mongoose"
+import { connectToDatabase } from "@/lib/db"
+import { getFallbackRules } from "@/lib/fallback"
+import { buildAnalysisEvents, findPatterns, summarizeAnalysis } from "@/lib/analysis-report"
+import { analyzeVideo, type HudSeries, type VideoStage } from "@/lib/video-analysis"
+import type { TaggedDetection } from "@/lib/video-detectors"
+import { resolveUploadPath } from "@/lib/video-frames"
+import { Analysis } from "@/models/Analysis"
+import { MetaRule } from "@/models/MetaRule"
+
+export const JOB_STAGES = ["queued", "decode", "hud", "detect", "rules", "done"] as const
+
+export type JobStage = (typeof JOB_STAGES)[number]
+
+/** How long a claimed job stays locked without a progress write */
+export const JOB_LEASE_MS = 60_000
+/** Claims (restarts included) before a job is failed */
+export const MAX_JOB_ATTEMPTS = 3
+const PROGRESS_WRITE_INTERVAL_MS = 1000
+const SWEEP_INTERVAL_MS = 30_000
+/** Watchers re-read the job this often when it runs in another process */
+const WATCH_POLL_MS = 2000
+
+export interface AnalysisStatus {
+	analysisId: string
+	status: "queued" | "processing" | "completed" | "failed"
+	stage?: string
+	/** 0-100 */
+	progress: number
+	error?: string
+	attempts: number
+	createdAt: string
+	updatedAt: string
+	completedAt?: string
+}
+
+/**
+ * One message of the progress stream: `status` on every stage or progress
+ * change, `events` with the events found so far, and a final `done` with
+ * the report (completed) or the error (failed).
+ */
+export type AnalysisStreamMessage =
+	| { type: "status"; data: AnalysisStatus }
+	| { type: "events"; data: { analysisId: string; events: any[] } }
+	| { type: "done"; data: AnalysisStatus & { report?: any } }
+
+/** Jobs processed at once by this process, from `ANALYSIS_WORKER_CONCURRENCY` (default 1) */
+export function workerConcurrency(): number {
+	const concurrency = Number(process.env.ANALYSIS_WORKER_CONCURRENCY)
+	return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 1
+}
+
+/**
+ * Percent progress of a job at a pipeline stage. Decoding is most of the
+ * work; `fraction` is how far through the video it is, when known.
+ */
+export function jobProgress(stage: VideoStage | "rules", fraction?: number): number {
+	if (stage === "decode") return 5 + Math.round(80 * Math.min(1, Math.max(0, fraction ?? 0)))
+	if (stage === "hud") return 86
+	if (stage === "detect") return 88
+	return 95
+}
+
+export function toAnalysisStatus(doc: any): AnalysisStatus {
+	return {
+		analysisId: String(doc._id),
+		status: doc.status,
+		stage: doc.stage,
+		progress: doc.progress ?? 0,
+		error: doc.error,
+		attempts: doc.attempts ?? 0,
+		createdAt: new Date(doc.createdAt).toISOString(),
+		updatedAt: new Date(doc.updatedAt).toISOString(),
+		completedAt: doc.completedAt ? new Date(doc.completedAt).toISOString() : undefined,
+	}
+}
+
+/**
+ * Queues an analysis of an uploaded video and wakes the worker. Resolves as
+ * soon as the job is stored.
+ */
+export async function submitAnalysis(input: {
+	game: string
+	uploadId: string
+	userId?: string
+	sampleFps?: number
+}): Promise<AnalysisStatus> {
+	await connectToDatabase()
+	const doc = await Analysis.create({
+		game: input.game,
+		inputType: "upload",
+		inputRef: input.uploadId,
+		userId: input.userId,
+		sampleFps: input.sampleFps,
+		status: "queued",
+		stage: "queued",
+		progress: 0,
+	})
+	drainQueue().catch((err) => console.error("[Analysis Jobs] Worker failed:", err))
+	return toAnalysisStatus(doc)
+}
+
+function withReport(doc: any): AnalysisStatus & { report?: any } {
+	const status = toAnalysisStatus(doc)
+	if (doc.status !== "completed") return status
+	const { lockedUntil, attempts, ...report } = doc
+	return { ...status, report }
+}
+
+/**
+ * Status of an analysis, with the finished report once completed. Null if it doesn't exist.
+ */
+export async function getAnalysisStatus(analysisId: string): Promise<(AnalysisStatus & { report?: any }) | null> {
+	if (!isValidObjectId(analysisId)) return null
+	await connectToDatabase()
+	const doc: any = await Analysis.findById(analysisId).lean()
+	return doc ? withReport(doc) : null
+}
+
+// Wakes watchers in this process right after a job's document changes
+const updates = new EventEmitter()
+updates.setMaxListeners(0)
+
+/** Resolves on the next update to the job, after `ms`, or on abort, whichever comes first */
+function nextUpdate(analysisId: string, ms: number, signal?: AbortSignal): { wait: Promise<void>; cancel: () => void } {
+	let cancel = () => {}
+	const wait = new Promise<void>((resolve) => {
+		const done = () => {
+			cancel()
+			resolve()
+		}
+		const timer = setTimeout(done, ms)
+		updates.once(analysisId, done)
+		signal?.addEventListener("abort", done)
+		cancel = () => {
+			clearTimeout(timer)
+			updates.off(analysisId, done)
+			signal?.removeEventListener("abort", done)
+		}
+	})
+	return { wait, cancel }
+}
+
+/**
+ * Follows a job until it finishes: yields its current status and events
+ * right away, then each change, and ends after `done`. Changes made by this
+ * process arrive immediately; jobs running in another process are re-read
+ * every WATCH_POLL_MS. Ends early when `signal` aborts or the job is deleted.
+ */
+export async function* watchAnalysis(analysisId: string, signal?: AbortSignal): AsyncGenerator<AnalysisStreamMessage> {
+	if (!isValidObjectId(analysisId)) return
+	await connectToDatabase()
+	let lastStatus = ""
+	let lastEvents = ""
+	while (!signal?.aborted) {
+		// Listen before reading, so an update landing in between isn't missed
+		const next = nextUpdate(analysisId, WATCH_POLL_MS, signal)
+		try {
+			const doc: any = await Analysis.findById(analysisId).lean()
+			if (!doc) return
+			if (doc.status === "completed" || doc.status === "failed") {
+				yield { type: "done", data: withReport(doc) }
+				return
+			}
+
+			const status = toAnalysisStatus(doc)
+			const statusKey = `${status.status}:${status.stage}:${status.progress}`
+			if (statusKey !== lastStatus) {
+				lastStatus = statusKey
+				yield { type: "status", data: status }
+			}
+			const events = JSON.stringify(doc.events ?? [])
+			if (events !== lastEvents && doc.events?.length) {
+				lastEvents = events
+				yield { type: "events", data: { analysisId: status.analysisId, events: doc.events } }
+			}
+			await next.wait
+		} finally {
+			next.cancel()
+		}
+	}
+}
+
+/**
+ * Claims the oldest queued job, or a processing one whose lease expired.
+ * Jobs that already used MAX_JOB_ATTEMPTS are failed instead of claimed.
+ */
+async function claimNextJob(): Promise<any | null> {
+	for (;;) {
+		const now = new Date()
+		const job: any = await Analysis.findOneAndUpdate(
+			{ $or: [{ status: "queued" }, { status: "processing", lockedUntil: { $lte: now } }] },
+			{
+				// Events found by an interrupted attempt are found again
+				$set: { status: "processing", stage: "decode", events: [], lockedUntil: new Date(now.getTime() + JOB_LEASE_MS), startedAt: now },
+				$inc: { attempts: 1 },
+			},
+			{ sort: { createdAt: 1 }, new: true }
+		)
+		if (!job) return null
+		if (job.attempts <= MAX_JOB_ATTEMPTS) return job
+
+		await Analysis.updateOne(
+			{ _id: job._id, attempts: job.attempts },
+			{
+				$set: {
+					status: "failed",
+					error: `Analysis stopped ${MAX_JOB_ATTEMPTS} times before finishing (worker restarted or stalled)`,
+					completedAt: now,
+				},
+				$unset: { lockedUntil: 1 },
+			}
+		)
+	}
+}
+
+/**
+ * Runs the pipeline for a claimed job. Writes are keyed on the claim's
+ * attempt number, so a worker whose lease was taken over can't overwrite
+ * the new run.
+ */
+export async function processAnalysis(job: any): Promise<void> {
+	const id = String(job._id)
+	const claim = { _id: job._id, attempts: job.attempts }
+	const update = (fields: Record<string, unknown>) =>
+		Analysis.updateOne({ ...claim, status: "processing" }, { $set: { ...fields, lockedUntil: new Date(Date.now() + JOB_LEASE_MS) } })
+			.then(() => updates.emit(id))
+			.catch((err: any) => console.error("[Analysis Jobs] Progress write failed:", err))
+
+	let lastWrite = 0
+	const writeProgress = (stage: JobStage, progress: number, force = false) => {
+		if (!force && Date.now() - lastWrite < PROGRESS_WRITE_INTERVAL_MS) return
+		lastWrite = Date.now()
+		update({ stage, progress })
+	}
+
+	try {
+		const filePath = await resolveUploadPath(job.inputRef)
+		if (!filePath) throw new Error("Upload not found; it may have been deleted")
+
+		// Loaded up front so the events streamed while detecting are already mapped
+		let rules: any[] = await MetaRule.find({ game: job.game }).limit(10).lean()
+		if (!rules.length) rules = getFallbackRules(job.game)
+
+		const video = await analyzeVideo(filePath, job.game, {
+			sampleFps: job.sampleFps,
+			onProgress: (stage, fraction) => writeProgress(stage, jobProgress(stage, fraction), stage !== "decode"),
+			onDetections: (detections: TaggedDetection[], hud: HudSeries) =>
+				update({ events: buildAnalysisEvents(job.game, detections, rules, hud) }),
+		})
+
+		writeProgress("rules", jobProgress("rules"), true)
+		const events = buildAnalysisEvents(job.game, video.detections, rules, video.hud)
+		const patterns = findPatterns(job.game, events)
+		await Analysis.updateOne(claim, {
+			$set: {
+				status: "completed",
+				stage: "done",
+				progress: 100,
+				events,
+				stats: {
+					durationSec: Math.round(video.durationSec),
+					framesSampled: video.framesSampled,
+				},
+				summary: summarizeAnalysis(events, patterns),
+				sourceInfo: { type: "upload", id: job.inputRef },
+				patterns,
+				completedAt: new Date(),
+			},
+			$unset: { lockedUntil: 1, error: 1 },
+		})
+	} catch (err: any) {
+		await Analysis.updateOne(claim, {
+			$set: { status: "failed", error: err?.message || "Analysis failed", completedAt: new Date() },
+			$unset: { lockedUntil: 1 },
+		})
+	} finally {
+		updates.emit(id)
+	}
+}
+
+const running = new Set<string>()
+let draining = false
+
+/**
+ * Claims jobs until this process runs `workerConcurrency()` of them. Every
+ * finished job drains again, so the queue keeps moving without polling.
+ */
+export async function drainQueue(): Promise<void> {
+	if (draining) return
+	draining = true
+	try {
+		await connectToDatabase()
+		while (running.size < workerConcurrency()) {
+			const job = await claimNextJob()
+			if (!job) break
+			const id = String(job._id)
+			running.add(id)
+			processAnalysis(job)
+				.catch((err) => console.error("[Analysis Jobs] Job failed:", err))
+				.finally(() => {
+					running.delete(id)
+					drainQueue().catch((err) => console.error("[Analysis Jobs] Worker failed:", err))
+				})
+		}
+	} finally {
+		draining = false
+	}
+}
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Starts the worker for this process: resumes jobs left queued or
+ * abandoned by a previous process, then sweeps periodically for expired
+ * leases. Safe to call more than once.
+ */
+export function startAnalysisWorker(): void {
+	// Without a database there is no queue to work
+	if (sweepTimer || !process.env.MONGODB_URI) return
+	const sweep = () => drainQueue().catch((err) => console.error("[Analysis Jobs] Sweep failed:", err))
+	sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS)
+	sweepTimer.unref?.()
+	sweep()
+}
@@ -0,0 +1,296 @@
+/**
+ * Analysis Report
+ *
+ * Turns video detections into the coaching events and pattern findings
+ * stored on an Analysis: game-specific templates per event tag, falling back
+ * to the matched meta rule.
+ */
+
+import type { AnalysisEvent } from "@/models/Analysis"
+import type { TaggedDetection } from "@/lib/video-detectors"
+import { hudAt, type HudSeries } from "@/lib/video-analysis"
+
+export interface ReportRule {
+	code: string
+	title: string
+	description: string
+	tags?: string[]
+	links?: string[]
+}
+
+export type EventTemplate = { whatHappened: string; whyOnline: string; whatToDo: string; drill: string }
+
+export interface PatternFinding {
+	code: string
+	label: string
+	why: string
+	fix: string
+}
+
+/** Game-specific coaching copy per event tag */
+export const EVENT_TEMPLATES: Record<string, Record<string, EventTemplate[]>> = {
+	"UFC 5": {
+		stamina_drop: [
+			{
+				whatHappened: "Threw 5 power punches while stamina was below 45%",
+				whyOnline: "Low-stamina power chains get blown up by delayed counters; stamina race decides late rounds",
+				whatToDo: "Under 45% stamina → max 3 strikes per exchange → reset footwork, jab reset",
+				drill: "Film 5 clips under 45% stamina: cap at 3 strikes, log outcomes",
+			},
+		],
+		missed_counter: [
+			{
+				whatHappened: "Missed counter window on opponent's lead hook",
+				whyOnline: "Pre-emptive counters punish fixed entry timing online",
+				whatToDo: "Delay counter to third beat or jab feint then pull-counter",
+				drill: "Record 10 delay-counters: half-beat delay on hook entries",
+			},
+		],
+		side_dash_hook: [
+			{
+				whatHappened: "Got clipped after side dash + hook trap",
+				whyOnline: "Chasing on same lane gets punished by angle hooks in netplay",
+				whatToDo: "Mirror step guard, jab check, pivot exit before re-entry",
+				drill: "Shadow drill: mirror step → jab check → pivot; 10 reps",
+			},
+		],
+		pull_counter_window: [
+			{
+				whatHappened: "Forward step on reset opened pull-counter window",
+				whyOnline: "Stepping in on reset gives opponent free pull timing",
+				whatToDo: "Reset back-left or neutral, re-enter on third beat",
+				drill: "Record 10 resets: exit back-left only; re-enter on count 3",
+			},
+		],
+	},
+	"UNDISPUTED": {
+		movement_meta: [
+			{
+				whatHappened: "Circle-step + pivot offense pulled you into traps",
+				whyOnline: "Movement meta wins rounds via safe points and angle traps",
+				whatToDo: "Feint feet first, jab-tag exit lanes, never chase same lane twice",
+				drill: "Footwork drill: feint → tag → exit; 15 sequences",
+			},
+		],
+		body_tax: [
+			{
+				whatHappened: "Body hook spam at round start drained stamina",
+				whyOnline: "Body-shot tax forces you to lose late rounds",
+				whatToDo: "Open with block-body bias, jab-check, then step out; regain center",
+				drill: "Record 5 round starts: block-body first 5s, then jab-out",
+			},
+		],
+		straight_spam: [
+			{
+				whatHappened: "Straight spam timing war",
+				whyOnline: "Fixed-beat straights farm points unless you break rhythm",
+				whatToDo: "Half-beat delays on your straight, add feints every third entry",
+				drill: "Spar drill: 2 minutes of delayed straights on metronome",
+			},
+		],
+	},
+	"FIGHT NIGHT CHAMPION": {
+		sidestep_uppercut: [
+			{
+				whatHappened: "Sidestep → uppercut loop clipped your front step",
+				whyOnline: "Loop abuse beats straight-in walk downs using punch priority and lane shift",
+				whatToDo: "Walk on the outside lane, show lean to bait the sidestep, then straight at safe range and pivot out",
+				drill: "Bait sidestep 10x: outside lane → show lean → straight at safe range → pivot",
+			},
+		],
+		lean_bait: [
+			{
+				whatHappened: "Repeated lean baits drew your counters",
+				whyOnline: "Lean rhythm farms counter attempts",
+				whatToDo: "Tap jab at the lean hand, slide to the outside lane, delay counter half a beat",
+				drill: "Record 10 lean reads, only counter on delayed beat",
+			},
+		],
+		straight_trade: [
+			{
+				whatHappened: "Straight trade loop gave them advantage",
+				whyOnline: "Advantage trading exploits fixed timing",
+				whatToDo: "Break rhythm: jab feint, slide outside the center, hook return off their straight",
+				drill: "Mirror drill: feint → slip → hook; 12 reps",
+			},
+		],
+	},
+	"NBA 2K26": {
+		paint_mash: [
+			{
+				whatHappened: "Paint mash rhythm after broken plays",
+				whyOnline: "Mashers exploit late low-man rotations",
+				whatToDo: "Pre-rotate low man, shade baseline, contest timing not jumps",
+				drill: "Scrim drill: 10 possessions pre-rotate, track FG% in paint",
+			},
+		],
+		three_hunt: [
+			{
+				whatHappened: "3-hunt with misdirection forced late contests",
+				whyOnline: "Shot creators exploit stamina and timing windows",
+				whatToDo: "Top-lock hand, trail from hip, switch late with low-man ready",
+				drill: "3-hunt drill: top-lock and late switch for 10 reps",
+			},
+		],
+	},
+	"MADDEN 26": {
+		pa_crossers: [
+			{
+				whatHappened: "PA crossers with motion every 3rd down",
+				whyOnline: "One-shot deep over farms late rotations",
+				whatToDo: "FS middle third + QB contain; force checkdown",
+				drill: "Lab: 10 reps vs PA crossers; log sacks/throws away",
+			},
+		],
+		mesh_drags: [
+			{
+				whatHappened: "Mesh/drags YAC farming",
+				whyOnline: "Shallow hooks uncovered; user not in window",
+				whatToDo: "User MLB sit 3–7 yds, shade inside; rally tackle",
+				drill: "Lab: user MLB vs mesh 10 plays; count broken tackles",
+			},
+		],
+		stretch_spam: [
+			{
+				whatHappened: "HB stretch/outside zone spam",
+				whyOnline: "Edge leverage abused; force/contain missing",
+				whatToDo: "Shift front strong, set contain, user shoot B-gap",
+				drill: "Lab 10 runs: track TFLs after contain + user B-gap",
+			},
+		],
+	},
+}
+
+const RHYTHM_LOOP: PatternFinding = {
+	code: "TIMING-RHYTHM-LOOP",
+	label: "Exchange rhythm is predictable (1–2, pause, reset)",
+	why: "Opponents began countering on your second strike from Round 2",
+	fix: "Insert half-beat delays + feints every third entry to break reads",
+}
+
+/** Meta patterns reported in the summary when their tag is detected in the clip */
+export const PATTERN_FINDINGS: Record<string, Record<string, PatternFinding>> = {
+	"UFC 5": {
+		rhythm_loop: RHYTHM_LOOP,
+		stamina_drop: {
+			code: "STAMINA-DUMP",
+			label: "Power chains thrown under 45% stamina",
+			why: "Online windows punish low-stamina strings with delayed counters",
+			fix: "Under 45% stamina → max 3 strikes per exchange → reset footwork",
+		},
+		pull_counter_window: {
+			code: "PULL-COUNTER-WINDOWS",
+			label: "Forward step on reset exposes pull-counter timing",
+			why: "Your resets step into opponent's pull window",
+			fix: "Reset back-left or neutral; re-enter on third beat",
+		},
+		side_dash_hook: {
+			code: "SIDE-DASH-HOOK-TRAP",
+			label: "Side dash + hook trap detected",
+			why: "You chase on same lane; get clipped exiting block",
+			fix: "Mirror step guard, then jab check and pivot out",
+		},
+	},
+	"UNDISPUTED": {
+		straight_spam: RHYTHM_LOOP,
+	},
+	"FIGHT NIGHT CHAMPION": {
+		straight_trade: RHYTHM_LOOP,
+	},
+	"NBA 2K26": {
+		paint_mash: {
+			code: "2K-PAINT-MASH",
+			label: "Paint mash rhythm detected after broken play",
+			why: "Opponent mashes in mismatch windows; you help late",
+			fix: "Pre-rotate low man; shade baseline; hands-up contest timing",
+		},
+	},
+	"MADDEN 26": {
+		pa_crossers: {
+			code: "MADDEN-PA-CROSSERS",
+			label: "PA crossers spam with motion",
+			why: "You leave middle third vacated on rollouts",
+			fix: "Put FS in middle third, QB contain, force checkdown",
+		},
+		mesh_drags: {
+			code: "MADDEN-MESH-DRAGS",
+			label: "Mesh/drags farming YAC",
+			why: "User MLB not occupying shallow hook",
+			fix: "User MLB sit 3–7 yds; shade inside; rally tackle",
+		},
+	},
+}
+
+function formatTime(seconds: number): string {
+	return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+/** Rule tagged with the event tag, else one sharing a word with it, else the next rule in turn */
+function matchRule(tag: string, rules: ReportRule[], idx: number): ReportRule | undefined {
+	const words = tag.split("_")
+	return (
+		rules.find((r) => (r.tags || []).includes(tag)) ||
+		rules.find((r) => (r.tags || []).some((t) => words.includes(t))) ||
+		rules[idx % rules.length]
+	)
+}
+
+/** One coaching event per detection, in detection order, with the HUD as read at that moment */
+export function buildAnalysisEvents(
+	game: string,
+	detections: TaggedDetection[],
+	rules: ReportRule[],
+	hud: HudSeries = []
+): AnalysisEvent[] {
+	return detections.map((detection, idx) => {
+		const t = Math.floor(detection.time)
+		const tag = detection.tag
+		const rule = matchRule(tag, rules, idx)
+		const title = rule?.title || tag.replace(/_/g, " ")
+		const description = rule?.description || `${title} pattern in this clip.`
+
+		const template = EVENT_TEMPLATES[game]?.[tag]?.[0] || {
+			whatHappened: `${title} detected at ${formatTime(t)}`,
+			whyOnline: description + " This matters in ranked because opponents exploit these patterns.",
+			whatToDo: "Apply the meta rule: " + (description.split(";")[0] || description),
+			drill: `Film drill: Record 5 clips focusing on this issue; log timestamps and outcomes`,
+		}
+
+		const hudReads = hudAt(hud, detection.time)
+
+		return {
+			timecode: t,
+			label: title,
+			eventTag: tag,
+			confidence: detection.confidence,
+			metrics: detection.metrics || {},
+			...(hudReads ? { hudReads } : {}),
+			whatHappened: template.whatHappened,
+			whyOnline: template.whyOnline,
+			whatToDo: template.whatToDo,
+			drill: template.drill,
+			receipts: rule?.links && rule.links.length ? rule.links.slice(0, 2) : [
+				`https://www.youtube.com/results?search_query=${encodeURIComponent(game + " ranked " + title)}`,
+			],
+			metaTips: [description],
+			ruleRefs: rule ? [rule.code] : [],
+			feedback: { helped: 0, notHelped: 0 },
+		}
+	})
+}
+
+/** Findings for the tags detected in the clip, once each */
+export function findPatterns(game: string, events: AnalysisEvent[]): PatternFinding[] {
+	const findings: PatternFinding[] = []
+	for (const event of events) {
+		const finding = event.eventTag ? PATTERN_FINDINGS[game]?.[event.eventTag] : undefined
+		if (finding && !findings.includes(finding)) findings.push(finding)
+	}
+	return findings
+}
+
+export function summarizeAnalysis(events: AnalysisEvent[], patterns: PatternFinding[]): string {
+	if (patterns.length) return patterns.map((p) => `${p.label} — ${p.fix}`).join(" · ")
+	if (events.length) return `Key moments: ${Array.from(new Set(events.map((e) => e.label))).join(" · ")}`
+	return "No key moments detected in this clip. Upload a longer ranked clip with gameplay on screen."
+}
@@ -0,0 +1,366 @@
+/**
+ * Developer API - Studio Accounts, API Keys and Rate Limits
+ *
+ * Developer-facing routes are wrapped with `withApiKey(scope, handler)`, which
+ * runs before the route handler: it resolves the key sent as
+ * `Authorization: Bearer <key>` (or `x-api-key`), checks its scope, applies the
+ * key's per-minute rate limit and counts the request in the key's usage.
+ *
+ * Keys belong to a studio and are shown once at creation; only their SHA-256
+ * hash is stored. A studio key only reaches its own studio's data, even with
+ * the admin scope. The key in IGRAVERSE_ADMIN_API_KEY is the platform admin
+ * key: it has no studio, is not rate limited, reads every studio's data and is
+ * the only key for platform routes (studios, meta seed, webhooks).
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto"
+import { isValidObjectId } from "mongoose"
+import { NextRequest, NextResponse } from "next/server"
+import { connectToDatabase } from "@/lib/db"
+import { Studio } from "@/models/Studio"
+import { ApiKey } from "@/models/ApiKey"
+import { RateLimitWindow } from "@/models/RateLimitWindow"
+
+/**
+ * classify: submit disconnects (classify, batch, sessions, reconnects, appeals)
+ * read: query decisions, incidents, pending decisions, appeals and policies
+ * admin: everything for the studio, including policies, sweeps and its keys
+ */
+export const API_SCOPES = ["classify", "read", "admin"] as const
+
+export type ApiScope = (typeof API_SCOPES)[number]
+
+/** What a route requires: a scope, or "platform" for the platform admin key only */
+export type ApiAccess = ApiScope | "platform"
+
+export const KEY_PREFIX = "igv_"
+/** Characters of the key kept in plaintext so listings can identify it */
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 600
+export const MAX_RATE_LIMIT_PER_MINUTE = 100_000
+const RATE_LIMIT_WINDOW_MS = 60_000
+
+export interface StudioInfo {
+  studioId: string
+  name: string
+  active: boolean
+  createdAt: string
+}
+
+export interface ApiKeyInfo {
+  keyId: string
+  studioId: string
+  name: string
+  /** First characters of the key, e.g. "igv_3fA9x0Qb" */
+  prefix: string
+  scopes: ApiScope[]
+  rateLimitPerMinute: number
+  active: boolean
+  usage: { requests: number; rateLimited: number }
+  lastUsedAt?: string
+  revokedAt?: string
+  createdAt: string
+}
+
+/** Identity of an authenticated request, passed to the wrapped handler */
+export interface ApiAuth {
+  /** Absent for the platform admin key */
+  studioId?: string
+  keyId?: string
+  scopes: ApiScope[]
+}
+
+export type CreateApiKeyOutcome =
+  | { ok: true; key: string; apiKey: ApiKeyInfo }
+  | { ok: false; status: 404; error: string }
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex")
+}
+
+/** New random key: `igv_` followed by 32 bytes of base64url */
+export function generateApiKey(): string {
+  return KEY_PREFIX + randomBytes(32).toString("base64url")
+}
+
+/** Whether a key with `scopes` may call a route requiring `required` (admin implies every scope) */
+export function hasScope(scopes: readonly string[], required: ApiScope): boolean {
+  return scopes.includes("admin") || scopes.includes(required)
+}
+
+/** Whether the request was made with the platform admin key rather than a studio key */
+export function isPlatformAdmin(auth: ApiAuth): boolean {
+  return auth.studioId === undefined && auth.scopes.includes("admin")
+}
+
+/** Whether the caller may act on `studioId`: its own studio, or any for the platform admin */
+export function canAccessStudio(auth: ApiAuth, studioId: string): boolean {
+  return isPlatformAdmin(auth) || auth.studioId === studioId
+}
+
+/**
+ * Filter restricting a query to the caller's studio, on `field` (e.g.
+ * "caller.studioId" for decisions). Empty for the platform admin key, which
+ * reads every studio's data.
+ */
+export function studioScope(studioId: string | undefined, field = "studioId"): Record<string, string> {
+  return studioId ? { [field]: studioId } : {}
+}
+
+/** Reads the key from `Authorization: Bearer <key>` or `x-api-key` */
+export function apiKeyFromHeaders(headers: Headers): string | null {
+  const authorization = headers.get("authorization")
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+  return bearer || headers.get("x-api-key")?.trim() || null
+}
+
+/** Start of the fixed rate-limit window containing `now` */
+export function rateLimitWindowStart(now: number): number {
+  return now - (now % RATE_LIMIT_WINDOW_MS)
+}
+
+function isBootstrapAdminKey(key: string): boolean {
+  const adminKey = process.env.IGRAVERSE_ADMIN_API_KEY
+  if (!adminKey) return false
+  const expected = Buffer.from(hashApiKey(adminKey))
+  const actual = Buffer.from(hashApiKey(key))
+  return timingSafeEqual(expected, actual)
+}
+
+function toStudioInfo(doc: any): StudioInfo {
+  return { studioId: String(doc._id), name: doc.name, active: doc.active, createdAt: new Date(doc.createdAt).toISOString() }
+}
+
+function toApiKeyInfo(doc: any): ApiKeyInfo {
+  return {
+    keyId: String(doc._id),
+    studioId: doc.studioId,
+    name: doc.name,
+    prefix: doc.prefix,
+    scopes: doc.scopes,
+    rateLimitPerMinute: doc.rateLimitPerMinute,
+    active: doc.active,
+    usage: { requests: doc.usage?.requests ?? 0, rateLimited: doc.usage?.rateLimited ?? 0 },
+    lastUsedAt: doc.lastUsedAt ? new Date(doc.lastUsedAt).toISOString() : undefined,
+    revokedAt: doc.revokedAt ? new Date(doc.revokedAt).toISOString() : undefined,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Validates a key creation request. Returns the list of errors (empty when valid).
+ */
+export function validateApiKeyInput(input: { name?: unknown; scopes?: unknown; rateLimitPerMinute?: unknown }): string[] {
+  const errors: string[] = []
+  if (typeof input.name !== "string" || !input.name.trim()) errors.push("name is required")
+  if (
+    !Array.isArray(input.scopes) ||
+    input.scopes.length === 0 ||
+    input.scopes.some((scope) => !API_SCOPES.includes(scope))
+  ) {
+    errors.push(`scopes must be a non-empty array of: ${API_SCOPES.join(", ")}`)
+  }
+  if (
+    input.rateLimitPerMinute !== undefined &&
+    (typeof input.rateLimitPerMinute !== "number" ||
+      !Number.isInteger(input.rateLimitPerMinute) ||
+      input.rateLimitPerMinute < 1 ||
+      input.rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE)
+  ) {
+    errors.push(`rateLimitPerMinute must be an integer between 1 and ${MAX_RATE_LIMIT_PER_MINUTE}`)
+  }
+  return errors
+}
+
+export async function createStudio(name: string): Promise<StudioInfo> {
+  await connectToDatabase()
+  const doc = await Studio.create({ name: name.trim() })
+  return toStudioInfo(doc.toObject())
+}
+
+export async function listStudios(): Promise<StudioInfo[]> {
+  await connectToDatabase()
+  const docs = await Studio.find().sort({ createdAt: 1 }).lean()
+  return docs.map(toStudioInfo)
+}
+
+/** Returns a studio account, or null if it doesn't exist */
+export async function getStudio(studioId: string): Promise<StudioInfo | null> {
+  if (!isValidObjectId(studioId)) return null
+  await connectToDatabase()
+  const doc = await Studio.findById(studioId).lean()
+  return doc ? toStudioInfo(doc) : null
+}
+
+/**
+ * Issues a key for a studio. The plaintext key is only returned here; it can't
+ * be recovered later. 404 if the studio doesn't exist.
+ */
+export async function createApiKey(
+  studioId: string,
+  input: { name: string; scopes: ApiScope[]; rateLimitPerMinute?: number }
+): Promise<CreateApiKeyOutcome> {
+  if (!isValidObjectId(studioId)) return { ok: false, status: 404, error: "Studio not found" }
+  await connectToDatabase()
+  const studio: any = await Studio.findById(studioId).lean()
+  if (!studio) return { ok: false, status: 404, error: "Studio not found" }
+
+  const key = generateApiKey()
+  const doc = await ApiKey.create({
+    studioId,
+    name: input.name.trim(),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+    scopes: [...new Set(input.scopes)],
+    rateLimitPerMinute: input.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+  })
+  return { ok: true, key, apiKey: toApiKeyInfo(doc.toObject()) }
+}
+
+/**
+ * Returns a studio's keys with their usage counters, or null if the studio doesn't exist.
+ */
+export async function listApiKeys(studioId: string): Promise<ApiKeyInfo[] | null> {
+  if (!isValidObjectId(studioId)) return null
+  await connectToDatabase()
+  const studio = await Studio.findById(studioId).select({ _id: 1 }).lean()
+  if (!studio) return null
+  const docs = await ApiKey.find({ studioId }).sort({ createdAt: -1 }).lean()
+  return docs.map(toApiKeyInfo)
+}
+
+/**
+ * Revokes a key; requests with it are rejected from then on.
+ * Returns null if the key doesn't exist for the studio.
+ */
+export async function revokeApiKey(studioId: string, keyId: string): Promise<ApiKeyInfo | null> {
+  if (!isValidObjectId(keyId)) return null
+  await connectToDatabase()
+  const doc = await ApiKey.findOneAndUpdate(
+    { _id: keyId, studioId },
+    { $set: { active: false, revokedAt: new Date() } },
+    { new: true }
+  ).lean()
+  return doc ? toApiKeyInfo(doc) : null
+}
+
+/**
+ * Resolves a key to its stored document, or null if it is unknown, revoked
+ * or its studio is deactivated.
+ */
+async function findActiveKey(key: string): Promise<any | null> {
+  await connectToDatabase()
+  const doc: any = await ApiKey.findOne({ keyHash: hashApiKey(key), active: true }).lean()
+  if (!doc) return null
+  const studio: any = await Studio.findById(doc.studioId).select({ active: 1 }).lean()
+  return studio?.active ? doc : null
+}
+
+export interface RateLimitState {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Seconds until the current window ends */
+  resetAfterSeconds: number
+}
+
+/**
+ * Counts a request against the key's current one-minute window and records it
+ * in the key's usage counters (rejected requests count as rateLimited).
+ */
+async function consumeRateLimit(keyId: string, limit: number, now = Date.now()): Promise<RateLimitState> {
+  const windowStart = rateLimitWindowStart(now)
+  const window: any = await RateLimitWindow.findOneAndUpdate(
+    { keyId, windowStart: new Date(windowStart) },
+    {
+      $inc: { count: 1 },
+      $setOnInsert: { expiresAt: new Date(windowStart + 2 * RATE_LIMIT_WINDOW_MS) },
+    },
+    { new: true, upsert: true }
+  ).lean()
+  const allowed = window.count <= limit
+
+  await ApiKey.updateOne(
+    { _id: keyId },
+    { $inc: { [allowed ? "usage.requests" : "usage.rateLimited"]: 1 }, $set: { lastUsedAt: new Date(now) } }
+  )
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAfterSeconds: Math.ceil((windowStart + RATE_LIMIT_WINDOW_MS - now) / 1000),
+  }
+}
+
+function rateLimitHeaders(state: RateLimitState): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(state.limit),
+    "X-RateLimit-Remaining": String(state.remaining),
+    "X-RateLimit-Reset": String(state.resetAfterSeconds),
+  }
+}
+
+export type AuthOutcome =
+  | { ok: true; auth: ApiAuth; rateLimit?: RateLimitState }
+  | { ok: false; status: 401 | 403 | 429; error: string; rateLimit?: RateLimitState }
+
+/**
+ * Checks a key against the access a route requires and, for studio keys,
+ * counts the request against the key's rate limit.
+ */
+export async function authorizeApiKey(key: string, access: ApiAccess): Promise<AuthOutcome> {
+  if (isBootstrapAdminKey(key)) return { ok: true, auth: { scopes: ["admin"] } }
+
+  const doc = await findActiveKey(key)
+  if (!doc) return { ok: false, status: 401, error: "Invalid or revoked API key" }
+  if (access === "platform") return { ok: false, status: 403, error: "Requires the platform admin key" }
+  if (!hasScope(doc.scopes, access)) return { ok: false, status: 403, error: `API key lacks the '${access}' scope` }
+
+  const rateLimit = await consumeRateLimit(String(doc._id), doc.rateLimitPerMinute)
+  if (!rateLimit.allowed) {
+    return { ok: false, status: 429, error: `Rate limit exceeded (${rateLimit.limit} requests per minute)`, rateLimit }
+  }
+  return { ok: true, auth: { studioId: doc.studioId, keyId: String(doc._id), scopes: doc.scopes }, rateLimit }
+}
+
+type RouteHandler<C> = (req: NextRequest, ctx: C, auth: ApiAuth) => Promise<Response>
+
+/**
+ * Wraps a route handler so it only runs for requests carrying a key with
+ * `access`. Responds 401 for a missing or invalid key, 403 for a key without the
+ * scope (or a studio key on a platform route) and 429 (with Retry-After) when
+ * the key's rate limit is exhausted. Responses to studio keys carry the
+ * X-RateLimit-* headers.
+ */
+export function withApiKey<C = { params: Promise<Record<string, string>> }>(access: ApiAccess, handler: RouteHandler<C>) {
+  return async (req: NextRequest, ctx: C): Promise<Response> => {
+    const key = apiKeyFromHeaders(req.headers)
+    if (!key) {
+      return NextResponse.json(
+        { error: "Missing API key. Send it as 'Authorization: Bearer <key>'." },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      )
+    }
+
+    let outcome: AuthOutcome
+    try {
+      outcome = await authorizeApiKey(key, access)
+    } catch (err) {
+      console.error("[API Auth] Key lookup failed:", err)
+      return NextResponse.json({ error: "Authentication unavailable" }, { status: 503 })
+    }
+
+    const headers = outcome.rateLimit ? rateLimitHeaders(outcome.rateLimit) : {}
+    if (!outcome.ok) {
+      if (outcome.status === 401) headers["WWW-Authenticate"] = "Bearer"
+      if (outcome.status === 429) headers["Retry-After"] = String(outcome.rateLimit!.resetAfterSeconds)
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status, headers })
+    }
+
+    const res = await handler(req, ctx, outcome.auth)
+    for (const [name, value] of Object.entries(headers)) res.headers.set(name, value)
+    return res
+  }
+}
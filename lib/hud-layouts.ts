@@ -0,0 +1,76 @@
+// HUD layouts per game - regions of interest read from every sampled frame.
+// Coordinates are fractions of the frame (0-1) for 16:9 captures with the
+// default HUD; a game whose HUD moves needs its own layout.
+
+export type RGB = [number, number, number]
+
+export interface BarRegion {
+	kind: "bar"
+	x: number
+	y: number
+	width: number
+	height: number
+	/** Color of the filled part */
+	fill: RGB
+	/** Color of the empty part; when set, the bar only counts as visible if it is found */
+	track?: RGB
+	/** Max RGB distance from `fill`/`track` (default 60) */
+	tolerance?: number
+	/** Side the bar drains towards: ltr fills from the left, btt from the bottom */
+	direction?: "ltr" | "rtl" | "btt"
+}
+
+export interface DigitsRegion {
+	kind: "digits"
+	x: number
+	y: number
+	width: number
+	height: number
+	/** "m:ss" reads a clock as seconds, "ss" a plain number */
+	format: "m:ss" | "ss"
+	/** Luma (0-255) at or above which a pixel is ink (default 170) */
+	threshold?: number
+	/** 5x7 digit bitmaps for the game's font; defaults to DEFAULT_DIGIT_TEMPLATES */
+	templates?: Record<string, string[]>
+}
+
+export type HudRegion = BarRegion | DigitsRegion
+
+export interface HudLayout {
+	/** Decode resolution for HUD reads; small text needs more than the motion timeline */
+	width: number
+	height: number
+	/** Keyed by the hudReads field they fill */
+	regions: Record<string, HudRegion>
+}
+
+export const HUD_LAYOUTS: Record<string, HudLayout> = {
+	"UFC 5": {
+		width: 640,
+		height: 360,
+		regions: {
+			health: { kind: "bar", x: 0.06, y: 0.05, width: 0.3, height: 0.02, fill: [200, 36, 36], direction: "ltr" },
+			stamina: { kind: "bar", x: 0.06, y: 0.08, width: 0.3, height: 0.012, fill: [232, 196, 40], direction: "ltr" },
+			timer: { kind: "digits", x: 0.45, y: 0.03, width: 0.1, height: 0.06, format: "m:ss" },
+		},
+	},
+	"NBA 2K26": {
+		width: 640,
+		height: 360,
+		regions: {
+			// Vertical meter beside the shooter; read where it is drawn for a centered shooter
+			shotMeter: { kind: "bar", x: 0.56, y: 0.35, width: 0.012, height: 0.16, fill: [255, 214, 0], direction: "btt" },
+		},
+	},
+	"MADDEN 26": {
+		width: 640,
+		height: 360,
+		regions: {
+			playClock: { kind: "digits", x: 0.86, y: 0.9, width: 0.05, height: 0.06, format: "ss" },
+		},
+	},
+}
+
+export function getHudLayout(game: string): HudLayout | undefined {
+	return HUD_LAYOUTS[game]
+}
@@ -0,0 +1,210 @@
+/**
+ * HUD Reader
+ *
+ * CPU reads of the regions in a game's HUD layout from one RGB frame: bar
+ * fill by column color match, numbers by matching each glyph against 5x7
+ * digit templates. A region that isn't on screen (replays, menus) reads as
+ * undefined rather than 0, so it never looks like an empty bar.
+ */
+
+import type { BarRegion, DigitsRegion, HudLayout, HudRegion, RGB } from "@/lib/hud-layouts"
+import type { VideoFrame } from "@/lib/video-frames"
+
+/** Bars read 0-1, digits in seconds (m:ss) or as the number shown */
+export type HudReading = Record<string, number>
+
+/** Glyphs matching their best template below this are rejected */
+export const MIN_DIGIT_SCORE = 0.75
+
+const TEMPLATE_WIDTH = 5
+const TEMPLATE_HEIGHT = 7
+
+export const DEFAULT_DIGIT_TEMPLATES: Record<string, string[]> = {
+	"0": ["01110", "10001", "10011", "10101", "11001", "10001", "01110"],
+	"1": ["00100", "01100", "00100", "00100", "00100", "00100", "01110"],
+	"2": ["01110", "10001", "00001", "00010", "00100", "01000", "11111"],
+	"3": ["11110", "00001", "00001", "01110", "00001", "00001", "11110"],
+	"4": ["00010", "00110", "01010", "10010", "11111", "00010", "00010"],
+	"5": ["11111", "10000", "11110", "00001", "00001", "10001", "01110"],
+	"6": ["00110", "01000", "10000", "11110", "10001", "10001", "01110"],
+	"7": ["11111", "00001", "00010", "00100", "01000", "01000", "01000"],
+	"8": ["01110", "10001", "10001", "01110", "10001", "10001", "01110"],
+	"9": ["01110", "10001", "10001", "01111", "00001", "00010", "01100"],
+}
+
+interface PixelBox {
+	left: number
+	top: number
+	width: number
+	height: number
+}
+
+function toPixels(frame: VideoFrame, region: HudRegion): PixelBox | null {
+	const left = Math.max(0, Math.round(region.x * frame.width))
+	const top = Math.max(0, Math.round(region.y * frame.height))
+	const right = Math.min(frame.width, Math.round((region.x + region.width) * frame.width))
+	const bottom = Math.min(frame.height, Math.round((region.y + region.height) * frame.height))
+	if (right <= left || bottom <= top) return null
+	return { left, top, width: right - left, height: bottom - top }
+}
+
+function pixel(frame: VideoFrame, x: number, y: number): RGB {
+	const i = (y * frame.width + x) * frame.channels
+	return frame.channels === 3 ? [frame.data[i], frame.data[i + 1], frame.data[i + 2]] : [frame.data[i], frame.data[i], frame.data[i]]
+}
+
+function distance(a: RGB, b: RGB): number {
+	return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2)
+}
+
+function luma([r, g, b]: RGB): number {
+	return 0.299 * r + 0.587 * g + 0.114 * b
+}
+
+/**
+ * Filled fraction of a bar, 0-1: the filled run measured from the anchored
+ * side. Undefined when the bar is not visible.
+ */
+export function readBar(frame: VideoFrame, region: BarRegion): number | undefined {
+	const box = toPixels(frame, region)
+	if (!box) return undefined
+	const tolerance = region.tolerance ?? 60
+	const vertical = region.direction === "btt"
+	const slices = vertical ? box.height : box.width
+	const depth = vertical ? box.width : box.height
+
+	// One slice per column (rows for a vertical bar), ordered from the anchored side
+	let visible = 0
+	const filled: boolean[] = []
+	for (let s = 0; s < slices; s++) {
+		const at = region.direction === "rtl" || vertical ? slices - 1 - s : s
+		let fillHits = 0
+		let trackHits = 0
+		for (let d = 0; d < depth; d++) {
+			const color = vertical ? pixel(frame, box.left + d, box.top + at) : pixel(frame, box.left + at, box.top + d)
+			if (distance(color, region.fill) <= tolerance) fillHits++
+			else if (region.track && distance(color, region.track) <= tolerance) trackHits++
+		}
+		const isFilled = fillHits >= depth * 0.5
+		filled.push(isFilled)
+		if (isFilled || trackHits >= depth * 0.5) visible++
+	}
+
+	if (region.track ? visible < slices * 0.6 : !filled.some(Boolean)) return undefined
+	// Last filled slice, tolerating single-slice gaps from compression noise
+	let end = 0
+	for (let s = 0; s < slices; s++) {
+		if (filled[s]) end = s + 1
+		else if (!filled[s + 1]) break
+	}
+	return end / slices
+}
+
+/** Ink mask of the region: true where luma is at or above the threshold */
+function inkMask(frame: VideoFrame, box: PixelBox, threshold: number): boolean[][] {
+	return Array.from({ length: box.height }, (_, y) =>
+		Array.from({ length: box.width }, (_, x) => luma(pixel(frame, box.left + x, box.top + y)) >= threshold)
+	)
+}
+
+/** Samples a glyph's bounding box, padded to the template aspect, onto the 5x7 grid */
+function sampleGlyph(mask: boolean[][], left: number, right: number, top: number, bottom: number): string[] {
+	const height = bottom - top
+	const width = Math.max(right - left, Math.round((height * TEMPLATE_WIDTH) / TEMPLATE_HEIGHT))
+	const start = left - (width - (right - left)) / 2
+
+	return Array.from({ length: TEMPLATE_HEIGHT }, (_, row) => {
+		const y0 = top + Math.floor((row * height) / TEMPLATE_HEIGHT)
+		const y1 = Math.max(y0 + 1, top + Math.floor(((row + 1) * height) / TEMPLATE_HEIGHT))
+		return Array.from({ length: TEMPLATE_WIDTH }, (_, col) => {
+			const x0 = Math.floor(start + (col * width) / TEMPLATE_WIDTH)
+			const x1 = Math.max(x0 + 1, Math.floor(start + ((col + 1) * width) / TEMPLATE_WIDTH))
+			let ink = 0
+			let total = 0
+			for (let y = y0; y < y1; y++) {
+				for (let x = x0; x < x1; x++) {
+					total++
+					if (x >= left && x < right && mask[y][x]) ink++
+				}
+			}
+			return total && ink / total >= 0.5 ? "1" : "0"
+		}).join("")
+	})
+}
+
+function matchGlyph(glyph: string[], templates: Record<string, string[]>): { digit: string; score: number } {
+	let best = { digit: "", score: 0 }
+	for (const [digit, template] of Object.entries(templates)) {
+		let same = 0
+		for (let row = 0; row < TEMPLATE_HEIGHT; row++) {
+			for (let col = 0; col < TEMPLATE_WIDTH; col++) if (glyph[row][col] === template[row][col]) same++
+		}
+		const score = same / (TEMPLATE_WIDTH * TEMPLATE_HEIGHT)
+		if (score > best.score) best = { digit, score }
+	}
+	return best
+}
+
+/**
+ * The digits shown in the region, left to right, skipping punctuation.
+ * Undefined when no text is found or a glyph matches no template well enough.
+ */
+export function readDigitString(frame: VideoFrame, region: DigitsRegion): string | undefined {
+	const box = toPixels(frame, region)
+	if (!box) return undefined
+	const mask = inkMask(frame, box, region.threshold ?? 170)
+
+	// Glyphs are runs of columns with ink
+	const glyphs: { left: number; right: number; top: number; bottom: number }[] = []
+	for (let x = 0; x < box.width; x++) {
+		const rows = mask.map((row, y) => (row[x] ? y : -1)).filter((y) => y >= 0)
+		const last = glyphs[glyphs.length - 1]
+		if (!rows.length) continue
+		if (last && last.right === x) {
+			last.right = x + 1
+			last.top = Math.min(last.top, rows[0])
+			last.bottom = Math.max(last.bottom, rows[rows.length - 1] + 1)
+		} else {
+			glyphs.push({ left: x, right: x + 1, top: rows[0], bottom: rows[rows.length - 1] + 1 })
+		}
+	}
+	if (!glyphs.length) return undefined
+
+	// Colons and dots are much shorter than the digits around them
+	const textHeight = Math.max(...glyphs.map((g) => g.bottom - g.top))
+	let digits = ""
+	for (const glyph of glyphs) {
+		if (glyph.bottom - glyph.top < textHeight * 0.6) continue
+		const match = matchGlyph(sampleGlyph(mask, glyph.left, glyph.right, glyph.top, glyph.bottom), region.templates ?? DEFAULT_DIGIT_TEMPLATES)
+		if (match.score < MIN_DIGIT_SCORE) return undefined
+		digits += match.digit
+	}
+	return digits || undefined
+}
+
+/** The region's number: seconds for an m:ss clock, else the digits as a number */
+export function readDigits(frame: VideoFrame, region: DigitsRegion): number | undefined {
+	const digits = readDigitString(frame, region)
+	if (!digits) return undefined
+	if (region.format === "ss") return Number(digits)
+	if (digits.length < 3) return undefined
+	const seconds = Number(digits.slice(-2))
+	return seconds < 60 ? Number(digits.slice(0, -2)) * 60 + seconds : undefined
+}
+
+/** Every region of the layout that is readable in this frame */
+export function readHud(frame: VideoFrame, layout: HudLayout): HudReading {
+	const reading: HudReading = {}
+	for (const [field, region] of Object.entries(layout.regions)) {
+		const value = region.kind === "bar" ? readBar(frame, region) : readDigits(frame, region)
+		if (value !== undefined) reading[field] = value
+	}
+	return reading
+}
+
+/** A reading in hudReads units: bars as whole percentages, numbers unchanged */
+export function toHudReads(reading: HudReading, layout: HudLayout): Record<string, number> {
+	return Object.fromEntries(
+		Object.entries(reading).map(([field, value]) => [field, layout.regions[field]?.kind === "bar" ? Math.round(value * 100) : value])
+	)
+}
@@ -0,0 +1,1139 @@
+/**
+ * OpenAPI 3 document for every API route
+ *
+ * Served at GET /api/openapi and rendered by the API docs page. The classify
+ * request schemas are converted from the zod schemas the routes validate
+ * against; the other operations are declared here next to each other so a
+ * new route only needs one entry.
+ */
+
+import { z, type ZodTypeAny } from "zod"
+import {
+  ADVANTAGE_BANDS,
+  DISCONNECT_TYPES,
+  MATCH_BANDS,
+  MAX_COOLDOWN_MINUTES,
+  MAX_NETWORK_HISTORY,
+  MAX_OUTCOME_RULES,
+  MAX_RANK_POINT_MULTIPLIER,
+  PENALTY_SEVERITIES,
+  REASON_CODES,
+} from "@/lib/preservation-core"
+import { classifyRequestSchema, crashSignalsSchema, disconnectSignalsSchema, networkSnapshotSchema } from "@/lib/preservation-core-schema"
+import { APPEAL_STATUSES, MAX_CLIENT_LOGS } from "@/lib/preservation-core-appeals"
+import { WEBHOOK_EVENTS } from "@/lib/preservation-core-webhooks"
+import { PENDING_STATUSES } from "@/lib/preservation-core-pending"
+import { MAX_BATCH_PLAYERS } from "@/lib/preservation-core-batch"
+import { ANALYTICS_BUCKETS, ANALYTICS_SIGNALS, BREAKDOWN_DIMENSIONS } from "@/lib/preservation-core-analytics"
+import {
+  DEFAULT_EXAMPLES_PER_TRANSITION,
+  MAX_EXAMPLES_PER_TRANSITION,
+  MAX_SIMULATION_CASES,
+  MAX_STORED_CORPUS,
+  SIMULATION_OUTCOMES,
+} from "@/lib/preservation-core-simulator"
+import { API_SCOPES, DEFAULT_RATE_LIMIT_PER_MINUTE, MAX_RATE_LIMIT_PER_MINUTE, type ApiAccess } from "@/lib/api-auth"
+import { JOB_STAGES } from "@/lib/analysis-jobs"
+import { ANONYMOUS_UPLOAD_LIMITS, MAX_CHUNK_BYTES, UPLOAD_PLANS, UPLOAD_TTL_MS } from "@/lib/uploads"
+import { DEFAULT_SAMPLE_FPS, MAX_SAMPLE_FPS, MIN_SAMPLE_FPS } from "@/lib/video-frames"
+
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * Converts a zod schema to an OpenAPI (JSON Schema) object: types, required
+ * fields, numeric ranges, array limits, enums and descriptions.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  let description = schema.description
+  let inner: ZodTypeAny = schema
+  let nullable = false
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable || inner instanceof z.ZodEffects) {
+    if (inner instanceof z.ZodNullable) nullable = true
+    inner = inner instanceof z.ZodEffects ? inner.innerType() : inner.unwrap()
+    description ??= inner.description
+  }
+
+  let out: JsonSchema = {}
+  if (inner instanceof z.ZodObject) {
+    const shape = inner.shape as Record<string, ZodTypeAny>
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional())
+    out = {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, zodToJsonSchema(field)])),
+      ...(required.length ? { required } : {}),
+    }
+  } else if (inner instanceof z.ZodArray) {
+    out = { type: "array", items: zodToJsonSchema(inner.element) }
+    if (inner._def.minLength) out.minItems = inner._def.minLength.value
+    if (inner._def.maxLength) out.maxItems = inner._def.maxLength.value
+  } else if (inner instanceof z.ZodEnum) {
+    out = { type: "string", enum: inner.options }
+  } else if (inner instanceof z.ZodNumber) {
+    out = { type: inner.isInt ? "integer" : "number" }
+    for (const check of inner._def.checks) {
+      if (check.kind === "min") out[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value
+      if (check.kind === "max") out[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value
+    }
+  } else if (inner instanceof z.ZodString) {
+    out = { type: "string" }
+    if (inner.minLength !== null) out.minLength = inner.minLength
+    if (inner.maxLength !== null) out.maxLength = inner.maxLength
+  } else if (inner instanceof z.ZodBoolean) {
+    out = { type: "boolean" }
+  }
+  if (nullable) out.nullable = true
+  if (description) out.description = description
+  return out
+}
+
+// ---- Helpers for declaring operations ----
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` })
+
+const object = (properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema => ({
+  type: "object",
+  properties,
+  ...(required.length ? { required } : {}),
+})
+
+const string = (description?: string): JsonSchema => ({ type: "string", ...(description ? { description } : {}) })
+const number = (description?: string): JsonSchema => ({ type: "number", ...(description ? { description } : {}) })
+const integer = (description?: string): JsonSchema => ({ type: "integer", ...(description ? { description } : {}) })
+const boolean = (description?: string): JsonSchema => ({ type: "boolean", ...(description ? { description } : {}) })
+const array = (items: JsonSchema, description?: string): JsonSchema => ({
+  type: "array",
+  items,
+  ...(description ? { description } : {}),
+})
+const anyObject = (description?: string): JsonSchema => ({
+  type: "object",
+  additionalProperties: true,
+  ...(description ? { description } : {}),
+})
+
+const query = (name: string, schema: JsonSchema, description: string, required = false) => ({
+  name,
+  in: "query",
+  required,
+  description,
+  schema,
+})
+
+const path = (name: string, description: string) => ({
+  name,
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "string" },
+})
+
+const jsonBody = (schema: JsonSchema, required = true) => ({
+  required,
+  content: { "application/json": { schema } },
+})
+
+const json = (description: string, schema: JsonSchema) => ({
+  description,
+  content: { "application/json": { schema } },
+})
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Invalid request",
+  401: "Missing, invalid or revoked API key",
+  403: "API key lacks the required scope",
+  404: "Not found",
+  409: "Conflict with the current state",
+  413: "Too large (for the plan, or for one chunk)",
+  415: "Unsupported content type",
+  422: "Request understood but the input can't be processed",
+  429: "Rate limit exceeded (see the Retry-After header)",
+  500: "Server error",
+  503: "A required service (e.g. the database) is unavailable",
+}
+
+/** Standard error responses: `{ error }`, with `details` listing every violation on 400 */
+const errors = (...statuses: number[]) =>
+  Object.fromEntries(
+    statuses.map((status) => [status, json(ERROR_DESCRIPTIONS[status], ref(status === 400 ? "ValidationError" : "Error"))])
+  )
+
+/** Marks an operation as requiring an API key with `scope` (admin keys pass every scope) */
+const requires = (access: ApiAccess) => ({ security: [{ apiKey: [] }], "x-required-scope": access })
+
+const limitParam = (max: number, defaultValue: number) =>
+  query("limit", { type: "integer", minimum: 1, maximum: max, default: defaultValue }, `Max results (default ${defaultValue}, max ${max})`)
+
+const dateRangeParams = (field: string) => [
+  query("from", { type: "string", format: "date-time" }, `ISO 8601 start of the range (inclusive) on ${field}`),
+  query("to", { type: "string", format: "date-time" }, `ISO 8601 end of the range (inclusive) on ${field}`),
+]
+
+// ---- Components ----
+
+const penaltyOutcome = object(
+  {
+    severity: { type: "string", enum: PENALTY_SEVERITIES },
+    rankPointMultiplier: {
+      type: "number",
+      minimum: 0,
+      maximum: MAX_RANK_POINT_MULTIPLIER,
+      description: "Share of the rank points a loss normally costs: 0 = no gain no loss, 0.5 = halved loss, 1 = full loss",
+    },
+    cooldownMinutes: { type: "integer", minimum: 0, maximum: MAX_COOLDOWN_MINUTES, description: "Leaver-queue cooldown (0 = none)" },
+    teammateLossForgiveness: boolean("Whether the teammates left behind are forgiven a loss in this match"),
+  },
+  ["severity", "rankPointMultiplier", "cooldownMinutes", "teammateLossForgiveness"]
+)
+
+const outcomeRule = object(
+  {
+    type: { type: "string", enum: DISCONNECT_TYPES },
+    lossApplied: boolean("Only decisions that applied (true) or did not apply (false) a loss"),
+    advantage: { type: "string", enum: ADVANTAGE_BANDS, description: "competitiveAdvantage band (policy contextual cut-offs)" },
+    match: { type: "string", enum: MATCH_BANDS, description: "fairnessConfidence band (policy contextual cut-offs)" },
+    outcome: ref("PenaltyOutcome"),
+  },
+  ["type", "outcome"]
+)
+
+const classificationResult = object(
+  {
+    type: { type: "string", enum: DISCONNECT_TYPES },
+    lossApplied: boolean("Whether a loss should be applied to the player (kept for backward compatibility, see outcome)"),
+    outcome: ref("PenaltyOutcome"),
+    confidence: number("0.0 (borderline call) to 1.0 (clear-cut)"),
+    reasons: array(
+      object(
+        {
+          code: { type: "string", enum: REASON_CODES },
+          value: number("Measured value, if the reason is threshold-based"),
+          threshold: number("Policy threshold the value was compared against"),
+        },
+        ["code"]
+      ),
+      "Observed signals in evaluation order, followed by the deciding rule (always last)"
+    ),
+    offender: anyObject("Repeat-offender assessment (present when playerId was sent and the disconnect was a network drop)"),
+    signals: anyObject("Signals that triggered the classification, including trend features when networkHistory was sent"),
+  },
+  ["type", "lossApplied", "outcome", "confidence", "reasons", "signals"]
+)
+
+const components = {
+  schemas: {
+    Error: object({ error: string() }, ["error"]),
+    ValidationError: object({ error: string(), details: array(string(), "Every violation, prefixed with its JSON path") }, ["error"]),
+    NetworkSnapshot: zodToJsonSchema(networkSnapshotSchema),
+    CrashSignals: zodToJsonSchema(crashSignalsSchema),
+    DisconnectSignals: zodToJsonSchema(disconnectSignalsSchema),
+    ClassifyRequest: zodToJsonSchema(classifyRequestSchema),
+    PenaltyOutcome: penaltyOutcome,
+    OutcomeRule: outcomeRule,
+    ClassificationResult: classificationResult,
+    StoredClassificationResult: {
+      allOf: [
+        ref("ClassificationResult"),
+        object({
+          decisionId: string("Audit log id (absent if the decision could not be stored)"),
+          incidentId: string("Server outage incident the disconnect was correlated with"),
+        }),
+      ],
+    },
+    PendingDecision: object({
+      pendingId: string(),
+      playerId: string(),
+      matchId: string(),
+      status: { type: "string", enum: PENDING_STATUSES },
+      disconnectedAt: string(),
+      graceWindowMs: integer(),
+      expiresAt: string(),
+      provisional: ref("ClassificationResult"),
+      reconnectedAt: string(),
+      resolvedAt: string(),
+      decisionId: string(),
+      result: ref("ClassificationResult"),
+      createdAt: string(),
+    }),
+    Decision: anyObject("Stored decision: input signals, result, policy id and version, match id, caller and overturn status"),
+    Appeal: anyObject("Appeal against a decision, with its status and review"),
+    Incident: object({
+      incidentId: string(),
+      serverId: string(),
+      regionId: string(),
+      startedAt: string(),
+      endedAt: string(),
+      playerCount: integer(),
+      playerIds: array(string()),
+      matchIds: array(string()),
+      createdAt: string(),
+    }),
+    OutcomeCounts: object({
+      decisions: integer(),
+      disconnects: integer("Decisions with a type other than none"),
+      preserved: integer("Disconnects without a loss"),
+      penalized: integer("Disconnects with a loss"),
+      byType: { type: "object", additionalProperties: { type: "integer" }, description: "Decisions per disconnect type" },
+    }),
+    Session: anyObject("Match session: match id, policy, server, teams, status and reported players"),
+    Policy: anyObject("Classification policy: thresholds, contextual, trend, offender, crash and outage settings, defaultOutcome, outcome rules"),
+    Webhook: anyObject("Registered webhook (the secret is only returned on registration)"),
+    Analysis: anyObject("Gameplay analysis report: events with timecodes, stats, summary and detected patterns"),
+    Upload: object({
+      uploadId: string(),
+      plan: { type: "string", enum: Object.keys(UPLOAD_PLANS) },
+      filename: string(),
+      size: integer("Declared size in bytes"),
+      offset: integer("Bytes received; the next chunk starts here"),
+      chunkSize: integer("Chunk size to send"),
+      maxBytes: integer("Largest upload the plan allows"),
+      sha256: string(),
+      expiresAt: string("Removed if no chunk arrives before this"),
+    }),
+    AnalysisStatus: object({
+      analysisId: string(),
+      status: { type: "string", enum: ["queued", "processing", "completed", "failed"] },
+      stage: { type: "string", enum: [...JOB_STAGES] },
+      progress: integer("Percent complete, 0-100"),
+      error: string("Why the analysis failed"),
+      attempts: integer("Processing attempts, including ones cut short by a restart"),
+      createdAt: string(),
+      updatedAt: string(),
+      completedAt: string(),
+    }),
+    Studio: object({ studioId: string(), name: string(), active: boolean(), createdAt: string() }),
+    ApiKey: object({
+      keyId: string(),
+      studioId: string(),
+      name: string(),
+      prefix: string("First characters of the key, to identify it"),
+      scopes: array({ type: "string", enum: API_SCOPES }),
+      rateLimitPerMinute: integer(),
+      active: boolean(),
+      usage: object({ requests: integer("Requests served"), rateLimited: integer("Requests rejected with 429") }),
+      lastUsedAt: string(),
+      revokedAt: string(),
+      createdAt: string(),
+    }),
+    MetaRule: object({
+      game: string(),
+      code: string(),
+      title: string(),
+      description: string(),
+      patchTag: string(),
+      links: array(object({ label: string(), url: string() })),
+      tags: array(string()),
+    }),
+  },
+  securitySchemes: {
+    apiKey: {
+      type: "http",
+      scheme: "bearer",
+      description: "Studio API key (igv_...), sent as `Authorization: Bearer <key>` or `x-api-key`",
+    },
+  },
+}
+
+// ---- Paths ----
+
+const PC = "/api/preservation-core"
+
+const paths: Record<string, Record<string, unknown>> = {
+  "/api/health": {
+    get: {
+      tags: ["Platform"],
+      summary: "Service health",
+      responses: {
+        200: json("Dependency status", object({ mongo: object({ connected: boolean(), error: string() }), openai: object({ configured: boolean() }) })),
+      },
+    },
+  },
+  "/api/upload": {
+    post: {
+      tags: ["MetaBuffed"],
+      summary: "Start a chunked video upload",
+      description:
+        "Send the bytes with PUT /api/upload/{id}?offset=N in chunks of chunkSize, then POST /api/upload/{id}/complete. " +
+        `The size limit depends on the plan: ${Object.entries(UPLOAD_PLANS)
+          .map(([plan, { maxBytes }]) => `${plan} ${maxBytes} bytes`)
+          .join(", ")}. Requests with an API key (classify scope) get the studio plan. Without a key, at most ${ANONYMOUS_UPLOAD_LIMITS.perClient} uploads per address and ${ANONYMOUS_UPLOAD_LIMITS.totalBytes} bytes in total can be in progress (429 past either). Uploads without a chunk for ${UPLOAD_TTL_MS / 3_600_000}h are removed.`,
+      requestBody: jsonBody(
+        object(
+          {
+            size: integer("File size in bytes"),
+            sha256: string("SHA-256 of the whole file (hex); checked on completion"),
+            filename: string(),
+          },
+          ["size", "sha256"]
+        )
+      ),
+      responses: { 201: json("Upload started", ref("Upload")), ...errors(400, 401, 403, 413, 415, 429, 500) },
+    },
+  },
+  "/api/upload/{id}": {
+    get: {
+      tags: ["MetaBuffed"],
+      summary: "Upload progress, to resume from offset",
+      parameters: [path("id", "Upload id")],
+      responses: { 200: json("Upload", ref("Upload")), ...errors(404, 500) },
+    },
+    put: {
+      tags: ["MetaBuffed"],
+      summary: "Append a chunk",
+      description: `The raw chunk, at most ${MAX_CHUNK_BYTES} bytes, written at offset. Error responses carry the offset to continue from.`,
+      parameters: [
+        path("id", "Upload id"),
+        query("offset", integer(), "Byte offset of the chunk; must equal the upload's current offset", true),
+        { name: "x-chunk-sha256", in: "header", required: false, description: "SHA-256 of the chunk (hex); a mismatch is a 422", schema: string() },
+      ],
+      requestBody: { required: true, content: { "application/octet-stream": { schema: { type: "string", format: "binary" } } } },
+      responses: { 200: json("Chunk stored", ref("Upload")), ...errors(400, 404, 409, 413, 422, 500) },
+    },
+  },
+  "/api/upload/{id}/complete": {
+    post: {
+      tags: ["MetaBuffed"],
+      summary: "Finish an upload",
+      description:
+        "Checks that every byte arrived (409 otherwise), the declared SHA-256 and the MP4 header; a failed check (422) discards the upload.",
+      parameters: [path("id", "Upload id")],
+      responses: {
+        200: json("Stored upload, ready for /api/analyze", object({ uploadId: string(), path: string(), size: integer(), sha256: string() })),
+        ...errors(404, 409, 422, 500),
+      },
+    },
+  },
+  "/api/analyze": {
+    post: {
+      tags: ["MetaBuffed"],
+      summary: "Queue an analysis of an uploaded video",
+      description:
+        "Queues the upload for the analysis worker and returns right away; poll statusUrl, or follow streamUrl, for progress and the report. Links are rejected with 422. Also accepts multipart/form-data with the same fields.",
+      requestBody: jsonBody(
+        object(
+          {
+            game: string("Game title, e.g. \"UFC 5\""),
+            uploadId: string("Id returned by POST /api/upload"),
+            link: string("Video link; not analyzable yet (422)"),
+            sessionId: string("Browser session id, used to find the latest analysis"),
+            sampleFps: number(`Frames sampled per second, ${MIN_SAMPLE_FPS}-${MAX_SAMPLE_FPS} (default: ANALYSIS_SAMPLE_FPS or ${DEFAULT_SAMPLE_FPS})`),
+          },
+          ["game"]
+        )
+      ),
+      responses: {
+        202: json("Queued", { allOf: [ref("AnalysisStatus"), object({ statusUrl: string("GET /api/analysis/{id}/status"), streamUrl: string("GET /api/analysis/{id}/stream") })] }),
+        ...errors(400, 404, 422, 500, 503),
+      },
+    },
+  },
+  "/api/analysis/{id}/stream": {
+    get: {
+      tags: ["MetaBuffed"],
+      summary: "Analysis progress stream (server-sent events)",
+      description:
+        "`status` (AnalysisStatus) on every stage (decode, hud, detect, rules) and progress change, `events` ({ analysisId, events }) each time more events are found, then `done` (AnalysisStatus plus report once completed) and the stream closes. A reconnect starts from the current state.",
+      parameters: [path("id", "Analysis id")],
+      responses: {
+        200: {
+          description: "Event stream",
+          content: { "text/event-stream": { schema: string("`event: <status|events|done>` and `data: <JSON>` lines") } },
+        },
+        ...errors(404, 500),
+      },
+    },
+  },
+  "/api/analysis/{id}/status": {
+    get: {
+      tags: ["MetaBuffed"],
+      summary: "Analysis progress",
+      description: "Stage and percent progress of a queued analysis; includes the report once completed, the error once failed.",
+      parameters: [path("id", "Analysis id")],
+      responses: {
+        200: json("Status", { allOf: [ref("AnalysisStatus"), object({ report: ref("Analysis") })] }),
+        ...errors(404, 500),
+      },
+    },
+  },
+  "/api/analysis/latest": {
+    get: {
+      tags: ["MetaBuffed"],
+      summary: "Latest analysis for a session",
+      parameters: [query("sessionId", string(), "Browser session id", true)],
+      responses: { 200: json("Latest analysis (null if none)", object({ analysis: ref("Analysis"), analysisId: string() })), ...errors(400, 500) },
+    },
+  },
+  "/api/analysis/history": {
+    delete: {
+      tags: ["MetaBuffed"],
+      summary: "Delete a session's analyses",
+      parameters: [
+        query("sessionId", string(), "Browser session id", true),
+        query("analysisId", string(), "Delete only this analysis"),
+      ],
+      responses: { 200: json("Deleted", object({ ok: boolean() })), ...errors(400, 500) },
+    },
+  },
+  "/api/chat": {
+    post: {
+      tags: ["MetaBuffed"],
+      summary: "Ask the coach a question",
+      requestBody: jsonBody(
+        object(
+          {
+            question: string(),
+            game: string(),
+            analysisId: string("Analysis used as context"),
+            sessionId: string(),
+            userId: string(),
+            keyMoment: anyObject("Event the question is about"),
+          },
+          ["question"]
+        )
+      ),
+      responses: {
+        200: json(
+          "Coach answer",
+          object({ messageId: string(), userMessageId: string(), content: string(), ruleCodes: array(string()), receipts: array(string()) })
+        ),
+        ...errors(400, 500),
+      },
+    },
+  },
+  "/api/chat/history": {
+    get: {
+      tags: ["MetaBuffed"],
+      summary: "Chat history for a session",
+      parameters: [query("sessionId", string(), "Browser session id"), limitParam(100, 20)],
+      responses: {
+        200: json("Messages, oldest first", object({ messages: array(object({ id: string(), role: { type: "string", enum: ["user", "assistant", "system"] }, content: string() })) })),
+      },
+    },
+    delete: {
+      tags: ["MetaBuffed"],
+      summary: "Delete chat history",
+      parameters: [query("sessionId", string(), "Browser session id", true), query("messageId", string(), "Delete only this message")],
+      responses: { 200: json("Deleted", object({ ok: boolean() })), ...errors(400, 500) },
+    },
+  },
+  "/api/feedback": {
+    post: {
+      tags: ["MetaBuffed"],
+      summary: "Rate an analysis event",
+      requestBody: jsonBody(
+        object(
+          {
+            analysisId: string(),
+            eventIndex: integer("Index of the event in the analysis"),
+            helped: boolean(),
+            timecode: number(),
+            sessionId: string(),
+            feedback: string("Free-text feedback"),
+          },
+          ["analysisId", "eventIndex", "helped"]
+        )
+      ),
+      responses: { 200: json("Recorded", object({ ok: boolean() })), ...errors(400, 500) },
+    },
+  },
+  "/api/meta/rules": {
+    get: {
+      tags: ["MetaBuffed"],
+      summary: "Meta rules",
+      parameters: [query("game", string(), "Only rules for this game")],
+      responses: { 200: json("Up to 200 rules", object({ rules: array(ref("MetaRule")) })), ...errors(500) },
+    },
+  },
+  "/api/meta/seed": {
+    post: {
+      tags: ["MetaBuffed"],
+      ...requires("platform"),
+      summary: "Seed the built-in meta rules",
+      responses: { 200: json("Seeded", object({ ok: boolean(), inserted: integer() })), ...errors(401, 403, 429, 500) },
+    },
+  },
+  "/api/studios": {
+    get: {
+      tags: ["Platform"],
+      ...requires("platform"),
+      summary: "List studio accounts",
+      responses: { 200: json("Studios", object({ studios: array(ref("Studio")) })), ...errors(401, 403, 429, 500) },
+    },
+    post: {
+      tags: ["Platform"],
+      ...requires("platform"),
+      summary: "Create a studio account",
+      requestBody: jsonBody(object({ name: string() }, ["name"])),
+      responses: { 201: json("Created studio", object({ studio: ref("Studio") })), ...errors(400, 401, 403, 409, 429, 500) },
+    },
+  },
+  "/api/studios/{studioId}/keys": {
+    get: {
+      tags: ["Platform"],
+      ...requires("admin"),
+      summary: "List a studio's API keys with usage",
+      description: "Requires an admin key of the studio or the platform admin key.",
+      parameters: [path("studioId", "Studio id")],
+      responses: { 200: json("API keys, newest first", object({ keys: array(ref("ApiKey")) })), ...errors(401, 403, 404, 429, 500) },
+    },
+    post: {
+      tags: ["Platform"],
+      ...requires("admin"),
+      summary: "Issue an API key",
+      description: "The key is only returned in this response; only its hash is stored. Requires an admin key of the studio or the platform admin key.",
+      parameters: [path("studioId", "Studio id")],
+      requestBody: jsonBody(
+        object(
+          {
+            name: string("Label, e.g. \"EU game servers\""),
+            scopes: { ...array({ type: "string", enum: API_SCOPES }), minItems: 1 },
+            rateLimitPerMinute: {
+              type: "integer",
+              minimum: 1,
+              maximum: MAX_RATE_LIMIT_PER_MINUTE,
+              default: DEFAULT_RATE_LIMIT_PER_MINUTE,
+            },
+          },
+          ["name", "scopes"]
+        )
+      ),
+      responses: {
+        201: json("Issued key", object({ key: string("The API key (shown once)"), apiKey: ref("ApiKey") })),
+        ...errors(400, 401, 403, 404, 429, 500),
+      },
+    },
+  },
+  "/api/studios/{studioId}/keys/{keyId}": {
+    delete: {
+      tags: ["Platform"],
+      ...requires("admin"),
+      summary: "Revoke an API key",
+      description: "Requires an admin key of the studio or the platform admin key.",
+      parameters: [path("studioId", "Studio id"), path("keyId", "API key id")],
+      responses: { 200: json("Revoked key", object({ apiKey: ref("ApiKey") })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/classify`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Classify a disconnect",
+      description:
+        "Classifies a disconnect and records the decision. With graceWindowMs the response is 202 with a pending decision instead.",
+      parameters: [{ name: "x-caller-id", in: "header", required: false, description: "Calling service, stored in the audit log", schema: { type: "string" } }],
+      requestBody: jsonBody(ref("ClassifyRequest")),
+      responses: {
+        200: json("Classification", ref("StoredClassificationResult")),
+        202: json("Pending decision (grace mode)", ref("PendingDecision")),
+        ...errors(400, 401, 403, 404, 429, 500),
+      },
+    },
+    get: {
+      tags: ["Preservation Core"],
+      summary: "Classify endpoint documentation",
+      parameters: [query("policyId", string(), "Report this policy's thresholds")],
+      responses: { 200: json("Documentation generated from the request schema", anyObject()), ...errors(404, 500) },
+    },
+  },
+  [`${PC}/classify/batch`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Classify every disconnected player of a match",
+      requestBody: jsonBody(
+        object(
+          {
+            matchId: string(),
+            policyId: string(),
+            fairnessConfidence: number("Used for entries that omit it"),
+            teams: { type: "object", additionalProperties: array(string()), description: "Full team rosters" },
+            serverId: string(),
+            regionId: string(),
+            players: {
+              ...array(object(
+                  { playerId: string(), signals: ref("DisconnectSignals"), disconnectedAt: number("Epoch ms"), platform: string("Client platform, used for analytics") },
+                  ["playerId", "signals"]
+                )),
+              minItems: 1,
+              maxItems: MAX_BATCH_PLAYERS,
+            },
+          },
+          ["players"]
+        )
+      ),
+      responses: {
+        200: json(
+          "Per-entry results (200 even when some entries fail)",
+          object({ matchId: string(), teamOutages: array(string()), results: array(anyObject("{ playerId, ok: true, result } or { playerId, ok: false, errors }")) })
+        ),
+        ...errors(400, 401, 403, 404, 429, 500),
+      },
+    },
+  },
+  [`${PC}/decisions`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Query the decision audit log",
+      parameters: [
+        query("playerId", string(), "Decisions for one player"),
+        query("matchId", string(), "Decisions for one match"),
+        query("incidentId", string(), "Decisions correlated with one outage incident"),
+        query("type", { type: "string", enum: DISCONNECT_TYPES }, "Decision type"),
+        ...dateRangeParams("the decision time"),
+        limitParam(200, 50),
+      ],
+      responses: { 200: json("Decisions, newest first", object({ decisions: array(ref("Decision")) })), ...errors(400, 401, 403, 429, 500) },
+    },
+  },
+  [`${PC}/decisions/{decisionId}`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Get a decision",
+      parameters: [path("decisionId", "Audit log id")],
+      responses: { 200: json("Decision", object({ decision: ref("Decision") })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/analytics`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Disconnect analytics",
+      description: "Disconnects by type over time, preserved vs penalized, and the signals and rules behind the decisions. Studio keys only see their studio's decisions.",
+      parameters: [
+        ...dateRangeParams("the decision time (default: the last 30 days)"),
+        query("bucket", { type: "string", enum: ANALYTICS_BUCKETS, default: "day" }, "Timeline bucket (at most 1000 per request)"),
+        query("regionId", string(), "Only one region (\"unknown\" = sent without regionId)"),
+        query("platform", string(), "Only one platform (\"unknown\" = sent without platform)"),
+        query("policyId", string(), "Only decisions made with one policy"),
+      ],
+      responses: {
+        200: json(
+          "Aggregated decisions",
+          object({
+            range: object({ from: string(), to: string(), bucket: { type: "string", enum: ANALYTICS_BUCKETS } }),
+            totals: { allOf: [ref("OutcomeCounts"), object({ preservedShare: number(), penalizedShare: number() })] },
+            timeline: array({ allOf: [ref("OutcomeCounts"), object({ start: string("Bucket start") })] }, "Every bucket in the range"),
+            signals: array(
+              object({ signal: { type: "string", enum: ANALYTICS_SIGNALS }, disconnects: integer(), preserved: integer(), penalized: integer() })
+            ),
+            decidingReasons: array(object({ code: string(), disconnects: integer(), preserved: integer(), penalized: integer() })),
+          })
+        ),
+        ...errors(400, 401, 403, 429, 500),
+      },
+    },
+  },
+  [`${PC}/analytics/breakdown`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Disconnects by region or platform",
+      parameters: [
+        query("by", { type: "string", enum: BREAKDOWN_DIMENSIONS }, "Dimension to group by", true),
+        ...dateRangeParams("the decision time (default: the last 30 days)"),
+        query("regionId", string(), "Only one region"),
+        query("platform", string(), "Only one platform"),
+        query("policyId", string(), "Only decisions made with one policy"),
+      ],
+      responses: {
+        200: json(
+          "Groups, most decisions first",
+          object({
+            by: { type: "string", enum: BREAKDOWN_DIMENSIONS },
+            groups: array({ allOf: [ref("OutcomeCounts"), object({ key: string("\"unknown\" when not sent"), disconnectRate: number() })] }),
+          })
+        ),
+        ...errors(400, 401, 403, 429, 500),
+      },
+    },
+  },
+  [`${PC}/appeals`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "List appeals",
+      parameters: [
+        query("status", { type: "string", enum: APPEAL_STATUSES }, "Appeal status"),
+        query("playerId", string(), "Appeals by one player"),
+        query("decisionId", string(), "Appeals against one decision"),
+        limitParam(200, 50),
+      ],
+      responses: { 200: json("Appeals, newest first", object({ appeals: array(ref("Appeal")) })), ...errors(400, 401, 403, 429, 500) },
+    },
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Appeal a decision",
+      requestBody: jsonBody(
+        object(
+          {
+            decisionId: string(),
+            message: { type: "string", maxLength: 4000 },
+            clientLogs: { ...array(object({ name: string(), content: string() }, ["name", "content"])), maxItems: MAX_CLIENT_LOGS },
+          },
+          ["decisionId", "message"]
+        )
+      ),
+      responses: { 201: json("Appeal filed", object({ appeal: ref("Appeal") })), ...errors(400, 401, 403, 404, 409, 429, 500) },
+    },
+  },
+  [`${PC}/appeals/{appealId}`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Get an appeal",
+      parameters: [path("appealId", "Appeal id")],
+      responses: { 200: json("Appeal", object({ appeal: ref("Appeal") })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/appeals/{appealId}/review`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("admin"),
+      summary: "Review an appeal",
+      parameters: [path("appealId", "Appeal id")],
+      requestBody: jsonBody(
+        object({ status: { type: "string", enum: ["upheld", "overturned"] }, reviewerId: string(), note: string() }, ["status", "reviewerId"])
+      ),
+      responses: { 200: json("Reviewed appeal", object({ appeal: ref("Appeal") })), ...errors(400, 401, 403, 404, 409, 429, 500) },
+    },
+  },
+  [`${PC}/appeals/overturned`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Overturned decisions",
+      description: "Decisions overturned on appeal or by a server outage incident, oldest first.",
+      parameters: [
+        query("since", { type: "string", format: "date-time" }, "Only decisions overturned after this time"),
+        query("after", string(), "decisionId of the last decision of the previous page (requires since)"),
+        query("playerId", string(), "One player's overturned decisions"),
+        limitParam(500, 100),
+      ],
+      responses: { 200: json("Overturned decisions, oldest first", object({ decisions: array(ref("Decision")) })), ...errors(400, 401, 403, 429, 500) },
+    },
+  },
+  [`${PC}/disconnect-events`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Ingest raw disconnect events",
+      requestBody: jsonBody(
+        object(
+          {
+            policyId: string("Policy whose outage settings apply (default: \"default\")"),
+            events: {
+              ...array(
+                object(
+                  { playerId: string(), serverId: string(), occurredAt: number("Epoch ms"), matchId: string(), regionId: string() },
+                  ["playerId", "serverId", "occurredAt"]
+                )
+              ),
+              minItems: 1,
+              maxItems: 256,
+            },
+          },
+          ["events"]
+        )
+      ),
+      responses: { 200: json("Ingested", object({ ingested: integer(), incidents: array(ref("Incident")) })), ...errors(400, 401, 403, 429, 500) },
+    },
+  },
+  [`${PC}/incidents`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Server outage incidents",
+      parameters: [
+        query("serverId", string(), "Incidents on one game server"),
+        query("regionId", string(), "Incidents in one region"),
+        ...dateRangeParams("the incident start"),
+        limitParam(200, 50),
+      ],
+      responses: { 200: json("Incidents, newest first", object({ incidents: array(ref("Incident")) })), ...errors(400, 401, 403, 429, 500) },
+    },
+  },
+  [`${PC}/incidents/{incidentId}`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Get an incident with its decisions",
+      parameters: [path("incidentId", "Incident id")],
+      responses: { 200: json("Incident", object({ incident: ref("Incident"), decisions: array(ref("Decision")) })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/pending`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Pending decisions (grace mode)",
+      parameters: [
+        query("playerId", string(), "Pending decisions for one player"),
+        query("matchId", string(), "Pending decisions for one match"),
+        query("status", { type: "string", enum: PENDING_STATUSES }, "Pending decision status"),
+        limitParam(200, 50),
+      ],
+      responses: { 200: json("Pending decisions, newest first", object({ pending: array(ref("PendingDecision")) })), ...errors(400, 401, 403, 429, 500) },
+    },
+  },
+  [`${PC}/pending/{pendingId}`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Get a pending decision",
+      parameters: [path("pendingId", "Pending decision id")],
+      responses: { 200: json("Pending decision", object({ pending: ref("PendingDecision") })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/pending/{pendingId}/reconnect`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Report a reconnect inside the grace window",
+      parameters: [path("pendingId", "Pending decision id")],
+      requestBody: jsonBody(object({ at: number("Epoch ms of the reconnect, between the disconnect and now (default: time of the request). The window is checked against the time the request arrives.") }), false),
+      responses: { 200: json("Resolved as reconnected", object({ pending: ref("PendingDecision") })), ...errors(400, 401, 403, 404, 409, 429, 500) },
+    },
+  },
+  [`${PC}/pending/sweep`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("admin"),
+      summary: "Finalize expired pending decisions",
+      responses: { 200: json("Sweep result", object({ ok: boolean(), finalized: integer() })), ...errors(401, 403, 429, 500) },
+    },
+  },
+  [`${PC}/policies`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "List policies",
+      responses: { 200: json("Default and the studio's registered policies", object({ policies: array(ref("Policy")) })), ...errors(401, 403, 429, 500) },
+    },
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("admin"),
+      summary: "Register a policy",
+      description: "Omitted thresholds and cut-offs fall back to the default policy. Policy ids are unique per studio.",
+      requestBody: jsonBody(
+        object(
+          {
+            id: string("policyId used by classify requests"),
+            name: string(),
+            thresholds: anyObject("highPacketLoss, highLatencyMs, timeoutMs"),
+            contextual: anyObject("winningAdvantage, losingAdvantage, settledConfidence, uncertainConfidence"),
+            trend: anyObject("sustainedSamples, jitterMs, lossBurstSamples"),
+            offender: anyObject("minNetworkDrops, baselineLosingRate, significance, penaltyLadder"),
+            crash: anyObject("outcome (preserve | apply_loss), heartbeatTimeoutMs"),
+            outage: anyObject("minPlayers, windowMs (server outage correlation)"),
+            defaultOutcome: { type: "string", enum: ["preserve", "apply_loss"] },
+            outcomes: {
+              ...array(ref("OutcomeRule"), "Graduated outcomes, first match wins (default: the default policy's rules)"),
+              maxItems: MAX_OUTCOME_RULES,
+            },
+          },
+          ["id", "name"]
+        )
+      ),
+      responses: { 200: json("Registered policy", object({ policy: ref("Policy") })), ...errors(400, 401, 403, 429, 500) },
+    },
+  },
+  [`${PC}/policies/simulate`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Simulate a candidate policy",
+      description:
+        "Replays a corpus of disconnect signals through the baseline and a candidate policy and reports how many outcomes would change, with example cases. Repeat-offender escalation and outage correlation are not replayed. Nothing is stored.",
+      requestBody: jsonBody(
+        object({
+          baselinePolicyId: string("Policy in use (default: \"default\")"),
+          candidatePolicyId: string("Registered policy to compare against (or send candidate)"),
+          candidate: anyObject("Overrides applied to the baseline policy, same sections as POST /policies"),
+          jsonl: string(`Uploaded corpus: one DisconnectSignals or { decisionId?, playerId?, signals } per line (max ${MAX_SIMULATION_CASES} lines)`),
+          stored: object({
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            policyId: string("Only decisions made under this policy"),
+            limit: { type: "integer", minimum: 1, maximum: MAX_STORED_CORPUS, default: MAX_STORED_CORPUS },
+          }),
+          examplesPerTransition: { type: "integer", minimum: 0, maximum: MAX_EXAMPLES_PER_TRANSITION, default: DEFAULT_EXAMPLES_PER_TRANSITION },
+        })
+      ),
+      responses: {
+        200: json(
+          "Simulation report",
+          object({
+            cases: integer(),
+            baselinePolicy: object({ id: string(), version: integer() }),
+            candidatePolicy: object({ id: string(), version: integer() }),
+            totals: object({ baseline: anyObject("Cases per outcome"), candidate: anyObject("Cases per outcome") }),
+            matrix: anyObject(`matrix[baselineOutcome][candidateOutcome], outcomes: ${SIMULATION_OUTCOMES.join(", ")}`),
+            typeMatrix: anyObject("typeMatrix[baselineType][candidateType] (non-zero cells only)"),
+            changed: integer("Cases whose outcome changed"),
+            preservedToPenalized: integer(),
+            penalizedToPreserved: integer(),
+            examples: array(anyObject("caseId, playerId, from, to, baseline / candidate { type, lossApplied, decidingReason }, signals")),
+          })
+        ),
+        ...errors(400, 401, 403, 404, 429, 500),
+      },
+    },
+  },
+  [`${PC}/sessions`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Open a match session",
+      requestBody: jsonBody(
+        object(
+          {
+            matchId: string(),
+            policyId: string(),
+            serverId: string(),
+            regionId: string(),
+            teams: { type: "object", additionalProperties: array(string()) },
+            maxScoreDifference: number("Score lead that means the match is decided"),
+          },
+          ["matchId"]
+        )
+      ),
+      responses: { 201: json("Session opened", object({ session: ref("Session") })), ...errors(400, 401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/sessions/{sessionId}`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("read"),
+      summary: "Get a session",
+      parameters: [path("sessionId", "Session id")],
+      responses: { 200: json("Session", object({ session: ref("Session") })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/sessions/{sessionId}/heartbeats`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Record a heartbeat",
+      parameters: [path("sessionId", "Session id")],
+      requestBody: jsonBody(
+        object({
+          at: number("Epoch ms (default: time of the request)"),
+          players: { ...array(object({ playerId: string(), network: ref("NetworkSnapshot") }, ["playerId", "network"])), maxItems: 128 },
+          scores: { type: "object", additionalProperties: { type: "number" } },
+        })
+      ),
+      responses: { 200: json("Recorded", object({ recorded: integer() })), ...errors(400, 401, 403, 404, 409, 429, 500) },
+    },
+  },
+  [`${PC}/sessions/{sessionId}/disconnect`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Report a disconnect and classify it from the session timeline",
+      parameters: [path("sessionId", "Session id")],
+      requestBody: jsonBody(
+        object(
+          {
+            playerId: string(),
+            quitAction: boolean(),
+            at: number("Epoch ms of the disconnect"),
+            crash: ref("CrashSignals"),
+            competitiveAdvantage: number("Overrides the value computed from the scoreboard"),
+            fairnessConfidence: number(),
+          },
+          ["playerId", "quitAction"]
+        )
+      ),
+      responses: { 200: json("Classification", ref("StoredClassificationResult")), ...errors(400, 401, 403, 404, 409, 429, 500) },
+    },
+  },
+  [`${PC}/sessions/{sessionId}/close`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("classify"),
+      summary: "Close a session",
+      parameters: [path("sessionId", "Session id")],
+      responses: { 200: json("Closed session", object({ session: ref("Session") })), ...errors(401, 403, 404, 409, 429, 500) },
+    },
+  },
+  [`${PC}/webhooks`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("admin"),
+      summary: "List webhooks",
+      parameters: [query("studioId", string(), "Platform admin key only: the studio's webhooks (default: those receiving the platform admin key's decisions)")],
+      responses: { 200: json("Webhooks (without secrets)", object({ webhooks: array(ref("Webhook")) })), ...errors(401, 403, 429, 500) },
+    },
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("admin"),
+      summary: "Register a webhook",
+      requestBody: jsonBody(
+        object(
+          {
+            studioId: string("Platform admin key only: studio whose decisions are delivered (default: the platform admin key's)"),
+            name: string(),
+            url: string("Public https endpoint receiving POSTs (private, loopback and metadata hosts are rejected)"),
+            events: array({ type: "string", enum: WEBHOOK_EVENTS }, "Subscribed events (default: all)"),
+            secret: string("Signing secret (generated if omitted)"),
+          },
+          ["name", "url"]
+        )
+      ),
+      responses: { 200: json("Registered webhook, including the secret", object({ webhook: ref("Webhook") })), ...errors(400, 401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/webhooks/{webhookId}`]: {
+    delete: {
+      tags: ["Preservation Core"],
+      ...requires("admin"),
+      summary: "Remove a webhook",
+      parameters: [path("webhookId", "Webhook id")],
+      responses: { 200: json("Removed", object({ ok: boolean() })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/webhooks/{webhookId}/deliveries`]: {
+    get: {
+      tags: ["Preservation Core"],
+      ...requires("admin"),
+      summary: "Webhook delivery log",
+      parameters: [path("webhookId", "Webhook id")],
+      responses: { 200: json("Deliveries, newest first", object({ deliveries: array(anyObject()) })), ...errors(401, 403, 404, 429, 500) },
+    },
+  },
+  [`${PC}/webhooks/retry`]: {
+    post: {
+      tags: ["Preservation Core"],
+      ...requires("platform"),
+      summary: "Retry due webhook deliveries",
+      responses: { 200: json("Retry result", object({ ok: boolean(), attempted: integer() })), ...errors(401, 403, 429, 500) },
+    },
+  },
+}
+
+/**
+ * Builds the OpenAPI document. `serverUrl` is the origin the docs page sends
+ * try-it-out requests to (default: same origin).
+ */
+export function buildOpenApiDocument(serverUrl = "/") {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Igraverse API",
+      version: "1.0.0",
+      description: `MetaBuffed gameplay analysis and the Preservation Core disconnect classification API. Network history is limited to ${MAX_NETWORK_HISTORY} snapshots per request. Operations with x-required-scope need a studio API key with that scope (admin keys pass every scope) and only reach the key's studio; "platform" operations need the platform admin key. Requests over the key's per-minute limit get 429 with Retry-After.`,
+    },
+    servers: [{ url: serverUrl }],
+    tags: [
+      { name: "Preservation Core", description: "Disconnect classification, audit log, appeals, outages, sessions and webhooks" },
+      { name: "MetaBuffed", description: "Gameplay analysis, coaching chat and meta rules" },
+      { name: "Platform", description: "Service status, studio accounts and API keys" },
+    ],
+    paths,
+    components,
+  }
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>
@@ -0,0 +1,308 @@
+/**
+ * Preservation Core - Disconnect Analytics
+ *
+ * Aggregates the decision audit log for the studio dashboard: disconnects by
+ * type over time, the share of player-matches preserved versus penalized,
+ * which signals and deciding rules drove the decisions, and breakdowns by the
+ * optional `regionId` / `platform` request metadata.
+ *
+ * Counting happens in MongoDB (one $facet per request); the functions that
+ * shape the grouped rows into the response are pure and exported for tests.
+ */
+
+import { connectToDatabase } from "@/lib/db"
+import { PreservationDecision } from "@/models/PreservationDecision"
+import type { DisconnectType } from "@/lib/preservation-core"
+
+export const ANALYTICS_BUCKETS = ["hour", "day", "week"] as const
+
+export type AnalyticsBucket = (typeof ANALYTICS_BUCKETS)[number]
+
+/** Boolean flags of ClassificationResult.signals that are counted */
+export const ANALYTICS_SIGNALS = [
+  "quitDetected",
+  "timeoutDetected",
+  "highPacketLoss",
+  "highLatency",
+  "hardDisconnect",
+  "crashDetected",
+] as const
+
+export type AnalyticsSignal = (typeof ANALYTICS_SIGNALS)[number]
+
+export const BREAKDOWN_DIMENSIONS = ["region", "platform"] as const
+
+export type BreakdownDimension = (typeof BREAKDOWN_DIMENSIONS)[number]
+
+const BUCKET_MS: Record<AnalyticsBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+}
+/** Weeks start on Monday (UTC); the epoch was a Thursday */
+const FIRST_MONDAY_MS = 4 * BUCKET_MS.day
+
+/** Most time buckets a single request may span */
+export const MAX_ANALYTICS_BUCKETS = 1000
+/** Range used when `from` is omitted */
+export const DEFAULT_ANALYTICS_RANGE_DAYS = 30
+
+/** Group key used for decisions without region / platform metadata */
+export const UNKNOWN_KEY = "unknown"
+
+export interface AnalyticsFilters {
+  from: Date
+  to: Date
+  regionId?: string
+  platform?: string
+  policyId?: string
+  /** Restricts the analytics to one studio's decisions (set from the API key) */
+  studioId?: string
+}
+
+/** Decision counts: `preserved` and `penalized` only count disconnects (type other than "none") */
+export interface OutcomeCounts {
+  decisions: number
+  disconnects: number
+  preserved: number
+  penalized: number
+  byType: Partial<Record<DisconnectType, number>>
+}
+
+export interface TimelinePoint extends OutcomeCounts {
+  /** Start of the bucket (ISO 8601) */
+  start: string
+}
+
+export interface SignalCount {
+  signal: AnalyticsSignal
+  /** Disconnects where the signal was detected */
+  disconnects: number
+  preserved: number
+  penalized: number
+}
+
+export interface ReasonCount {
+  /** Deciding rule: the last reason code of the result */
+  code: string
+  disconnects: number
+  preserved: number
+  penalized: number
+}
+
+export interface DisconnectAnalytics {
+  range: { from: string; to: string; bucket: AnalyticsBucket }
+  totals: OutcomeCounts & { preservedShare: number; penalizedShare: number }
+  timeline: TimelinePoint[]
+  signals: SignalCount[]
+  decidingReasons: ReasonCount[]
+}
+
+export interface BreakdownGroup extends OutcomeCounts {
+  /** Region / platform, or "unknown" when the request didn't send it */
+  key: string
+  /** Disconnects / decisions */
+  disconnectRate: number
+}
+
+/** One $group row: decisions sharing a key, a type and an outcome */
+export interface OutcomeRow {
+  type: DisconnectType
+  lossApplied: boolean
+  count: number
+}
+
+function emptyCounts(): OutcomeCounts {
+  return { decisions: 0, disconnects: 0, preserved: 0, penalized: 0, byType: {} }
+}
+
+function addRow(counts: OutcomeCounts, row: OutcomeRow) {
+  counts.decisions += row.count
+  counts.byType[row.type] = (counts.byType[row.type] || 0) + row.count
+  if (row.type === "none") return
+  counts.disconnects += row.count
+  if (row.lossApplied) counts.penalized += row.count
+  else counts.preserved += row.count
+}
+
+const share = (part: number, whole: number) => (whole ? Math.round((part / whole) * 10000) / 10000 : 0)
+
+/**
+ * Parses the shared query parameters (from, to, regionId, platform, policyId).
+ * `to` defaults to now and `from` to DEFAULT_ANALYTICS_RANGE_DAYS before it.
+ */
+export function parseAnalyticsFilters(
+  searchParams: URLSearchParams,
+  now = Date.now()
+): { filters: AnalyticsFilters; errors: string[] } {
+  const errors: string[] = []
+  const fromParam = searchParams.get("from")
+  const toParam = searchParams.get("to")
+  const to = toParam ? new Date(toParam) : new Date(now)
+  if (isNaN(to.getTime())) errors.push("to must be an ISO 8601 date")
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE_DAYS * BUCKET_MS.day)
+  if (isNaN(from.getTime())) errors.push("from must be an ISO 8601 date")
+  if (!errors.length && from > to) errors.push("from must not be later than to")
+
+  const optional = (name: string) => (searchParams.get(name) || "").trim() || undefined
+  return {
+    filters: { from, to, regionId: optional("regionId"), platform: optional("platform"), policyId: optional("policyId") },
+    errors,
+  }
+}
+
+/** Start of the UTC bucket containing `time`, matching $dateTrunc with weeks starting on Monday */
+export function bucketStart(time: number, bucket: AnalyticsBucket): number {
+  const offset = bucket === "week" ? FIRST_MONDAY_MS : 0
+  return Math.floor((time - offset) / BUCKET_MS[bucket]) * BUCKET_MS[bucket] + offset
+}
+
+/** Number of buckets the range touches */
+export function countBuckets(from: Date, to: Date, bucket: AnalyticsBucket): number {
+  return (bucketStart(to.getTime(), bucket) - bucketStart(from.getTime(), bucket)) / BUCKET_MS[bucket] + 1
+}
+
+/** $match stage for the filters. "unknown" matches decisions without the metadata. */
+export function buildAnalyticsMatch(filters: AnalyticsFilters): Record<string, unknown> {
+  const match: Record<string, unknown> = { createdAt: { $gte: filters.from, $lte: filters.to } }
+  const metadata = (value: string) => (value === UNKNOWN_KEY ? { $in: [null, ""] } : value)
+  if (filters.regionId) match.regionId = metadata(filters.regionId)
+  if (filters.platform) match.platform = metadata(filters.platform)
+  if (filters.policyId) match.policyId = filters.policyId
+  if (filters.studioId) match["caller.studioId"] = filters.studioId
+  return match
+}
+
+/**
+ * Turns per-bucket rows into a timeline with one point per bucket in the range
+ * (empty buckets included, so charts don't skip gaps).
+ */
+export function buildTimeline(
+  rows: (OutcomeRow & { start: Date })[],
+  from: Date,
+  to: Date,
+  bucket: AnalyticsBucket
+): TimelinePoint[] {
+  const points = new Map<number, OutcomeCounts>()
+  for (const row of rows) {
+    const key = new Date(row.start).getTime()
+    if (!points.has(key)) points.set(key, emptyCounts())
+    addRow(points.get(key)!, row)
+  }
+
+  const timeline: TimelinePoint[] = []
+  for (let start = bucketStart(from.getTime(), bucket); start <= to.getTime(); start += BUCKET_MS[bucket]) {
+    timeline.push({ start: new Date(start).toISOString(), ...(points.get(start) || emptyCounts()) })
+  }
+  return timeline
+}
+
+/** Totals over every row, with the preserved / penalized share of disconnects */
+export function summarizeOutcomes(rows: OutcomeRow[]): DisconnectAnalytics["totals"] {
+  const totals = emptyCounts()
+  for (const row of rows) addRow(totals, row)
+  return {
+    ...totals,
+    preservedShare: share(totals.preserved, totals.disconnects),
+    penalizedShare: share(totals.penalized, totals.disconnects),
+  }
+}
+
+/** Groups rows by region / platform, most decisions first */
+export function buildBreakdown(rows: (OutcomeRow & { key?: string | null })[]): BreakdownGroup[] {
+  const groups = new Map<string, OutcomeCounts>()
+  for (const row of rows) {
+    const key = row.key || UNKNOWN_KEY
+    if (!groups.has(key)) groups.set(key, emptyCounts())
+    addRow(groups.get(key)!, row)
+  }
+  return [...groups.entries()]
+    .map(([key, counts]) => ({ key, ...counts, disconnectRate: share(counts.disconnects, counts.decisions) }))
+    .sort((a, b) => b.decisions - a.decisions || a.key.localeCompare(b.key))
+}
+
+const disconnectsOnly = { $match: { type: { $ne: "none" } } }
+const outcomeSums = {
+  disconnects: { $sum: 1 },
+  preserved: { $sum: { $cond: ["$lossApplied", 0, 1] } },
+  penalized: { $sum: { $cond: ["$lossApplied", 1, 0] } },
+}
+
+/**
+ * Aggregates decisions in the range: totals, the timeline, signal and
+ * deciding-rule counts.
+ */
+export async function getDisconnectAnalytics(filters: AnalyticsFilters, bucket: AnalyticsBucket): Promise<DisconnectAnalytics> {
+  await connectToDatabase()
+  const [facets] = await PreservationDecision.aggregate([
+    { $match: buildAnalyticsMatch(filters) },
+    {
+      $facet: {
+        timeline: [
+          {
+            $group: {
+              _id: {
+                start: { $dateTrunc: { date: "$createdAt", unit: bucket, startOfWeek: "monday" } },
+                type: "$type",
+                lossApplied: "$lossApplied",
+              },
+              count: { $sum: 1 },
+            },
+          },
+        ],
+        signals: [
+          disconnectsOnly,
+          {
+            $group: {
+              _id: null,
+              ...Object.fromEntries(
+                ANALYTICS_SIGNALS.flatMap((signal) => [
+                  [`${signal}_preserved`, { $sum: { $cond: [{ $and: [`$result.signals.${signal}`, { $not: ["$lossApplied"] }] }, 1, 0] } }],
+                  [`${signal}_penalized`, { $sum: { $cond: [{ $and: [`$result.signals.${signal}`, "$lossApplied"] }, 1, 0] } }],
+                ])
+              ),
+            },
+          },
+        ],
+        decidingReasons: [
+          disconnectsOnly,
+          { $group: { _id: { $ifNull: [{ $last: "$result.reasons.code" }, UNKNOWN_KEY] }, ...outcomeSums } },
+          { $sort: { disconnects: -1 } },
+        ],
+      },
+    },
+  ])
+
+  const timelineRows = (facets?.timeline || []).map((row: any) => ({ ...row._id, count: row.count }))
+  const signalSums = facets?.signals?.[0] || {}
+
+  return {
+    range: { from: filters.from.toISOString(), to: filters.to.toISOString(), bucket },
+    totals: summarizeOutcomes(timelineRows),
+    timeline: buildTimeline(timelineRows, filters.from, filters.to, bucket),
+    signals: ANALYTICS_SIGNALS.map((signal) => {
+      const preserved = signalSums[`${signal}_preserved`] || 0
+      const penalized = signalSums[`${signal}_penalized`] || 0
+      return { signal, disconnects: preserved + penalized, preserved, penalized }
+    }),
+    decidingReasons: (facets?.decidingReasons || []).map((row: any) => ({
+      code: row._id,
+      disconnects: row.disconnects,
+      preserved: row.preserved,
+      penalized: row.penalized,
+    })),
+  }
+}
+
+/**
+ * Decision counts per region or platform in the range.
+ */
+export async function getDisconnectBreakdown(filters: AnalyticsFilters, by: BreakdownDimension): Promise<BreakdownGroup[]> {
+  await connectToDatabase()
+  const field = by === "region" ? "$regionId" : "$platform"
+  const rows = await PreservationDecision.aggregate([
+    { $match: buildAnalyticsMatch(filters) },
+    { $group: { _id: { key: field, type: "$type", lossApplied: "$lossApplied" }, count: { $sum: 1 } } },
+  ])
+  return buildBreakdown(rows.map((row: any) => ({ ...row._id, count: row.count })))
+}
@@ -0,0 +1,258 @@
+/**
+ * Preservation Core - Player Appeals
+ *
+ * Players can appeal a stored decision that applied a loss (e.g. a crash that
+ * was misreported as a quit). Reviewers uphold or overturn the appeal; an
+ * overturned decision is marked on the audit log and emitted as a
+ * `decision.overturned` webhook so the game backend can refund rank points.
+ */
+
+import { isValidObjectId, Types } from "mongoose"
+import { connectToDatabase } from "@/lib/db"
+import { DecisionAppeal, type AppealClientLog } from "@/models/DecisionAppeal"
+import { PreservationDecision } from "@/models/PreservationDecision"
+import { emitWebhookEvent } from "@/lib/preservation-core-webhooks"
+import { studioScope } from "@/lib/api-auth"
+
+export const APPEAL_STATUSES = ["open", "upheld", "overturned"] as const
+
+export type AppealStatus = (typeof APPEAL_STATUSES)[number]
+
+/** Limits on attached client logs */
+export const MAX_CLIENT_LOGS = 5
+export const MAX_CLIENT_LOG_BYTES = 256 * 1024
+export const MAX_APPEAL_MESSAGE_LENGTH = 4000
+
+/** Clamps a requested page size to 1..max (missing or invalid: the default) */
+function clampLimit(limit: number | undefined, fallback: number, max: number): number {
+  return Math.max(1, Math.min(Math.floor(limit || fallback), max))
+}
+
+export interface AppealInfo {
+  appealId: string
+  decisionId: string
+  playerId?: string
+  matchId?: string
+  message: string
+  status: AppealStatus
+  /** Attached logs; listings only include names and sizes */
+  clientLogs: { name: string; bytes: number; content?: string }[]
+  review?: { reviewerId: string; note?: string; reviewedAt: string }
+  createdAt: string
+}
+
+export interface OverturnedDecision {
+  decisionId: string
+  /** Set when overturned on appeal */
+  appealId?: string
+  /** Set when overturned because the disconnect was part of a server outage */
+  incidentId?: string
+  playerId?: string
+  matchId?: string
+  originalType: string
+  overturnedAt: string
+}
+
+export type AppealOutcome =
+  | { ok: true; appeal: AppealInfo }
+  | { ok: false; status: 404 | 409; error: string }
+
+function toAppealInfo(doc: any, includeLogs = false): AppealInfo {
+  return {
+    appealId: String(doc._id),
+    decisionId: doc.decisionId,
+    playerId: doc.playerId,
+    matchId: doc.matchId,
+    message: doc.message,
+    status: doc.status,
+    clientLogs: (doc.clientLogs || []).map((log: AppealClientLog) => ({
+      name: log.name,
+      bytes: Buffer.byteLength(log.content),
+      ...(includeLogs ? { content: log.content } : {}),
+    })),
+    review: doc.review?.reviewerId
+      ? {
+          reviewerId: doc.review.reviewerId,
+          note: doc.review.note,
+          reviewedAt: new Date(doc.review.reviewedAt).toISOString(),
+        }
+      : undefined,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Validates attached client logs, returning every error.
+ */
+export function validateClientLogs(logs: any): string[] {
+  if (logs === undefined) return []
+  if (!Array.isArray(logs)) return ["clientLogs must be an array"]
+  const errors: string[] = []
+  if (logs.length > MAX_CLIENT_LOGS) errors.push(`clientLogs must contain at most ${MAX_CLIENT_LOGS} entries`)
+  logs.forEach((log, i) => {
+    if (!log || typeof log.name !== "string" || !log.name.trim()) {
+      errors.push(`clientLogs[${i}].name must be a non-empty string`)
+    }
+    if (!log || typeof log.content !== "string") {
+      errors.push(`clientLogs[${i}].content must be a string`)
+    } else if (Buffer.byteLength(log.content) > MAX_CLIENT_LOG_BYTES) {
+      errors.push(`clientLogs[${i}].content must be at most ${MAX_CLIENT_LOG_BYTES} bytes`)
+    }
+  })
+  return errors
+}
+
+/**
+ * Files an appeal against one of the studio's stored decisions. Only decisions
+ * that applied a loss can be appealed, and a decision can have one open appeal
+ * at a time. The appeal belongs to the decision's studio.
+ */
+export async function fileAppeal(input: {
+  studioId?: string
+  decisionId: string
+  message: string
+  clientLogs?: AppealClientLog[]
+}): Promise<AppealOutcome> {
+  if (!isValidObjectId(input.decisionId)) return { ok: false, status: 404, error: "Decision not found" }
+  await connectToDatabase()
+
+  const decision: any = await PreservationDecision.findOne({
+    _id: input.decisionId,
+    ...studioScope(input.studioId, "caller.studioId"),
+  }).lean()
+  if (!decision) return { ok: false, status: 404, error: "Decision not found" }
+  if (!decision.lossApplied) return { ok: false, status: 409, error: "Decision did not apply a loss" }
+  if (decision.overturned?.at) return { ok: false, status: 409, error: "Decision was already overturned" }
+
+  let doc
+  try {
+    doc = await DecisionAppeal.create({
+      studioId: decision.caller?.studioId,
+      decisionId: input.decisionId,
+      playerId: decision.playerId,
+      matchId: decision.matchId,
+      message: input.message,
+      clientLogs: (input.clientLogs || []).map((log) => ({ name: log.name.trim(), content: log.content })),
+    })
+  } catch (err: any) {
+    // The unique index on open appeals also catches two appeals filed at the same time
+    if (err?.code === 11000) return { ok: false, status: 409, error: "Decision already has an open appeal" }
+    throw err
+  }
+  return { ok: true, appeal: toAppealInfo(doc) }
+}
+
+export async function listAppeals(query: {
+  /** Caller's studio: only its appeals match (unset for the platform admin key: all) */
+  studioId?: string
+  status?: AppealStatus
+  playerId?: string
+  decisionId?: string
+  limit?: number
+}): Promise<AppealInfo[]> {
+  await connectToDatabase()
+  const filter: Record<string, unknown> = studioScope(query.studioId)
+  if (query.status) filter.status = query.status
+  if (query.playerId) filter.playerId = query.playerId
+  if (query.decisionId) filter.decisionId = query.decisionId
+  const docs = await DecisionAppeal.find(filter).sort({ createdAt: -1 }).limit(clampLimit(query.limit, 50, 200)).lean()
+  return docs.map((doc: any) => toAppealInfo(doc))
+}
+
+/**
+ * Returns one of the studio's appeals including the content of its client logs.
+ */
+export async function getAppeal(appealId: string, studioId?: string): Promise<AppealInfo | null> {
+  if (!isValidObjectId(appealId)) return null
+  await connectToDatabase()
+  const doc = await DecisionAppeal.findOne({ _id: appealId, ...studioScope(studioId) }).lean()
+  return doc ? toAppealInfo(doc, true) : null
+}
+
+/**
+ * Closes one of the studio's open appeals. Overturning marks the decision as
+ * overturned in the audit log and emits `decision.overturned`.
+ */
+export async function reviewAppeal(
+  appealId: string,
+  review: { status: "upheld" | "overturned"; reviewerId: string; note?: string },
+  studioId?: string
+): Promise<AppealOutcome> {
+  if (!isValidObjectId(appealId)) return { ok: false, status: 404, error: "Appeal not found" }
+  await connectToDatabase()
+
+  const reviewedAt = new Date()
+  const doc: any = await DecisionAppeal.findOneAndUpdate(
+    { _id: appealId, status: "open", ...studioScope(studioId) },
+    { $set: { status: review.status, review: { reviewerId: review.reviewerId, note: review.note, reviewedAt } } },
+    { new: true }
+  ).lean()
+  if (!doc) {
+    const exists = await DecisionAppeal.exists({ _id: appealId, ...studioScope(studioId) })
+    return exists
+      ? { ok: false, status: 409, error: "Appeal has already been reviewed" }
+      : { ok: false, status: 404, error: "Appeal not found" }
+  }
+
+  if (review.status === "overturned") {
+    // An outage incident may have overturned the decision while the appeal was open
+    const decision: any = await PreservationDecision.findOneAndUpdate(
+      { _id: doc.decisionId, "overturned.at": { $exists: false } },
+      { $set: { overturned: { appealId: String(doc._id), at: reviewedAt } } },
+      { new: true }
+    ).lean()
+    if (decision) {
+      emitWebhookEvent("decision.overturned", decision.caller?.studioId, {
+        decisionId: doc.decisionId,
+        appealId: String(doc._id),
+        playerId: decision.playerId,
+        matchId: decision.matchId,
+        originalResult: decision.result,
+        reviewerNote: review.note,
+      }).catch((err) => console.error("[PreservationCore Appeals] Failed to emit webhooks:", err))
+    }
+  }
+
+  return { ok: true, appeal: toAppealInfo(doc) }
+}
+
+/**
+ * Returns decisions overturned on appeal or by a server outage incident, oldest
+ * first, so the game backend can refund rank points. Ordered by
+ * (`overturnedAt`, `decisionId`): to page, pass the last `overturnedAt` as
+ * `since` and its `decisionId` as `after`, so decisions overturned in the same
+ * millisecond are neither skipped nor repeated.
+ */
+export async function listOverturnedDecisions(query: {
+  /** Caller's studio: only its decisions match (unset for the platform admin key: all) */
+  studioId?: string
+  since?: Date
+  after?: string
+  playerId?: string
+  limit?: number
+}): Promise<OverturnedDecision[]> {
+  await connectToDatabase()
+  const filter: Record<string, unknown> = studioScope(query.studioId, "caller.studioId")
+  if (query.since && query.after) {
+    filter.$or = [
+      { "overturned.at": { $gt: query.since } },
+      { "overturned.at": query.since, _id: { $gt: new Types.ObjectId(query.after) } },
+    ]
+  } else {
+    filter["overturned.at"] = query.since ? { $gt: query.since } : { $exists: true }
+  }
+  if (query.playerId) filter.playerId = query.playerId
+  const docs = await PreservationDecision.find(filter)
+    .sort({ "overturned.at": 1, _id: 1 })
+    .limit(clampLimit(query.limit, 100, 500))
+    .lean()
+  return docs.map((doc: any) => ({
+    decisionId: String(doc._id),
+    appealId: doc.overturned.appealId,
+    incidentId: doc.overturned.incidentId,
+    playerId: doc.playerId,
+    matchId: doc.matchId,
+    originalType: doc.type,
+    overturnedAt: new Date(doc.overturned.at).toISOString(),
+  }))
+}
@@ -0,0 +1,46 @@
+/**
+ * Preservation Core - Batch Classification
+ *
+ * End-of-match lobbies classify every disconnected player in one request.
+ * When an entire team drops together the cause is almost certainly shared
+ * (e.g. a server region failing), so those players are preserved as a group.
+ */
+
+import type { ClassificationResult } from "@/lib/preservation-core"
+
+/** Maximum number of players accepted in one batch request */
+export const MAX_BATCH_PLAYERS = 64
+
+/**
+ * Returns the ids of teams whose every rostered player was classified as a
+ * network drop in this batch. Single-player teams are ignored: one player
+ * dropping is not evidence of a shared outage.
+ */
+export function detectTeamOutages(
+  teams: Record<string, string[]>,
+  results: Map<string, ClassificationResult>
+): string[] {
+  return Object.entries(teams)
+    .filter(([, roster]) => roster.length >= 2)
+    .filter(([, roster]) =>
+      roster.every((playerId) => {
+        const type = results.get(playerId)?.type
+        return type === "unintentional_disconnect" || type === "suspected_intentional"
+      })
+    )
+    .map(([teamId]) => teamId)
+}
+
+/**
+ * Preserves a network drop that is explained by a team-wide outage,
+ * overriding the policy default (and any repeat-offender escalation).
+ */
+export function applyTeamOutage(result: ClassificationResult, teamSize: number): ClassificationResult {
+  return {
+    ...result,
+    type: "unintentional_disconnect",
+    lossApplied: false,
+    confidence: Math.max(result.confidence, 0.9),
+    reasons: [...result.reasons, { code: "TEAM_WIDE_DISCONNECT", value: teamSize }],
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Preservation Core - TypeScript Client SDK
+ *
+ * First-party client for POST /api/preservation-core/classify, so studios
+ * don't each maintain their own fetch wrapper. Dependency-free: it only needs
+ * a global `fetch` (browsers, Node 18+). The classification engine is not
+ * bundled; pass its `classifyDisconnect` as `fallback.classify` to enable the
+ * local fallback.
+ *
+ * Each attempt has a timeout. Network errors, timeouts, 429 and 5xx responses
+ * are retried with exponential backoff and full jitter; a 429 waits at least
+ * as long as its `Retry-After`. When every attempt fails that way and a
+ * fallback is configured, the disconnect is classified in-process so the match
+ * can still be settled - with the default policy, or with the policy passed
+ * for that request. A request naming a `policyId` is only classified locally
+ * when its policy is passed too. Validation errors (other 4xx) are never
+ * retried or masked by the fallback.
+ *
+ * A request with `graceWindowMs` may come back pending (202): the decision
+ * waits for the player to reconnect, so there is no result to apply yet.
+ */
+
+import type {
+  ClassificationPolicy,
+  ClassificationResult,
+  DisconnectSignals,
+} from "./preservation-core"
+
+export type {
+  ClassificationPolicy,
+  ClassificationResult,
+  CrashSignals,
+  DisconnectSignals,
+  DisconnectType,
+  NetworkSnapshot,
+  PenaltyOutcome,
+} from "./preservation-core"
+
+/** In-process classification used when the API stays unreachable */
+export interface LocalFallback {
+  /** The engine's `classifyDisconnect`; called without a policy for the default one */
+  classify(signals: DisconnectSignals, policy?: ClassificationPolicy): ClassificationResult
+}
+
+export interface PreservationCoreClientOptions {
+  /** API origin, e.g. "https://api.igraverse.com" (default: same origin) */
+  baseUrl?: string
+  /** Sent as `Authorization: Bearer <apiKey>` */
+  apiKey?: string
+  /** Sent as `x-caller-id` to identify the calling service in the audit log */
+  callerId?: string
+  /** Timeout for a single attempt (ms, default 3000) */
+  timeoutMs?: number
+  /** Retries after the first attempt (default 2) */
+  maxRetries?: number
+  /** Base delay for exponential backoff (ms, default 200) */
+  retryBaseDelayMs?: number
+  /** Longest `Retry-After` worth waiting for; a longer one ends the retries (ms, default 10000) */
+  maxRetryAfterMs?: number
+  /** Classify in-process when the API is unreachable (default: no fallback) */
+  fallback?: LocalFallback | false
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: typeof fetch
+}
+
+/** Classify request: the disconnect signals plus the optional context fields */
+export interface ClassifyRequest extends DisconnectSignals {
+  policyId?: string
+  playerId?: string
+  matchId?: string
+  serverId?: string
+  regionId?: string
+  /** Client platform (e.g. "pc", "ps5"), used for analytics breakdowns */
+  platform?: string
+  /** Epoch ms of the disconnect */
+  disconnectedAt?: number
+  /**
+   * Reconnect grace window in ms (requires playerId). A disconnect is then held
+   * as pending until the player reconnects or the window expires.
+   */
+  graceWindowMs?: number
+}
+
+export interface ClassifyOptions {
+  /**
+   * Policy the local fallback applies. Required for a local result when the
+   * request names a `policyId`, and must have the id the API will apply
+   * (`policyId`, else "default"); without either, the fallback uses the
+   * engine's default policy.
+   */
+  fallbackPolicy?: ClassificationPolicy
+}
+
+export interface ClassifiedResponse extends ClassificationResult {
+  /** Audit log id (only for results from the API) */
+  decisionId?: string
+  /** Outage incident the disconnect was correlated with, if any */
+  incidentId?: string
+  /** "api" when the API answered, "local" when the fallback classified in-process */
+  source: "api" | "local"
+}
+
+/**
+ * 202 answer to a request with `graceWindowMs`: nothing is applied yet. The
+ * provisional result becomes the decision when the window expires, unless the
+ * player reconnects first (POST /api/preservation-core/pending/:pendingId/reconnect).
+ */
+export interface PendingClassifyResponse {
+  source: "pending"
+  pendingId: string
+  status: "pending"
+  playerId: string
+  matchId?: string
+  disconnectedAt: string
+  graceWindowMs: number
+  expiresAt: string
+  provisional: ClassificationResult
+  createdAt: string
+}
+
+/** Check `source` before reading the result: "pending" responses have none yet */
+export type ClassifyResponse = ClassifiedResponse | PendingClassifyResponse
+
+/** Error response from the API that is not retried (e.g. 400 validation errors) */
+export class PreservationCoreApiError extends Error {
+  readonly status: number
+  readonly details?: string[]
+
+  constructor(status: number, message: string, details?: string[]) {
+    super(message)
+    this.name = "PreservationCoreApiError"
+    this.status = status
+    this.details = details
+  }
+}
+
+export interface PreservationCoreClient {
+  /** Without `graceWindowMs` the API decides right away, so the result is never pending */
+  classify(request: ClassifyRequest & { graceWindowMs?: undefined }, options?: ClassifyOptions): Promise<ClassifiedResponse>
+  classify(request: ClassifyRequest, options?: ClassifyOptions): Promise<ClassifyResponse>
+}
+
+/** Responses worth another attempt: rate limiting and server-side failures */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/** Full jitter: a random delay between 0 and base * 2^attempt */
+export function backoffDelay(attempt: number, baseDelayMs: number, random: () => number = Math.random): number {
+  return Math.floor(random() * baseDelayMs * 2 ** attempt)
+}
+
+/** `Retry-After` in ms: delay-seconds or an HTTP date (undefined when absent or invalid) */
+export function retryAfterMs(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined
+  const value = header.trim()
+  if (/^\d+$/.test(value)) return Number(value) * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export function createPreservationCoreClient(options: PreservationCoreClientOptions = {}): PreservationCoreClient {
+  const {
+    baseUrl = "",
+    apiKey,
+    callerId,
+    timeoutMs = 3000,
+    maxRetries = 2,
+    retryBaseDelayMs = 200,
+    maxRetryAfterMs = 10_000,
+    fallback = false,
+  } = options
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init))
+  const url = `${baseUrl.replace(/\/+$/, "")}/api/preservation-core/classify`
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`
+  if (callerId) headers["x-caller-id"] = callerId
+
+  async function attempt(body: string): Promise<Response> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    try {
+      return await fetchImpl(url, { method: "POST", headers, body, signal: controller.signal })
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  async function classify(request: ClassifyRequest, { fallbackPolicy }: ClassifyOptions = {}): Promise<ClassifyResponse> {
+    // The API applies the "default" policy when no policyId is given
+    const appliedPolicyId = request.policyId ?? "default"
+    if (fallbackPolicy && fallbackPolicy.id !== appliedPolicyId) {
+      throw new Error(`fallbackPolicy "${fallbackPolicy.id}" does not match policyId "${appliedPolicyId}"`)
+    }
+    const body = JSON.stringify(request)
+    let lastError: unknown
+    let retryAfter: number | undefined
+
+    for (let i = 0; i <= maxRetries; i++) {
+      if (i > 0) await sleep(Math.max(backoffDelay(i - 1, retryBaseDelayMs), retryAfter ?? 0))
+      retryAfter = undefined
+      try {
+        const res = await attempt(body)
+        if (res.ok) {
+          const data = await res.json()
+          return { ...data, source: res.status === 202 ? "pending" : "api" }
+        }
+        const data = await res.json().catch(() => ({}))
+        const error = new PreservationCoreApiError(res.status, data.error || `API error: ${res.status}`, data.details)
+        if (!isRetryableStatus(res.status)) throw error
+        lastError = error
+        if (res.status === 429) {
+          retryAfter = retryAfterMs(res.headers.get("retry-after"))
+          // Not worth holding the match up for; settle it now
+          if (retryAfter !== undefined && retryAfter > maxRetryAfterMs) break
+        }
+      } catch (err) {
+        if (err instanceof PreservationCoreApiError && !isRetryableStatus(err.status)) throw err
+        // Network error or timeout (abort)
+        lastError = err
+      }
+    }
+
+    // A named policy the caller didn't pass can't be applied locally, and the default would be a different decision
+    if (!fallback || (request.policyId && !fallbackPolicy)) throw lastError
+    const { policyId, playerId, matchId, serverId, regionId, platform, disconnectedAt, graceWindowMs, ...signals } = request
+    return { ...fallback.classify(signals, fallbackPolicy), source: "local" }
+  }
+
+  return { classify: classify as PreservationCoreClient["classify"] }
+}
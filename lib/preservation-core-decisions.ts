@@ -0,0 +1,195 @@
+/**
+ * Preservation Core - Decision Audit Log
+ *
+ * Every classification is persisted with its input signals, result, policy
+ * version, caller identity and match id so support can answer
+ * "why did I get a loss on Tuesday" tickets.
+ */
+
+import { isValidObjectId } from "mongoose"
+import { connectToDatabase } from "@/lib/db"
+import { PreservationDecision } from "@/models/PreservationDecision"
+import type {
+  ClassificationPolicy,
+  ClassificationResult,
+  DisconnectSignals,
+  DisconnectType,
+} from "@/lib/preservation-core"
+import { studioScope, type ApiAuth } from "@/lib/api-auth"
+
+export interface DecisionCaller {
+  id?: string
+  ip?: string
+  userAgent?: string
+  /** Studio and API key that made the request */
+  studioId?: string
+  apiKeyId?: string
+}
+
+export interface DecisionRecord {
+  decisionId: string
+  playerId?: string
+  matchId?: string
+  type: DisconnectType
+  lossApplied: boolean
+  policyId: string
+  policyVersion: number
+  caller: DecisionCaller
+  /** Game server the player was connected to (present when sent for outage correlation) */
+  serverId?: string
+  regionId?: string
+  platform?: string
+  disconnectedAt?: string
+  /** Outage incident the disconnect belongs to */
+  incidentId?: string
+  signals: DisconnectSignals
+  result: ClassificationResult
+  /** Set when an appeal or an outage incident overturned the decision */
+  overturned?: { appealId?: string; incidentId?: string; at: string }
+  createdAt: string
+}
+
+/** Optional request metadata, used for analytics breakdowns */
+export interface DecisionMetadata {
+  regionId?: string
+  /** Client platform, e.g. "pc", "ps5" */
+  platform?: string
+}
+
+/** Where and when the player disconnected, used for server outage correlation */
+export interface DecisionOutageContext {
+  serverId: string
+  regionId?: string
+  disconnectedAt: Date
+}
+
+export interface DecisionQuery {
+  /** Caller's studio: only its decisions match (unset for the platform admin key: all) */
+  studioId?: string
+  playerId?: string
+  matchId?: string
+  type?: DisconnectType
+  incidentId?: string
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+/** Maximum number of decisions returned by a single query */
+export const MAX_DECISION_QUERY_LIMIT = 200
+
+/**
+ * Parses the inclusive end of a date range. A date without a time
+ * ("2024-05-01") covers that whole day (UTC), not just its first millisecond.
+ */
+export function parseRangeEnd(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T23:59:59.999Z`) : new Date(value)
+}
+
+/**
+ * Reads the caller identity from request headers. `x-caller-id` is set by the
+ * calling service; the address comes from the proxy's `x-forwarded-for`. The
+ * studio and key come from the authenticated API key, when there is one.
+ */
+export function callerFromHeaders(headers: Headers, auth?: ApiAuth): DecisionCaller {
+  return {
+    id: headers.get("x-caller-id") || undefined,
+    ip: headers.get("x-forwarded-for")?.split(",")[0].trim() || undefined,
+    userAgent: headers.get("user-agent") || undefined,
+    studioId: auth?.studioId,
+    apiKeyId: auth?.keyId,
+  }
+}
+
+function toRecord(doc: any): DecisionRecord {
+  return {
+    decisionId: String(doc._id),
+    playerId: doc.playerId,
+    matchId: doc.matchId,
+    type: doc.type,
+    lossApplied: doc.lossApplied,
+    policyId: doc.policyId,
+    policyVersion: doc.policyVersion,
+    caller: doc.caller || {},
+    serverId: doc.serverId,
+    regionId: doc.regionId,
+    platform: doc.platform,
+    disconnectedAt: doc.disconnectedAt ? new Date(doc.disconnectedAt).toISOString() : undefined,
+    incidentId: doc.incidentId,
+    signals: doc.signals,
+    result: doc.result,
+    overturned: doc.overturned?.at
+      ? {
+          appealId: doc.overturned.appealId,
+          incidentId: doc.overturned.incidentId,
+          at: new Date(doc.overturned.at).toISOString(),
+        }
+      : undefined,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Persists a classification and returns its decision id.
+ */
+export async function recordDecision(input: {
+  playerId?: string
+  matchId?: string
+  caller: DecisionCaller
+  outage?: DecisionOutageContext
+  metadata?: DecisionMetadata
+  incidentId?: string
+  signals: DisconnectSignals
+  result: ClassificationResult
+  policy: ClassificationPolicy
+}): Promise<string> {
+  await connectToDatabase()
+  const doc = await PreservationDecision.create({
+    playerId: input.playerId,
+    matchId: input.matchId,
+    type: input.result.type,
+    lossApplied: input.result.lossApplied,
+    policyId: input.policy.id,
+    policyVersion: input.policy.version,
+    caller: input.caller,
+    serverId: input.outage?.serverId,
+    regionId: input.outage?.regionId ?? input.metadata?.regionId,
+    platform: input.metadata?.platform,
+    disconnectedAt: input.outage?.disconnectedAt,
+    incidentId: input.incidentId,
+    signals: input.signals,
+    result: input.result,
+  })
+  return String(doc._id)
+}
+
+/**
+ * Returns stored decisions matching the query, newest first.
+ */
+export async function queryDecisions(query: DecisionQuery): Promise<DecisionRecord[]> {
+  await connectToDatabase()
+  const filter: Record<string, unknown> = studioScope(query.studioId, "caller.studioId")
+  if (query.playerId) filter.playerId = query.playerId
+  if (query.matchId) filter.matchId = query.matchId
+  if (query.type) filter.type = query.type
+  if (query.incidentId) filter.incidentId = query.incidentId
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lte: query.to } : {}),
+    }
+  }
+  const limit = Math.min(query.limit || 50, MAX_DECISION_QUERY_LIMIT)
+  const docs = await PreservationDecision.find(filter).sort({ createdAt: -1 }).limit(limit).lean()
+  return docs.map(toRecord)
+}
+
+/**
+ * Returns a single stored decision, or null if it doesn't exist for the studio.
+ */
+export async function getDecision(decisionId: string, studioId?: string): Promise<DecisionRecord | null> {
+  if (!isValidObjectId(decisionId)) return null
+  await connectToDatabase()
+  const doc = await PreservationDecision.findOne({ _id: decisionId, ...studioScope(studioId, "caller.studioId") }).lean()
+  return doc ? toRecord(doc) : null
+}
@@ -0,0 +1,148 @@
+/**
+ * Preservation Core - Repeat-Offender Detection
+ *
+ * classifyDisconnect is stateless, so a player who pulls their cable every time
+ * they are losing would always be preserved. This module keeps a per-player
+ * disconnect history and flags network drops that line up with losing far more
+ * often than chance would allow.
+ */
+
+import { connectToDatabase } from "@/lib/db"
+import { PlayerDisconnect } from "@/models/PlayerDisconnect"
+import type {
+  ClassificationPolicy,
+  ClassificationResult,
+  DisconnectSignals,
+  DisconnectType,
+  OffenderAssessment,
+} from "@/lib/preservation-core"
+
+/** Number of most recent disconnects consulted per player */
+const HISTORY_LIMIT = 50
+
+export interface DisconnectHistoryEntry {
+  type: DisconnectType
+  competitiveAdvantage?: number
+}
+
+/**
+ * P(X >= k) for X ~ Binomial(n, p)
+ */
+export function binomialTail(n: number, k: number, p: number): number {
+  if (k <= 0) return 1
+  if (k > n) return 0
+  let tail = 0
+  let coefficient = 1 // C(n, 0)
+  for (let i = 0; i <= n; i++) {
+    if (i > 0) coefficient = (coefficient * (n - i + 1)) / i
+    if (i >= k) tail += coefficient * Math.pow(p, i) * Math.pow(1 - p, n - i)
+  }
+  return Math.min(1, tail)
+}
+
+/**
+ * Assesses the current network disconnect against the player's history.
+ * Returns undefined when the current disconnect isn't a network drop (quits
+ * and clean finishes need no repeat-offender check).
+ *
+ * Only drops with a known competitiveAdvantage are counted. The pattern is
+ * flagged when the current drop happened while losing, there are enough drops
+ * on record, and the share of losing drops is statistically unlikely under the
+ * policy's baseline losing rate.
+ */
+export function assessRepeatOffender(
+  history: DisconnectHistoryEntry[],
+  signals: DisconnectSignals,
+  result: ClassificationResult,
+  policy: ClassificationPolicy
+): OffenderAssessment | undefined {
+  if (result.type !== "unintentional_disconnect") return undefined
+
+  const { offender, contextual } = policy
+  const isLosing = (advantage?: number) => advantage !== undefined && advantage < contextual.losingAdvantage
+
+  const drops = history
+    .filter((e) => e.type === "unintentional_disconnect" || e.type === "suspected_intentional")
+    .map((e) => e.competitiveAdvantage)
+  drops.push(signals.competitiveAdvantage)
+
+  const known = drops.filter((advantage) => advantage !== undefined)
+  const networkDrops = known.length
+  const dropsWhileLosing = known.filter(isLosing).length
+  const pValue = binomialTail(networkDrops, dropsWhileLosing, offender.baselineLosingRate)
+
+  const suspicious =
+    isLosing(signals.competitiveAdvantage) &&
+    networkDrops >= offender.minNetworkDrops &&
+    pValue < offender.significance
+
+  const assessment: OffenderAssessment = { networkDrops, dropsWhileLosing, pValue, suspicious }
+  if (suspicious) {
+    // Each previous flag moves the player one step up the ladder; the last step repeats
+    const priorFlags = history.filter((e) => e.type === "suspected_intentional").length
+    const index = Math.min(priorFlags, offender.penaltyLadder.length - 1)
+    assessment.penalty = { ...offender.penaltyLadder[index], level: index + 1 }
+  }
+  return assessment
+}
+
+/**
+ * Applies a repeat-offender assessment to a classification result. Suspicious
+ * drops become `suspected_intentional` with the loss decision of the penalty
+ * step; otherwise the assessment is attached for transparency only.
+ */
+export function applyOffenderAssessment(
+  result: ClassificationResult,
+  assessment: OffenderAssessment | undefined,
+  policy: ClassificationPolicy
+): ClassificationResult {
+  if (!assessment) return result
+  if (!assessment.suspicious || !assessment.penalty) return { ...result, offender: assessment }
+
+  return {
+    ...result,
+    type: "suspected_intentional",
+    lossApplied: assessment.penalty.lossApplied,
+    confidence: Math.round((1 - assessment.pValue) * 100) / 100,
+    reasons: [
+      ...result.reasons,
+      { code: "REPEAT_OFFENDER_PATTERN", value: assessment.pValue, threshold: policy.offender.significance },
+    ],
+    offender: assessment,
+  }
+}
+
+/**
+ * Loads the player's most recent disconnects (newest first). Player ids are
+ * per studio, so only the studio's history counts (unset: the platform admin key's).
+ */
+export async function loadDisconnectHistory(playerId: string, studioId?: string): Promise<DisconnectHistoryEntry[]> {
+  await connectToDatabase()
+  const docs = await PlayerDisconnect.find({ studioId: studioId ?? null, playerId }).sort({ createdAt: -1 }).limit(HISTORY_LIMIT).lean()
+  return docs.map((d: any) => ({ type: d.type, competitiveAdvantage: d.competitiveAdvantage }))
+}
+
+/**
+ * Records a disconnect in the player's history. Clean finishes (`none`) and
+ * drops the player recovered from within the grace window are not stored.
+ */
+export async function recordDisconnect(
+  playerId: string,
+  signals: DisconnectSignals,
+  result: ClassificationResult,
+  policy: ClassificationPolicy,
+  studioId?: string
+): Promise<void> {
+  if (result.type === "none" || result.type === "reconnected") return
+  await connectToDatabase()
+  await PlayerDisconnect.create({
+    studioId: studioId ?? null,
+    playerId,
+    type: result.type,
+    lossApplied: result.lossApplied,
+    competitiveAdvantage: signals.competitiveAdvantage,
+    fairnessConfidence: signals.fairnessConfidence,
+    policyId: policy.id,
+    penaltyLevel: result.offender?.penalty?.level,
+  })
+}
@@ -0,0 +1,273 @@
+/**
+ * Preservation Core - Server Outage Correlation
+ *
+ * When a game server host loses connectivity, every player on it disconnects
+ * within a second or two. Classified in isolation, anyone who happened to press
+ * quit during the freeze would get a loss. This module ingests disconnect
+ * events with their server / region ids, groups clustered disconnects into
+ * outage incidents, and preserves everyone caught in one. How many players and
+ * how tight a cluster make an outage is part of the classification policy
+ * (`outage.minPlayers` / `outage.windowMs`). Server ids are per studio: events
+ * and incidents are keyed by the studio of the key that sent them.
+ */
+
+import { isValidObjectId } from "mongoose"
+import { connectToDatabase } from "@/lib/db"
+import { DisconnectEvent } from "@/models/DisconnectEvent"
+import { OutageIncident } from "@/models/OutageIncident"
+import { PreservationDecision } from "@/models/PreservationDecision"
+import { emitWebhookEvent } from "@/lib/preservation-core-webhooks"
+import { studioScope } from "@/lib/api-auth"
+import { DEFAULT_POLICY, type ClassificationPolicy, type ClassificationResult } from "@/lib/preservation-core"
+
+export type OutageSettings = ClassificationPolicy["outage"]
+
+/** Default maximum gap (ms) between consecutive disconnects on a server for them to belong to one cluster */
+export const OUTAGE_WINDOW_MS = DEFAULT_POLICY.outage.windowMs
+
+/** Default number of distinct players that must drop in one cluster before it is treated as an outage */
+export const OUTAGE_MIN_PLAYERS = DEFAULT_POLICY.outage.minPlayers
+
+/** How far around a new event (ms) stored events are loaded to rebuild its cluster */
+const CLUSTER_LOOKBACK_MS = 60_000
+
+/** Maximum number of incidents returned by a single query */
+export const MAX_INCIDENT_QUERY_LIMIT = 200
+
+export interface DisconnectEventInput {
+  /** Studio of the key that sent the event (unset: the platform admin key) */
+  studioId?: string
+  playerId: string
+  matchId?: string
+  serverId: string
+  regionId?: string
+  occurredAt: Date
+}
+
+export interface ClusterEvent {
+  playerId: string
+  occurredAt: number
+}
+
+export interface OutageIncidentInfo {
+  incidentId: string
+  serverId: string
+  regionId?: string
+  startedAt: string
+  endedAt: string
+  playerCount: number
+  playerIds: string[]
+  matchIds: string[]
+  createdAt: string
+}
+
+export interface IncidentQuery {
+  /** Caller's studio: only its incidents match (unset for the platform admin key: all) */
+  studioId?: string
+  serverId?: string
+  regionId?: string
+  from?: Date
+  to?: Date
+  limit?: number
+}
+
+/**
+ * Groups events into clusters (oldest first): an event joins the current
+ * cluster when it happened at most `windowMs` after the previous event.
+ */
+export function clusterDisconnects<T extends ClusterEvent>(events: T[], windowMs = OUTAGE_WINDOW_MS): T[][] {
+  const sorted = [...events].sort((a, b) => a.occurredAt - b.occurredAt)
+  const clusters: T[][] = []
+  for (const event of sorted) {
+    const current = clusters[clusters.length - 1]
+    if (current && event.occurredAt - current[current.length - 1].occurredAt <= windowMs) {
+      current.push(event)
+    } else {
+      clusters.push([event])
+    }
+  }
+  return clusters
+}
+
+/**
+ * A cluster is an outage when enough distinct players dropped in it
+ * (one player reconnecting and dropping again only counts once).
+ */
+export function isOutageCluster(cluster: ClusterEvent[], minPlayers = OUTAGE_MIN_PLAYERS): boolean {
+  return new Set(cluster.map((e) => e.playerId)).size >= minPlayers
+}
+
+/**
+ * Preserves a disconnect that is explained by a server outage. Overrides every
+ * per-player rule, including quits: a quit pressed during the freeze is not a
+ * deliberate forfeit.
+ */
+export function applyServerOutage(
+  result: ClassificationResult,
+  playerCount: number,
+  minPlayers = OUTAGE_MIN_PLAYERS
+): ClassificationResult {
+  return {
+    ...result,
+    type: "unintentional_disconnect",
+    lossApplied: false,
+    confidence: Math.max(result.confidence, 0.95),
+    reasons: [...result.reasons, { code: "SERVER_OUTAGE", value: playerCount, threshold: minPlayers }],
+  }
+}
+
+function toIncidentInfo(doc: any): OutageIncidentInfo {
+  return {
+    incidentId: String(doc._id),
+    serverId: doc.serverId,
+    regionId: doc.regionId,
+    startedAt: new Date(doc.startedAt).toISOString(),
+    endedAt: new Date(doc.endedAt).toISOString(),
+    playerCount: doc.playerIds.length,
+    playerIds: doc.playerIds,
+    matchIds: doc.matchIds,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Stores a disconnect event and correlates it with other disconnects on the
+ * same server. When its cluster qualifies as an outage, the matching incident
+ * is created (or extended) and returned, and decisions already stored for
+ * players in the incident that applied a loss are overturned.
+ */
+export async function ingestDisconnectEvent(
+  input: DisconnectEventInput,
+  settings: OutageSettings = DEFAULT_POLICY.outage
+): Promise<{ eventId: string; incident?: OutageIncidentInfo }> {
+  await connectToDatabase()
+  // Events sent with the platform admin key have no studio
+  const server = { studioId: input.studioId ?? null, serverId: input.serverId }
+  const event = await DisconnectEvent.create({ ...input, ...server })
+  const eventId = String(event._id)
+
+  // Rebuild the cluster this event belongs to from nearby events on the same server
+  const at = input.occurredAt.getTime()
+  const nearby = await DisconnectEvent.find({
+    ...server,
+    occurredAt: { $gte: new Date(at - CLUSTER_LOOKBACK_MS), $lte: new Date(at + CLUSTER_LOOKBACK_MS) },
+  }).lean()
+  const cluster = clusterDisconnects(
+    nearby.map((e: any) => ({
+      eventId: String(e._id),
+      playerId: e.playerId,
+      matchId: e.matchId as string | undefined,
+      occurredAt: new Date(e.occurredAt).getTime(),
+    })),
+    settings.windowMs
+  ).find((c) => c.some((e) => e.eventId === eventId))
+  if (!cluster || !isOutageCluster(cluster, settings.minPlayers)) return { eventId }
+
+  const startedAt = new Date(cluster[0].occurredAt)
+  const endedAt = new Date(cluster[cluster.length - 1].occurredAt)
+  const update = {
+    $min: { startedAt },
+    $max: { endedAt },
+    $addToSet: {
+      playerIds: { $each: cluster.map((e) => e.playerId) },
+      matchIds: { $each: cluster.flatMap((e) => (e.matchId ? [e.matchId] : [])) },
+    },
+    $setOnInsert: { regionId: input.regionId },
+  }
+
+  // Extend the incident that overlaps this cluster...
+  let doc: any = await OutageIncident.findOneAndUpdate(
+    {
+      ...server,
+      startedAt: { $lte: new Date(endedAt.getTime() + settings.windowMs) },
+      endedAt: { $gte: new Date(startedAt.getTime() - settings.windowMs) },
+    },
+    update,
+    { new: true }
+  ).lean()
+  // ...or open a new one. It is keyed on the server and the window the cluster starts in (unique index),
+  // so concurrent ingests of the same cluster upsert one incident instead of inserting one each
+  const windowStart = new Date(Math.floor(startedAt.getTime() / settings.windowMs) * settings.windowMs)
+  for (let attempt = 0; !doc; attempt++) {
+    try {
+      doc = await OutageIncident.findOneAndUpdate({ ...server, windowStart }, update, {
+        upsert: true,
+        new: true,
+      }).lean()
+    } catch (err: any) {
+      // Lost the insert race: the next attempt updates the incident the other ingest created
+      if (err?.code !== 11000 || attempt > 0) throw err
+    }
+  }
+  const incident = toIncidentInfo(doc)
+
+  await DisconnectEvent.updateMany(
+    { _id: { $in: cluster.map((e) => e.eventId) } },
+    { $set: { incidentId: incident.incidentId } }
+  )
+  await overturnIncidentDecisions(incident, input.studioId)
+
+  return { eventId, incident }
+}
+
+/**
+ * Overturns stored decisions that applied a loss to players caught in the
+ * incident (players classified before the cluster reached the outage size)
+ * and emits `decision.overturned` for each.
+ */
+async function overturnIncidentDecisions(incident: OutageIncidentInfo, studioId?: string): Promise<void> {
+  const candidates = await PreservationDecision.find({
+    "caller.studioId": studioId ?? null,
+    serverId: incident.serverId,
+    playerId: { $in: incident.playerIds },
+    disconnectedAt: { $gte: new Date(incident.startedAt), $lte: new Date(incident.endedAt) },
+    lossApplied: true,
+    "overturned.at": { $exists: false },
+  }).lean()
+
+  for (const candidate of candidates as any[]) {
+    // Claim atomically so concurrent ingests don't overturn (and notify) twice
+    const decision: any = await PreservationDecision.findOneAndUpdate(
+      { _id: candidate._id, "overturned.at": { $exists: false } },
+      { $set: { incidentId: incident.incidentId, overturned: { incidentId: incident.incidentId, at: new Date() } } },
+      { new: true }
+    ).lean()
+    if (!decision) continue
+    emitWebhookEvent("decision.overturned", decision.caller?.studioId, {
+      decisionId: String(decision._id),
+      incidentId: incident.incidentId,
+      playerId: decision.playerId,
+      matchId: decision.matchId,
+      originalResult: decision.result,
+    }).catch((err) => console.error("[PreservationCore Outages] Failed to emit webhooks:", err))
+  }
+}
+
+/**
+ * Returns outage incidents matching the query, newest first.
+ */
+export async function listIncidents(query: IncidentQuery): Promise<OutageIncidentInfo[]> {
+  await connectToDatabase()
+  const filter: Record<string, unknown> = studioScope(query.studioId)
+  if (query.serverId) filter.serverId = query.serverId
+  if (query.regionId) filter.regionId = query.regionId
+  if (query.from || query.to) {
+    filter.startedAt = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lte: query.to } : {}),
+    }
+  }
+  const limit = Math.min(query.limit || 50, MAX_INCIDENT_QUERY_LIMIT)
+  const docs = await OutageIncident.find(filter).sort({ startedAt: -1 }).limit(limit).lean()
+  return docs.map(toIncidentInfo)
+}
+
+/**
+ * Returns a single incident, or null if it doesn't exist for the studio.
+ */
+export async function getIncident(incidentId: string, studioId?: string): Promise<OutageIncidentInfo | null> {
+  if (!isValidObjectId(incidentId)) return null
+  await connectToDatabase()
+  const doc = await OutageIncident.findOne({ _id: incidentId, ...studioScope(studioId) }).lean()
+  return doc ? toIncidentInfo(doc) : null
+}
@@ -0,0 +1,294 @@
+/**
+ * Preservation Core - Reconnect Grace Window
+ *
+ * Many players are back within seconds of a drop. In grace mode a disconnect
+ * produces a pending decision instead of an immediate one: a reconnect inside
+ * the window cancels it and records a `reconnected` outcome (no loss), and if
+ * the window expires the provisional classification is finalized as usual.
+ * Expired decisions are finalized by an in-process timer and by a sweeper
+ * that runs on an interval from instrumentation.ts, so decisions left pending
+ * by a restart are still finalized.
+ */
+
+import { isValidObjectId } from "mongoose"
+import { connectToDatabase } from "@/lib/db"
+import { PendingDecision } from "@/models/PendingDecision"
+import type { ClassificationPolicy, ClassificationResult, DisconnectSignals } from "@/lib/preservation-core"
+import type { DecisionCaller, DecisionMetadata } from "@/lib/preservation-core-decisions"
+import { finalizeClassification } from "@/lib/preservation-core-service"
+import { studioScope } from "@/lib/api-auth"
+
+/** Longest grace window a caller can request (ms) */
+export const MAX_GRACE_WINDOW_MS = 120_000
+
+export const PENDING_STATUSES = ["pending", "reconnected", "finalized"] as const
+
+export type PendingStatus = (typeof PENDING_STATUSES)[number]
+
+/** Maximum number of pending decisions returned by a single query */
+export const MAX_PENDING_QUERY_LIMIT = 200
+
+export interface PendingDecisionInfo {
+  pendingId: string
+  playerId: string
+  matchId?: string
+  status: PendingStatus
+  disconnectedAt: string
+  graceWindowMs: number
+  expiresAt: string
+  /** Classification that is finalized if the player doesn't reconnect in time */
+  provisional: ClassificationResult
+  reconnectedAt?: string
+  resolvedAt?: string
+  /** Audit log id of the final decision (once resolved) */
+  decisionId?: string
+  result?: ClassificationResult
+  createdAt: string
+}
+
+export type PendingOutcome =
+  | { ok: true; pending: PendingDecisionInfo }
+  | { ok: false; status: 400 | 404 | 409; error: string }
+
+/**
+ * Outcome for a player who reconnected inside the grace window: the match
+ * resumed, so nothing is applied. The provisional reasons are kept so support
+ * can see what the drop looked like.
+ */
+export function applyReconnect(
+  provisional: ClassificationResult,
+  reconnectAfterMs: number,
+  graceWindowMs: number
+): ClassificationResult {
+  return {
+    ...provisional,
+    type: "reconnected",
+    lossApplied: false,
+    confidence: 1,
+    reasons: [...provisional.reasons, { code: "RECONNECTED_WITHIN_GRACE", value: reconnectAfterMs, threshold: graceWindowMs }],
+  }
+}
+
+function toPendingInfo(doc: any): PendingDecisionInfo {
+  return {
+    pendingId: String(doc._id),
+    playerId: doc.playerId,
+    matchId: doc.matchId,
+    status: doc.status,
+    disconnectedAt: new Date(doc.disconnectedAt).toISOString(),
+    graceWindowMs: doc.graceWindowMs,
+    expiresAt: new Date(doc.expiresAt).toISOString(),
+    provisional: doc.provisional,
+    reconnectedAt: doc.reconnectedAt ? new Date(doc.reconnectedAt).toISOString() : undefined,
+    resolvedAt: doc.resolvedAt ? new Date(doc.resolvedAt).toISOString() : undefined,
+    decisionId: doc.decisionId,
+    result: doc.result,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Stores a pending decision and schedules its finalization for when the
+ * grace window expires.
+ */
+export async function createPendingDecision(input: {
+  playerId: string
+  matchId?: string
+  signals: DisconnectSignals
+  provisional: ClassificationResult
+  policy: ClassificationPolicy
+  caller: DecisionCaller
+  graceWindowMs: number
+  disconnectedAt: Date
+  outage?: { serverId: string; regionId?: string }
+  metadata?: DecisionMetadata
+}): Promise<PendingDecisionInfo> {
+  await connectToDatabase()
+  const doc = await PendingDecision.create({
+    playerId: input.playerId,
+    matchId: input.matchId,
+    disconnectedAt: input.disconnectedAt,
+    graceWindowMs: input.graceWindowMs,
+    expiresAt: new Date(input.disconnectedAt.getTime() + input.graceWindowMs),
+    caller: input.caller,
+    outage: input.outage,
+    metadata: input.metadata,
+    signals: input.signals,
+    policy: input.policy,
+    provisional: input.provisional,
+  })
+  const pending = toPendingInfo(doc.toObject())
+  scheduleExpiry(pending.pendingId, new Date(pending.expiresAt).getTime() - Date.now())
+  return pending
+}
+
+/** Added to the expiry timer so it never fires just before the window closes */
+const EXPIRY_TIMER_SLACK_MS = 50
+
+function scheduleExpiry(pendingId: string, delay: number) {
+  const timer = setTimeout(() => {
+    finalizePendingDecision(pendingId).catch((err) =>
+      console.error("[PreservationCore Pending] Finalization failed:", err)
+    )
+  }, Math.max(0, delay) + EXPIRY_TIMER_SLACK_MS)
+  timer.unref?.()
+}
+
+/**
+ * Records the final decision for a resolved pending decision (audit log,
+ * webhooks, outage correlation and, for expired windows, repeat-offender
+ * detection) and stores its id on the pending document.
+ */
+async function resolvePending(doc: any, result: ClassificationResult): Promise<PendingDecisionInfo> {
+  const stored = await finalizeClassification({
+    signals: doc.signals,
+    result,
+    policy: doc.policy,
+    caller: doc.caller || {},
+    playerId: doc.playerId,
+    matchId: doc.matchId,
+    outage: doc.outage?.serverId
+      ? { serverId: doc.outage.serverId, regionId: doc.outage.regionId, disconnectedAt: new Date(doc.disconnectedAt) }
+      : undefined,
+    metadata: doc.metadata,
+  })
+  const { decisionId, ...finalResult } = stored
+  const updated = await PendingDecision.findByIdAndUpdate(
+    doc._id,
+    { $set: { decisionId, result: finalResult } },
+    { new: true }
+  ).lean()
+  return toPendingInfo(updated)
+}
+
+/**
+ * Cancels a pending decision because the player reconnected at `at` (epoch ms,
+ * default: now). The window is checked against the time the reconnect is
+ * received, so a backdated `at` can't reopen an expired window; `at` only
+ * places the reconnect for the outcome and must lie between the disconnect
+ * and now. 404 if the studio has no such pending decision, 409 if it was
+ * already resolved or the grace window has expired.
+ */
+export async function reconnectPendingDecision(pendingId: string, at?: number, studioId?: string): Promise<PendingOutcome> {
+  if (!isValidObjectId(pendingId)) return { ok: false, status: 404, error: "Pending decision not found" }
+  const now = Date.now()
+  if (at !== undefined && at > now) return { ok: false, status: 400, error: "Reconnect can't be later than now" }
+  const reconnectedAt = at ?? now
+  await connectToDatabase()
+
+  const doc: any = await PendingDecision.findOneAndUpdate(
+    {
+      _id: pendingId,
+      ...studioScope(studioId, "caller.studioId"),
+      status: "pending",
+      disconnectedAt: { $lte: new Date(reconnectedAt) },
+      expiresAt: { $gte: new Date(now) },
+    },
+    { $set: { status: "reconnected", reconnectedAt: new Date(reconnectedAt), resolvedAt: new Date(now) } },
+    { new: true }
+  ).lean()
+  if (!doc) {
+    const existing: any = await PendingDecision.findOne({ _id: pendingId, ...studioScope(studioId, "caller.studioId") }).lean()
+    if (!existing) return { ok: false, status: 404, error: "Pending decision not found" }
+    if (existing.status !== "pending") return { ok: false, status: 409, error: `Pending decision is already ${existing.status}` }
+    if (reconnectedAt < new Date(existing.disconnectedAt).getTime()) {
+      return { ok: false, status: 409, error: "Reconnect is earlier than the disconnect" }
+    }
+    return { ok: false, status: 409, error: "Grace window has expired" }
+  }
+
+  const reconnectAfterMs = reconnectedAt - new Date(doc.disconnectedAt).getTime()
+  const pending = await resolvePending(doc, applyReconnect(doc.provisional, reconnectAfterMs, doc.graceWindowMs))
+  return { ok: true, pending }
+}
+
+/**
+ * Finalizes a pending decision whose grace window has expired. Returns null if
+ * it is not due (or another process already resolved it).
+ */
+export async function finalizePendingDecision(pendingId: string): Promise<PendingDecisionInfo | null> {
+  await connectToDatabase()
+  // Claim atomically so the timer and the sweeper never finalize twice
+  const doc: any = await PendingDecision.findOneAndUpdate(
+    { _id: pendingId, status: "pending", expiresAt: { $lte: new Date() } },
+    { $set: { status: "finalized", resolvedAt: new Date() } },
+    { new: true }
+  ).lean()
+  if (!doc) return null
+  return resolvePending(doc, doc.provisional)
+}
+
+/**
+ * Finalizes every pending decision of the studio (unset: of every studio)
+ * whose grace window has expired. Returns how many were finalized.
+ */
+export async function finalizeExpiredPendingDecisions(studioId?: string, limit = 100): Promise<number> {
+  await connectToDatabase()
+  const due = await PendingDecision.find({
+    ...studioScope(studioId, "caller.studioId"),
+    status: "pending",
+    expiresAt: { $lte: new Date() },
+  })
+    .sort({ expiresAt: 1 })
+    .limit(limit)
+    .select({ _id: 1 })
+    .lean()
+  let finalized = 0
+  for (const doc of due) {
+    if (await finalizePendingDecision(String(doc._id))) finalized++
+  }
+  return finalized
+}
+
+/** How often the background sweeper finalizes expired pending decisions (ms) */
+const SWEEP_INTERVAL_MS = 30_000
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Finalizes expired pending decisions of every studio now and every 30
+ * seconds. Catches the ones whose in-process timer was lost with the previous
+ * process. Safe to call more than once.
+ */
+export function startPendingSweep(): void {
+  // Without a database nothing can be pending
+  if (sweepTimer || !process.env.MONGODB_URI) return
+  const sweep = () =>
+    finalizeExpiredPendingDecisions().catch((err) =>
+      console.error("[PreservationCore Pending] Sweep failed:", err)
+    )
+  sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS)
+  sweepTimer.unref?.()
+  sweep()
+}
+
+/**
+ * Returns a single pending decision, or null if it doesn't exist for the studio.
+ */
+export async function getPendingDecision(pendingId: string, studioId?: string): Promise<PendingDecisionInfo | null> {
+  if (!isValidObjectId(pendingId)) return null
+  await connectToDatabase()
+  const doc = await PendingDecision.findOne({ _id: pendingId, ...studioScope(studioId, "caller.studioId") }).lean()
+  return doc ? toPendingInfo(doc) : null
+}
+
+/**
+ * Returns pending decisions matching the query, newest first.
+ */
+export async function listPendingDecisions(query: {
+  /** Caller's studio: only its pending decisions match (unset for the platform admin key: all) */
+  studioId?: string
+  playerId?: string
+  matchId?: string
+  status?: PendingStatus
+  limit?: number
+}): Promise<PendingDecisionInfo[]> {
+  await connectToDatabase()
+  const filter: Record<string, unknown> = studioScope(query.studioId, "caller.studioId")
+  if (query.playerId) filter.playerId = query.playerId
+  if (query.matchId) filter.matchId = query.matchId
+  if (query.status) filter.status = query.status
+  const limit = Math.min(query.limit || 50, MAX_PENDING_QUERY_LIMIT)
+  const docs = await PendingDecision.find(filter).sort({ createdAt: -1 }).limit(limit).lean()
+  return docs.map(toPendingInfo)
+}
@@ -0,0 +1,129 @@
+/**
+ * Preservation Core - Policy Registry
+ *
+ * Resolves a `policyId` to a ClassificationPolicy. The built-in default policy
+ * is always available; studio policies are stored in Mongo, keyed by the
+ * studio that registered them, so two studios can use the same id without
+ * reading or overwriting each other's policy. Policies registered with the
+ * bootstrap admin key have no studio and are only visible to it.
+ */
+
+import { connectToDatabase } from "@/lib/db"
+import { PreservationPolicy } from "@/models/PreservationPolicy"
+import { DEFAULT_POLICY, type ClassificationPolicy } from "@/lib/preservation-core"
+
+/**
+ * Builds a full policy from a (possibly partial) request body.
+ * Missing thresholds and cut-offs fall back to DEFAULT_POLICY values.
+ * Routes parse the body with policyInputSchema first, so only typed policy
+ * settings get here; validatePolicy checks the ranges of the result.
+ */
+export function buildPolicy(input: any, version = 1): ClassificationPolicy {
+  return {
+    id: typeof input?.id === "string" ? input.id.trim() : "",
+    name: typeof input?.name === "string" ? input.name.trim() : "",
+    version,
+    thresholds: { ...DEFAULT_POLICY.thresholds, ...(input?.thresholds || {}) },
+    contextual: { ...DEFAULT_POLICY.contextual, ...(input?.contextual || {}) },
+    trend: { ...DEFAULT_POLICY.trend, ...(input?.trend || {}) },
+    offender: { ...DEFAULT_POLICY.offender, ...(input?.offender || {}) },
+    crash: { ...DEFAULT_POLICY.crash, ...(input?.crash || {}) },
+    outage: { ...DEFAULT_POLICY.outage, ...(input?.outage || {}) },
+    defaultOutcome: input?.defaultOutcome ?? DEFAULT_POLICY.defaultOutcome,
+    outcomes: input?.outcomes ?? DEFAULT_POLICY.outcomes,
+  }
+}
+
+function toPolicy(doc: any): ClassificationPolicy {
+  return {
+    id: doc.policyId,
+    name: doc.name,
+    version: doc.version,
+    thresholds: {
+      highPacketLoss: doc.thresholds.highPacketLoss,
+      highLatencyMs: doc.thresholds.highLatencyMs,
+      timeoutMs: doc.thresholds.timeoutMs,
+    },
+    contextual: {
+      winningAdvantage: doc.contextual.winningAdvantage,
+      losingAdvantage: doc.contextual.losingAdvantage,
+      settledConfidence: doc.contextual.settledConfidence,
+      uncertainConfidence: doc.contextual.uncertainConfidence,
+    },
+    // Policies registered before trend / offender / crash / outage settings existed fall back to the defaults
+    trend: { ...DEFAULT_POLICY.trend, ...(doc.trend || {}) },
+    offender: doc.offender?.penaltyLadder?.length
+      ? {
+          minNetworkDrops: doc.offender.minNetworkDrops,
+          baselineLosingRate: doc.offender.baselineLosingRate,
+          significance: doc.offender.significance,
+          penaltyLadder: doc.offender.penaltyLadder.map((step: any) => ({ name: step.name, lossApplied: step.lossApplied })),
+        }
+      : DEFAULT_POLICY.offender,
+    crash: { ...DEFAULT_POLICY.crash, ...(doc.crash || {}) },
+    outage: { ...DEFAULT_POLICY.outage, ...(doc.outage || {}) },
+    defaultOutcome: doc.defaultOutcome,
+    // Policies registered before graduated outcomes existed get the default rules
+    outcomes: doc.outcomes
+      ? doc.outcomes.map((rule: any) => ({
+          type: rule.type,
+          ...(rule.lossApplied != null ? { lossApplied: rule.lossApplied } : {}),
+          ...(rule.advantage ? { advantage: rule.advantage } : {}),
+          ...(rule.match ? { match: rule.match } : {}),
+          outcome: {
+            severity: rule.outcome.severity,
+            rankPointMultiplier: rule.outcome.rankPointMultiplier,
+            cooldownMinutes: rule.outcome.cooldownMinutes,
+            teammateLossForgiveness: rule.outcome.teammateLossForgiveness,
+          },
+        }))
+      : DEFAULT_POLICY.outcomes,
+  }
+}
+
+/**
+ * Returns the policy for `policyId`, or null if no such policy is registered.
+ * Omitting the id (or passing "default") returns DEFAULT_POLICY without touching the database.
+ * Only the studio's own policies resolve (without a studio: the bootstrap key's).
+ */
+export async function resolvePolicy(policyId?: string, studioId?: string): Promise<ClassificationPolicy | null> {
+  if (!policyId || policyId === DEFAULT_POLICY.id) return DEFAULT_POLICY
+  await connectToDatabase()
+  const doc = await PreservationPolicy.findOne({ studioId: studioId ?? null, policyId }).lean()
+  return doc ? toPolicy(doc) : null
+}
+
+/**
+ * Lists the default policy followed by the studio's registered policies.
+ */
+export async function listPolicies(studioId?: string): Promise<ClassificationPolicy[]> {
+  await connectToDatabase()
+  const docs = await PreservationPolicy.find({ studioId: studioId ?? null }).sort({ policyId: 1 }).lean()
+  return [DEFAULT_POLICY, ...docs.map(toPolicy)]
+}
+
+/**
+ * Registers (or replaces) a studio policy. Re-registering an existing id bumps its version.
+ */
+export async function registerPolicy(policy: ClassificationPolicy, studioId?: string): Promise<ClassificationPolicy> {
+  await connectToDatabase()
+  const doc = await PreservationPolicy.findOneAndUpdate(
+    { studioId: studioId ?? null, policyId: policy.id },
+    {
+      $set: {
+        name: policy.name,
+        thresholds: policy.thresholds,
+        contextual: policy.contextual,
+        trend: policy.trend,
+        offender: policy.offender,
+        crash: policy.crash,
+        outage: policy.outage,
+        defaultOutcome: policy.defaultOutcome,
+        outcomes: policy.outcomes,
+      },
+      $inc: { version: 1 },
+    },
+    { upsert: true, new: true }
+  ).lean()
+  return toPolicy(doc)
+}
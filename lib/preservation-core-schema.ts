@@ -0,0 +1,350 @@
+/**
+ * Preservation Core - Request Schemas
+ *
+ * Zod schemas for the classify, batch, session and policy bodies. The routes validate
+ * against them and report every violation with its JSON path, and the GET
+ * documentation is generated from the same schemas so the two cannot drift
+ * apart.
+ *
+ * Messages follow the `<path> <message>` format used by the other validators,
+ * e.g. "networkHistory[3].latencyMs must be a number".
+ */
+
+import { z, type ZodError, type ZodTypeAny } from "zod"
+import {
+  ADVANTAGE_BANDS,
+  DISCONNECT_TYPES,
+  MATCH_BANDS,
+  MAX_NETWORK_HISTORY,
+  PENALTY_SEVERITIES,
+} from "@/lib/preservation-core"
+import { MAX_BATCH_PLAYERS } from "@/lib/preservation-core-batch"
+import { OUTAGE_MIN_PLAYERS, OUTAGE_WINDOW_MS } from "@/lib/preservation-core-outages"
+import { MAX_GRACE_WINDOW_MS } from "@/lib/preservation-core-pending"
+import { MAX_HEARTBEAT_PLAYERS } from "@/lib/preservation-core-sessions"
+
+const number = () => z.number({ required_error: "is required", invalid_type_error: "must be a number" })
+/** Largest time a Date can hold; later values would fail when stored */
+const MAX_EPOCH_MS = 8_640_000_000_000_000
+const epochMs = () => number().min(0, "must be epoch milliseconds").max(MAX_EPOCH_MS, "must be epoch milliseconds")
+const boolean = () => z.boolean({ required_error: "is required", invalid_type_error: "must be a boolean" })
+const id = () =>
+  z
+    .string({ required_error: "is required", invalid_type_error: "must be a non-empty string" })
+    .trim()
+    .min(1, "must be a non-empty string")
+const oneOf = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.enum(values as unknown as [T[number], ...T[number][]], {
+    errorMap: () => ({ message: `must be one of ${values.map((value) => `'${value}'`).join(", ")}` }),
+  })
+const object = <T extends z.ZodRawShape>(shape: T) =>
+  z.object(shape, { required_error: "is required", invalid_type_error: "must be an object" })
+
+export const networkSnapshotSchema = object({
+  latencyMs: number().min(0, "must be >= 0").describe("Latency in milliseconds"),
+  packetLossRate: number().min(0, "must be between 0 and 1").max(1, "must be between 0 and 1").describe("Packet loss rate (0.0 to 1.0)"),
+  isConnected: boolean().describe("Whether connection was active"),
+  timestamp: number()
+    .min(0, "must be >= 0")
+    .max(MAX_EPOCH_MS, "must be epoch milliseconds")
+    .optional()
+    .describe("Timestamp when the snapshot was taken (epoch ms)"),
+})
+
+export const crashSignalsSchema = object({
+  exitCode: number().int("must be an integer").optional().describe("Process exit code (non-zero = abnormal exit)"),
+  crashReporterId: id().optional().describe("Crash report id from the client's crash reporter"),
+  timeSinceLastHeartbeat: number().min(0, "must be a number >= 0").optional().describe("Milliseconds since the client watchdog's last heartbeat"),
+})
+
+const networkHistorySchema = z
+  .array(networkSnapshotSchema, { invalid_type_error: "must be an array of snapshots" })
+  .max(MAX_NETWORK_HISTORY, `must contain at most ${MAX_NETWORK_HISTORY} snapshots`)
+  .superRefine((history, ctx) => {
+    history.forEach((snapshot, i) => {
+      const prev = history[i - 1]
+      if (prev?.timestamp !== undefined && snapshot.timestamp !== undefined && snapshot.timestamp < prev.timestamp) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [i, "timestamp"],
+          message: "must not be earlier than the previous snapshot",
+        })
+      }
+    })
+  })
+
+export const disconnectSignalsSchema = object({
+  quitAction: boolean().describe("True if user explicitly quit (Alt+F4, quit button, etc.)"),
+  networkBeforeDisconnect: networkSnapshotSchema.optional().describe("Network state before disconnect occurred"),
+  networkHistory: networkHistorySchema
+    .optional()
+    .describe(
+      `Ordered network snapshots leading up to the disconnect (oldest first, max ${MAX_NETWORK_HISTORY}). Used to compute trend features; the last sample stands in for networkBeforeDisconnect if that is omitted.`
+    ),
+  timeSinceLastPacket: number().min(0, "must be >= 0").optional().describe("Milliseconds since last successful packet/acknowledgment"),
+  timeoutThreshold: number()
+    .positive("must be > 0")
+    .optional()
+    .describe("Timeout threshold in milliseconds (default: the policy's timeout, see thresholds.TIMEOUT_MS)"),
+  crash: crashSignalsSchema
+    .optional()
+    .describe(
+      "Client crash signals. A crash report id, a non-zero exit code, or a watchdog heartbeat gap at or above the policy's crash.heartbeatTimeoutMs without network problems classifies the disconnect as client_crash; the policy's crash.outcome decides whether crashes are preserved."
+    ),
+  competitiveAdvantage: number()
+    .min(-1, "must be between -1.0 and 1.0")
+    .max(1, "must be between -1.0 and 1.0")
+    .optional()
+    .describe(
+      "Game-agnostic competitive advantage signal (-1.0 to 1.0). -1.0 = losing, 0.0 = neutral, 1.0 = winning. Studio-defined based on game metrics (points, kills, rounds, health, etc.)."
+    ),
+  fairnessConfidence: number()
+    .min(0, "must be between 0.0 and 1.0")
+    .max(1, "must be between 0.0 and 1.0")
+    .optional()
+    .describe(
+      "Game-agnostic fairness confidence signal (0.0 to 1.0). 0.0 = match outcome highly uncertain, 1.0 = match outcome likely settled. Studio-defined based on match state."
+    ),
+})
+
+/** POST /api/preservation-core/classify body: the signals plus the request context */
+export const classifyRequestSchema = disconnectSignalsSchema
+  .extend({
+    policyId: id()
+      .optional()
+      .describe("Registered classification policy to apply (default: \"default\"). Register policies via POST /api/preservation-core/policies."),
+    playerId: id()
+      .optional()
+      .describe(
+        "Stable player id. Enables repeat-offender detection: network drops that happen while losing far more often than chance are escalated to suspected_intentional."
+      ),
+    matchId: id()
+      .optional()
+      .describe("Match id stored with the decision in the audit log (query via GET /api/preservation-core/decisions)."),
+    serverId: id()
+      .optional()
+      .describe(
+        `Game server the player was connected to (requires playerId). When the policy's outage.minPlayers (default: ${OUTAGE_MIN_PLAYERS}) or more players drop from one server with at most outage.windowMs (default: ${OUTAGE_WINDOW_MS}ms) between drops, the disconnect is part of an outage incident and everyone in it is preserved (query via GET /api/preservation-core/incidents).`
+      ),
+    regionId: id().optional().describe("Region of the game server, reported on outage incidents and used for analytics breakdowns."),
+    platform: id()
+      .optional()
+      .describe("Client platform (e.g. \"pc\", \"ps5\", \"xbox\", \"switch\", \"mobile\"), used for analytics breakdowns."),
+    disconnectedAt: number()
+      .min(0, "must be epoch milliseconds")
+      .optional()
+      .describe("Epoch milliseconds of the disconnect, used for outage correlation and the grace window (default: time of the request)."),
+    graceWindowMs: number()
+      .int(`must be an integer between 1 and ${MAX_GRACE_WINDOW_MS}`)
+      .min(1, `must be an integer between 1 and ${MAX_GRACE_WINDOW_MS}`)
+      .max(MAX_GRACE_WINDOW_MS, `must be an integer between 1 and ${MAX_GRACE_WINDOW_MS}`)
+      .optional()
+      .describe(
+        `Reconnect grace window in milliseconds (requires playerId, max ${MAX_GRACE_WINDOW_MS}). The response is 202 with a pendingId and the provisional result; reconnecting within the window via POST /api/preservation-core/pending/:pendingId/reconnect records a reconnected outcome (no loss), otherwise the provisional result is finalized when the window expires.`
+      ),
+  })
+  .superRefine((request, ctx) => {
+    if (request.serverId !== undefined && request.playerId === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["serverId"],
+        message: "requires playerId (outage correlation counts distinct players)",
+      })
+    }
+    if (request.graceWindowMs !== undefined && request.playerId === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["graceWindowMs"],
+        message: "requires playerId (the reconnect is matched to the player)",
+      })
+    }
+  })
+
+export type ClassifyRequestBody = z.infer<typeof classifyRequestSchema>
+
+/**
+ * POST /api/preservation-core/classify/batch body: the shared match context.
+ * Entries are only checked to be there; each one is validated on its own with
+ * batchEntrySchema so one bad entry doesn't reject the batch.
+ */
+export const batchRequestSchema = object({
+  matchId: id().optional().describe("Stored with every decision"),
+  policyId: id().optional().describe("Classification policy for every entry (default: \"default\")"),
+  fairnessConfidence: disconnectSignalsSchema.shape.fairnessConfidence,
+  teams: z
+    .record(z.array(z.string(), { invalid_type_error: "must be an array of player ids" }), {
+      invalid_type_error: "must map team ids to arrays of player ids",
+    })
+    .optional()
+    .describe("Full team rosters (connected players included)"),
+  serverId: id().optional().describe("Game server id, enables outage correlation"),
+  regionId: id().optional().describe("Server region, reported on outage incidents and in analytics"),
+  players: z
+    .array(z.unknown(), { required_error: "is required", invalid_type_error: "must be a non-empty array" })
+    .min(1, "must be a non-empty array")
+    .max(MAX_BATCH_PLAYERS, `must contain at most ${MAX_BATCH_PLAYERS} entries`),
+})
+
+/** One entry of a batch */
+export const batchEntrySchema = object({
+  playerId: id(),
+  signals: disconnectSignalsSchema,
+  disconnectedAt: epochMs().optional(),
+  platform: id().optional(),
+})
+
+/** POST /api/preservation-core/sessions/:sessionId/heartbeats body */
+export const heartbeatSchema = object({
+  at: epochMs().optional().describe("Epoch ms of the heartbeat (default: time of the request)"),
+  players: z
+    .array(object({ playerId: id(), network: networkSnapshotSchema }), { invalid_type_error: "must be an array" })
+    .max(MAX_HEARTBEAT_PLAYERS, `must contain at most ${MAX_HEARTBEAT_PLAYERS} entries`)
+    .optional()
+    .describe("One network snapshot per player"),
+  scores: z
+    .record(number(), { invalid_type_error: "must map team (or player) ids to numbers" })
+    .optional()
+    .describe("Current scoreboard: team (or player) id to score"),
+}).superRefine((heartbeat, ctx) => {
+  if (!heartbeat.players?.length && heartbeat.scores === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [], message: "must contain players or scores" })
+  }
+})
+
+/** POST /api/preservation-core/sessions/:sessionId/disconnect body */
+export const sessionDisconnectSchema = disconnectSignalsSchema
+  .pick({ quitAction: true, crash: true, competitiveAdvantage: true, fairnessConfidence: true })
+  .extend({
+    playerId: id().describe("Player who disconnected"),
+    at: epochMs().optional().describe("Epoch ms of the disconnect (default: time of the request)"),
+  })
+
+const outcomeRuleSchema = object({
+  type: oneOf(DISCONNECT_TYPES),
+  lossApplied: boolean().optional(),
+  advantage: oneOf(ADVANTAGE_BANDS).optional(),
+  match: oneOf(MATCH_BANDS).optional(),
+  outcome: object({
+    severity: oneOf(PENALTY_SEVERITIES),
+    rankPointMultiplier: number(),
+    cooldownMinutes: number(),
+    teammateLossForgiveness: boolean(),
+  }),
+})
+
+/**
+ * Policy settings as sent to POST /policies and as simulator candidates. Only
+ * types are checked here; ranges and cross-field rules are left to
+ * validatePolicy, which also runs on the merged policy. Unknown keys are
+ * dropped, so nothing but policy settings reaches the stored policy.
+ */
+export const policyOverridesSchema = object({
+  id: id().optional(),
+  name: id().optional(),
+  thresholds: object({
+    highPacketLoss: number().optional(),
+    highLatencyMs: number().optional(),
+    timeoutMs: number().optional(),
+  }).optional(),
+  contextual: object({
+    winningAdvantage: number().optional(),
+    losingAdvantage: number().optional(),
+    settledConfidence: number().optional(),
+    uncertainConfidence: number().optional(),
+  }).optional(),
+  trend: object({
+    sustainedSamples: number().optional(),
+    jitterMs: number().optional(),
+    lossBurstSamples: number().optional(),
+  }).optional(),
+  offender: object({
+    minNetworkDrops: number().optional(),
+    baselineLosingRate: number().optional(),
+    significance: number().optional(),
+    penaltyLadder: z
+      .array(object({ name: id(), lossApplied: boolean() }), { invalid_type_error: "must be an array" })
+      .optional(),
+  }).optional(),
+  crash: object({
+    outcome: oneOf(["preserve", "apply_loss"] as const).optional(),
+    heartbeatTimeoutMs: number().optional(),
+  }).optional(),
+  outage: object({
+    minPlayers: number().optional(),
+    windowMs: number().optional(),
+  }).optional(),
+  defaultOutcome: oneOf(["preserve", "apply_loss"] as const).optional(),
+  outcomes: z.array(outcomeRuleSchema, { invalid_type_error: "must be an array of rules" }).optional(),
+})
+
+/** POST /api/preservation-core/policies body: the settings plus the required id and name */
+export const policyInputSchema = policyOverridesSchema.extend({ id: id(), name: id() })
+
+export type PolicyOverrides = z.infer<typeof policyOverridesSchema>
+
+/** JSON path of an issue: `networkHistory[3].latencyMs` (empty for the root) */
+function formatPath(path: (string | number)[]): string {
+  return path.map((part, i) => (typeof part === "number" ? `[${part}]` : i === 0 ? part : `.${part}`)).join("")
+}
+
+/**
+ * Lists every violation as "<path> <message>" (e.g. "crash.exitCode must be an integer").
+ * `root` names the validated value itself when it is not an object.
+ */
+export function formatSchemaIssues(error: ZodError, root = "body"): string[] {
+  return error.issues.map((issue) => `${formatPath(issue.path) || root} ${issue.message}`)
+}
+
+export interface FieldDoc {
+  type: string
+  required: boolean
+  description?: string
+  enum?: readonly string[]
+  properties?: Record<string, FieldDoc>
+  items?: FieldDoc
+}
+
+/**
+ * Documents a schema field: its JSON type, whether it is required and its
+ * description. Objects and arrays are documented recursively.
+ */
+export function describeField(schema: ZodTypeAny): FieldDoc {
+  const required = !schema.isOptional()
+  let description = schema.description
+  let inner: ZodTypeAny = schema
+  // Unwrap optional / refined wrappers down to the underlying type
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable || inner instanceof z.ZodEffects) {
+    inner = inner instanceof z.ZodEffects ? inner.innerType() : inner.unwrap()
+    description ??= inner.description
+  }
+
+  const doc: FieldDoc = { type: "unknown", required, ...(description ? { description } : {}) }
+  if (inner instanceof z.ZodObject) {
+    doc.type = "object"
+    doc.properties = describeSchema(inner)
+  } else if (inner instanceof z.ZodArray) {
+    doc.type = "array"
+    doc.items = describeField(inner.element)
+  } else if (inner instanceof z.ZodEnum) {
+    doc.type = "string"
+    doc.enum = inner.options
+  } else if (inner instanceof z.ZodNumber) {
+    doc.type = "number"
+  } else if (inner instanceof z.ZodString) {
+    doc.type = "string"
+  } else if (inner instanceof z.ZodBoolean) {
+    doc.type = "boolean"
+  }
+  return doc
+}
+
+/**
+ * Documents every field of an object schema (refinements are unwrapped)
+ */
+export function describeSchema(schema: ZodTypeAny): Record<string, FieldDoc> {
+  let inner: ZodTypeAny = schema
+  while (inner instanceof z.ZodEffects) inner = inner.innerType()
+  if (!(inner instanceof z.ZodObject)) return {}
+  const shape = inner.shape as Record<string, ZodTypeAny>
+  return Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, describeField(field)]))
+}
@@ -0,0 +1,120 @@
+/**
+ * Preservation Core - Classification Service
+ *
+ * Server-side steps that run after the stateless engine: server outage
+ * correlation, repeat-offender detection against the player's history,
+ * persisting the decision to the audit log, and notifying webhooks. Shared by the single and batch classify routes.
+ */
+
+import {
+  resolvePenaltyOutcome,
+  type ClassificationPolicy,
+  type ClassificationResult,
+  type DisconnectSignals,
+} from "@/lib/preservation-core"
+import {
+  applyOffenderAssessment,
+  assessRepeatOffender,
+  loadDisconnectHistory,
+  recordDisconnect,
+} from "@/lib/preservation-core-offenders"
+import {
+  recordDecision,
+  type DecisionCaller,
+  type DecisionMetadata,
+  type DecisionOutageContext,
+} from "@/lib/preservation-core-decisions"
+import { applyServerOutage, ingestDisconnectEvent } from "@/lib/preservation-core-outages"
+import { emitWebhookEvent } from "@/lib/preservation-core-webhooks"
+
+export type StoredClassificationResult = ClassificationResult & {
+  /** Audit log id (absent if the decision could not be stored) */
+  decisionId?: string
+  /** Server outage incident the disconnect was correlated with */
+  incidentId?: string
+}
+
+export interface FinalizeClassificationInput {
+  signals: DisconnectSignals
+  result: ClassificationResult
+  policy: ClassificationPolicy
+  caller: DecisionCaller
+  playerId?: string
+  matchId?: string
+  /** Server / time of the disconnect; enables outage correlation (requires playerId) */
+  outage?: DecisionOutageContext
+  /** Region / platform, stored for analytics breakdowns */
+  metadata?: DecisionMetadata
+  /** Skip repeat-offender escalation (e.g. the drop is explained by a shared outage) */
+  skipOffenderCheck?: boolean
+}
+
+/**
+ * Correlates the disconnect with other drops on the same server (when a server
+ * id is known), runs repeat-offender detection (when a playerId is known),
+ * resolves the graduated outcome of the final decision, records it and emits
+ * `decision.created`. Storage and delivery
+ * failures are logged and never fail the classification.
+ */
+export async function finalizeClassification(input: FinalizeClassificationInput): Promise<StoredClassificationResult> {
+  const { signals, policy, caller, playerId, matchId, outage, metadata } = input
+  let result = input.result
+  let skipOffenderCheck = input.skipOffenderCheck
+
+  // Server outage correlation: a drop that is part of a mass disconnect is always preserved
+  let incidentId: string | undefined
+  if (outage && playerId && result.type !== "none") {
+    try {
+      const { incident } = await ingestDisconnectEvent(
+        { studioId: caller.studioId, playerId, matchId, serverId: outage.serverId, regionId: outage.regionId, occurredAt: outage.disconnectedAt },
+        policy.outage
+      )
+      if (incident) {
+        incidentId = incident.incidentId
+        // A player who reconnected within the grace window already has the better outcome
+        if (result.type !== "reconnected") result = applyServerOutage(result, incident.playerCount, policy.outage.minPlayers)
+        skipOffenderCheck = true
+      }
+    } catch (err) {
+      console.error("[PreservationCore API] Outage correlation unavailable:", err)
+    }
+  }
+
+  // Repeat-offender detection: consult and extend the player's disconnect history
+  if (playerId) {
+    try {
+      const history = await loadDisconnectHistory(playerId, caller.studioId)
+      if (!skipOffenderCheck) {
+        result = applyOffenderAssessment(result, assessRepeatOffender(history, signals, result, policy), policy)
+      }
+      await recordDisconnect(playerId, signals, result, policy, caller.studioId)
+    } catch (err) {
+      // History unavailable (e.g. DB down): fall back to the stateless decision
+      console.error("[PreservationCore API] Disconnect history unavailable:", err)
+    }
+  }
+
+  // Outages, escalation and reconnects change the type / loss decision: look the graduated outcome up again
+  result = { ...result, outcome: resolvePenaltyOutcome(result, signals, policy) }
+
+  // Audit log: persist the decision so it can be explained later
+  let decisionId: string | undefined
+  try {
+    decisionId = await recordDecision({ playerId, matchId, caller, outage, metadata, incidentId, signals, result, policy })
+  } catch (err) {
+    console.error("[PreservationCore API] Failed to record decision:", err)
+  }
+
+  // Notify registered webhooks without holding up the response
+  emitWebhookEvent("decision.created", caller.studioId, {
+    decisionId,
+    playerId,
+    matchId,
+    incidentId,
+    policyId: policy.id,
+    policyVersion: policy.version,
+    result,
+  }).catch((err) => console.error("[PreservationCore API] Failed to emit webhooks:", err))
+
+  return { decisionId, incidentId, ...result }
+}
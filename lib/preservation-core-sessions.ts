@@ -0,0 +1,352 @@
+/**
+ * Preservation Core - Match Sessions
+ *
+ * Stateful alternative to calling classify once with hand-gathered signals.
+ * A game server opens a session when the match starts, streams heartbeats
+ * (per-player network snapshots and the scoreboard) during play, and reports
+ * disconnects. Preservation Core then classifies from the recorded timeline,
+ * computing `timeSinceLastPacket` and `competitiveAdvantage` itself.
+ *
+ * Heartbeats and scoreboards are stored as timestamped samples, so a disconnect
+ * reported late (or with an earlier `at`) is classified from the state of the
+ * match at that time, not from whatever arrived since.
+ */
+
+import { isValidObjectId } from "mongoose"
+import { connectToDatabase } from "@/lib/db"
+import { MatchSession } from "@/models/MatchSession"
+import { SessionHeartbeat } from "@/models/SessionHeartbeat"
+import { SessionScore } from "@/models/SessionScore"
+import {
+  classifyDisconnect,
+  type ClassificationPolicy,
+  type CrashSignals,
+  type DisconnectSignals,
+  type NetworkSnapshot,
+} from "@/lib/preservation-core"
+import { resolvePolicy } from "@/lib/preservation-core-policies"
+import type { DecisionCaller } from "@/lib/preservation-core-decisions"
+import { studioScope } from "@/lib/api-auth"
+import { finalizeClassification, type StoredClassificationResult } from "@/lib/preservation-core-service"
+
+/** Most recent heartbeats per player used as `networkHistory` */
+export const SESSION_HISTORY_SAMPLES = 60
+
+/** Maximum number of player snapshots accepted in one heartbeat */
+export const MAX_HEARTBEAT_PLAYERS = 128
+
+export const SESSION_STATUSES = ["active", "closed"] as const
+
+export type SessionStatus = (typeof SESSION_STATUSES)[number]
+
+export interface SessionInfo {
+  sessionId: string
+  matchId: string
+  policyId: string
+  serverId?: string
+  regionId?: string
+  teams: Record<string, string[]>
+  maxScoreDifference?: number
+  /** Latest reported scoreboard */
+  scores: Record<string, number>
+  status: SessionStatus
+  /** `type` and `lossApplied` are unset while a report is still being classified */
+  disconnects: { playerId: string; at: string; decisionId?: string; type?: string; lossApplied?: boolean }[]
+  lastHeartbeatAt?: string
+  closedAt?: string
+  createdAt: string
+}
+
+export interface HeartbeatSample {
+  /** Epoch ms the snapshot was taken */
+  at: number
+  latencyMs: number
+  packetLossRate: number
+  isConnected: boolean
+}
+
+export interface SessionDisconnectReport {
+  playerId: string
+  quitAction: boolean
+  /** Epoch ms of the disconnect (default: time of the report) */
+  at?: number
+  crash?: CrashSignals
+  /** Studio-supplied values win over the ones computed from the session */
+  competitiveAdvantage?: number
+  fairnessConfidence?: number
+}
+
+export type SessionOutcome<T> = { ok: true; value: T } | { ok: false; status: 404 | 409; error: string }
+
+/**
+ * Normalized score lead of the player's team over the best other team
+ * (-1.0 to 1.0). With `maxScoreDifference` the lead is scaled by it;
+ * otherwise it is taken relative to the combined score of both sides.
+ * Returns undefined when the scoreboard can't place the player.
+ */
+export function computeCompetitiveAdvantage(
+  scores: Record<string, number>,
+  teams: Record<string, string[]>,
+  playerId: string,
+  maxScoreDifference?: number
+): number | undefined {
+  const ownTeam = Object.keys(teams).find((teamId) => teams[teamId].includes(playerId)) ?? playerId
+  const own = scores[ownTeam]
+  const others = Object.entries(scores)
+    .filter(([id]) => id !== ownTeam)
+    .map(([, score]) => score)
+  if (own === undefined || others.length === 0) return undefined
+
+  const best = Math.max(...others)
+  const lead = own - best
+  const scale = maxScoreDifference ?? Math.abs(own) + Math.abs(best)
+  if (scale === 0) return 0
+  return Math.max(-1, Math.min(1, lead / scale))
+}
+
+/**
+ * Builds classification signals for a disconnect from a player's recorded
+ * timeline (oldest first). Only heartbeats up to the disconnect are used; the
+ * last connected heartbeat stands in for the last packet received.
+ */
+export function buildSessionSignals(
+  timeline: HeartbeatSample[],
+  report: SessionDisconnectReport & { at: number },
+  competitiveAdvantage?: number
+): DisconnectSignals {
+  const history: NetworkSnapshot[] = timeline
+    .filter((sample) => sample.at <= report.at)
+    .slice(-SESSION_HISTORY_SAMPLES)
+    .map((sample) => ({
+      latencyMs: sample.latencyMs,
+      packetLossRate: sample.packetLossRate,
+      isConnected: sample.isConnected,
+      timestamp: sample.at,
+    }))
+  const lastPacket = [...history].reverse().find((snapshot) => snapshot.isConnected)
+
+  return {
+    quitAction: report.quitAction,
+    networkHistory: history.length > 0 ? history : undefined,
+    timeSinceLastPacket: lastPacket ? report.at - lastPacket.timestamp! : undefined,
+    crash: report.crash,
+    competitiveAdvantage: report.competitiveAdvantage ?? competitiveAdvantage,
+    fairnessConfidence: report.fairnessConfidence,
+  }
+}
+
+function toSessionInfo(doc: any): SessionInfo {
+  return {
+    sessionId: String(doc._id),
+    matchId: doc.matchId,
+    policyId: doc.policyId,
+    serverId: doc.serverId,
+    regionId: doc.regionId,
+    teams: doc.teams || {},
+    maxScoreDifference: doc.maxScoreDifference,
+    scores: doc.scores || {},
+    status: doc.status,
+    disconnects: (doc.disconnects || []).map((d: any) => ({
+      playerId: d.playerId,
+      at: new Date(d.at).toISOString(),
+      decisionId: d.decisionId,
+      type: d.type,
+      lossApplied: d.lossApplied,
+    })),
+    lastHeartbeatAt: doc.lastHeartbeatAt ? new Date(doc.lastHeartbeatAt).toISOString() : undefined,
+    closedAt: doc.closedAt ? new Date(doc.closedAt).toISOString() : undefined,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Opens a match session. The policy must already be resolved by the caller.
+ */
+export async function openSession(input: {
+  studioId?: string
+  matchId: string
+  policyId: string
+  serverId?: string
+  regionId?: string
+  teams?: Record<string, string[]>
+  maxScoreDifference?: number
+}): Promise<SessionInfo> {
+  await connectToDatabase()
+  const doc = await MatchSession.create({ ...input, teams: input.teams ?? {} })
+  return toSessionInfo(doc.toObject())
+}
+
+/**
+ * Returns a session, or null if it doesn't exist for the studio.
+ */
+export async function getSession(sessionId: string, studioId?: string): Promise<SessionInfo | null> {
+  if (!isValidObjectId(sessionId)) return null
+  await connectToDatabase()
+  const doc = await MatchSession.findOne({ _id: sessionId, ...studioScope(studioId) }).lean()
+  return doc ? toSessionInfo(doc) : null
+}
+
+/**
+ * Records a heartbeat: one network snapshot per reported player and, when
+ * sent, the full current scoreboard as a sample at the heartbeat's time.
+ */
+export async function recordHeartbeat(
+  sessionId: string,
+  heartbeat: { at: number; players: { playerId: string; network: NetworkSnapshot }[]; scores?: Record<string, number> },
+  studioId?: string
+): Promise<SessionOutcome<{ recorded: number }>> {
+  if (!isValidObjectId(sessionId)) return { ok: false, status: 404, error: "Session not found" }
+  await connectToDatabase()
+
+  const doc: any = await MatchSession.findOneAndUpdate(
+    { _id: sessionId, ...studioScope(studioId), status: "active" },
+    { $set: { lastHeartbeatAt: new Date(heartbeat.at), ...(heartbeat.scores ? { scores: heartbeat.scores } : {}) } },
+    { new: true }
+  ).lean()
+  if (!doc) {
+    const exists = await MatchSession.exists({ _id: sessionId, ...studioScope(studioId) })
+    return exists
+      ? { ok: false, status: 409, error: "Session is closed" }
+      : { ok: false, status: 404, error: "Session not found" }
+  }
+
+  if (heartbeat.players.length > 0) {
+    await SessionHeartbeat.insertMany(
+      heartbeat.players.map(({ playerId, network }) => ({
+        sessionId,
+        playerId,
+        at: new Date(network.timestamp ?? heartbeat.at),
+        latencyMs: network.latencyMs,
+        packetLossRate: network.packetLossRate,
+        isConnected: network.isConnected,
+      }))
+    )
+  }
+  if (heartbeat.scores) {
+    await SessionScore.create({ sessionId, at: new Date(heartbeat.at), scores: heartbeat.scores })
+  }
+  return { ok: true, value: { recorded: heartbeat.players.length } }
+}
+
+/**
+ * Classifies a reported disconnect from the session timeline, then runs the
+ * usual server-side steps (outage correlation, repeat-offender detection,
+ * audit log, webhooks). A player can only be reported once per session: the
+ * report is claimed on the session before anything is classified or stored,
+ * so concurrent reports for the same player record a single decision. Only
+ * the caller's studio's sessions can be reported on.
+ */
+export async function reportDisconnect(
+  sessionId: string,
+  report: SessionDisconnectReport,
+  caller: DecisionCaller
+): Promise<SessionOutcome<StoredClassificationResult>> {
+  if (!isValidObjectId(sessionId)) return { ok: false, status: 404, error: "Session not found" }
+  await connectToDatabase()
+
+  const session: any = await MatchSession.findOne({ _id: sessionId, ...studioScope(caller.studioId) }).lean()
+  if (!session) return { ok: false, status: 404, error: "Session not found" }
+  if (session.status !== "active") return { ok: false, status: 409, error: "Session is closed" }
+
+  const policy = await resolvePolicy(session.policyId, session.studioId)
+  if (!policy) return { ok: false, status: 409, error: `Session policy '${session.policyId}' no longer exists` }
+
+  const at = report.at ?? Date.now()
+  const claim = await MatchSession.updateOne(
+    { _id: sessionId, status: "active", "disconnects.playerId": { $ne: report.playerId } },
+    { $push: { disconnects: { playerId: report.playerId, at: new Date(at) } } }
+  )
+  if (claim.modifiedCount === 0) {
+    const closed = await MatchSession.exists({ _id: sessionId, status: "closed" })
+    return closed
+      ? { ok: false, status: 409, error: "Session is closed" }
+      : { ok: false, status: 409, error: `Disconnect already reported for player '${report.playerId}'` }
+  }
+
+  try {
+    const stored = await classifySessionDisconnect(session, policy, { ...report, at }, caller)
+    await MatchSession.updateOne(
+      { _id: sessionId, "disconnects.playerId": report.playerId },
+      {
+        $set: {
+          "disconnects.$.decisionId": stored.decisionId,
+          "disconnects.$.type": stored.type,
+          "disconnects.$.lossApplied": stored.lossApplied,
+        },
+      }
+    )
+    return { ok: true, value: stored }
+  } catch (err) {
+    // Release the claim so the report can be retried
+    await MatchSession.updateOne(
+      { _id: sessionId },
+      { $pull: { disconnects: { playerId: report.playerId, type: { $exists: false } } } }
+    ).catch(() => {})
+    throw err
+  }
+}
+
+/**
+ * Builds the signals for a claimed disconnect from the player's heartbeats and
+ * the scoreboard sample at or before the disconnect, then finalizes it.
+ */
+async function classifySessionDisconnect(
+  session: any,
+  policy: ClassificationPolicy,
+  report: SessionDisconnectReport & { at: number },
+  caller: DecisionCaller
+): Promise<StoredClassificationResult> {
+  const sessionId = String(session._id)
+  const at = report.at
+  const heartbeats = await SessionHeartbeat.find({ sessionId, playerId: report.playerId, at: { $lte: new Date(at) } })
+    .sort({ at: -1 })
+    .limit(SESSION_HISTORY_SAMPLES)
+    .lean()
+  const timeline: HeartbeatSample[] = heartbeats.reverse().map((h: any) => ({
+    at: new Date(h.at).getTime(),
+    latencyMs: h.latencyMs,
+    packetLossRate: h.packetLossRate,
+    isConnected: h.isConnected,
+  }))
+  const scoreboard: any = await SessionScore.findOne({ sessionId, at: { $lte: new Date(at) } })
+    .sort({ at: -1 })
+    .lean()
+  const advantage = scoreboard
+    ? computeCompetitiveAdvantage(scoreboard.scores, session.teams || {}, report.playerId, session.maxScoreDifference)
+    : undefined
+  const signals = buildSessionSignals(timeline, report, advantage)
+
+  return finalizeClassification({
+    signals,
+    result: classifyDisconnect(signals, policy),
+    policy,
+    caller,
+    playerId: report.playerId,
+    matchId: session.matchId,
+    outage: session.serverId
+      ? { serverId: session.serverId, regionId: session.regionId, disconnectedAt: new Date(at) }
+      : undefined,
+    metadata: { regionId: session.regionId },
+  })
+}
+
+/**
+ * Closes one of the studio's sessions. Heartbeats and disconnect reports are
+ * rejected afterwards.
+ */
+export async function closeSession(sessionId: string, studioId?: string): Promise<SessionOutcome<SessionInfo>> {
+  if (!isValidObjectId(sessionId)) return { ok: false, status: 404, error: "Session not found" }
+  await connectToDatabase()
+  const doc: any = await MatchSession.findOneAndUpdate(
+    { _id: sessionId, ...studioScope(studioId), status: "active" },
+    { $set: { status: "closed", closedAt: new Date() } },
+    { new: true }
+  ).lean()
+  if (!doc) {
+    const exists = await MatchSession.exists({ _id: sessionId, ...studioScope(studioId) })
+    return exists
+      ? { ok: false, status: 409, error: "Session is already closed" }
+      : { ok: false, status: 404, error: "Session not found" }
+  }
+  return { ok: true, value: toSessionInfo(doc) }
+}
@@ -0,0 +1,245 @@
+/**
+ * Preservation Core - Policy What-If Simulator
+ *
+ * Replays a corpus of disconnects through the current policy and a candidate
+ * policy and reports how the outcomes would change: a matrix of
+ * no_disconnect / preserved / penalized transitions, the same by disconnect
+ * type, and example cases for every transition.
+ *
+ * The corpus is JSONL: one `DisconnectSignals` object per line, or a stored
+ * decision (`{ decisionId?, playerId?, signals }`, as returned by
+ * GET /api/preservation-core/decisions); the API route can also replay stored
+ * decisions straight from the audit log. Only the stateless engine is replayed;
+ * repeat-offender escalation and outage correlation depend on history at the
+ * time of the original decision and are not simulated.
+ *
+ * Used by POST /api/preservation-core/policies/simulate and
+ * scripts/simulate-policy.js.
+ */
+
+import { connectToDatabase } from "@/lib/db"
+import { PreservationDecision } from "@/models/PreservationDecision"
+import {
+  classifyDisconnect,
+  type ClassificationPolicy,
+  type ClassificationResult,
+  type DisconnectSignals,
+  type DisconnectType,
+} from "@/lib/preservation-core"
+import { disconnectSignalsSchema, formatSchemaIssues } from "@/lib/preservation-core-schema"
+
+export const SIMULATION_OUTCOMES = ["no_disconnect", "preserved", "penalized"] as const
+
+export type SimulationOutcome = (typeof SIMULATION_OUTCOMES)[number]
+
+/** Largest corpus a single simulation accepts */
+export const MAX_SIMULATION_CASES = 20_000
+/** Most stored decisions replayed when the corpus comes from the audit log */
+export const MAX_STORED_CORPUS = 5000
+/** Default number of examples kept per outcome transition */
+export const DEFAULT_EXAMPLES_PER_TRANSITION = 5
+/** Most examples a request may ask for per outcome transition */
+export const MAX_EXAMPLES_PER_TRANSITION = 50
+
+export interface SimulationCase {
+  /** decisionId, id or `line <n>` */
+  caseId: string
+  playerId?: string
+  signals: DisconnectSignals
+}
+
+export interface SimulationExample {
+  caseId: string
+  playerId?: string
+  from: SimulationOutcome
+  to: SimulationOutcome
+  baseline: { type: DisconnectType; lossApplied: boolean; decidingReason?: string }
+  candidate: { type: DisconnectType; lossApplied: boolean; decidingReason?: string }
+  signals: DisconnectSignals
+}
+
+export interface SimulationReport {
+  cases: number
+  baselinePolicy: { id: string; version: number }
+  candidatePolicy: { id: string; version: number }
+  /** Outcome totals under each policy */
+  totals: { baseline: Record<SimulationOutcome, number>; candidate: Record<SimulationOutcome, number> }
+  /** matrix[baselineOutcome][candidateOutcome] = number of cases */
+  matrix: Record<SimulationOutcome, Record<SimulationOutcome, number>>
+  /** typeMatrix[baselineType][candidateType] = number of cases (non-zero cells only) */
+  typeMatrix: Partial<Record<DisconnectType, Partial<Record<DisconnectType, number>>>>
+  /** Cases whose outcome changed */
+  changed: number
+  preservedToPenalized: number
+  penalizedToPreserved: number
+  /** Up to `examplesPerTransition` cases for every changed transition */
+  examples: SimulationExample[]
+}
+
+/**
+ * Builds a candidate policy from `base` with the overrides applied section by
+ * section, so a candidate only needs the thresholds / cut-offs being changed.
+ */
+export function derivePolicy(base: ClassificationPolicy, overrides: any): ClassificationPolicy {
+  return {
+    ...base,
+    id: typeof overrides?.id === "string" && overrides.id.trim() ? overrides.id.trim() : "candidate",
+    name: typeof overrides?.name === "string" && overrides.name.trim() ? overrides.name.trim() : `Candidate (based on ${base.id})`,
+    thresholds: { ...base.thresholds, ...(overrides?.thresholds || {}) },
+    contextual: { ...base.contextual, ...(overrides?.contextual || {}) },
+    trend: { ...base.trend, ...(overrides?.trend || {}) },
+    offender: { ...base.offender, ...(overrides?.offender || {}) },
+    crash: { ...base.crash, ...(overrides?.crash || {}) },
+    outage: { ...base.outage, ...(overrides?.outage || {}) },
+    defaultOutcome: overrides?.defaultOutcome ?? base.defaultOutcome,
+    outcomes: overrides?.outcomes ?? base.outcomes,
+  }
+}
+
+/** Outcome of a result from the player's point of view */
+export function simulationOutcome(result: ClassificationResult): SimulationOutcome {
+  if (result.type === "none") return "no_disconnect"
+  return result.lossApplied ? "penalized" : "preserved"
+}
+
+function emptyOutcomeCounts(): Record<SimulationOutcome, number> {
+  return { no_disconnect: 0, preserved: 0, penalized: 0 }
+}
+
+/**
+ * Parses a JSONL corpus. Blank lines are skipped; invalid lines are reported
+ * as "line <n>: <path> <message>" and left out of the cases.
+ */
+export function parseCorpus(text: string): { cases: SimulationCase[]; errors: string[] } {
+  const cases: SimulationCase[] = []
+  const errors: string[] = []
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line) return
+    let entry: any
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      errors.push(`line ${i + 1}: not valid JSON`)
+      return
+    }
+    const outcome = toSimulationCase(entry, `line ${i + 1}`)
+    if (outcome.ok) cases.push(outcome.value)
+    else errors.push(...outcome.errors.map((error) => `line ${i + 1}: ${error}`))
+  })
+  return { cases, errors }
+}
+
+/**
+ * Validates one corpus entry: raw signals or a stored decision wrapping them.
+ */
+export function toSimulationCase(
+  entry: any,
+  fallbackId: string
+): { ok: true; value: SimulationCase } | { ok: false; errors: string[] } {
+  const wrapped = entry && typeof entry === "object" && entry.signals && typeof entry.signals === "object"
+  const parsed = disconnectSignalsSchema.safeParse(wrapped ? entry.signals : entry)
+  if (!parsed.success) return { ok: false, errors: formatSchemaIssues(parsed.error, "signals") }
+  const id = entry.decisionId ?? entry.id
+  return {
+    ok: true,
+    value: {
+      caseId: typeof id === "string" && id ? id : fallbackId,
+      playerId: typeof entry.playerId === "string" ? entry.playerId : undefined,
+      signals: parsed.data,
+    },
+  }
+}
+
+export interface StoredCorpusQuery {
+  from?: Date
+  to?: Date
+  /** Only decisions made under this policy */
+  policyId?: string
+  /** Restricts the corpus to one studio's decisions (set from the API key) */
+  studioId?: string
+  limit?: number
+}
+
+/**
+ * Loads the signals of stored decisions, newest first, as a simulation corpus.
+ */
+export async function loadStoredCorpus(query: StoredCorpusQuery): Promise<SimulationCase[]> {
+  await connectToDatabase()
+  const filter: Record<string, unknown> = {}
+  if (query.policyId) filter.policyId = query.policyId
+  if (query.studioId) filter["caller.studioId"] = query.studioId
+  if (query.from || query.to) {
+    filter.createdAt = {
+      ...(query.from ? { $gte: query.from } : {}),
+      ...(query.to ? { $lte: query.to } : {}),
+    }
+  }
+  const limit = Math.min(query.limit || MAX_STORED_CORPUS, MAX_STORED_CORPUS)
+  const docs = await PreservationDecision.find(filter)
+    .select({ playerId: 1, signals: 1 })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean()
+  return docs.map((doc: any) => ({ caseId: String(doc._id), playerId: doc.playerId, signals: doc.signals }))
+}
+
+const decidingReason = (result: ClassificationResult) => result.reasons[result.reasons.length - 1]?.code
+
+/**
+ * Classifies every case with both policies and tallies the outcome changes.
+ */
+export function simulatePolicies(
+  cases: SimulationCase[],
+  baselinePolicy: ClassificationPolicy,
+  candidatePolicy: ClassificationPolicy,
+  examplesPerTransition = DEFAULT_EXAMPLES_PER_TRANSITION
+): SimulationReport {
+  const totals = { baseline: emptyOutcomeCounts(), candidate: emptyOutcomeCounts() }
+  const matrix = Object.fromEntries(SIMULATION_OUTCOMES.map((outcome) => [outcome, emptyOutcomeCounts()])) as SimulationReport["matrix"]
+  const typeMatrix: SimulationReport["typeMatrix"] = {}
+  const examples: SimulationExample[] = []
+
+  for (const simulationCase of cases) {
+    const baseline = classifyDisconnect(simulationCase.signals, baselinePolicy)
+    const candidate = classifyDisconnect(simulationCase.signals, candidatePolicy)
+    const from = simulationOutcome(baseline)
+    const to = simulationOutcome(candidate)
+
+    totals.baseline[from]++
+    totals.candidate[to]++
+    matrix[from][to]++
+    const row = (typeMatrix[baseline.type] ??= {})
+    row[candidate.type] = (row[candidate.type] || 0) + 1
+
+    if (from !== to && matrix[from][to] <= examplesPerTransition) {
+      examples.push({
+        caseId: simulationCase.caseId,
+        playerId: simulationCase.playerId,
+        from,
+        to,
+        baseline: { type: baseline.type, lossApplied: baseline.lossApplied, decidingReason: decidingReason(baseline) },
+        candidate: { type: candidate.type, lossApplied: candidate.lossApplied, decidingReason: decidingReason(candidate) },
+        signals: simulationCase.signals,
+      })
+    }
+  }
+
+  const changed = SIMULATION_OUTCOMES.reduce(
+    (sum, from) => sum + SIMULATION_OUTCOMES.reduce((inner, to) => inner + (from === to ? 0 : matrix[from][to]), 0),
+    0
+  )
+
+  return {
+    cases: cases.length,
+    baselinePolicy: { id: baselinePolicy.id, version: baselinePolicy.version },
+    candidatePolicy: { id: candidatePolicy.id, version: candidatePolicy.version },
+    totals,
+    matrix,
+    typeMatrix,
+    changed,
+    preservedToPenalized: matrix.preserved.penalized,
+    penalizedToPreserved: matrix.penalized.preserved,
+    examples,
+  }
+}
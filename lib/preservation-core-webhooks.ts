@@ -0,0 +1,416 @@
+/**
+ * Preservation Core - Decision Webhooks
+ *
+ * Pushes classification outcomes to studio backends (ranking, anti-cheat,
+ * analytics) that live in a different process from the one calling classify.
+ * Every payload is signed with the webhook's secret (HMAC-SHA256), failed
+ * deliveries are retried with exponential backoff, and every attempt is kept
+ * in the delivery log.
+ *
+ * Webhooks belong to the studio that registered them and only receive that
+ * studio's decisions. Since the server POSTs to whatever URL is registered,
+ * targets must be https and must not resolve to private, loopback, link-local
+ * or cloud metadata addresses; the check runs at registration and again
+ * before every attempt, and the attempt connects to the address that was
+ * checked, so neither a DNS change nor a redirect can send deliveries inwards.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { lookup } from "dns/promises"
+import { request } from "https"
+import { BlockList, isIP, type LookupFunction } from "net"
+import { isValidObjectId } from "mongoose"
+import { studioScope } from "@/lib/api-auth"
+import { connectToDatabase } from "@/lib/db"
+import { PreservationWebhook } from "@/models/PreservationWebhook"
+import { WebhookDelivery } from "@/models/WebhookDelivery"
+
+export const WEBHOOK_EVENTS = ["decision.created", "decision.overturned"] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+/** Header carrying `sha256=<hex>` of `${timestamp}.${body}` */
+export const SIGNATURE_HEADER = "x-preservation-signature"
+/** Header carrying the unix timestamp (ms) that was signed */
+export const TIMESTAMP_HEADER = "x-preservation-timestamp"
+
+/** Attempts before a delivery is marked failed */
+export const MAX_DELIVERY_ATTEMPTS = 6
+/** Delay before the first retry; doubles with every attempt */
+const BASE_RETRY_DELAY_MS = 30_000
+const DELIVERY_TIMEOUT_MS = 10_000
+/** Due deliveries attempted per retry sweep, and how many run at once */
+const RETRY_BATCH_SIZE = 25
+const RETRY_CONCURRENCY = 5
+
+/** Address ranges a webhook may not target (RFC 1918/4193, loopback, link-local incl. metadata, CGNAT, NAT64, multicast...) */
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6")
+}
+/** Metadata hostnames that resolve to link-local addresses inside cloud VMs */
+const BLOCKED_HOSTNAMES = ["localhost", "metadata", "metadata.google.internal", "metadata.goog"]
+
+export interface WebhookInfo {
+  webhookId: string
+  /** Studio whose decisions are delivered (absent: decisions made with the platform admin key) */
+  studioId?: string
+  name: string
+  url: string
+  events: string[]
+  active: boolean
+}
+
+export interface DeliveryInfo {
+  deliveryId: string
+  webhookId: string
+  event: string
+  status: "pending" | "delivered" | "failed"
+  attempts: number
+  nextAttemptAt?: string
+  lastStatusCode?: number
+  lastError?: string
+  deliveredAt?: string
+  createdAt: string
+}
+
+/**
+ * Signs a payload. Receivers recompute this over the raw request body and the
+ * timestamp header and compare in constant time (see verifySignature).
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+}
+
+/**
+ * Verifies a signature produced by signPayload. Exported for receivers written in TypeScript.
+ */
+export function verifySignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * True for addresses a webhook may not target. IPv4-mapped IPv6 addresses are
+ * checked against the IPv4 ranges.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return true
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6")
+}
+
+export type WebhookTarget = { ok: true; url: URL; address: string; family: 4 | 6 } | { ok: false; error: string }
+
+/**
+ * Checks that a webhook URL is https and that its host is public: not a
+ * blocked hostname, and neither the literal address nor any address it
+ * resolves to is blocked. Returns the address to connect to, so the request
+ * goes where the check looked rather than wherever the next lookup points.
+ */
+export async function resolveWebhookTarget(url: string): Promise<WebhookTarget> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return { ok: false, error: "url must be an https URL" }
+  }
+  if (parsed.protocol !== "https:") return { ok: false, error: "url must be an https URL" }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase()
+  if (BLOCKED_HOSTNAMES.includes(host) || host.endsWith(".localhost") || host.endsWith(".internal")) {
+    return { ok: false, error: `url host '${host}' is not allowed` }
+  }
+  const family = isIP(host)
+  if (family) {
+    return isBlockedAddress(host)
+      ? { ok: false, error: `url host '${host}' is a private or reserved address` }
+      : { ok: true, url: parsed, address: host, family: family as 4 | 6 }
+  }
+
+  let addresses: { address: string; family: number }[]
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch {
+    return { ok: false, error: `url host '${host}' does not resolve` }
+  }
+  if (!addresses.length) return { ok: false, error: `url host '${host}' does not resolve` }
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address))
+  if (blocked) return { ok: false, error: `url host '${host}' resolves to a private or reserved address (${blocked.address})` }
+  return { ok: true, url: parsed, address: addresses[0].address, family: addresses[0].family as 4 | 6 }
+}
+
+/**
+ * Checks a webhook URL (see resolveWebhookTarget). Returns the error, or null
+ * if the URL may be used.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  const target = await resolveWebhookTarget(url)
+  return target.ok ? null : target.error
+}
+
+/**
+ * POSTs to a checked target, connecting to its checked address (TLS and the
+ * Host header still use the hostname) and without following redirects.
+ * Resolves to the response status.
+ */
+function postToTarget(target: Extract<WebhookTarget, { ok: true }>, headers: Record<string, string>, body: string): Promise<number> {
+  const pinned: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address: target.address, family: target.family }])
+    else callback(null, target.address, target.family)
+  }
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target.url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: pinned,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        res.resume()
+        resolve(res.statusCode ?? 0)
+      }
+    )
+    req.on("error", reject)
+    req.end(body)
+  })
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts.
+ */
+export function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1))
+}
+
+/** Webhooks registered without a studio receive the platform admin key's decisions */
+function studioFilter(studioId?: string) {
+  return { studioId: studioId ?? null }
+}
+
+function toWebhookInfo(doc: any): WebhookInfo {
+  return {
+    webhookId: String(doc._id),
+    studioId: doc.studioId ?? undefined,
+    name: doc.name,
+    url: doc.url,
+    events: doc.events || [],
+    active: doc.active,
+  }
+}
+
+function toDeliveryInfo(doc: any): DeliveryInfo {
+  return {
+    deliveryId: String(doc._id),
+    webhookId: doc.webhookId,
+    event: doc.event,
+    status: doc.status,
+    attempts: doc.attempts,
+    nextAttemptAt: doc.nextAttemptAt ? new Date(doc.nextAttemptAt).toISOString() : undefined,
+    lastStatusCode: doc.lastStatusCode,
+    lastError: doc.lastError,
+    deliveredAt: doc.deliveredAt ? new Date(doc.deliveredAt).toISOString() : undefined,
+    createdAt: new Date(doc.createdAt).toISOString(),
+  }
+}
+
+/**
+ * Registers a webhook for a studio. The URL must already have passed
+ * checkWebhookUrl. The signing secret is generated when not supplied and is
+ * only returned here, at registration time.
+ */
+export async function registerWebhook(input: {
+  studioId?: string
+  name: string
+  url: string
+  events?: string[]
+  secret?: string
+}): Promise<WebhookInfo & { secret: string }> {
+  await connectToDatabase()
+  const secret = input.secret || randomBytes(32).toString("hex")
+  const doc = await PreservationWebhook.create({
+    studioId: input.studioId,
+    name: input.name,
+    url: input.url,
+    secret,
+    events: input.events || [],
+  })
+  return { ...toWebhookInfo(doc), secret }
+}
+
+export async function listWebhooks(studioId?: string): Promise<WebhookInfo[]> {
+  await connectToDatabase()
+  const docs = await PreservationWebhook.find(studioFilter(studioId)).sort({ createdAt: 1 }).lean()
+  return docs.map(toWebhookInfo)
+}
+
+/**
+ * Removes one of the studio's webhooks (any webhook for the platform admin
+ * key, which passes no studio). Its delivery log is kept for auditing.
+ * Returns false if there is no such webhook.
+ */
+export async function deleteWebhook(webhookId: string, studioId?: string): Promise<boolean> {
+  if (!isValidObjectId(webhookId)) return false
+  await connectToDatabase()
+  const res = await PreservationWebhook.deleteOne({ _id: webhookId, ...studioScope(studioId) })
+  return res.deletedCount > 0
+}
+
+/**
+ * Returns the delivery log of one of the studio's webhooks (any webhook for
+ * the platform admin key), newest first, or null if there is no such webhook.
+ */
+export async function listDeliveries(webhookId: string, studioId?: string, limit = 50): Promise<DeliveryInfo[] | null> {
+  if (!isValidObjectId(webhookId)) return null
+  await connectToDatabase()
+  const exists = await PreservationWebhook.exists({ _id: webhookId, ...studioScope(studioId) })
+  if (!exists) return null
+  const docs = await WebhookDelivery.find({ webhookId }).sort({ createdAt: -1 }).limit(limit).lean()
+  return docs.map(toDeliveryInfo)
+}
+
+/**
+ * Makes a single delivery attempt (if one is due) and updates the delivery log. On failure the
+ * next attempt is scheduled with exponential backoff until MAX_DELIVERY_ATTEMPTS.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<void> {
+  await connectToDatabase()
+  // Claim the attempt so the in-process timer and the retry sweep never deliver twice
+  const delivery: any = await WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, status: "pending", nextAttemptAt: { $lte: new Date() } },
+    { $set: { nextAttemptAt: new Date(Date.now() + DELIVERY_TIMEOUT_MS * 3) } },
+    { new: true }
+  )
+  if (!delivery) return
+  const webhook: any = await PreservationWebhook.findById(delivery.webhookId).lean()
+  if (!webhook || !webhook.active) {
+    delivery.status = "failed"
+    delivery.lastError = "Webhook removed or inactive"
+    delivery.nextAttemptAt = undefined
+    await delivery.save()
+    return
+  }
+
+  const body = JSON.stringify({ deliveryId, ...delivery.payload })
+  const timestamp = Date.now()
+  delivery.attempts += 1
+  try {
+    // Re-checked on every attempt: the host may resolve differently than at registration
+    const target = await resolveWebhookTarget(webhook.url)
+    if (!target.ok) throw new Error(target.error)
+    const status = await postToTarget(
+      target,
+      {
+        "Content-Type": "application/json",
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body),
+        [TIMESTAMP_HEADER]: String(timestamp),
+      },
+      body
+    )
+    delivery.lastStatusCode = status
+    // A redirect could point anywhere, including inwards, so it counts as a failed attempt
+    if (status >= 300 && status < 400) throw new Error(`Receiver redirected (${status}); redirects are not followed`)
+    if (status < 200 || status >= 300) throw new Error(`Receiver responded ${status}`)
+    delivery.status = "delivered"
+    delivery.deliveredAt = new Date()
+    delivery.lastError = undefined
+    delivery.nextAttemptAt = undefined
+  } catch (err: any) {
+    delivery.lastError = err?.message || "Delivery failed"
+    if (delivery.attempts >= MAX_DELIVERY_ATTEMPTS) {
+      delivery.status = "failed"
+      delivery.nextAttemptAt = undefined
+    } else {
+      const delay = retryDelayMs(delivery.attempts)
+      delivery.nextAttemptAt = new Date(Date.now() + delay)
+      scheduleRetry(deliveryId, delay)
+    }
+  }
+  await delivery.save()
+}
+
+/**
+ * In-process retry. Retries lost to a restart are picked up by retryDueDeliveries.
+ */
+function scheduleRetry(deliveryId: string, delay: number) {
+  const timer = setTimeout(() => {
+    attemptDelivery(deliveryId).catch((err) => console.error("[PreservationCore Webhooks] Retry failed:", err))
+  }, delay)
+  timer.unref?.()
+}
+
+/**
+ * Creates a delivery for every active webhook of the decision's studio that is
+ * subscribed to `event` and makes the first attempt. Attempts run in the
+ * background; this resolves once the deliveries are logged.
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  studioId: string | undefined,
+  data: Record<string, unknown>
+): Promise<void> {
+  await connectToDatabase()
+  const webhooks = await PreservationWebhook.find({
+    ...studioFilter(studioId),
+    active: true,
+    $or: [{ events: { $size: 0 } }, { events: event }],
+  }).lean()
+
+  for (const webhook of webhooks as any[]) {
+    const delivery = await WebhookDelivery.create({
+      webhookId: String(webhook._id),
+      event,
+      payload: { event, createdAt: new Date().toISOString(), data },
+      nextAttemptAt: new Date(),
+    })
+    attemptDelivery(String(delivery._id)).catch((err) =>
+      console.error("[PreservationCore Webhooks] Delivery failed:", err)
+    )
+  }
+}
+
+/**
+ * Attempts the pending deliveries whose retry is due, oldest first, at most
+ * `limit` per call and RETRY_CONCURRENCY at a time, so one sweep takes at most
+ * limit / RETRY_CONCURRENCY delivery timeouts. Call periodically (e.g. from a
+ * cron hitting the retry route) so retries survive process restarts; a backlog
+ * is worked off over several sweeps.
+ */
+export async function retryDueDeliveries(limit = RETRY_BATCH_SIZE): Promise<number> {
+  await connectToDatabase()
+  const due = await WebhookDelivery.find({ status: "pending", nextAttemptAt: { $lte: new Date() } })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit)
+    .lean()
+  const queue = (due as any[]).map((delivery) => String(delivery._id))
+  const workers = Array.from({ length: Math.min(RETRY_CONCURRENCY, queue.length) }, async () => {
+    for (let deliveryId = queue.shift(); deliveryId; deliveryId = queue.shift()) {
+      await attemptDelivery(deliveryId).catch((err) => console.error("[PreservationCore Webhooks] Retry failed:", err))
+    }
+  })
+  await Promise.all(workers)
+  return due.length
+}
@@ -7,7 +7,23 @@
  * Used by both the test harness UI and the developer-facing API.
  */
 
-export type DisconnectType = "none" | "intentional_disconnect" | "unintentional_disconnect"
+/**
+ * Disconnect types. `suspected_intentional` is a network disconnect escalated by
+ * repeat-offender detection (see preservation-core-offenders). `client_crash` is
+ * a client-side failure (access violation, GPU driver reset, OOM kill) whose
+ * outcome is decided by the policy's crash setting. `reconnected` is only
+ * produced by the reconnect grace window (see preservation-core-pending).
+ */
+export const DISCONNECT_TYPES = [
+  "none",
+  "intentional_disconnect",
+  "unintentional_disconnect",
+  "suspected_intentional",
+  "client_crash",
+  "reconnected",
+] as const
+
+export type DisconnectType = (typeof DISCONNECT_TYPES)[number]
 
 export interface NetworkSnapshot {
   latencyMs: number
@@ -17,15 +33,37 @@ export interface NetworkSnapshot {
   timestamp?: number
 }
 
+/**
+ * Client crash signals, reported by the game client's crash reporter / watchdog
+ * or by the launcher that observed the process exit
+ */
+export interface CrashSignals {
+  /** Process exit code (non-zero means the process did not exit cleanly) */
+  exitCode?: number
+  /** Id of the crash report submitted by the client's crash reporter */
+  crashReporterId?: string
+  /** Time since the client watchdog's last heartbeat (ms) */
+  timeSinceLastHeartbeat?: number
+}
+
 export interface DisconnectSignals {
   /** True if user explicitly quit (Alt+F4, quit button, etc.) */
   quitAction: boolean
   /** Network state before disconnect occurred */
   networkBeforeDisconnect?: NetworkSnapshot
+  /**
+   * Optional: ordered series of network snapshots leading up to the disconnect
+   * (oldest first), e.g. the last 30 seconds of pings. Used to compute trend
+   * features so a single spike right before the drop doesn't decide everything.
+   * If `networkBeforeDisconnect` is omitted, the last sample stands in for it.
+   */
+  networkHistory?: NetworkSnapshot[]
   /** Optional: time since last successful packet/acknowledgment (ms) */
   timeSinceLastPacket?: number
   /** Optional: timeout threshold (ms). Default: 5000ms */
   timeoutThreshold?: number
+  /** Optional: crash signals when the client process died */
+  crash?: CrashSignals
   /** 
    * Optional: Competitive advantage signal (game-agnostic)
    * Range: -1.0 to 1.0
@@ -62,11 +100,61 @@ export interface DisconnectSignals {
   fairnessConfidence?: number
 }
 
+/**
+ * Machine-readable reason codes explaining a classification
+ */
+export const REASON_CODES = [
+  "QUIT_ACTION",
+  "TIMEOUT_OVER_THRESHOLD",
+  "HIGH_PACKET_LOSS_OVER_THRESHOLD",
+  "HIGH_LATENCY_OVER_THRESHOLD",
+  "HARD_DISCONNECT",
+  "SUSTAINED_DEGRADATION",
+  "HIGH_JITTER",
+  "LOSS_BURST",
+  "CRASH_REPORTED",
+  "NON_ZERO_EXIT_CODE",
+  "WATCHDOG_HEARTBEAT_LOST",
+  "PLAYER_WINNING",
+  "PLAYER_LOSING_MATCH_SETTLED",
+  "MATCH_UNCERTAIN",
+  "POLICY_DEFAULT_PRESERVE",
+  "POLICY_DEFAULT_APPLY_LOSS",
+  "POLICY_CRASH_PRESERVE",
+  "POLICY_CRASH_APPLY_LOSS",
+  "NO_DISCONNECT_SIGNALS",
+  "REPEAT_OFFENDER_PATTERN",
+  "TEAM_WIDE_DISCONNECT",
+  "SERVER_OUTAGE",
+  "RECONNECTED_WITHIN_GRACE",
+] as const
+
+export type ReasonCode = (typeof REASON_CODES)[number]
+
+export interface ClassificationReason {
+  code: ReasonCode
+  /** Measured value that triggered the reason, if any */
+  value?: number
+  /** Policy threshold / cut-off the value was compared against, if any */
+  threshold?: number
+}
+
 export interface ClassificationResult {
   /** Type of disconnect detected */
   type: DisconnectType
-  /** Whether a loss should be applied to the player */
+  /** Whether a loss should be applied to the player (kept for integrations that predate `outcome`) */
   lossApplied: boolean
+  /** Graduated outcome for ranked systems: severity, rank-point multiplier, cooldown, teammate forgiveness */
+  outcome: PenaltyOutcome
+  /** Confidence in the decision (0.0 = borderline, 1.0 = clear-cut) */
+  confidence: number
+  /**
+   * Ordered reasons: observed signals in evaluation order, followed by the
+   * rule that decided the outcome (always the last entry)
+   */
+  reasons: ClassificationReason[]
+  /** Repeat-offender assessment (only present when the player's history was consulted) */
+  offender?: OffenderAssessment
   /** Signals that triggered the classification */
   signals: {
     quitDetected: boolean
@@ -74,69 +162,438 @@ export interface ClassificationResult {
     highPacketLoss: boolean
     highLatency: boolean
     hardDisconnect: boolean
+    crashDetected: boolean
     competitiveAdvantageUsed?: boolean
     fairnessConfidenceUsed?: boolean
+    /** Trend features computed from `networkHistory` (only present when history was provided) */
+    trend?: NetworkTrend
   }
 }
 
 /**
- * Classification thresholds
+ * Repeat-offender assessment over a player's disconnect history
+ */
+export interface OffenderAssessment {
+  /** Network drops evaluated (history plus the current one) */
+  networkDrops: number
+  /** How many of those drops happened while the player was losing */
+  dropsWhileLosing: number
+  /** Probability of at least this many losing drops if drops were unrelated to match state */
+  pValue: number
+  /** The pattern is statistically unlikely and the outcome was escalated */
+  suspicious: boolean
+  /** Penalty ladder step applied (only when suspicious) */
+  penalty?: PenaltyStep & { level: number }
+}
+
+/**
+ * Trend features computed over a rolling network telemetry window
  */
-const THRESHOLDS = {
-  /** Packet loss rate >= 25% indicates network problems */
-  HIGH_PACKET_LOSS: 0.25,
-  /** Latency >= 800ms indicates network problems */
-  HIGH_LATENCY_MS: 800,
-  /** Time since last packet >= 5s indicates timeout */
-  TIMEOUT_MS: 5000,
-} as const
+export interface NetworkTrend {
+  /** Number of snapshots evaluated */
+  samples: number
+  /** The trailing run of degraded snapshots is at least `trend.sustainedSamples` long */
+  sustainedDegradation: boolean
+  /** Mean latency change between consecutive snapshots is at least `trend.jitterMs` */
+  highJitter: boolean
+  /** At least `trend.lossBurstSamples` consecutive snapshots had high packet loss */
+  lossBurst: boolean
+  /** Length of the trailing run of degraded snapshots */
+  degradedSamples: number
+  /** Longest run of consecutive high-loss snapshots */
+  longestLossBurst: number
+  /** Mean absolute latency change between consecutive snapshots (ms) */
+  jitterMs: number
+  /**
+   * Time from the start of the trailing degraded run to the last snapshot (ms).
+   * Only present when the window ends degraded and snapshots carry timestamps.
+   */
+  timeToFailureMs?: number
+}
+
+/**
+ * Classification policy
+ *
+ * Studios register named policies so a fighting game where 200ms is already
+ * unplayable can use different cut-offs than a turn-based strategy game.
+ * Policies are referenced from the classify API by `policyId`.
+ */
+export interface ClassificationPolicy {
+  /** Stable identifier referenced by `policyId` */
+  id: string
+  /** Human-readable name */
+  name: string
+  /** Incremented every time the policy is re-registered */
+  version: number
+  /** Network thresholds that flag a network problem */
+  thresholds: {
+    /** Packet loss rate (0.0 to 1.0) at or above which loss is considered high */
+    highPacketLoss: number
+    /** Latency (ms) at or above which latency is considered high */
+    highLatencyMs: number
+    /** Time since last packet (ms) at or above which a timeout is detected */
+    timeoutMs: number
+  }
+  /** Cut-offs applied to the contextual signals */
+  contextual: {
+    /** competitiveAdvantage above this means the player was winning */
+    winningAdvantage: number
+    /** competitiveAdvantage below this means the player was losing */
+    losingAdvantage: number
+    /** fairnessConfidence above this means the match outcome is settled */
+    settledConfidence: number
+    /** fairnessConfidence below this means the match outcome is uncertain */
+    uncertainConfidence: number
+  }
+  /** Cut-offs for trend features computed from `networkHistory` */
+  trend: {
+    /** Trailing degraded snapshots needed for sustained degradation */
+    sustainedSamples: number
+    /** Mean consecutive latency change (ms) at or above which jitter is considered high */
+    jitterMs: number
+    /** Consecutive high-loss snapshots needed for a loss burst */
+    lossBurstSamples: number
+  }
+  /** Repeat-offender detection over a player's disconnect history */
+  offender: {
+    /** Minimum network drops on record before the pattern is evaluated */
+    minNetworkDrops: number
+    /** Expected share of honest network drops that happen while losing */
+    baselineLosingRate: number
+    /** Binomial tail probability below which the pattern is flagged */
+    significance: number
+    /** Escalation steps, applied in order for each repeated flag (last step repeats) */
+    penaltyLadder: PenaltyStep[]
+  }
+  /** Client crash handling */
+  crash: {
+    /** Outcome when the client crashed (studios that see crash abuse can opt out of preserving) */
+    outcome: "preserve" | "apply_loss"
+    /** Watchdog heartbeat gap (ms) at or above which the client is considered dead */
+    heartbeatTimeoutMs: number
+  }
+  /** Server outage correlation (applies to disconnects reported with a serverId) */
+  outage: {
+    /** Distinct players that must drop in one cluster before it is treated as an outage */
+    minPlayers: number
+    /** Maximum gap (ms) between consecutive disconnects on a server for them to belong to one cluster */
+    windowMs: number
+  }
+  /** Outcome for network problems not decided by a contextual rule */
+  defaultOutcome: "preserve" | "apply_loss"
+  /**
+   * Graduated outcomes, first matching rule wins. Decisions no rule matches get
+   * a full loss when `lossApplied`, otherwise no penalty (see resolvePenaltyOutcome).
+   */
+  outcomes: OutcomeRule[]
+}
+
+export interface PenaltyStep {
+  /** Step name reported to the game backend (e.g. "warning", "loss") */
+  name: string
+  /** Whether this step applies a loss */
+  lossApplied: boolean
+}
+
+export const PENALTY_SEVERITIES = ["none", "minor", "standard", "severe"] as const
+
+export type PenaltySeverity = (typeof PENALTY_SEVERITIES)[number]
+
+/**
+ * What the ranked system applies for a decision. Covers partial outcomes a
+ * yes/no loss cannot express: reduced rank-point loss, "no gain no loss" and a
+ * leaver-queue cooldown.
+ */
+export interface PenaltyOutcome {
+  severity: PenaltySeverity
+  /** Share of the rank points a loss normally costs: 0 = no gain no loss, 0.5 = halved loss, 1 = full loss */
+  rankPointMultiplier: number
+  /** Leaver-queue cooldown before the player can queue again (0 = none) */
+  cooldownMinutes: number
+  /** Whether the teammates left behind are forgiven a loss in this match */
+  teammateLossForgiveness: boolean
+}
+
+/** Where competitiveAdvantage puts the player, using the policy's contextual cut-offs */
+export const ADVANTAGE_BANDS = ["winning", "even", "losing"] as const
+/** Where fairnessConfidence puts the match, using the policy's contextual cut-offs */
+export const MATCH_BANDS = ["uncertain", "open", "settled"] as const
+
+export type AdvantageBand = (typeof ADVANTAGE_BANDS)[number]
+export type MatchBand = (typeof MATCH_BANDS)[number]
+
+/**
+ * Maps a decision to a graduated outcome. Omitted conditions match anything;
+ * `advantage` / `match` never match when the request didn't send the signal.
+ */
+export interface OutcomeRule {
+  type: DisconnectType
+  /** Only decisions that applied (true) or did not apply (false) a loss */
+  lossApplied?: boolean
+  advantage?: AdvantageBand
+  match?: MatchBand
+  outcome: PenaltyOutcome
+}
+
+/** Most outcome rules a policy may define */
+export const MAX_OUTCOME_RULES = 50
+/** Longest leaver-queue cooldown an outcome may apply (one week) */
+export const MAX_COOLDOWN_MINUTES = 10_080
+/** Largest rank-point multiplier an outcome may apply */
+export const MAX_RANK_POINT_MULTIPLIER = 3
+/** Longest gap between disconnects an outage cluster may bridge */
+export const MAX_OUTAGE_WINDOW_MS = 30_000
+
+/**
+ * Default policy (the original hardcoded thresholds)
+ */
+export const DEFAULT_POLICY: ClassificationPolicy = {
+  id: "default",
+  name: "Preservation Core default",
+  version: 1,
+  thresholds: {
+    /** Packet loss rate >= 25% indicates network problems */
+    highPacketLoss: 0.25,
+    /** Latency >= 800ms indicates network problems */
+    highLatencyMs: 800,
+    /** Time since last packet >= 5s indicates timeout */
+    timeoutMs: 5000,
+  },
+  contextual: {
+    winningAdvantage: 0.3,
+    losingAdvantage: -0.3,
+    settledConfidence: 0.8,
+    uncertainConfidence: 0.3,
+  },
+  trend: {
+    sustainedSamples: 3,
+    jitterMs: 150,
+    lossBurstSamples: 2,
+  },
+  offender: {
+    minNetworkDrops: 5,
+    baselineLosingRate: 0.4,
+    significance: 0.01,
+    penaltyLadder: [
+      { name: "warning", lossApplied: false },
+      { name: "loss", lossApplied: true },
+      { name: "loss_and_review", lossApplied: true },
+    ],
+  },
+  crash: {
+    outcome: "preserve",
+    heartbeatTimeoutMs: 3000,
+  },
+  outage: {
+    minPlayers: 8,
+    windowMs: 2000,
+  },
+  defaultOutcome: "preserve",
+  outcomes: [
+    // Quitting costs the full loss plus a short leaver-queue cooldown; teammates are forgiven
+    {
+      type: "intentional_disconnect",
+      outcome: { severity: "standard", rankPointMultiplier: 1, cooldownMinutes: 10, teammateLossForgiveness: true },
+    },
+    // Repeat offenders: the loss steps of the penalty ladder escalate, the warning step only costs a cooldown
+    {
+      type: "suspected_intentional",
+      lossApplied: true,
+      outcome: { severity: "severe", rankPointMultiplier: 1, cooldownMinutes: 30, teammateLossForgiveness: true },
+    },
+    {
+      type: "suspected_intentional",
+      lossApplied: false,
+      outcome: { severity: "minor", rankPointMultiplier: 0, cooldownMinutes: 5, teammateLossForgiveness: true },
+    },
+  ],
+}
+
+/**
+ * Computes trend features over an ordered (oldest first) series of snapshots.
+ * A snapshot is degraded when it crosses the policy's latency or packet loss
+ * threshold, or when the connection was down.
+ */
+export function computeNetworkTrend(
+  history: NetworkSnapshot[],
+  policy: ClassificationPolicy = DEFAULT_POLICY
+): NetworkTrend {
+  const { thresholds, trend } = policy
+  const isDegraded = (s: NetworkSnapshot) =>
+    s.latencyMs >= thresholds.highLatencyMs || s.packetLossRate >= thresholds.highPacketLoss || !s.isConnected
+
+  // Trailing run of degraded snapshots (the run that led into the disconnect)
+  let runStart = history.length
+  while (runStart > 0 && isDegraded(history[runStart - 1])) runStart--
+  const trailingRun = history.length - runStart
+
+  // Longest run of consecutive high-loss snapshots
+  let lossRun = 0
+  let longestLossRun = 0
+  for (const snapshot of history) {
+    lossRun = snapshot.packetLossRate >= thresholds.highPacketLoss ? lossRun + 1 : 0
+    longestLossRun = Math.max(longestLossRun, lossRun)
+  }
+
+  // Mean absolute latency change between consecutive snapshots
+  let jitterTotal = 0
+  for (let i = 1; i < history.length; i++) {
+    jitterTotal += Math.abs(history[i].latencyMs - history[i - 1].latencyMs)
+  }
+  const jitterMs = history.length > 1 ? jitterTotal / (history.length - 1) : 0
+
+  const result: NetworkTrend = {
+    samples: history.length,
+    sustainedDegradation: trailingRun >= trend.sustainedSamples,
+    highJitter: history.length > 1 && jitterMs >= trend.jitterMs,
+    lossBurst: longestLossRun >= trend.lossBurstSamples,
+    degradedSamples: trailingRun,
+    longestLossBurst: longestLossRun,
+    jitterMs,
+  }
+
+  const first = history[runStart]
+  const last = history[history.length - 1]
+  if (trailingRun > 0 && first.timestamp !== undefined && last.timestamp !== undefined) {
+    result.timeToFailureMs = last.timestamp - first.timestamp
+  }
+
+  return result
+}
 
 /**
  * Classifies a disconnect based on available signals.
  * 
  * Decision logic:
  * 1. If quit action detected → intentional_disconnect, loss applied
- * 2. If network problems detected:
+ * 2. If client crash detected → client_crash, outcome from the policy's crash setting
+ * 3. If network problems detected:
  *    a. If competitive advantage indicates player was winning → preserve (no loss)
  *    b. If competitive advantage indicates player was losing AND fairness confidence is high → may apply loss (prevent abuse)
  *    c. If fairness confidence is low (match uncertain) → preserve (no loss)
- *    d. Otherwise → preserve (no loss) - default to protecting player
- * 3. Otherwise → no disconnect, no loss
+ *    d. Otherwise → policy default outcome (preserve unless the studio opts out)
+ * 4. Otherwise → no disconnect, no loss
  * 
+ * The graduated `outcome` is then looked up in the policy's outcome rules.
+ *
  * @param signals - Disconnect signals to evaluate
- * @returns Classification result with type, loss decision, and signal breakdown
+ * @param policy - Classification policy to apply (defaults to DEFAULT_POLICY)
+ * @returns Classification result with type, loss decision, outcome, and signal breakdown
  */
-export function classifyDisconnect(signals: DisconnectSignals): ClassificationResult {
+export function classifyDisconnect(
+  signals: DisconnectSignals,
+  policy: ClassificationPolicy = DEFAULT_POLICY
+): ClassificationResult {
+  const result = decideDisconnect(signals, policy)
+  return { ...result, outcome: resolvePenaltyOutcome(result, signals, policy) }
+}
+
+function decideDisconnect(signals: DisconnectSignals, policy: ClassificationPolicy): Omit<ClassificationResult, "outcome"> {
+  const { thresholds, contextual } = policy
   const {
     quitAction,
-    networkBeforeDisconnect,
+    networkHistory,
+    networkBeforeDisconnect = networkHistory?.[networkHistory.length - 1],
     timeSinceLastPacket,
-    timeoutThreshold = THRESHOLDS.TIMEOUT_MS,
+    timeoutThreshold = thresholds.timeoutMs,
+    crash,
     competitiveAdvantage,
     fairnessConfidence,
   } = signals
 
   // Initialize signal flags
-  const signalFlags = {
+  const signalFlags: ClassificationResult["signals"] = {
     quitDetected: quitAction,
     timeoutDetected: false,
     highPacketLoss: false,
     highLatency: false,
     hardDisconnect: false,
+    crashDetected: false,
     competitiveAdvantageUsed: competitiveAdvantage !== undefined,
     fairnessConfidenceUsed: fairnessConfidence !== undefined,
   }
 
+  // Reasons are collected in evaluation order: observed signals first, then the rule that decided
+  const reasons: ClassificationReason[] = []
+  // Evidence strength (0-1) per fired network signal, used for the confidence score
+  const evidence: number[] = []
+
   // Check for timeout
   if (timeSinceLastPacket !== undefined && timeSinceLastPacket >= timeoutThreshold) {
     signalFlags.timeoutDetected = true
+    reasons.push({ code: "TIMEOUT_OVER_THRESHOLD", value: timeSinceLastPacket, threshold: timeoutThreshold })
+    evidence.push(marginStrength(timeSinceLastPacket, timeoutThreshold))
   }
 
   // Evaluate network snapshot if available
   if (networkBeforeDisconnect) {
-    signalFlags.highPacketLoss = networkBeforeDisconnect.packetLossRate >= THRESHOLDS.HIGH_PACKET_LOSS
-    signalFlags.highLatency = networkBeforeDisconnect.latencyMs >= THRESHOLDS.HIGH_LATENCY_MS
+    signalFlags.highPacketLoss = networkBeforeDisconnect.packetLossRate >= thresholds.highPacketLoss
+    signalFlags.highLatency = networkBeforeDisconnect.latencyMs >= thresholds.highLatencyMs
     signalFlags.hardDisconnect = !networkBeforeDisconnect.isConnected
+
+    if (signalFlags.highPacketLoss) {
+      reasons.push({
+        code: "HIGH_PACKET_LOSS_OVER_THRESHOLD",
+        value: networkBeforeDisconnect.packetLossRate,
+        threshold: thresholds.highPacketLoss,
+      })
+      evidence.push(marginStrength(networkBeforeDisconnect.packetLossRate, thresholds.highPacketLoss))
+    }
+    if (signalFlags.highLatency) {
+      reasons.push({
+        code: "HIGH_LATENCY_OVER_THRESHOLD",
+        value: networkBeforeDisconnect.latencyMs,
+        threshold: thresholds.highLatencyMs,
+      })
+      evidence.push(marginStrength(networkBeforeDisconnect.latencyMs, thresholds.highLatencyMs))
+    }
+    if (signalFlags.hardDisconnect) {
+      reasons.push({ code: "HARD_DISCONNECT" })
+      evidence.push(0.6)
+    }
+  }
+
+  // Evaluate rolling telemetry window if available
+  if (networkHistory && networkHistory.length > 0) {
+    const trend = computeNetworkTrend(networkHistory, policy)
+    signalFlags.trend = trend
+
+    if (trend.sustainedDegradation) {
+      reasons.push({ code: "SUSTAINED_DEGRADATION", value: trend.degradedSamples, threshold: policy.trend.sustainedSamples })
+      evidence.push(0.6)
+    }
+    if (trend.highJitter) {
+      reasons.push({ code: "HIGH_JITTER", value: trend.jitterMs, threshold: policy.trend.jitterMs })
+      evidence.push(marginStrength(trend.jitterMs, policy.trend.jitterMs) * 0.8)
+    }
+    if (trend.lossBurst) {
+      reasons.push({ code: "LOSS_BURST", value: trend.longestLossBurst, threshold: policy.trend.lossBurstSamples })
+      evidence.push(0.5)
+    }
+  }
+
+  // Evaluate client crash signals if available
+  // Evidence strength (0-1) per fired crash signal; a crash report is the strongest proof
+  const crashEvidence: number[] = []
+  if (crash) {
+    if (crash.crashReporterId) {
+      reasons.push({ code: "CRASH_REPORTED" })
+      crashEvidence.push(0.8)
+    }
+    if (crash.exitCode !== undefined && crash.exitCode !== 0) {
+      reasons.push({ code: "NON_ZERO_EXIT_CODE", value: crash.exitCode })
+      crashEvidence.push(0.5)
+    }
+    const heartbeatTimeout = policy.crash.heartbeatTimeoutMs
+    if (crash.timeSinceLastHeartbeat !== undefined && crash.timeSinceLastHeartbeat >= heartbeatTimeout) {
+      reasons.push({ code: "WATCHDOG_HEARTBEAT_LOST", value: crash.timeSinceLastHeartbeat, threshold: heartbeatTimeout })
+      // A dropped connection loses the watchdog's heartbeats too: on its own the gap only
+      // points to a crash when the network looked fine
+      if (crashEvidence.length > 0 || evidence.length === 0) {
+        crashEvidence.push(marginStrength(crash.timeSinceLastHeartbeat, heartbeatTimeout) * 0.5)
+      }
+    }
+    signalFlags.crashDetected = crashEvidence.length > 0
   }
 
   // Decision logic (priority order matters)
@@ -144,28 +601,46 @@ export function classifyDisconnect(signals: DisconnectSignals): ClassificationRe
   // 1. Intentional disconnect: explicit quit action
   // Always apply loss for intentional quits, regardless of competitive state
   if (quitAction) {
+    reasons.push({ code: "QUIT_ACTION" })
     return {
       type: "intentional_disconnect",
       lossApplied: true,
+      // An explicit quit is near-certain; concurrent network trouble leaves room for a misreported crash
+      confidence: evidence.length > 0 ? 0.8 : 0.98,
+      reasons,
+      signals: signalFlags,
+    }
+  }
+
+  // 2. Client crash: the process died, network symptoms are a consequence of that
+  if (signalFlags.crashDetected) {
+    const lossApplied = policy.crash.outcome === "apply_loss"
+    reasons.push({ code: lossApplied ? "POLICY_CRASH_APPLY_LOSS" : "POLICY_CRASH_PRESERVE" })
+    return {
+      type: "client_crash",
+      lossApplied,
+      confidence: combineEvidence(crashEvidence),
+      reasons,
       signals: signalFlags,
     }
   }
 
-  // 2. Unintentional disconnect: network problems detected
-  const hasNetworkProblem = 
-    signalFlags.timeoutDetected ||
-    signalFlags.highPacketLoss ||
-    signalFlags.highLatency ||
-    signalFlags.hardDisconnect
+  // 3. Unintentional disconnect: network problems detected
+  const hasNetworkProblem = evidence.length > 0
 
   if (hasNetworkProblem) {
+    const networkConfidence = combineEvidence(evidence)
+
     // Use contextual signals if provided to improve accuracy
     if (competitiveAdvantage !== undefined || fairnessConfidence !== undefined) {
       // If player was clearly winning (advantaged), preserve match - unfair to lose
-      if (competitiveAdvantage !== undefined && competitiveAdvantage > 0.3) {
+      if (competitiveAdvantage !== undefined && competitiveAdvantage > contextual.winningAdvantage) {
+        reasons.push({ code: "PLAYER_WINNING", value: competitiveAdvantage, threshold: contextual.winningAdvantage })
         return {
           type: "unintentional_disconnect",
           lossApplied: false,
+          confidence: Math.min(1, networkConfidence + 0.05),
+          reasons,
           signals: signalFlags,
         }
       }
@@ -175,60 +650,226 @@ export function classifyDisconnect(signals: DisconnectSignals): ClassificationRe
       // (We err on the side of protecting players - network issues can happen to anyone)
       if (
         competitiveAdvantage !== undefined && 
-        competitiveAdvantage < -0.3 && 
+        competitiveAdvantage < contextual.losingAdvantage && 
         fairnessConfidence !== undefined && 
-        fairnessConfidence > 0.8
+        fairnessConfidence > contextual.settledConfidence
       ) {
         // Even in this case, if there's clear network problems, preserve the match
-        // The network signals take precedence over competitive state
+        // The network signals take precedence over competitive state. Players who
+        // repeat this pattern are caught by repeat-offender detection across matches.
+        reasons.push({ code: "PLAYER_LOSING_MATCH_SETTLED", value: competitiveAdvantage, threshold: contextual.losingAdvantage })
         return {
           type: "unintentional_disconnect",
           lossApplied: false,
+          // Lower confidence: this is the pattern a strategic disconnect would produce
+          confidence: Math.max(0.5, networkConfidence - 0.2),
+          reasons,
           signals: signalFlags,
         }
       }
 
       // If match outcome is highly uncertain (low fairness confidence), always preserve
       // Don't penalize players when match could still go either way
-      if (fairnessConfidence !== undefined && fairnessConfidence < 0.3) {
+      if (fairnessConfidence !== undefined && fairnessConfidence < contextual.uncertainConfidence) {
+        reasons.push({ code: "MATCH_UNCERTAIN", value: fairnessConfidence, threshold: contextual.uncertainConfidence })
         return {
           type: "unintentional_disconnect",
           lossApplied: false,
+          confidence: networkConfidence,
+          reasons,
           signals: signalFlags,
         }
       }
     }
 
-    // Default: network problems detected → preserve match (no loss)
+    // Default: network problems detected → policy default (preserve unless the studio opts out)
+    const lossApplied = policy.defaultOutcome === "apply_loss"
+    reasons.push({ code: lossApplied ? "POLICY_DEFAULT_APPLY_LOSS" : "POLICY_DEFAULT_PRESERVE" })
     return {
       type: "unintentional_disconnect",
-      lossApplied: false,
+      lossApplied,
+      confidence: networkConfidence,
+      reasons,
       signals: signalFlags,
     }
   }
 
-  // 3. No disconnect detected (normal completion or below thresholds)
+  // 4. No disconnect detected (normal completion or below thresholds)
+  reasons.push({ code: "NO_DISCONNECT_SIGNALS" })
+
+  // Confidence drops as the closest measurement approaches its threshold (a near miss)
+  const proximity = Math.max(
+    0,
+    timeSinceLastPacket !== undefined ? timeSinceLastPacket / timeoutThreshold : 0,
+    networkBeforeDisconnect ? networkBeforeDisconnect.packetLossRate / thresholds.highPacketLoss : 0,
+    networkBeforeDisconnect ? networkBeforeDisconnect.latencyMs / thresholds.highLatencyMs : 0
+  )
   return {
     type: "none",
     lossApplied: false,
+    confidence: roundConfidence(1 - 0.5 * Math.min(1, proximity) ** 2),
+    reasons,
     signals: signalFlags,
   }
 }
 
+/** Band of competitiveAdvantage, or undefined when it wasn't sent */
+export function advantageBand(competitiveAdvantage: number | undefined, policy: ClassificationPolicy): AdvantageBand | undefined {
+  if (competitiveAdvantage === undefined) return undefined
+  if (competitiveAdvantage > policy.contextual.winningAdvantage) return "winning"
+  if (competitiveAdvantage < policy.contextual.losingAdvantage) return "losing"
+  return "even"
+}
+
+/** Band of fairnessConfidence, or undefined when it wasn't sent */
+export function matchBand(fairnessConfidence: number | undefined, policy: ClassificationPolicy): MatchBand | undefined {
+  if (fairnessConfidence === undefined) return undefined
+  if (fairnessConfidence > policy.contextual.settledConfidence) return "settled"
+  if (fairnessConfidence < policy.contextual.uncertainConfidence) return "uncertain"
+  return "open"
+}
+
+/**
+ * Looks up the graduated outcome of a decision: the first of the policy's
+ * outcome rules matching its type, loss decision and contextual signals.
+ * Without a match, a decision that applied a loss gets a full loss and any
+ * other disconnect gets no penalty with teammates forgiven.
+ *
+ * Call it again whenever the type or loss decision changes after
+ * classification (outages, repeat-offender escalation, reconnects).
+ */
+export function resolvePenaltyOutcome(
+  result: Pick<ClassificationResult, "type" | "lossApplied">,
+  signals: Pick<DisconnectSignals, "competitiveAdvantage" | "fairnessConfidence">,
+  policy: ClassificationPolicy
+): PenaltyOutcome {
+  const advantage = advantageBand(signals.competitiveAdvantage, policy)
+  const match = matchBand(signals.fairnessConfidence, policy)
+  const rule = (policy.outcomes || []).find(
+    (r) =>
+      r.type === result.type &&
+      (r.lossApplied === undefined || r.lossApplied === result.lossApplied) &&
+      (r.advantage === undefined || r.advantage === advantage) &&
+      (r.match === undefined || r.match === match)
+  )
+  if (rule) return { ...rule.outcome }
+
+  if (result.lossApplied) {
+    return { severity: "standard", rankPointMultiplier: 1, cooldownMinutes: 0, teammateLossForgiveness: true }
+  }
+  // A clean finish or a recovered drop left the team whole; any other disconnect left it short-handed
+  const teamShortHanded = result.type !== "none" && result.type !== "reconnected"
+  return { severity: "none", rankPointMultiplier: 0, cooldownMinutes: 0, teammateLossForgiveness: teamShortHanded }
+}
+
+/**
+ * Strength (0.4-1.0) of a measurement that crossed its threshold:
+ * just over the threshold is weak evidence, double the threshold or more is conclusive.
+ */
+function marginStrength(value: number, threshold: number): number {
+  if (threshold <= 0) return 1
+  return Math.min(1, 0.4 + 0.6 * Math.max(0, value / threshold - 1))
+}
+
+/**
+ * Combines independent evidence strengths into a 0.5-1.0 confidence score.
+ */
+function combineEvidence(evidence: number[]): number {
+  const missProbability = evidence.reduce((acc, strength) => acc * (1 - strength), 1)
+  return roundConfidence(0.5 + 0.5 * (1 - missProbability))
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/** Maximum number of snapshots accepted in `networkHistory` */
+export const MAX_NETWORK_HISTORY = 600
+
 /**
- * Validates network snapshot data
+ * Validates a classification policy
+ * Thresholds must be positive, cut-offs must stay inside their signal ranges
  */
-export function validateNetworkSnapshot(snapshot: NetworkSnapshot): { valid: boolean; errors: string[] } {
+export function validatePolicy(policy: ClassificationPolicy): { valid: boolean; errors: string[] } {
   const errors: string[] = []
+  const { thresholds, contextual } = policy
 
-  if (snapshot.latencyMs < 0) {
-    errors.push("latencyMs must be >= 0")
+  if (!policy.id || typeof policy.id !== "string") {
+    errors.push("id must be a non-empty string")
   }
-  if (snapshot.packetLossRate < 0 || snapshot.packetLossRate > 1) {
-    errors.push("packetLossRate must be between 0 and 1")
+  if (!policy.name || typeof policy.name !== "string") {
+    errors.push("name must be a non-empty string")
   }
-  if (typeof snapshot.isConnected !== "boolean") {
-    errors.push("isConnected must be a boolean")
+  if (!(thresholds.highPacketLoss > 0 && thresholds.highPacketLoss <= 1)) {
+    errors.push("thresholds.highPacketLoss must be between 0 (exclusive) and 1")
+  }
+  if (!(thresholds.highLatencyMs > 0)) {
+    errors.push("thresholds.highLatencyMs must be > 0")
+  }
+  if (!(thresholds.timeoutMs > 0)) {
+    errors.push("thresholds.timeoutMs must be > 0")
+  }
+  if (!(contextual.winningAdvantage >= -1 && contextual.winningAdvantage <= 1)) {
+    errors.push("contextual.winningAdvantage must be between -1.0 and 1.0")
+  }
+  if (!(contextual.losingAdvantage >= -1 && contextual.losingAdvantage <= 1)) {
+    errors.push("contextual.losingAdvantage must be between -1.0 and 1.0")
+  }
+  if (contextual.losingAdvantage > contextual.winningAdvantage) {
+    errors.push("contextual.losingAdvantage must be <= contextual.winningAdvantage")
+  }
+  if (!(contextual.settledConfidence >= 0 && contextual.settledConfidence <= 1)) {
+    errors.push("contextual.settledConfidence must be between 0.0 and 1.0")
+  }
+  if (!(contextual.uncertainConfidence >= 0 && contextual.uncertainConfidence <= 1)) {
+    errors.push("contextual.uncertainConfidence must be between 0.0 and 1.0")
+  }
+  if (!(Number.isInteger(policy.trend.sustainedSamples) && policy.trend.sustainedSamples >= 1)) {
+    errors.push("trend.sustainedSamples must be an integer >= 1")
+  }
+  if (!(policy.trend.jitterMs > 0)) {
+    errors.push("trend.jitterMs must be > 0")
+  }
+  if (!(Number.isInteger(policy.trend.lossBurstSamples) && policy.trend.lossBurstSamples >= 1)) {
+    errors.push("trend.lossBurstSamples must be an integer >= 1")
+  }
+  if (!(Number.isInteger(policy.offender.minNetworkDrops) && policy.offender.minNetworkDrops >= 1)) {
+    errors.push("offender.minNetworkDrops must be an integer >= 1")
+  }
+  if (!(policy.offender.baselineLosingRate > 0 && policy.offender.baselineLosingRate < 1)) {
+    errors.push("offender.baselineLosingRate must be between 0 and 1 (exclusive)")
+  }
+  if (!(policy.offender.significance > 0 && policy.offender.significance < 1)) {
+    errors.push("offender.significance must be between 0 and 1 (exclusive)")
+  }
+  if (!Array.isArray(policy.offender.penaltyLadder) || policy.offender.penaltyLadder.length === 0) {
+    errors.push("offender.penaltyLadder must be a non-empty array")
+  } else {
+    policy.offender.penaltyLadder.forEach((step, i) => {
+      if (!step || typeof step.name !== "string" || typeof step.lossApplied !== "boolean") {
+        errors.push(`offender.penaltyLadder[${i}] must have a string name and boolean lossApplied`)
+      }
+    })
+  }
+  if (policy.crash.outcome !== "preserve" && policy.crash.outcome !== "apply_loss") {
+    errors.push("crash.outcome must be 'preserve' or 'apply_loss'")
+  }
+  if (!(policy.crash.heartbeatTimeoutMs > 0)) {
+    errors.push("crash.heartbeatTimeoutMs must be > 0")
+  }
+  if (!(Number.isInteger(policy.outage.minPlayers) && policy.outage.minPlayers >= 2)) {
+    errors.push("outage.minPlayers must be an integer >= 2")
+  }
+  if (!(policy.outage.windowMs > 0 && policy.outage.windowMs <= MAX_OUTAGE_WINDOW_MS)) {
+    errors.push(`outage.windowMs must be between 0 (exclusive) and ${MAX_OUTAGE_WINDOW_MS}`)
+  }
+  if (policy.defaultOutcome !== "preserve" && policy.defaultOutcome !== "apply_loss") {
+    errors.push("defaultOutcome must be 'preserve' or 'apply_loss'")
+  }
+  if (!Array.isArray(policy.outcomes) || policy.outcomes.length > MAX_OUTCOME_RULES) {
+    errors.push(`outcomes must be an array of at most ${MAX_OUTCOME_RULES} rules`)
+  } else {
+    policy.outcomes.forEach((rule, i) => errors.push(...validateOutcomeRule(rule, `outcomes[${i}]`)))
   }
 
   return {
@@ -237,31 +878,37 @@ export function validateNetworkSnapshot(snapshot: NetworkSnapshot): { valid: boo
   }
 }
 
-/**
- * Validates competitive advantage signal
- * Must be between -1.0 and 1.0
- */
-export function validateCompetitiveAdvantage(advantage: number): { valid: boolean; error?: string } {
-  if (advantage < -1.0 || advantage > 1.0) {
-    return {
-      valid: false,
-      error: "competitiveAdvantage must be between -1.0 and 1.0",
-    }
+function validateOutcomeRule(rule: OutcomeRule, path: string): string[] {
+  if (!rule || typeof rule !== "object") return [`${path} must be an object`]
+  const errors: string[] = []
+  if (!DISCONNECT_TYPES.includes(rule.type)) {
+    errors.push(`${path}.type must be one of: ${DISCONNECT_TYPES.join(", ")}`)
   }
-  return { valid: true }
-}
-
-/**
- * Validates fairness confidence signal
- * Must be between 0.0 and 1.0
- */
-export function validateFairnessConfidence(confidence: number): { valid: boolean; error?: string } {
-  if (confidence < 0.0 || confidence > 1.0) {
-    return {
-      valid: false,
-      error: "fairnessConfidence must be between 0.0 and 1.0",
-    }
+  if (rule.lossApplied !== undefined && typeof rule.lossApplied !== "boolean") {
+    errors.push(`${path}.lossApplied must be a boolean`)
+  }
+  if (rule.advantage !== undefined && !ADVANTAGE_BANDS.includes(rule.advantage)) {
+    errors.push(`${path}.advantage must be one of: ${ADVANTAGE_BANDS.join(", ")}`)
+  }
+  if (rule.match !== undefined && !MATCH_BANDS.includes(rule.match)) {
+    errors.push(`${path}.match must be one of: ${MATCH_BANDS.join(", ")}`)
+  }
+  const outcome = rule.outcome
+  if (!outcome || typeof outcome !== "object") {
+    errors.push(`${path}.outcome must be an object`)
+    return errors
   }
-  return { valid: true }
+  if (!PENALTY_SEVERITIES.includes(outcome.severity)) {
+    errors.push(`${path}.outcome.severity must be one of: ${PENALTY_SEVERITIES.join(", ")}`)
+  }
+  if (!(typeof outcome.rankPointMultiplier === "number" && outcome.rankPointMultiplier >= 0 && outcome.rankPointMultiplier <= MAX_RANK_POINT_MULTIPLIER)) {
+    errors.push(`${path}.outcome.rankPointMultiplier must be between 0 and ${MAX_RANK_POINT_MULTIPLIER}`)
+  }
+  if (!(Number.isInteger(outcome.cooldownMinutes) && outcome.cooldownMinutes >= 0 && outcome.cooldownMinutes <= MAX_COOLDOWN_MINUTES)) {
+    errors.push(`${path}.outcome.cooldownMinutes must be an integer between 0 and ${MAX_COOLDOWN_MINUTES}`)
+  }
+  if (typeof outcome.teammateLossForgiveness !== "boolean") {
+    errors.push(`${path}.outcome.teammateLossForgiveness must be a boolean`)
+  }
+  return errors
 }
-
@@ -0,0 +1,393 @@
+/**
+ * Chunked Uploads
+ *
+ * Videos arrive in chunks so a multi-GB recording never sits in memory:
+ * POST /api/upload starts an upload with its declared size and SHA-256,
+ * each PUT appends one chunk at the byte offset the server has so far, and
+ * complete checks the size, the checksum and the MP4 header before the file
+ * becomes `<uploadId>.mp4` for the analysis worker. A dropped upload resumes
+ * from GET's `offset`.
+ *
+ * The partial file and its metadata live next to finished uploads, on this
+ * instance's disk; uploads without a chunk for UPLOAD_TTL_MS are removed by
+ * the cleanup sweep. Anonymous uploads in progress are capped per client
+ * address and in total (ANONYMOUS_UPLOAD_LIMITS). The address is only taken
+ * from `x-forwarded-for` when TRUSTED_PROXY_HOPS says how many proxies in
+ * front of the server append to it; otherwise all anonymous clients share
+ * one cap.
+ */
+
+import { createHash, randomUUID } from "crypto"
+import { createReadStream, promises as fs } from "fs"
+import path from "path"
+import { apiKeyFromHeaders, authorizeApiKey } from "@/lib/api-auth"
+import { UPLOAD_DIR } from "@/lib/video-frames"
+
+const GiB = 1024 ** 3
+const MiB = 1024 ** 2
+
+/**
+ * free: browser sessions (no API key)
+ * studio: requests carrying a studio API key with the `classify` scope
+ */
+export const UPLOAD_PLANS = {
+	free: { maxBytes: 4 * GiB },
+	studio: { maxBytes: 16 * GiB },
+} as const
+
+export type UploadPlan = keyof typeof UPLOAD_PLANS
+
+/**
+ * Free-plan uploads in progress (not completed or abandoned): at most
+ * `perClient` from one address and `totalBytes` of declared size across all
+ * addresses, so anonymous visitors can't fill the disk
+ */
+export const ANONYMOUS_UPLOAD_LIMITS = { perClient: 2, totalBytes: 32 * GiB } as const
+
+/** Chunk size clients are told to use */
+export const UPLOAD_CHUNK_BYTES = 8 * MiB
+/** Larger chunks are rejected, keeping each request's memory bounded */
+export const MAX_CHUNK_BYTES = 32 * MiB
+/** Uploads without a new chunk for this long are abandoned */
+export const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SHA256 = /^[0-9a-f]{64}$/i
+
+interface UploadMeta {
+	uploadId: string
+	plan: UploadPlan
+	/** Address a free-plan upload came from */
+	client?: string
+	filename?: string
+	size: number
+	sha256: string
+	createdAt: string
+	updatedAt: string
+}
+
+export interface UploadStatus {
+	uploadId: string
+	plan: UploadPlan
+	filename?: string
+	/** Declared size in bytes */
+	size: number
+	/** Bytes received so far; the next chunk starts here */
+	offset: number
+	chunkSize: number
+	maxBytes: number
+	sha256: string
+	expiresAt: string
+}
+
+export interface CompletedUpload {
+	uploadId: string
+	path: string
+	size: number
+	sha256: string
+}
+
+export type UploadOutcome<T> = { ok: true; upload: T } | { ok: false; status: 400 | 404 | 409 | 413 | 422 | 429; error: string; offset?: number }
+
+export type PlanOutcome = { ok: true; plan: UploadPlan; client?: string } | { ok: false; status: 401 | 403 | 429; error: string }
+
+const partPath = (uploadId: string) => path.join(UPLOAD_DIR, `${uploadId}.part`)
+const metaPath = (uploadId: string) => path.join(UPLOAD_DIR, `${uploadId}.upload.json`)
+
+/**
+ * Address the request came from, as recorded by the trusted proxies. Each
+ * proxy appends the address it was connected from to `x-forwarded-for`, so
+ * with TRUSTED_PROXY_HOPS=n the client is the n-th entry from the right;
+ * anything left of it was sent by the client and can be spoofed. Without
+ * trusted proxies the header is ignored and every client is "unknown".
+ */
+function clientAddress(headers: Headers): string {
+	const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS || "", 10)
+	if (!(hops > 0)) return "unknown"
+	const forwarded = headers.get("x-forwarded-for")?.split(",") ?? []
+	return forwarded[forwarded.length - hops]?.trim() || "unknown"
+}
+
+/**
+ * Plan of the request: studio for a valid API key, free without one. Free
+ * uploads are counted against the client address (clientAddress).
+ */
+export async function resolveUploadPlan(headers: Headers): Promise<PlanOutcome> {
+	const key = apiKeyFromHeaders(headers)
+	if (!key) return { ok: true, plan: "free", client: clientAddress(headers) }
+	const outcome = await authorizeApiKey(key, "classify")
+	return outcome.ok ? { ok: true, plan: "studio" } : { ok: false, status: outcome.status, error: outcome.error }
+}
+
+export function validateUploadInput(input: { size?: unknown; sha256?: unknown; filename?: unknown }): string[] {
+	const errors: string[] = []
+	if (!Number.isSafeInteger(input.size) || (input.size as number) <= 0) errors.push("size must be a positive integer (bytes)")
+	if (typeof input.sha256 !== "string" || !SHA256.test(input.sha256)) errors.push("sha256 must be the file's SHA-256 (64 hex characters)")
+	if (input.filename !== undefined && (typeof input.filename !== "string" || input.filename.length > 255)) {
+		errors.push("filename must be a string of at most 255 characters")
+	}
+	return errors
+}
+
+function toUploadStatus(meta: UploadMeta, offset: number): UploadStatus {
+	return {
+		uploadId: meta.uploadId,
+		plan: meta.plan,
+		filename: meta.filename,
+		size: meta.size,
+		offset,
+		chunkSize: UPLOAD_CHUNK_BYTES,
+		maxBytes: UPLOAD_PLANS[meta.plan].maxBytes,
+		sha256: meta.sha256,
+		expiresAt: new Date(new Date(meta.updatedAt).getTime() + UPLOAD_TTL_MS).toISOString(),
+	}
+}
+
+async function readMeta(uploadId: string): Promise<UploadMeta | null> {
+	if (!UUID.test(uploadId)) return null
+	try {
+		return JSON.parse(await fs.readFile(metaPath(uploadId), "utf8"))
+	} catch {
+		return null
+	}
+}
+
+async function receivedBytes(uploadId: string): Promise<number> {
+	const stat = await fs.stat(partPath(uploadId)).catch(() => null)
+	return stat?.size ?? 0
+}
+
+async function removeUpload(uploadId: string): Promise<void> {
+	await Promise.all([fs.rm(partPath(uploadId), { force: true }), fs.rm(metaPath(uploadId), { force: true })])
+}
+
+/** Free-plan uploads that are still in progress, i.e. not past UPLOAD_TTL_MS */
+async function activeFreeUploads(now: number): Promise<UploadMeta[]> {
+	const names = await fs.readdir(UPLOAD_DIR).catch(() => [] as string[])
+	const metas = await Promise.all(
+		names.filter((name) => name.endsWith(".upload.json")).map((name) => readMeta(name.slice(0, -".upload.json".length)))
+	)
+	return metas.filter(
+		(meta): meta is UploadMeta => !!meta && meta.plan === "free" && now - new Date(meta.updatedAt).getTime() < UPLOAD_TTL_MS
+	)
+}
+
+// Starts run one at a time in this process, so two can't both pass the anonymous caps
+let starting: Promise<unknown> = Promise.resolve()
+
+/**
+ * Starts an upload of `size` bytes; 413 when the plan doesn't allow that
+ * much, 429 when a free upload would pass ANONYMOUS_UPLOAD_LIMITS
+ */
+export function createUpload(
+	input: { size: number; sha256: string; filename?: string },
+	plan: UploadPlan,
+	client?: string
+): Promise<UploadOutcome<UploadStatus>> {
+	const started = starting.then(() => startUpload(input, plan, client))
+	starting = started.catch(() => {})
+	return started
+}
+
+async function startUpload(
+	input: { size: number; sha256: string; filename?: string },
+	plan: UploadPlan,
+	client?: string
+): Promise<UploadOutcome<UploadStatus>> {
+	const { maxBytes } = UPLOAD_PLANS[plan]
+	if (input.size > maxBytes) {
+		return { ok: false, status: 413, error: `File is ${input.size} bytes; the ${plan} plan allows up to ${maxBytes}` }
+	}
+
+	if (plan === "free") {
+		const active = await activeFreeUploads(Date.now())
+		if (active.filter((meta) => meta.client === client).length >= ANONYMOUS_UPLOAD_LIMITS.perClient) {
+			return {
+				ok: false,
+				status: 429,
+				error: `At most ${ANONYMOUS_UPLOAD_LIMITS.perClient} uploads in progress without an API key; finish one first`,
+			}
+		}
+		if (active.reduce((sum, meta) => sum + meta.size, input.size) > ANONYMOUS_UPLOAD_LIMITS.totalBytes) {
+			return { ok: false, status: 429, error: "Too many uploads in progress without an API key; try again later" }
+		}
+	}
+
+	const now = new Date().toISOString()
+	const meta: UploadMeta = {
+		uploadId: randomUUID(),
+		plan,
+		client: plan === "free" ? client : undefined,
+		filename: input.filename,
+		size: input.size,
+		sha256: input.sha256.toLowerCase(),
+		createdAt: now,
+		updatedAt: now,
+	}
+	await fs.mkdir(UPLOAD_DIR, { recursive: true })
+	await fs.writeFile(partPath(meta.uploadId), Buffer.alloc(0), { flag: "wx" })
+	await fs.writeFile(metaPath(meta.uploadId), JSON.stringify(meta))
+	return { ok: true, upload: toUploadStatus(meta, 0) }
+}
+
+/** An upload in progress, with the offset to resume from. Null if unknown, finished or cleaned up */
+export async function getUpload(uploadId: string): Promise<UploadStatus | null> {
+	const meta = await readMeta(uploadId)
+	return meta ? toUploadStatus(meta, await receivedBytes(uploadId)) : null
+}
+
+/** Reads a request body, or null as soon as it passes `max` bytes */
+async function readChunk(body: ReadableStream<Uint8Array> | null, max: number): Promise<Buffer | null> {
+	if (!body) return Buffer.alloc(0)
+	const reader = body.getReader()
+	const parts: Uint8Array[] = []
+	let length = 0
+	for (;;) {
+		const { done, value } = await reader.read()
+		if (done) return Buffer.concat(parts)
+		length += value.length
+		if (length > max) {
+			await reader.cancel()
+			return null
+		}
+		parts.push(value)
+	}
+}
+
+// Uploads with a chunk or completion in flight. In-process only: uploads live
+// on this instance's disk, so every request for one has to reach this
+// instance anyway (route them to a single instance, or by upload id)
+const busy = new Set<string>()
+
+/**
+ * Appends one chunk at `offset`, which must be where the upload stands (409
+ * with the current offset otherwise, e.g. after a retry that did land). With
+ * `chunkSha256`, a corrupted chunk is rejected before it is written.
+ */
+export async function appendChunk(
+	uploadId: string,
+	offset: number,
+	body: ReadableStream<Uint8Array> | null,
+	chunkSha256?: string | null
+): Promise<UploadOutcome<UploadStatus>> {
+	const meta = await readMeta(uploadId)
+	if (!meta) return { ok: false, status: 404, error: "Upload not found" }
+	if (busy.has(uploadId)) return { ok: false, status: 409, error: "Another chunk for this upload is still being written" }
+
+	busy.add(uploadId)
+	try {
+		const received = await receivedBytes(uploadId)
+		if (offset !== received) {
+			return { ok: false, status: 409, error: `Expected the chunk at offset ${received}`, offset: received }
+		}
+		const remaining = meta.size - received
+		const chunk = await readChunk(body, Math.min(MAX_CHUNK_BYTES, remaining))
+		if (!chunk) {
+			return remaining < MAX_CHUNK_BYTES
+				? { ok: false, status: 413, error: `Chunk runs past the declared size (${remaining} bytes left)`, offset: received }
+				: { ok: false, status: 413, error: `Chunks are limited to ${MAX_CHUNK_BYTES} bytes`, offset: received }
+		}
+		if (!chunk.length) return { ok: false, status: 400, error: "Empty chunk", offset: received }
+		if (chunkSha256 && createHash("sha256").update(chunk).digest("hex") !== chunkSha256.toLowerCase()) {
+			return { ok: false, status: 422, error: "Chunk checksum mismatch; send the chunk again", offset: received }
+		}
+
+		await fs.appendFile(partPath(uploadId), chunk)
+		meta.updatedAt = new Date().toISOString()
+		await fs.writeFile(metaPath(uploadId), JSON.stringify(meta))
+		return { ok: true, upload: toUploadStatus(meta, received + chunk.length) }
+	} finally {
+		busy.delete(uploadId)
+	}
+}
+
+function hashFile(filePath: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const hash = createHash("sha256")
+		createReadStream(filePath)
+			.on("data", (data) => hash.update(data))
+			.on("error", reject)
+			.on("end", () => resolve(hash.digest("hex")))
+	})
+}
+
+/** MP4 (and QuickTime) files open with an `ftyp` box */
+async function isMp4(filePath: string): Promise<boolean> {
+	const file = await fs.open(filePath, "r")
+	try {
+		const header = Buffer.alloc(8)
+		const { bytesRead } = await file.read(header, 0, 8, 0)
+		return bytesRead === 8 && header.toString("latin1", 4, 8) === "ftyp"
+	} finally {
+		await file.close()
+	}
+}
+
+/**
+ * Finishes an upload once every byte is in: verifies the declared SHA-256
+ * and the MP4 header, then stores it as `<uploadId>.mp4`. A file that fails
+ * either check is discarded; the client has to upload it again.
+ */
+export async function completeUpload(uploadId: string): Promise<UploadOutcome<CompletedUpload>> {
+	const meta = await readMeta(uploadId)
+	if (!meta) return { ok: false, status: 404, error: "Upload not found" }
+	if (busy.has(uploadId)) return { ok: false, status: 409, error: "A chunk for this upload is still being written" }
+
+	busy.add(uploadId)
+	try {
+		const received = await receivedBytes(uploadId)
+		if (received < meta.size) {
+			return { ok: false, status: 409, error: `Upload incomplete: ${received} of ${meta.size} bytes received`, offset: received }
+		}
+
+		const sha256 = await hashFile(partPath(uploadId))
+		if (sha256 !== meta.sha256) {
+			await removeUpload(uploadId)
+			return { ok: false, status: 422, error: `Checksum mismatch: expected ${meta.sha256}, received ${sha256}` }
+		}
+		if (!(await isMp4(partPath(uploadId)))) {
+			await removeUpload(uploadId)
+			return { ok: false, status: 422, error: "Not an MP4 file" }
+		}
+
+		await fs.rename(partPath(uploadId), path.join(UPLOAD_DIR, `${uploadId}.mp4`))
+		await fs.rm(metaPath(uploadId), { force: true })
+		return { ok: true, upload: { uploadId, path: `/uploads/${uploadId}.mp4`, size: received, sha256 } }
+	} finally {
+		busy.delete(uploadId)
+	}
+}
+
+/**
+ * Removes uploads that haven't received a chunk for UPLOAD_TTL_MS, and
+ * partial files whose metadata is gone. Returns the number removed.
+ */
+export async function cleanupAbandonedUploads(now = Date.now()): Promise<number> {
+	const names = await fs.readdir(UPLOAD_DIR).catch(() => [] as string[])
+	let removed = 0
+	for (const name of names) {
+		const uploadId = name.replace(/\.(part|upload\.json)$/, "")
+		if (uploadId === name || !UUID.test(uploadId) || busy.has(uploadId)) continue
+		const meta = await readMeta(uploadId)
+		const lastActivity = meta
+			? new Date(meta.updatedAt).getTime()
+			: ((await fs.stat(path.join(UPLOAD_DIR, name)).catch(() => null))?.mtimeMs ?? now)
+		if (now - lastActivity < UPLOAD_TTL_MS) continue
+		await removeUpload(uploadId)
+		removed++
+	}
+	return removed
+}
+
+let cleanupTimer: ReturnType<typeof setInterval> | null = null
+
+/** Sweeps abandoned uploads now and every hour. Safe to call more than once */
+export function startUploadCleanup(): void {
+	if (cleanupTimer) return
+	const sweep = () =>
+		cleanupAbandonedUploads().catch((err) => console.error("[Uploads] Cleanup failed:", err))
+	cleanupTimer = setInterval(sweep, CLEANUP_INTERVAL_MS)
+	cleanupTimer.unref?.()
+	sweep()
+}
@@ -0,0 +1,121 @@
+/**
+ * Video Analysis Pipeline
+ *
+ * decode (CPU ffmpeg) → per-sample motion and HUD timeline → HUD series →
+ * registered detectors → the strongest, well-spaced detections. Only the
+ * timeline is kept in memory, never the frames.
+ */
+
+import { getHudLayout, type HudLayout } from "@/lib/hud-layouts"
+import { readHud, toHudReads } from "@/lib/hud-reader"
+import { configuredSampleFps, extractFrames, probeDuration, frameBrightness, frameDifference, type VideoFrame } from "@/lib/video-frames"
+import { CUT_MOTION, runDetectors, selectDetections, type FrameSample, type TaggedDetection } from "@/lib/video-detectors"
+
+export const MAX_EVENTS = 8
+/** Two reported events are at least this far apart */
+export const MIN_EVENT_GAP_SEC = 3
+
+export const VIDEO_STAGES = ["decode", "hud", "detect"] as const
+
+export type VideoStage = (typeof VIDEO_STAGES)[number]
+
+export interface VideoAnalysisOptions {
+	/** Frames sampled per second; defaults to ANALYSIS_SAMPLE_FPS */
+	sampleFps?: number
+	maxEvents?: number
+	/**
+	 * Called as the pipeline advances; `fraction` (0-1) is known during decode
+	 * only when the duration could be probed.
+	 */
+	onProgress?: (stage: VideoStage, fraction?: number) => void
+	/**
+	 * Called after each detector runs with the selection so far: the events
+	 * found up to now, before the remaining detectors had their turn.
+	 */
+	onDetections?: (detections: TaggedDetection[], hud: HudSeries) => void
+}
+
+/** HUD values over the clip, in hudReads units, for the samples where any field was readable */
+export type HudSeries = { time: number; reads: Record<string, number> }[]
+
+export interface VideoAnalysis {
+	durationSec: number
+	framesSampled: number
+	sampleFps: number
+	cuts: number
+	hud: HudSeries
+	detections: TaggedDetection[]
+}
+
+/**
+ * Reduces decoded frames to the detector timeline, one sample per frame,
+ * reading the HUD when the game has a layout.
+ */
+export async function buildTimeline(
+	frames: AsyncIterable<VideoFrame>,
+	layout?: HudLayout,
+	onFrame?: (frame: VideoFrame) => void
+): Promise<FrameSample[]> {
+	const timeline: FrameSample[] = []
+	let previous: Uint8Array | null = null
+	for await (const frame of frames) {
+		onFrame?.(frame)
+		const motion = previous ? frameDifference(previous, frame.data) : 0
+		const sample: FrameSample = { time: frame.time, motion, brightness: frameBrightness(frame.data), cut: motion >= CUT_MOTION }
+		if (layout) sample.hud = readHud(frame, layout)
+		timeline.push(sample)
+		previous = frame.data
+	}
+	return timeline
+}
+
+/** The HUD series of a timeline, for the events' hudReads */
+export function hudSeries(timeline: FrameSample[], layout: HudLayout): HudSeries {
+	return timeline.flatMap((s) => (s.hud && Object.keys(s.hud).length ? [{ time: s.time, reads: toHudReads(s.hud, layout) }] : []))
+}
+
+/** Latest HUD reads at `time`, if any were taken in the second before it */
+export function hudAt(series: HudSeries, time: number): Record<string, number> | undefined {
+	let found: Record<string, number> | undefined
+	for (const point of series) {
+		if (point.time > time) break
+		if (point.time >= time - 1) found = point.reads
+	}
+	return found
+}
+
+/** Decodes the video at `filePath` and runs the game's detectors over it */
+export async function analyzeVideo(filePath: string, game: string, options: VideoAnalysisOptions = {}): Promise<VideoAnalysis> {
+	const sampleFps = options.sampleFps ?? configuredSampleFps()
+	const layout = getHudLayout(game)
+	// HUD text and bars need color and more pixels than the motion timeline alone
+	const decode = layout
+		? { fps: sampleFps, width: layout.width, height: layout.height, pixelFormat: "rgb24" as const }
+		: { fps: sampleFps }
+	const duration = options.onProgress ? await probeDuration(filePath) : null
+	options.onProgress?.("decode", duration ? 0 : undefined)
+	const timeline = await buildTimeline(extractFrames(filePath, decode), layout, (frame) =>
+		options.onProgress?.("decode", duration ? Math.min(1, frame.time / duration) : undefined)
+	)
+	// Games without a HUD layout have nothing to read
+	if (layout) options.onProgress?.("hud")
+	const hud = layout ? hudSeries(timeline, layout) : []
+
+	options.onProgress?.("detect")
+	const maxEvents = options.maxEvents ?? MAX_EVENTS
+	const found: TaggedDetection[] = []
+	const detections = runDetectors(game, timeline, sampleFps, (_tag, detected) => {
+		if (!options.onDetections || !detected.length) return
+		found.push(...detected)
+		options.onDetections(selectDetections(found, maxEvents, MIN_EVENT_GAP_SEC), hud)
+	})
+
+	return {
+		durationSec: timeline.length / sampleFps,
+		framesSampled: timeline.length,
+		sampleFps,
+		cuts: timeline.filter((s) => s.cut).length,
+		hud,
+		detections: selectDetections(detections, maxEvents, MIN_EVENT_GAP_SEC),
+	}
+}
@@ -0,0 +1,360 @@
+/**
+ * Video Event Detectors
+ *
+ * Detectors turn the sampled frame timeline of a clip into timecoded
+ * detections for one of the game's EVENT_TAGS. The built-in detectors read
+ * motion (exchanges, fixed-tempo loops, freezes) and the HUD series read
+ * with the game's layout (stamina, health); plugins register against a
+ * game's tags with registerDetector.
+ */
+
+import { EVENT_TAGS } from "@/lib/eventTags"
+import type { HudReading } from "@/lib/hud-reader"
+
+/** One sampled frame, reduced to what detectors need */
+export interface FrameSample {
+	/** Seconds from the start of the video */
+	time: number
+	/** Difference from the previous sample, 0-1 */
+	motion: number
+	/** Mean brightness, 0-1 */
+	brightness: number
+	/** Hard cut (replay, camera change, menu) since the previous sample */
+	cut: boolean
+	/** HUD fields readable in this sample, for games with a HUD layout */
+	hud?: HudReading
+}
+
+export interface DetectorContext {
+	game: string
+	tag: string
+	/** Samples per second of the timeline */
+	fps: number
+	durationSec: number
+}
+
+export interface Detection {
+	/** Seconds from the start of the video */
+	time: number
+	/** 0-1 */
+	confidence: number
+	metrics?: Record<string, number>
+}
+
+export type EventDetector = (timeline: FrameSample[], context: DetectorContext) => Detection[]
+
+export interface TaggedDetection extends Detection {
+	tag: string
+}
+
+/** Motion above this between two samples is treated as a cut, not gameplay */
+export const CUT_MOTION = 0.3
+
+const registry = new Map<string, Map<string, EventDetector[]>>()
+
+/**
+ * Registers a detector for one of the game's EVENT_TAGS. Returns a function
+ * that removes it again.
+ */
+export function registerDetector(game: string, tag: string, detector: EventDetector): () => void {
+	const tags = EVENT_TAGS[game]
+	if (!tags) throw new Error(`Unknown game "${game}"`)
+	if (!tags.includes(tag)) throw new Error(`Unknown event tag "${tag}" for ${game} (expected one of: ${tags.join(", ")})`)
+
+	const byTag = registry.get(game) ?? new Map<string, EventDetector[]>()
+	registry.set(game, byTag)
+	const detectors = byTag.get(tag) ?? []
+	byTag.set(tag, [...detectors, detector])
+
+	return () => {
+		byTag.set(tag, (byTag.get(tag) ?? []).filter((d) => d !== detector))
+	}
+}
+
+/** Registered detectors for a game, by tag */
+export function getDetectors(game: string): { tag: string; detector: EventDetector }[] {
+	const byTag = registry.get(game)
+	if (!byTag) return []
+	return Array.from(byTag.entries()).flatMap(([tag, detectors]) => detectors.map((detector) => ({ tag, detector })))
+}
+
+/**
+ * Runs every detector registered for the game; a throwing plugin is skipped,
+ * not fatal. `onDetector` gets each detector's detections as soon as it has run.
+ */
+export function runDetectors(
+	game: string,
+	timeline: FrameSample[],
+	fps: number,
+	onDetector?: (tag: string, detections: TaggedDetection[]) => void
+): TaggedDetection[] {
+	const durationSec = timeline.length ? timeline[timeline.length - 1].time + 1 / fps : 0
+	const detections: TaggedDetection[] = []
+	for (const { tag, detector } of getDetectors(game)) {
+		const found: TaggedDetection[] = []
+		try {
+			for (const detection of detector(timeline, { game, tag, fps, durationSec })) {
+				if (!Number.isFinite(detection.time) || detection.time < 0) continue
+				found.push({ ...detection, tag, confidence: clamp01(detection.confidence) })
+			}
+		} catch (err) {
+			console.error(`[Video Detectors] ${game}/${tag} failed:`, err)
+			continue
+		}
+		detections.push(...found)
+		onDetector?.(tag, found)
+	}
+	return detections
+}
+
+/**
+ * Keeps the most confident detections, at most `max`, at least `minGapSec`
+ * apart, ordered by time.
+ */
+export function selectDetections(detections: TaggedDetection[], max: number, minGapSec: number): TaggedDetection[] {
+	const kept: TaggedDetection[] = []
+	for (const detection of [...detections].sort((a, b) => b.confidence - a.confidence || a.time - b.time)) {
+		if (kept.length >= max) break
+		if (kept.some((k) => Math.abs(k.time - detection.time) < minGapSec)) continue
+		kept.push(detection)
+	}
+	return kept.sort((a, b) => a.time - b.time)
+}
+
+function clamp01(value: number): number {
+	return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0
+}
+
+function meanAndStd(values: number[]): { mean: number; std: number } {
+	if (!values.length) return { mean: 0, std: 0 }
+	const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+	const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+	return { mean, std: Math.sqrt(variance) }
+}
+
+/** Gameplay motion only: cuts would dwarf every real exchange */
+function gameplayMotion(timeline: FrameSample[]): number[] {
+	return timeline.filter((s) => !s.cut).map((s) => s.motion)
+}
+
+/**
+ * Motion bursts: local peaks at least `minZ` standard deviations above the
+ * clip's mean gameplay motion, at least `minGapSec` apart.
+ */
+export function findBursts(timeline: FrameSample[], minZ = 1.5, minGapSec = 1.5): Detection[] {
+	const { mean, std } = meanAndStd(gameplayMotion(timeline))
+	if (std === 0) return []
+
+	const bursts: Detection[] = []
+	for (let i = 0; i < timeline.length; i++) {
+		const sample = timeline[i]
+		if (sample.cut) continue
+		const z = (sample.motion - mean) / std
+		if (z < minZ) continue
+		const prev = timeline[i - 1]
+		const next = timeline[i + 1]
+		if ((prev && !prev.cut && prev.motion > sample.motion) || (next && !next.cut && next.motion >= sample.motion)) continue
+
+		const last = bursts[bursts.length - 1]
+		if (last && sample.time - last.time < minGapSec) {
+			if (sample.motion > (last.metrics?.motion ?? 0)) bursts.pop()
+			else continue
+		}
+		bursts.push({
+			time: sample.time,
+			confidence: 0.5 + Math.min(0.45, (z - minZ) * 0.15),
+			metrics: { motion: sample.motion, zScore: z },
+		})
+	}
+	return bursts
+}
+
+/** Detector for sharp exchanges: each motion burst is a candidate moment */
+export function burstDetector(options: { minZ?: number; minGapSec?: number } = {}): EventDetector {
+	return (timeline) => findBursts(timeline, options.minZ, options.minGapSec)
+}
+
+/**
+ * Detector for fixed-tempo loops: `minBursts` consecutive bursts whose
+ * intervals vary by at most `maxVariation` (coefficient of variation).
+ * Reports the start of each loop.
+ */
+export function rhythmDetector(options: { minBursts?: number; maxVariation?: number } = {}): EventDetector {
+	const minBursts = options.minBursts ?? 4
+	const maxVariation = options.maxVariation ?? 0.2
+
+	return (timeline) => {
+		const bursts = findBursts(timeline, 1, 0.75)
+		const loops: Detection[] = []
+		let start = 0
+		while (start + minBursts <= bursts.length) {
+			let end = start + minBursts
+			const intervalsOf = (to: number) => bursts.slice(start + 1, to).map((b, i) => b.time - bursts[start + i].time)
+			const variation = (intervals: number[]) => {
+				const { mean, std } = meanAndStd(intervals)
+				return mean > 0 ? std / mean : Infinity
+			}
+			if (variation(intervalsOf(end)) > maxVariation) {
+				start++
+				continue
+			}
+			while (end < bursts.length && variation(intervalsOf(end + 1)) <= maxVariation) end++
+
+			const intervals = intervalsOf(end)
+			const { mean } = meanAndStd(intervals)
+			const cv = variation(intervals)
+			loops.push({
+				time: bursts[start].time,
+				confidence: 0.55 + Math.min(0.4, (end - start - minBursts) * 0.08 + (maxVariation - cv)),
+				metrics: { bursts: end - start, intervalSec: mean, variation: cv },
+			})
+			start = end
+		}
+		return loops
+	}
+}
+
+/**
+ * Detector for freezes: stretches of at least `minSec` where gameplay motion
+ * stays below `maxRatio` of the clip's mean. Reports the start of each stretch.
+ */
+export function lullDetector(options: { minSec?: number; maxRatio?: number } = {}): EventDetector {
+	const minSec = options.minSec ?? 3
+	const maxRatio = options.maxRatio ?? 0.35
+
+	return (timeline, { fps }) => {
+		const { mean } = meanAndStd(gameplayMotion(timeline))
+		if (mean === 0) return []
+		const limit = mean * maxRatio
+
+		const lulls: Detection[] = []
+		let startIndex = -1
+		const close = (endIndex: number) => {
+			const lengthSec = (endIndex - startIndex) / fps
+			if (startIndex >= 0 && lengthSec >= minSec) {
+				const stretch = timeline.slice(startIndex, endIndex)
+				const avg = stretch.reduce((sum, s) => sum + s.motion, 0) / stretch.length
+				lulls.push({
+					time: timeline[startIndex].time,
+					confidence: 0.5 + Math.min(0.4, (lengthSec - minSec) * 0.05 + (1 - avg / limit) * 0.2),
+					metrics: { lengthSec, motion: avg },
+				})
+			}
+			startIndex = -1
+		}
+		timeline.forEach((sample, i) => {
+			// The first sample has no previous frame to compare with
+			if (i > 0 && !sample.cut && sample.motion <= limit) {
+				if (startIndex < 0) startIndex = i
+			} else {
+				close(i)
+			}
+		})
+		close(timeline.length)
+		return lulls
+	}
+}
+
+/** Samples where the HUD field was readable */
+function hudSeries(timeline: FrameSample[], field: string): { time: number; value: number }[] {
+	return timeline.flatMap((s) => (s.hud?.[field] !== undefined ? [{ time: s.time, value: s.hud[field] }] : []))
+}
+
+/**
+ * Detector for a HUD bar falling under a level, e.g. stamina: reported when
+ * the field drops below `below` and stays there for `minSec`. It has to be
+ * read above the level again before it can trigger again.
+ */
+export function hudThresholdDetector(options: { field: string; below: number; minSec?: number }): EventDetector {
+	const minSec = options.minSec ?? 1
+
+	return (timeline) => {
+		const detections: Detection[] = []
+		let armed = false
+		let start: { time: number; value: number } | null = null
+		let lowest = Infinity
+		for (const point of hudSeries(timeline, options.field)) {
+			if (point.value >= options.below) {
+				armed = true
+				start = null
+				continue
+			}
+			if (!armed) continue
+			if (!start) {
+				start = point
+				lowest = point.value
+			}
+			lowest = Math.min(lowest, point.value)
+			if (point.time - start.time >= minSec) {
+				detections.push({
+					time: start.time,
+					confidence: 0.7 + Math.min(0.25, ((options.below - lowest) / options.below) * 0.5),
+					metrics: { [options.field]: start.value, lowest },
+				})
+				armed = false
+				start = null
+			}
+		}
+		return detections
+	}
+}
+
+/**
+ * Detector for sharp HUD losses, e.g. health after a clean counter: the
+ * field falls by at least `minDrop` within `withinSec`.
+ */
+export function hudDropDetector(options: { field: string; minDrop: number; withinSec?: number }): EventDetector {
+	const withinSec = options.withinSec ?? 1
+
+	return (timeline) => {
+		const series = hudSeries(timeline, options.field)
+		const detections: Detection[] = []
+		let from = 0
+		for (let i = 1; i < series.length; i++) {
+			while (series[i].time - series[from].time > withinSec) from++
+			const peak = series.slice(from, i).reduce((max, p) => (p.value > max.value ? p : max), series[from])
+			const drop = peak.value - series[i].value
+			if (drop < options.minDrop) continue
+			// The hit landed between the last two reads
+			detections.push({
+				time: series[i - 1].time,
+				confidence: 0.65 + Math.min(0.3, (drop - options.minDrop) * 2),
+				metrics: { [options.field]: series[i].value, drop },
+			})
+			// One detection per drop: the next one has to start after this sample
+			from = i
+		}
+		return detections
+	}
+}
+
+/** Built-in motion and HUD detectors per game; tags without one wait for a plugin */
+export const BUILTIN_DETECTORS: Record<string, Record<string, EventDetector>> = {
+	"UFC 5": {
+		stamina_drop: hudThresholdDetector({ field: "stamina", below: 0.45 }),
+		missed_counter: hudDropDetector({ field: "health", minDrop: 0.08 }),
+		rhythm_loop: rhythmDetector(),
+	},
+	"UNDISPUTED": {
+		straight_spam: rhythmDetector(),
+		pressure_trap: burstDetector({ minZ: 2 }),
+		clinch_spam_break: lullDetector({ minSec: 2 }),
+	},
+	"FIGHT NIGHT CHAMPION": {
+		straight_trade: rhythmDetector(),
+		sidestep_uppercut: burstDetector({ minZ: 2 }),
+		pocket_freeze: lullDetector(),
+	},
+	"NBA 2K26": {
+		paint_mash: rhythmDetector({ minBursts: 3 }),
+		spacing_breakdown: burstDetector({ minZ: 2.5, minGapSec: 5 }),
+	},
+	"MADDEN 26": {
+		stretch_spam: rhythmDetector({ minBursts: 3, maxVariation: 0.3 }),
+		mesh_drags: burstDetector({ minZ: 2.5, minGapSec: 8 }),
+	},
+}
+
+for (const [game, detectors] of Object.entries(BUILTIN_DETECTORS)) {
+	for (const [tag, detector] of Object.entries(detectors)) registerDetector(game, tag, detector)
+}
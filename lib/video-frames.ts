@@ -0,0 +1,194 @@
+/**
+ * Video Frame Extraction
+ *
+ * Decodes uploaded recordings on the CPU with ffmpeg (`FFMPEG_PATH`, or
+ * `ffmpeg` on the PATH) and streams downscaled raw frames at a fixed sample
+ * rate, so a long match never has to sit in memory.
+ */
+
+import { execFile, spawn } from "child_process"
+import { promises as fs } from "fs"
+import path from "path"
+import type { Readable } from "stream"
+
+export const UPLOAD_DIR = path.join(process.cwd(), "uploads")
+
+export const DEFAULT_SAMPLE_FPS = 2
+export const MIN_SAMPLE_FPS = 0.2
+export const MAX_SAMPLE_FPS = 10
+export const DEFAULT_FRAME_WIDTH = 160
+export const DEFAULT_FRAME_HEIGHT = 90
+
+export type PixelFormat = "gray" | "rgb24"
+
+export interface FrameExtractionOptions {
+	/** Frames sampled per second of video */
+	fps: number
+	width: number
+	height: number
+	pixelFormat: PixelFormat
+}
+
+export interface VideoFrame {
+	index: number
+	/** Seconds from the start of the video */
+	time: number
+	width: number
+	height: number
+	/** 1 for gray, 3 for rgb24 */
+	channels: number
+	data: Uint8Array
+}
+
+/** The video could not be decoded (missing ffmpeg, unreadable or corrupt file) */
+export class VideoDecodeError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = "VideoDecodeError"
+	}
+}
+
+/** Sample rate from `ANALYSIS_SAMPLE_FPS`, clamped to the supported range */
+export function configuredSampleFps(): number {
+	const fps = Number(process.env.ANALYSIS_SAMPLE_FPS)
+	if (!Number.isFinite(fps) || fps <= 0) return DEFAULT_SAMPLE_FPS
+	return Math.min(MAX_SAMPLE_FPS, Math.max(MIN_SAMPLE_FPS, fps))
+}
+
+function channelsOf(format: PixelFormat): number {
+	return format === "rgb24" ? 3 : 1
+}
+
+/**
+ * Path of an upload written by /api/upload. Returns null for ids that are not
+ * upload ids (so they can never escape the uploads directory) or files that are gone.
+ */
+export async function resolveUploadPath(uploadId: string): Promise<string | null> {
+	if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uploadId)) return null
+	const filePath = path.join(UPLOAD_DIR, `${uploadId}.mp4`)
+	try {
+		const stat = await fs.stat(filePath)
+		return stat.isFile() ? filePath : null
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Duration of the video in seconds, from ffprobe (`FFPROBE_PATH`, or
+ * `ffprobe` on the PATH). Null when it can't be probed; decoding may still work.
+ */
+export function probeDuration(filePath: string): Promise<number | null> {
+	const ffprobe = process.env.FFPROBE_PATH || "ffprobe"
+	return new Promise((resolve) => {
+		execFile(
+			ffprobe,
+			["-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1", filePath],
+			{ timeout: 15_000 },
+			(err, stdout) => {
+				const duration = Number(String(stdout).trim())
+				resolve(!err && Number.isFinite(duration) && duration > 0 ? duration : null)
+			}
+		)
+	})
+}
+
+/** Splits a raw video stream into fixed-size frames; a trailing partial frame is dropped */
+export async function* readFrames(stream: Readable, frameBytes: number): AsyncGenerator<Uint8Array> {
+	let pending: Buffer = Buffer.alloc(0)
+	for await (const chunk of stream) {
+		pending = pending.length ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer)
+		let offset = 0
+		while (pending.length - offset >= frameBytes) {
+			yield new Uint8Array(pending.subarray(offset, offset + frameBytes))
+			offset += frameBytes
+		}
+		pending = pending.subarray(offset)
+	}
+}
+
+/**
+ * Decodes `filePath` and yields one frame per 1/fps seconds. Rejects with a
+ * VideoDecodeError when ffmpeg is missing or exits with an error.
+ */
+export async function* extractFrames(
+	filePath: string,
+	options: Partial<FrameExtractionOptions> = {}
+): AsyncGenerator<VideoFrame> {
+	const fps = options.fps ?? configuredSampleFps()
+	const width = options.width ?? DEFAULT_FRAME_WIDTH
+	const height = options.height ?? DEFAULT_FRAME_HEIGHT
+	const pixelFormat = options.pixelFormat ?? "gray"
+	const channels = channelsOf(pixelFormat)
+	const ffmpeg = process.env.FFMPEG_PATH || "ffmpeg"
+
+	const child = spawn(
+		ffmpeg,
+		[
+			"-nostdin",
+			"-hide_banner",
+			"-loglevel",
+			"error",
+			"-i",
+			filePath,
+			"-an",
+			"-vf",
+			`fps=${fps},scale=${width}:${height}:flags=area`,
+			"-pix_fmt",
+			pixelFormat,
+			"-f",
+			"rawvideo",
+			"pipe:1",
+		],
+		{ stdio: ["ignore", "pipe", "pipe"] }
+	)
+
+	let stderr = ""
+	child.stderr.on("data", (chunk) => {
+		if (stderr.length < 4000) stderr += chunk.toString()
+	})
+	const exited = new Promise<{ code: number | null; error?: NodeJS.ErrnoException }>((resolve) => {
+		child.once("error", (error) => resolve({ code: null, error }))
+		child.once("close", (code) => resolve({ code }))
+	})
+
+	let index = 0
+	try {
+		for await (const data of readFrames(child.stdout, width * height * channels)) {
+			yield { index, time: index / fps, width, height, channels, data }
+			index++
+		}
+
+		const { code, error } = await exited
+		if (error) {
+			throw new VideoDecodeError(
+				error.code === "ENOENT"
+					? `ffmpeg not found (${ffmpeg}); install ffmpeg or set FFMPEG_PATH`
+					: `Could not start ffmpeg: ${error.message}`
+			)
+		}
+		if (code !== 0) {
+			throw new VideoDecodeError(`Could not decode video: ${stderr.trim().split("\n").pop() || `ffmpeg exited with ${code}`}`)
+		}
+	} finally {
+		// Consumer stopped early or decoding failed: don't leave ffmpeg running
+		if (child.exitCode === null && !child.killed) child.kill("SIGKILL")
+	}
+}
+
+/** Mean absolute pixel difference between two frames, 0 (identical) to 1 */
+export function frameDifference(a: Uint8Array, b: Uint8Array): number {
+	const length = Math.min(a.length, b.length)
+	if (!length) return 0
+	let total = 0
+	for (let i = 0; i < length; i++) total += Math.abs(a[i] - b[i])
+	return total / (length * 255)
+}
+
+/** Mean brightness of a frame, 0 (black) to 1 (white) */
+export function frameBrightness(data: Uint8Array): number {
+	if (!data.length) return 0
+	let total = 0
+	for (let i = 0; i < data.length; i++) total += data[i]
+	return total / (data.length * 255)
+}
@@ -31,10 +31,25 @@ export interface AnalysisDoc extends mongoose.Document {
 	inputType: "upload" | "link"
 	inputRef: string
 	status: "queued" | "processing" | "completed" | "failed"
+	/** Pipeline stage while processing (see lib/analysis-jobs.ts) */
+	stage?: string
+	/** 0-100 */
+	progress: number
+	/** Why the analysis failed */
+	error?: string
+	/** Processing attempts, including ones cut short by a restart */
+	attempts: number
+	/** Worker lease: a processing job whose lease expired is picked up again */
+	lockedUntil?: Date
+	sampleFps?: number
+	startedAt?: Date
+	completedAt?: Date
 	language?: string
 	stats?: Record<string, number>
 	events: AnalysisEvent[]
 	summary?: string
+	sourceInfo?: Record<string, unknown>
+	patterns?: { code: string; label: string; why: string; fix: string }[]
 }
 
 const EventSchema = new Schema<AnalysisEvent>(
@@ -64,14 +79,26 @@ const AnalysisSchema = new Schema<AnalysisDoc>(
 		inputType: { type: String, enum: ["upload", "link"], required: true },
 		inputRef: { type: String, required: true },
 		status: { type: String, enum: ["queued", "processing", "completed", "failed"], default: "queued" },
+		stage: String,
+		progress: { type: Number, default: 0 },
+		error: String,
+		attempts: { type: Number, default: 0 },
+		lockedUntil: Date,
+		sampleFps: Number,
+		startedAt: Date,
+		completedAt: Date,
 		language: String,
 		stats: Schema.Types.Mixed,
 		events: { type: [EventSchema], default: [] },
 		summary: String,
+		sourceInfo: Schema.Types.Mixed,
+		patterns: Schema.Types.Mixed,
 	},
 	{ timestamps: true }
 )
 
+AnalysisSchema.index({ status: 1, lockedUntil: 1, createdAt: 1 })
+
 export const Analysis = models.Analysis || model<AnalysisDoc>("Analysis", AnalysisSchema)
 
 
@@ -0,0 +1,38 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface ApiKeyDoc extends mongoose.Document {
+	studioId: string
+	name: string
+	prefix: string // First characters of the key, shown in listings to identify it
+	keyHash: string // SHA-256 of the full key; the key itself is never stored
+	scopes: string[]
+	rateLimitPerMinute: number
+	active: boolean
+	usage: {
+		requests: number
+		rateLimited: number
+	}
+	lastUsedAt?: Date
+	revokedAt?: Date
+}
+
+const ApiKeySchema = new Schema<ApiKeyDoc>(
+	{
+		studioId: { type: String, required: true, index: true },
+		name: { type: String, required: true },
+		prefix: { type: String, required: true },
+		keyHash: { type: String, required: true, unique: true },
+		scopes: { type: [String], required: true },
+		rateLimitPerMinute: { type: Number, required: true },
+		active: { type: Boolean, default: true },
+		usage: {
+			requests: { type: Number, default: 0 },
+			rateLimited: { type: Number, default: 0 },
+		},
+		lastUsedAt: Date,
+		revokedAt: Date,
+	},
+	{ timestamps: true }
+)
+
+export const ApiKey = models.ApiKey || model<ApiKeyDoc>("ApiKey", ApiKeySchema)
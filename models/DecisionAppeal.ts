@@ -0,0 +1,54 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface AppealClientLog {
+	name: string // e.g. "crash.log", "client-watchdog.txt"
+	content: string
+}
+
+export interface DecisionAppealDoc extends mongoose.Document {
+	studioId?: string // Studio of the appealed decision (unset: classified with the platform admin key)
+	decisionId: string
+	playerId?: string
+	matchId?: string
+	message: string // Player's free-text explanation
+	clientLogs: AppealClientLog[]
+	status: "open" | "upheld" | "overturned"
+	review?: {
+		reviewerId: string
+		note?: string
+		reviewedAt: Date
+	}
+}
+
+const ClientLogSchema = new Schema<AppealClientLog>(
+	{
+		name: { type: String, required: true },
+		content: { type: String, required: true },
+	},
+	{ _id: false }
+)
+
+const DecisionAppealSchema = new Schema<DecisionAppealDoc>(
+	{
+		studioId: { type: String, index: true },
+		decisionId: { type: String, required: true },
+		playerId: { type: String, index: true },
+		matchId: String,
+		message: { type: String, required: true },
+		clientLogs: { type: [ClientLogSchema], default: [] },
+		status: { type: String, enum: ["open", "upheld", "overturned"], default: "open", index: true },
+		review: {
+			reviewerId: String,
+			note: String,
+			reviewedAt: Date,
+		},
+	},
+	{ timestamps: true }
+)
+
+// One open appeal per decision, enforced even when two are filed at once. Also the
+// decisionId lookup index: a second index on the field would get the same default
+// name (decisionId_1) and keep this one from being built
+DecisionAppealSchema.index({ decisionId: 1 }, { unique: true, partialFilterExpression: { status: "open" } })
+
+export const DecisionAppeal = models.DecisionAppeal || model<DecisionAppealDoc>("DecisionAppeal", DecisionAppealSchema)
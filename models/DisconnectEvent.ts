@@ -0,0 +1,29 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface DisconnectEventDoc extends mongoose.Document {
+	studioId?: string // Studio of the key that sent it; server ids are per studio (unset: platform admin key)
+	playerId: string
+	matchId?: string
+	serverId: string
+	regionId?: string
+	occurredAt: Date
+	incidentId?: string
+}
+
+const DisconnectEventSchema = new Schema<DisconnectEventDoc>(
+	{
+		studioId: String,
+		playerId: { type: String, required: true },
+		matchId: String,
+		serverId: { type: String, required: true },
+		regionId: String,
+		occurredAt: { type: Date, required: true },
+		incidentId: { type: String, index: true },
+	},
+	{ timestamps: true }
+)
+
+DisconnectEventSchema.index({ studioId: 1, serverId: 1, occurredAt: 1 })
+
+export const DisconnectEvent =
+	models.DisconnectEvent || model<DisconnectEventDoc>("DisconnectEvent", DisconnectEventSchema)
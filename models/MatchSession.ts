@@ -0,0 +1,59 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface MatchSessionDisconnect {
+	playerId: string
+	at: Date
+	// Unset while the disconnect is being classified
+	decisionId?: string
+	type?: string
+	lossApplied?: boolean
+}
+
+export interface MatchSessionDoc extends mongoose.Document {
+	studioId?: string // Studio of the key that opened the session (its policies resolve)
+	matchId: string
+	policyId: string
+	serverId?: string
+	regionId?: string
+	teams: Record<string, string[]> // teamId -> player ids (empty: every player is their own team)
+	maxScoreDifference?: number // Score lead that counts as a fully decided match
+	scores: Record<string, number> // Latest scoreboard, keyed by team id (or player id)
+	status: "active" | "closed"
+	disconnects: MatchSessionDisconnect[]
+	lastHeartbeatAt?: Date
+	closedAt?: Date
+}
+
+const MatchSessionDisconnectSchema = new Schema<MatchSessionDisconnect>(
+	{
+		playerId: { type: String, required: true },
+		at: { type: Date, required: true },
+		decisionId: String,
+		type: String,
+		lossApplied: Boolean,
+	},
+	{ _id: false }
+)
+
+const MatchSessionSchema = new Schema<MatchSessionDoc>(
+	{
+		studioId: String,
+		matchId: { type: String, required: true, index: true },
+		policyId: { type: String, required: true },
+		serverId: String,
+		regionId: String,
+		teams: { type: Schema.Types.Mixed, default: {} },
+		maxScoreDifference: Number,
+		scores: { type: Schema.Types.Mixed, default: {} },
+		status: { type: String, enum: ["active", "closed"], default: "active", index: true },
+		disconnects: { type: [MatchSessionDisconnectSchema], default: [] },
+		lastHeartbeatAt: Date,
+		closedAt: Date,
+	},
+	{ timestamps: true, minimize: false }
+)
+
+// Sessions nobody touched for 30 days (closed, or abandoned without closing) expire
+MatchSessionSchema.index({ updatedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 })
+
+export const MatchSession = models.MatchSession || model<MatchSessionDoc>("MatchSession", MatchSessionSchema)
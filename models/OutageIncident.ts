@@ -0,0 +1,36 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface OutageIncidentDoc extends mongoose.Document {
+	studioId?: string // Studio of the key that sent the events (unset: platform admin key)
+	serverId: string
+	regionId?: string
+	windowStart?: Date // Start of the outage window the incident was opened in (idempotency key with serverId)
+	startedAt: Date
+	endedAt: Date
+	playerIds: string[]
+	matchIds: string[]
+}
+
+const OutageIncidentSchema = new Schema<OutageIncidentDoc>(
+	{
+		studioId: String,
+		serverId: { type: String, required: true },
+		regionId: { type: String, index: true },
+		windowStart: Date,
+		startedAt: { type: Date, required: true, index: true },
+		endedAt: { type: Date, required: true },
+		playerIds: { type: [String], default: [] },
+		matchIds: { type: [String], default: [] },
+	},
+	{ timestamps: true }
+)
+
+OutageIncidentSchema.index({ studioId: 1, serverId: 1, endedAt: -1 })
+// One incident per server and window, even when concurrent ingests open it
+OutageIncidentSchema.index(
+	{ studioId: 1, serverId: 1, windowStart: 1 },
+	{ unique: true, partialFilterExpression: { windowStart: { $exists: true } } }
+)
+
+export const OutageIncident =
+	models.OutageIncident || model<OutageIncidentDoc>("OutageIncident", OutageIncidentSchema)
@@ -0,0 +1,71 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface PendingDecisionDoc extends mongoose.Document {
+	playerId: string
+	matchId?: string
+	status: "pending" | "reconnected" | "finalized"
+	disconnectedAt: Date
+	graceWindowMs: number
+	expiresAt: Date
+	caller: {
+		id?: string
+		ip?: string
+		userAgent?: string
+		studioId?: string
+		apiKeyId?: string
+	}
+	outage?: {
+		serverId?: string
+		regionId?: string
+	}
+	metadata?: {
+		regionId?: string
+		platform?: string
+	}
+	signals: Record<string, unknown> // DisconnectSignals as received
+	policy: Record<string, unknown> // ClassificationPolicy snapshot used at finalization
+	provisional: Record<string, unknown> // ClassificationResult if the window expires
+	reconnectedAt?: Date
+	resolvedAt?: Date
+	decisionId?: string
+	result?: Record<string, unknown> // Final ClassificationResult
+}
+
+const PendingDecisionSchema = new Schema<PendingDecisionDoc>(
+	{
+		playerId: { type: String, required: true, index: true },
+		matchId: { type: String, index: true },
+		status: { type: String, enum: ["pending", "reconnected", "finalized"], default: "pending" },
+		disconnectedAt: { type: Date, required: true },
+		graceWindowMs: { type: Number, required: true },
+		expiresAt: { type: Date, required: true },
+		caller: {
+			id: String,
+			ip: String,
+			userAgent: String,
+			studioId: String,
+			apiKeyId: String,
+		},
+		outage: {
+			serverId: String,
+			regionId: String,
+		},
+		metadata: {
+			regionId: String,
+			platform: String,
+		},
+		signals: { type: Schema.Types.Mixed, required: true },
+		policy: { type: Schema.Types.Mixed, required: true },
+		provisional: { type: Schema.Types.Mixed, required: true },
+		reconnectedAt: Date,
+		resolvedAt: Date,
+		decisionId: String,
+		result: Schema.Types.Mixed,
+	},
+	{ timestamps: true }
+)
+
+PendingDecisionSchema.index({ status: 1, expiresAt: 1 })
+
+export const PendingDecision =
+	models.PendingDecision || model<PendingDecisionDoc>("PendingDecision", PendingDecisionSchema)
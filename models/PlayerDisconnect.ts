@@ -0,0 +1,35 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface PlayerDisconnectDoc extends mongoose.Document {
+	studioId?: string // Studio of the key that classified it; player ids are per studio (unset: platform admin key)
+	playerId: string
+	type: "intentional_disconnect" | "unintentional_disconnect" | "suspected_intentional" | "client_crash"
+	lossApplied: boolean
+	competitiveAdvantage?: number
+	fairnessConfidence?: number
+	policyId?: string
+	penaltyLevel?: number
+}
+
+const PlayerDisconnectSchema = new Schema<PlayerDisconnectDoc>(
+	{
+		studioId: String,
+		playerId: { type: String, required: true, index: true },
+		type: {
+			type: String,
+			enum: ["intentional_disconnect", "unintentional_disconnect", "suspected_intentional", "client_crash"],
+			required: true,
+		},
+		lossApplied: { type: Boolean, required: true },
+		competitiveAdvantage: Number,
+		fairnessConfidence: Number,
+		policyId: String,
+		penaltyLevel: Number,
+	},
+	{ timestamps: true }
+)
+
+PlayerDisconnectSchema.index({ studioId: 1, playerId: 1, createdAt: -1 })
+
+export const PlayerDisconnect =
+	models.PlayerDisconnect || model<PlayerDisconnectDoc>("PlayerDisconnect", PlayerDisconnectSchema)
@@ -0,0 +1,73 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface PreservationDecisionDoc extends mongoose.Document {
+	playerId?: string
+	matchId?: string
+	type: "none" | "intentional_disconnect" | "unintentional_disconnect" | "suspected_intentional" | "client_crash" | "reconnected"
+	lossApplied: boolean
+	policyId: string
+	policyVersion: number
+	caller: {
+		id?: string
+		ip?: string
+		userAgent?: string
+		studioId?: string
+		apiKeyId?: string
+	}
+	serverId?: string
+	regionId?: string
+	platform?: string
+	disconnectedAt?: Date
+	incidentId?: string
+	signals: Record<string, unknown> // DisconnectSignals as received
+	result: Record<string, unknown> // ClassificationResult as returned
+	overturned?: {
+		appealId?: string
+		incidentId?: string
+		at: Date
+	}
+}
+
+const PreservationDecisionSchema = new Schema<PreservationDecisionDoc>(
+	{
+		playerId: { type: String, index: true },
+		matchId: { type: String, index: true },
+		type: {
+			type: String,
+			enum: ["none", "intentional_disconnect", "unintentional_disconnect", "suspected_intentional", "client_crash", "reconnected"],
+			required: true,
+			index: true,
+		},
+		lossApplied: { type: Boolean, required: true },
+		policyId: { type: String, required: true },
+		policyVersion: { type: Number, required: true },
+		caller: {
+			id: String,
+			ip: String,
+			userAgent: String,
+			studioId: String,
+			apiKeyId: String,
+		},
+		serverId: String,
+		regionId: String,
+		platform: String,
+		disconnectedAt: Date,
+		incidentId: { type: String, index: true },
+		signals: { type: Schema.Types.Mixed, required: true },
+		result: { type: Schema.Types.Mixed, required: true },
+		overturned: {
+			appealId: String,
+			incidentId: String,
+			at: { type: Date, index: true },
+		},
+	},
+	{ timestamps: true }
+)
+
+PreservationDecisionSchema.index({ playerId: 1, createdAt: -1 })
+PreservationDecisionSchema.index({ serverId: 1, disconnectedAt: 1 })
+PreservationDecisionSchema.index({ "caller.studioId": 1, createdAt: -1 })
+PreservationDecisionSchema.index({ "overturned.at": 1, _id: 1 })
+
+export const PreservationDecision =
+	models.PreservationDecision || model<PreservationDecisionDoc>("PreservationDecision", PreservationDecisionSchema)
@@ -0,0 +1,117 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface PreservationPolicyDoc extends mongoose.Document {
+	studioId?: string // Owning studio (unset: registered with the bootstrap admin key)
+	policyId: string
+	name: string
+	version: number
+	thresholds: {
+		highPacketLoss: number
+		highLatencyMs: number
+		timeoutMs: number
+	}
+	contextual: {
+		winningAdvantage: number
+		losingAdvantage: number
+		settledConfidence: number
+		uncertainConfidence: number
+	}
+	trend?: {
+		sustainedSamples: number
+		jitterMs: number
+		lossBurstSamples: number
+	}
+	offender?: {
+		minNetworkDrops: number
+		baselineLosingRate: number
+		significance: number
+		penaltyLadder: { name: string; lossApplied: boolean }[]
+	}
+	crash?: {
+		outcome: "preserve" | "apply_loss"
+		heartbeatTimeoutMs: number
+	}
+	outage?: {
+		minPlayers: number
+		windowMs: number
+	}
+	defaultOutcome: "preserve" | "apply_loss"
+	outcomes?: {
+		type: string
+		lossApplied?: boolean
+		advantage?: "winning" | "even" | "losing"
+		match?: "uncertain" | "open" | "settled"
+		outcome: {
+			severity: "none" | "minor" | "standard" | "severe"
+			rankPointMultiplier: number
+			cooldownMinutes: number
+			teammateLossForgiveness: boolean
+		}
+	}[]
+}
+
+const PreservationPolicySchema = new Schema<PreservationPolicyDoc>(
+	{
+		studioId: String,
+		policyId: { type: String, required: true },
+		name: { type: String, required: true },
+		version: { type: Number, required: true },
+		thresholds: {
+			highPacketLoss: { type: Number, required: true },
+			highLatencyMs: { type: Number, required: true },
+			timeoutMs: { type: Number, required: true },
+		},
+		contextual: {
+			winningAdvantage: { type: Number, required: true },
+			losingAdvantage: { type: Number, required: true },
+			settledConfidence: { type: Number, required: true },
+			uncertainConfidence: { type: Number, required: true },
+		},
+		trend: {
+			sustainedSamples: Number,
+			jitterMs: Number,
+			lossBurstSamples: Number,
+		},
+		offender: {
+			minNetworkDrops: Number,
+			baselineLosingRate: Number,
+			significance: Number,
+			penaltyLadder: [{ _id: false, name: String, lossApplied: Boolean }],
+		},
+		crash: {
+			outcome: { type: String, enum: ["preserve", "apply_loss"] },
+			heartbeatTimeoutMs: Number,
+		},
+		outage: {
+			minPlayers: Number,
+			windowMs: Number,
+		},
+		defaultOutcome: { type: String, enum: ["preserve", "apply_loss"], default: "preserve" },
+		// Left unset (not []) on policies registered before graduated outcomes, so they get the default rules
+		outcomes: {
+			type: [
+				{
+					_id: false,
+					type: { type: String, required: true },
+					lossApplied: Boolean,
+					advantage: { type: String, enum: ["winning", "even", "losing"] },
+					match: { type: String, enum: ["uncertain", "open", "settled"] },
+					outcome: {
+						severity: { type: String, enum: ["none", "minor", "standard", "severe"], required: true },
+						rankPointMultiplier: { type: Number, required: true },
+						cooldownMinutes: { type: Number, required: true },
+						teammateLossForgiveness: { type: Boolean, required: true },
+					},
+				},
+			],
+			default: undefined,
+		},
+	},
+	{ timestamps: true }
+)
+
+// Policy ids are unique per studio, not globally
+PreservationPolicySchema.index({ studioId: 1, policyId: 1 }, { unique: true })
+
+export const PreservationPolicy =
+	models.PreservationPolicy || model<PreservationPolicyDoc>("PreservationPolicy", PreservationPolicySchema)
@@ -0,0 +1,25 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface PreservationWebhookDoc extends mongoose.Document {
+	studioId?: string // Owning studio; only its decisions are delivered (unset: bootstrap admin key)
+	name: string
+	url: string
+	secret: string // HMAC-SHA256 signing secret
+	events: string[] // Subscribed event types; empty = all events
+	active: boolean
+}
+
+const PreservationWebhookSchema = new Schema<PreservationWebhookDoc>(
+	{
+		studioId: { type: String, index: true },
+		name: { type: String, required: true },
+		url: { type: String, required: true },
+		secret: { type: String, required: true },
+		events: { type: [String], default: [] },
+		active: { type: Boolean, default: true, index: true },
+	},
+	{ timestamps: true }
+)
+
+export const PreservationWebhook =
+	models.PreservationWebhook || model<PreservationWebhookDoc>("PreservationWebhook", PreservationWebhookSchema)
@@ -0,0 +1,22 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface RateLimitWindowDoc extends mongoose.Document {
+	keyId: string
+	windowStart: Date
+	count: number
+	expiresAt: Date
+}
+
+const RateLimitWindowSchema = new Schema<RateLimitWindowDoc>({
+	keyId: { type: String, required: true },
+	windowStart: { type: Date, required: true },
+	count: { type: Number, default: 0 },
+	expiresAt: { type: Date, required: true },
+})
+
+RateLimitWindowSchema.index({ keyId: 1, windowStart: 1 }, { unique: true })
+// Windows are only needed while they are current
+RateLimitWindowSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+
+export const RateLimitWindow =
+	models.RateLimitWindow || model<RateLimitWindowDoc>("RateLimitWindow", RateLimitWindowSchema)
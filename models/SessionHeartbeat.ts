@@ -0,0 +1,29 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface SessionHeartbeatDoc extends mongoose.Document {
+	sessionId: string
+	playerId: string
+	at: Date
+	latencyMs: number
+	packetLossRate: number
+	isConnected: boolean
+}
+
+const SessionHeartbeatSchema = new Schema<SessionHeartbeatDoc>(
+	{
+		sessionId: { type: String, required: true },
+		playerId: { type: String, required: true },
+		at: { type: Date, required: true },
+		latencyMs: { type: Number, required: true },
+		packetLossRate: { type: Number, required: true },
+		isConnected: { type: Boolean, required: true },
+	},
+	{ timestamps: true }
+)
+
+SessionHeartbeatSchema.index({ sessionId: 1, playerId: 1, at: -1 })
+// Timelines are only needed while the match (and its classification) is fresh; score samples expire alongside
+SessionHeartbeatSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 })
+
+export const SessionHeartbeat =
+	models.SessionHeartbeat || model<SessionHeartbeatDoc>("SessionHeartbeat", SessionHeartbeatSchema)
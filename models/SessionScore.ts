@@ -0,0 +1,22 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface SessionScoreDoc extends mongoose.Document {
+	sessionId: string
+	at: Date // Time of the heartbeat that carried the scoreboard
+	scores: Record<string, number> // Keyed by team id (or player id)
+}
+
+const SessionScoreSchema = new Schema<SessionScoreDoc>(
+	{
+		sessionId: { type: String, required: true },
+		at: { type: Date, required: true },
+		scores: { type: Schema.Types.Mixed, required: true },
+	},
+	{ timestamps: true, minimize: false }
+)
+
+SessionScoreSchema.index({ sessionId: 1, at: -1 })
+// Kept as long as the heartbeats they are read alongside
+SessionScoreSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 })
+
+export const SessionScore = models.SessionScore || model<SessionScoreDoc>("SessionScore", SessionScoreSchema)
@@ -0,0 +1,16 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface StudioDoc extends mongoose.Document {
+	name: string
+	active: boolean
+}
+
+const StudioSchema = new Schema<StudioDoc>(
+	{
+		name: { type: String, required: true, unique: true },
+		active: { type: Boolean, default: true },
+	},
+	{ timestamps: true }
+)
+
+export const Studio = models.Studio || model<StudioDoc>("Studio", StudioSchema)
@@ -0,0 +1,33 @@
+import mongoose, { Schema, model, models } from "mongoose"
+
+export interface WebhookDeliveryDoc extends mongoose.Document {
+	webhookId: string
+	event: string
+	payload: Record<string, unknown>
+	status: "pending" | "delivered" | "failed"
+	attempts: number
+	nextAttemptAt?: Date
+	lastStatusCode?: number
+	lastError?: string
+	deliveredAt?: Date
+}
+
+const WebhookDeliverySchema = new Schema<WebhookDeliveryDoc>(
+	{
+		webhookId: { type: String, required: true, index: true },
+		event: { type: String, required: true },
+		payload: { type: Schema.Types.Mixed, required: true },
+		status: { type: String, enum: ["pending", "delivered", "failed"], default: "pending" },
+		attempts: { type: Number, default: 0 },
+		nextAttemptAt: Date,
+		lastStatusCode: Number,
+		lastError: String,
+		deliveredAt: Date,
+	},
+	{ timestamps: true }
+)
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 })
+
+export const WebhookDelivery =
+	models.WebhookDelivery || model<WebhookDeliveryDoc>("WebhookDelivery", WebhookDeliverySchema)
@@ -0,0 +1,160 @@
+/**
+ * Preservation Core - Policy What-If Simulator
+ *
+ * Replays a JSONL corpus of disconnect signals through the current policy and a
+ * candidate policy and prints how many players would flip between preserved and
+ * penalized, with example cases:
+ *
+ * node scripts/simulate-policy.js --corpus disconnects.jsonl --candidate candidate.json
+ *
+ * Options:
+ *   --corpus <file>     One DisconnectSignals (or { decisionId?, playerId?, signals }) per line.
+ *                       Export stored decisions with GET /api/preservation-core/decisions.
+ *   --candidate <file>  Candidate policy JSON: overrides applied to the baseline
+ *                       (same shape as POST /api/preservation-core/policies)
+ *   --baseline <file>   Baseline policy JSON (default: the built-in default policy)
+ *   --examples <n>      Examples per outcome transition (default: 5)
+ *   --json              Print the raw report instead of the summary
+ *
+ * Exits with 1 if the inputs are invalid.
+ */
+
+// The classification engine is TypeScript: transpile it on the fly with the
+// project's compiler so the script runs exactly the code the API runs.
+const fs = require('fs')
+const path = require('path')
+const Module = require('module')
+const ts = require('typescript')
+
+const root = path.resolve(__dirname, '..')
+const resolveFilename = Module._resolveFilename
+Module._resolveFilename = function (request, parent, ...rest) {
+  if (request.startsWith('@/')) request = path.join(root, request.slice(2))
+  try {
+    return resolveFilename.call(this, request, parent, ...rest)
+  } catch (err) {
+    try {
+      return resolveFilename.call(this, request + '.ts', parent, ...rest)
+    } catch {
+      throw err
+    }
+  }
+}
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename,
+  })
+  module._compile(outputText, filename)
+}
+
+const { DEFAULT_POLICY, validatePolicy } = require('../lib/preservation-core')
+const {
+  DEFAULT_EXAMPLES_PER_TRANSITION,
+  SIMULATION_OUTCOMES,
+  derivePolicy,
+  parseCorpus,
+  simulatePolicies,
+} = require('../lib/preservation-core-simulator')
+
+function parseArgs(argv) {
+  const args = { examples: DEFAULT_EXAMPLES_PER_TRANSITION, json: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--json') args.json = true
+    else if (arg === '--corpus' || arg === '--candidate' || arg === '--baseline') args[arg.slice(2)] = argv[++i]
+    else if (arg === '--examples') args.examples = Number(argv[++i])
+    else fail(`Unknown option: ${arg}`)
+  }
+  if (!args.corpus) fail('--corpus is required')
+  if (!args.candidate) fail('--candidate is required')
+  if (!Number.isInteger(args.examples) || args.examples < 0) fail('--examples must be a non-negative integer')
+  return args
+}
+
+function fail(message, details = []) {
+  console.error(`❌ ${message}`)
+  for (const detail of details) console.error(`   - ${detail}`)
+  process.exit(1)
+}
+
+function readJson(file) {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (err) {
+    fail(`Cannot read ${file}: ${err.message}`)
+  }
+}
+
+function loadPolicy(file, base, label) {
+  const policy = derivePolicy(base, readJson(file))
+  const validation = validatePolicy(policy)
+  if (!validation.valid) fail(`Invalid ${label} policy (${file})`, validation.errors)
+  return policy
+}
+
+const args = parseArgs(process.argv.slice(2))
+const baseline = args.baseline ? loadPolicy(args.baseline, DEFAULT_POLICY, 'baseline') : DEFAULT_POLICY
+const candidate = loadPolicy(args.candidate, baseline, 'candidate')
+
+let text
+try {
+  text = fs.readFileSync(args.corpus, 'utf8')
+} catch (err) {
+  fail(`Cannot read ${args.corpus}: ${err.message}`)
+}
+const corpus = parseCorpus(text)
+if (corpus.errors.length) fail(`Invalid corpus (${args.corpus})`, corpus.errors.slice(0, 20))
+if (!corpus.cases.length) fail(`Corpus is empty (${args.corpus})`)
+
+const report = simulatePolicies(corpus.cases, baseline, candidate, args.examples)
+
+if (args.json) {
+  console.log(JSON.stringify(report, null, 2))
+  process.exit(0)
+}
+
+const pct = (count) => `${((count / report.cases) * 100).toFixed(1)}%`
+const cell = (value, width = 15) => String(value).padStart(width)
+
+console.log('='.repeat(70))
+console.log('Preservation Core - Policy What-If Simulation')
+console.log('='.repeat(70))
+console.log(`Corpus:    ${args.corpus} (${report.cases} cases)`)
+console.log(`Baseline:  ${baseline.id} v${baseline.version}`)
+console.log(`Candidate: ${candidate.id} v${candidate.version}`)
+console.log()
+
+console.log('OUTCOME MATRIX (rows: baseline, columns: candidate)')
+console.log('-'.repeat(70))
+console.log(''.padEnd(15) + SIMULATION_OUTCOMES.map((outcome) => cell(outcome)).join('') + cell('baseline total'))
+for (const from of SIMULATION_OUTCOMES) {
+  console.log(from.padEnd(15) + SIMULATION_OUTCOMES.map((to) => cell(report.matrix[from][to])).join('') + cell(report.totals.baseline[from]))
+}
+console.log('candidate'.padEnd(15) + SIMULATION_OUTCOMES.map((outcome) => cell(report.totals.candidate[outcome])).join(''))
+console.log()
+
+console.log('CHANGES')
+console.log('-'.repeat(70))
+console.log(`  Outcome changed:          ${report.changed} (${pct(report.changed)})`)
+console.log(`  Preserved → penalized:    ${report.preservedToPenalized} (${pct(report.preservedToPenalized)})`)
+console.log(`  Penalized → preserved:    ${report.penalizedToPreserved} (${pct(report.penalizedToPreserved)})`)
+console.log()
+
+if (report.examples.length) {
+  console.log('EXAMPLES')
+  console.log('-'.repeat(70))
+  for (const example of report.examples) {
+    console.log(`  ${example.caseId}${example.playerId ? ` (${example.playerId})` : ''}: ${example.from} → ${example.to}`)
+    console.log(`    baseline:  ${example.baseline.type} (${example.baseline.decidingReason})`)
+    console.log(`    candidate: ${example.candidate.type} (${example.candidate.decidingReason})`)
+    console.log(`    signals:   ${JSON.stringify(example.signals)}`)
+  }
+  console.log()
+}
+
+if (report.changed === 0) {
+  console.log('✅ No outcome changes: the candidate policy decides every case the same way')
+} else {
+  console.log(`⚠️  ${report.changed} of ${report.cases} outcomes would change`)
+}
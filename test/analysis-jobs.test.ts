@@ -0,0 +1,109 @@
+/**
+ * Analysis Jobs - Submission and Status Tests
+ *
+ * POST /api/analyze rejects bad submissions before anything is queued, and
+ * only queues when the database is there; status and stream routes 404 on
+ * unknown analyses. No database is needed here.
+ */
+
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { POST } from '../app/api/analyze/route'
+import { GET } from '../app/api/analysis/[id]/status/route'
+import { GET as STREAM } from '../app/api/analysis/[id]/stream/route'
+import { jobProgress, workerConcurrency } from '../lib/analysis-jobs'
+import { UPLOAD_DIR } from '../lib/video-frames'
+
+async function analyze(body: Record<string, unknown>) {
+  const res = await POST(
+    new NextRequest('http://localhost/api/analyze', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  )
+  return { status: res.status, body: await res.json() }
+}
+
+describe('Analysis Jobs - Progress', () => {
+  test('Decoding fills most of the bar; later stages follow in order', () => {
+    expect(jobProgress('decode')).toBe(5)
+    expect(jobProgress('decode', 0.5)).toBe(45)
+    expect(jobProgress('decode', 2)).toBe(85)
+    expect(jobProgress('hud')).toBeGreaterThan(jobProgress('decode', 1))
+    expect(jobProgress('detect')).toBeGreaterThan(jobProgress('hud'))
+    expect(jobProgress('rules')).toBeGreaterThan(jobProgress('detect'))
+    expect(jobProgress('rules')).toBeLessThan(100)
+  })
+
+  test('Worker concurrency defaults to one job', () => {
+    const previous = process.env.ANALYSIS_WORKER_CONCURRENCY
+    try {
+      delete process.env.ANALYSIS_WORKER_CONCURRENCY
+      expect(workerConcurrency()).toBe(1)
+      process.env.ANALYSIS_WORKER_CONCURRENCY = '3'
+      expect(workerConcurrency()).toBe(3)
+      process.env.ANALYSIS_WORKER_CONCURRENCY = '0'
+      expect(workerConcurrency()).toBe(1)
+    } finally {
+      if (previous === undefined) delete process.env.ANALYSIS_WORKER_CONCURRENCY
+      else process.env.ANALYSIS_WORKER_CONCURRENCY = previous
+    }
+  })
+})
+
+describe('Analysis Jobs - Submission', () => {
+  const uploadId = randomUUID()
+  const uploadPath = path.join(UPLOAD_DIR, `${uploadId}.mp4`)
+  let createdDir = false
+  const previousUri = process.env.MONGODB_URI
+
+  beforeAll(async () => {
+    createdDir = !(await fs.stat(UPLOAD_DIR).catch(() => null))
+    await fs.mkdir(UPLOAD_DIR, { recursive: true })
+    await fs.writeFile(uploadPath, Buffer.alloc(16))
+    delete process.env.MONGODB_URI
+  })
+  afterAll(async () => {
+    await fs.rm(uploadPath, { force: true })
+    // Only if empty: other test files may be using it
+    if (createdDir) await fs.rmdir(UPLOAD_DIR).catch(() => {})
+    if (previousUri !== undefined) process.env.MONGODB_URI = previousUri
+  })
+
+  test('Invalid submissions are rejected before queueing', async () => {
+    expect((await analyze({ uploadId })).status).toBe(400)
+    expect(await analyze({ game: 5, uploadId })).toEqual({ status: 400, body: { error: 'game and sessionId must be strings' } })
+    expect((await analyze({ game: 'UFC 5', uploadId, sessionId: ['a'] })).status).toBe(400)
+    expect(await analyze({ game: 'UFC 5', link: 'https://youtu.be/abc' })).toMatchObject({
+      status: 422,
+      body: { error: expect.stringMatching(/upload the MP4/) },
+    })
+    expect((await analyze({ game: 'UFC 5', uploadId, sampleFps: 60 })).status).toBe(400)
+    expect(await analyze({ game: 'UFC 5', uploadId: randomUUID() })).toEqual({ status: 404, body: { error: 'Upload not found' } })
+    expect((await analyze({ game: 'UFC 5', uploadId: '../../etc/passwd' })).status).toBe(404)
+  })
+
+  test('A valid submission needs the database to queue', async () => {
+    expect(await analyze({ game: 'UFC 5', uploadId })).toMatchObject({ status: 503 })
+  })
+
+  test('Status of an unknown analysis is a 404', async () => {
+    const res = await GET(new NextRequest('http://localhost/api/analysis/nope/status'), {
+      params: Promise.resolve({ id: 'nope' }),
+    })
+
+    expect(res.status).toBe(404)
+  })
+
+  test('Streaming an unknown analysis is a 404, not an open stream', async () => {
+    const res = await STREAM(new NextRequest('http://localhost/api/analysis/nope/stream'), {
+      params: Promise.resolve({ id: 'nope' }),
+    })
+
+    expect(res.status).toBe(404)
+    expect(res.headers.get('content-type')).toMatch(/json/)
+  })
+})
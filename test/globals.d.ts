@@ -0,0 +1 @@
+/// <reference types="vitest/globals" />
@@ -0,0 +1,184 @@
+/**
+ * HUD Reader Tests
+ *
+ * Bars and digits are drawn into synthetic RGB frames at the layout's
+ * regions, then read back; the resulting HUD series drives the stamina and
+ * health detectors.
+ */
+
+import { HUD_LAYOUTS, type BarRegion, type DigitsRegion } from '../lib/hud-layouts'
+import { DEFAULT_DIGIT_TEMPLATES, readBar, readDigits, readHud, toHudReads } from '../lib/hud-reader'
+import { hudDropDetector, hudThresholdDetector, type FrameSample } from '../lib/video-detectors'
+import { buildTimeline, hudAt, hudSeries } from '../lib/video-analysis'
+import { buildAnalysisEvents } from '../lib/analysis-report'
+import type { VideoFrame } from '../lib/video-frames'
+
+const WIDTH = 640
+const HEIGHT = 360
+const UFC = HUD_LAYOUTS['UFC 5']
+
+function blankFrame(time = 0): VideoFrame {
+  return { index: 0, time, width: WIDTH, height: HEIGHT, channels: 3, data: new Uint8Array(WIDTH * HEIGHT * 3).fill(20) }
+}
+
+function fillRect(frame: VideoFrame, x: number, y: number, w: number, h: number, [r, g, b]: number[]) {
+  for (let row = y; row < y + h; row++) {
+    for (let col = x; col < x + w; col++) {
+      const i = (row * frame.width + col) * 3
+      frame.data[i] = r
+      frame.data[i + 1] = g
+      frame.data[i + 2] = b
+    }
+  }
+}
+
+/** Draws a bar region `fill` full, from its anchored side */
+function drawBar(frame: VideoFrame, region: BarRegion, fill: number, track?: number[]) {
+  const x = Math.round(region.x * WIDTH)
+  const y = Math.round(region.y * HEIGHT)
+  const w = Math.round((region.x + region.width) * WIDTH) - x
+  const h = Math.round((region.y + region.height) * HEIGHT) - y
+  if (track) fillRect(frame, x, y, w, h, track)
+  if (region.direction === 'btt') fillRect(frame, x, y + h - Math.round(h * fill), w, Math.round(h * fill), region.fill)
+  else if (region.direction === 'rtl') fillRect(frame, x + w - Math.round(w * fill), y, Math.round(w * fill), h, region.fill)
+  else fillRect(frame, x, y, Math.round(w * fill), h, region.fill)
+}
+
+/** Renders text in the 5x7 template font, `scale` pixels per cell, inside the region */
+function drawText(frame: VideoFrame, region: DigitsRegion, text: string, scale = 2) {
+  let x = Math.round(region.x * WIDTH) + 1
+  const y = Math.round(region.y * HEIGHT) + 1
+  for (const char of text) {
+    if (char === ':') {
+      fillRect(frame, x, y + 2 * scale, scale, scale, [255, 255, 255])
+      fillRect(frame, x, y + 4 * scale, scale, scale, [255, 255, 255])
+      x += 2 * scale
+      continue
+    }
+    DEFAULT_DIGIT_TEMPLATES[char].forEach((row, r) =>
+      [...row].forEach((cell, c) => {
+        if (cell === '1') fillRect(frame, x + c * scale, y + r * scale, scale, scale, [255, 255, 255])
+      })
+    )
+    x += 6 * scale
+  }
+}
+
+describe('HUD Reader - Bars', () => {
+  const bar: BarRegion = { kind: 'bar', x: 0.1, y: 0.1, width: 0.5, height: 0.04, fill: [200, 36, 36] }
+
+  test('Fill is measured from the anchored side', () => {
+    for (const direction of ['ltr', 'rtl'] as const) {
+      const frame = blankFrame()
+      drawBar(frame, { ...bar, direction }, 0.6)
+      expect(readBar(frame, { ...bar, direction })).toBeCloseTo(0.6, 2)
+    }
+
+    const vertical: BarRegion = { ...bar, width: 0.02, height: 0.3, direction: 'btt' }
+    const frame = blankFrame()
+    drawBar(frame, vertical, 0.25)
+    expect(readBar(frame, vertical)).toBeCloseTo(0.25, 1)
+  })
+
+  test('A hidden bar reads as undefined, an empty one as 0', () => {
+    expect(readBar(blankFrame(), bar)).toBeUndefined()
+
+    const withTrack: BarRegion = { ...bar, track: [60, 60, 60] }
+    const empty = blankFrame()
+    drawBar(empty, withTrack, 0, [60, 60, 60])
+    expect(readBar(empty, withTrack)).toBe(0)
+    expect(readBar(blankFrame(), withTrack)).toBeUndefined()
+  })
+})
+
+describe('HUD Reader - Digits', () => {
+  const clock: DigitsRegion = { kind: 'digits', x: 0.4, y: 0.02, width: 0.2, height: 0.08, format: 'm:ss' }
+
+  test('Clocks read as seconds and plain numbers as shown', () => {
+    for (const [text, seconds] of [['4:59', 299], ['1:07', 67], ['0:10', 10], ['2:38', 158]] as const) {
+      const frame = blankFrame()
+      drawText(frame, clock, text)
+      expect(readDigits(frame, clock)).toBe(seconds)
+    }
+
+    const playClock: DigitsRegion = { ...clock, format: 'ss' }
+    const frame = blankFrame()
+    drawText(frame, playClock, '36', 3)
+    expect(readDigits(frame, playClock)).toBe(36)
+  })
+
+  test('No text, or text that is not digits, reads as undefined', () => {
+    expect(readDigits(blankFrame(), clock)).toBeUndefined()
+
+    const frame = blankFrame()
+    fillRect(frame, Math.round(clock.x * WIDTH) + 2, Math.round(clock.y * HEIGHT) + 2, 10, 14, [255, 255, 255])
+    expect(readDigits(frame, clock)).toBeUndefined()
+  })
+})
+
+describe('HUD Reader - Series and detectors', () => {
+  function ufcFrame(time: number, stamina: number, health: number, clockText: string): VideoFrame {
+    const frame = blankFrame(time)
+    drawBar(frame, UFC.regions.stamina as BarRegion, stamina)
+    drawBar(frame, UFC.regions.health as BarRegion, health)
+    drawText(frame, UFC.regions.timer as DigitsRegion, clockText)
+    return frame
+  }
+
+  test('The UFC 5 layout reads stamina, health and the round clock', () => {
+    const reading = readHud(ufcFrame(0, 0.8, 0.5, '3:12'), UFC)
+
+    expect(reading.stamina).toBeCloseTo(0.8, 1)
+    expect(reading.health).toBeCloseTo(0.5, 1)
+    expect(reading.timer).toBe(192)
+    expect(toHudReads(reading, UFC)).toEqual({ stamina: 80, health: 50, timer: 192 })
+  })
+
+  test('Timeline HUD series drives stamina_drop and the event hudReads', async () => {
+    async function* frames() {
+      const stamina = [0.9, 0.8, 0.6, 0.4, 0.35, 0.3, 0.3, 0.5]
+      for (const [i, value] of stamina.entries()) yield { ...ufcFrame(i / 2, value, 0.9, '4:00'), index: i }
+    }
+    const timeline = await buildTimeline(frames(), UFC)
+    const detections = hudThresholdDetector({ field: 'stamina', below: 0.45 })(timeline, {
+      game: 'UFC 5',
+      tag: 'stamina_drop',
+      fps: 2,
+      durationSec: 4,
+    })
+
+    expect(detections).toHaveLength(1)
+    expect(detections[0].time).toBe(1.5)
+
+    const series = hudSeries(timeline, UFC)
+    expect(hudAt(series, 1.5)).toMatchObject({ stamina: 40, health: 90, timer: 240 })
+    expect(hudAt(series, 10)).toBeUndefined()
+
+    const [event] = buildAnalysisEvents('UFC 5', [{ ...detections[0], tag: 'stamina_drop' }], [], series)
+    expect(event.hudReads).toMatchObject({ stamina: 40 })
+    expect(event.whatHappened).toBe('Threw 5 power punches while stamina was below 45%')
+  })
+
+  test('Stamina has to recover before it can trigger again; unread samples are skipped', () => {
+    const samples = (values: (number | undefined)[]): FrameSample[] =>
+      values.map((v, i) => ({ time: i, motion: 0, brightness: 0, cut: false, hud: v === undefined ? {} : { stamina: v } }) as FrameSample)
+    const detect = hudThresholdDetector({ field: 'stamina', below: 0.45, minSec: 1 })
+    const context = { game: 'UFC 5', tag: 'stamina_drop', fps: 1, durationSec: 12 }
+
+    expect(detect(samples([0.3, 0.3, 0.3]), context)).toEqual([])
+    expect(detect(samples([0.6, 0.4, undefined, 0.3, 0.2, 0.6, 0.4, 0.4]), context).map((d) => d.time)).toEqual([1, 6])
+  })
+
+  test('Sharp health losses are detected once per drop', () => {
+    const health = [0.9, 0.9, 0.75, 0.74, 0.74, 0.73, 0.6, 0.6]
+    const timeline: FrameSample[] = health.map((v, i) => ({ time: i / 2, motion: 0, brightness: 0, cut: false, hud: { health: v } }))
+    const detections = hudDropDetector({ field: 'health', minDrop: 0.08 })(timeline, {
+      game: 'UFC 5',
+      tag: 'missed_counter',
+      fps: 2,
+      durationSec: 4,
+    })
+
+    expect(detections.map((d) => d.time)).toEqual([0.5, 2.5])
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * OpenAPI Document Tests
+ *
+ * Every route file must be documented, and the classify request schema must
+ * match the zod schema the route validates against.
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs'
+import { join } from 'path'
+import { buildOpenApiDocument } from '../lib/openapi'
+
+function routeFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name)
+    if (statSync(path).isDirectory()) return routeFiles(path)
+    return name === 'route.ts' ? [path] : []
+  })
+}
+
+describe('OpenAPI document', () => {
+  const doc = buildOpenApiDocument()
+
+  test('Documents every method of every API route', () => {
+    const missing: string[] = []
+    for (const file of routeFiles(join(__dirname, '../app/api'))) {
+      const path = file
+        .slice(file.indexOf('/api/'))
+        .replace(/\/route\.ts$/, '')
+        .replace(/\[(\w+)\]/g, '{$1}')
+      if (path === '/api/openapi') continue
+      const methods = [...readFileSync(file, 'utf8').matchAll(/export (?:async function|const) (GET|POST|PUT|PATCH|DELETE)\b/g)]
+      for (const [, method] of methods) {
+        if (!(doc.paths as any)[path]?.[method.toLowerCase()]) missing.push(`${method} ${path}`)
+      }
+    }
+
+    expect(missing).toEqual([])
+  })
+
+  test('Classify request schema is converted from the zod schema', () => {
+    const schema: any = doc.components.schemas.ClassifyRequest
+
+    expect(schema.required).toEqual(['quitAction'])
+    expect(schema.properties.networkHistory.maxItems).toBe(600)
+    expect(schema.properties.networkBeforeDisconnect.properties.packetLossRate).toMatchObject({ type: 'number', minimum: 0, maximum: 1 })
+    expect(schema.properties.timeoutThreshold.exclusiveMinimum).toBe(0)
+    expect(schema.properties.graceWindowMs.type).toBe('integer')
+    expect(schema.properties.crash.properties.exitCode.type).toBe('integer')
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Preservation Core - Analytics Aggregation Tests
+ */
+
+import {
+  bucketStart,
+  buildAnalyticsMatch,
+  buildBreakdown,
+  buildTimeline,
+  countBuckets,
+  parseAnalyticsFilters,
+  summarizeOutcomes,
+} from '../lib/preservation-core-analytics'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('Preservation Core - Analytics', () => {
+  test('Preserved and penalized only count disconnects', () => {
+    const totals = summarizeOutcomes([
+      { type: 'none', lossApplied: false, count: 6 },
+      { type: 'unintentional_disconnect', lossApplied: false, count: 3 },
+      { type: 'intentional_disconnect', lossApplied: true, count: 1 },
+    ])
+
+    expect(totals).toEqual({
+      decisions: 10,
+      disconnects: 4,
+      preserved: 3,
+      penalized: 1,
+      byType: { none: 6, unintentional_disconnect: 3, intentional_disconnect: 1 },
+      preservedShare: 0.75,
+      penalizedShare: 0.25,
+    })
+  })
+
+  test('Timeline has one point per bucket, empty buckets included', () => {
+    const from = new Date('2026-03-01T10:30:00Z')
+    const to = new Date('2026-03-04T08:00:00Z')
+    const timeline = buildTimeline(
+      [
+        { start: new Date('2026-03-02T00:00:00Z'), type: 'client_crash', lossApplied: false, count: 2 },
+        { start: new Date('2026-03-02T00:00:00Z'), type: 'none', lossApplied: false, count: 5 },
+      ],
+      from,
+      to,
+      'day'
+    )
+
+    expect(timeline.map((point) => point.start)).toEqual([
+      '2026-03-01T00:00:00.000Z',
+      '2026-03-02T00:00:00.000Z',
+      '2026-03-03T00:00:00.000Z',
+      '2026-03-04T00:00:00.000Z',
+    ])
+    expect(timeline[0].decisions).toBe(0)
+    expect(timeline[1]).toMatchObject({ decisions: 7, disconnects: 2, preserved: 2, penalized: 0 })
+  })
+
+  test('Weeks start on Monday like $dateTrunc', () => {
+    // 2026-03-05 is a Thursday
+    expect(new Date(bucketStart(Date.parse('2026-03-05T12:00:00Z'), 'week')).toISOString()).toBe('2026-03-02T00:00:00.000Z')
+    expect(countBuckets(new Date('2026-03-01T00:00:00Z'), new Date('2026-03-02T00:00:00Z'), 'week')).toBe(2)
+    expect(countBuckets(new Date(0), new Date(DAY - 1), 'hour')).toBe(24)
+  })
+
+  test('Breakdown groups missing metadata under "unknown", most decisions first', () => {
+    const groups = buildBreakdown([
+      { key: 'eu-west', type: 'unintentional_disconnect', lossApplied: false, count: 2 },
+      { key: 'eu-west', type: 'none', lossApplied: false, count: 2 },
+      { key: null, type: 'intentional_disconnect', lossApplied: true, count: 5 },
+    ])
+
+    expect(groups.map((group) => group.key)).toEqual(['unknown', 'eu-west'])
+    expect(groups[1]).toMatchObject({ decisions: 4, disconnects: 2, preserved: 2, disconnectRate: 0.5 })
+    expect(groups[0]).toMatchObject({ penalized: 5, disconnectRate: 1 })
+  })
+
+  test('Filters default to the last 30 days and reject inverted ranges', () => {
+    const now = Date.parse('2026-03-31T00:00:00Z')
+    const { filters, errors } = parseAnalyticsFilters(new URLSearchParams({ platform: ' ps5 ' }), now)
+
+    expect(errors).toEqual([])
+    expect(filters.from.toISOString()).toBe('2026-03-01T00:00:00.000Z')
+    expect(filters.platform).toBe('ps5')
+
+    const inverted = parseAnalyticsFilters(new URLSearchParams({ from: '2026-03-10', to: '2026-03-01' }), now)
+    expect(inverted.errors).toEqual(['from must not be later than to'])
+    expect(parseAnalyticsFilters(new URLSearchParams({ to: 'yesterday' }), now).errors).toContain('to must be an ISO 8601 date')
+  })
+
+  test('Studio keys only match their own decisions', () => {
+    const from = new Date('2026-03-01T00:00:00Z')
+    const to = new Date('2026-03-31T00:00:00Z')
+    const match = buildAnalyticsMatch({ from, to, regionId: 'unknown', studioId: 'studio-1' })
+
+    expect(match).toEqual({
+      createdAt: { $gte: from, $lte: to },
+      regionId: { $in: [null, ''] },
+      'caller.studioId': 'studio-1',
+    })
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Preservation Core - Appeal Tests
+ *
+ * The one-open-appeal rule rests on a partial unique index; filing two
+ * appeals at once needs a database (MONGODB_URI) and is skipped without one.
+ */
+
+import mongoose from 'mongoose'
+import { fileAppeal } from '../lib/preservation-core-appeals'
+import { connectToDatabase } from '../lib/db'
+import { DecisionAppeal } from '../models/DecisionAppeal'
+import { PreservationDecision } from '../models/PreservationDecision'
+
+describe('Preservation Core - Appeals', () => {
+  test('decisionId has a single index: the unique one on open appeals', () => {
+    const indexes = DecisionAppeal.schema.indexes().filter(([fields]) => 'decisionId' in fields)
+
+    expect(indexes).toEqual([[{ decisionId: 1 }, expect.objectContaining({ unique: true, partialFilterExpression: { status: 'open' } })]])
+  })
+
+  test.skipIf(!process.env.MONGODB_URI)('Two appeals filed at once: one is opened, the other is a 409', async () => {
+    await connectToDatabase()
+    await DecisionAppeal.init()
+    const decision = await PreservationDecision.create({
+      type: 'intentional_disconnect',
+      lossApplied: true,
+      policyId: 'default',
+      policyVersion: 1,
+      signals: { quitAction: true },
+      result: { type: 'intentional_disconnect', lossApplied: true },
+    })
+    const decisionId = String(decision._id)
+
+    try {
+      const outcomes = await Promise.all([
+        fileAppeal({ decisionId, message: 'My router restarted' }),
+        fileAppeal({ decisionId, message: 'My router restarted' }),
+      ])
+
+      expect(outcomes.filter((outcome) => outcome.ok)).toHaveLength(1)
+      expect(outcomes.find((outcome) => !outcome.ok)).toEqual({ ok: false, status: 409, error: 'Decision already has an open appeal' })
+    } finally {
+      await DecisionAppeal.deleteMany({ decisionId })
+      await PreservationDecision.deleteOne({ _id: decisionId })
+      await mongoose.disconnect()
+    }
+  })
+})
@@ -0,0 +1,42 @@
+/**
+ * Preservation Core - Batch Team Outage Tests
+ */
+
+import { classifyDisconnect, DEFAULT_POLICY, type ClassificationResult } from '../lib/preservation-core'
+import { applyTeamOutage, detectTeamOutages } from '../lib/preservation-core-batch'
+
+const drop = classifyDisconnect({ quitAction: false, timeSinceLastPacket: 8000 })
+const quit = classifyDisconnect({ quitAction: true })
+
+describe('Preservation Core - Batch Team Outages', () => {
+  test('Whole team dropping is detected as an outage', () => {
+    const results = new Map<string, ClassificationResult>([
+      ['p1', drop],
+      ['p2', drop],
+      ['p3', drop],
+      ['p4', quit],
+    ])
+
+    const outages = detectTeamOutages({ red: ['p1', 'p2', 'p3'], blue: ['p4', 'p5', 'p6'] }, results)
+
+    expect(outages).toEqual(['red'])
+  })
+
+  test('Partial team drops and single-player teams are not outages', () => {
+    const results = new Map<string, ClassificationResult>([
+      ['p1', drop],
+      ['p3', drop],
+    ])
+
+    expect(detectTeamOutages({ red: ['p1', 'p2'], solo: ['p3'] }, results)).toEqual([])
+  })
+
+  test('Team outage preserves even when the policy would apply a loss', () => {
+    const strict = classifyDisconnect({ quitAction: false, timeSinceLastPacket: 8000 }, { ...DEFAULT_POLICY, defaultOutcome: 'apply_loss' })
+
+    const result = applyTeamOutage(strict, 5)
+
+    expect(result.lossApplied).toBe(false)
+    expect(result.reasons[result.reasons.length - 1]).toEqual({ code: 'TEAM_WIDE_DISCONNECT', value: 5 })
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Preservation Core - Classify Route Validation Tests
+ *
+ * Drives POST /api/preservation-core/classify through the real handler (API key
+ * check included) and covers every 400 path. Invalid requests are rejected
+ * before a policy is resolved, so no database is needed.
+ */
+
+import fc from 'fast-check'
+import { NextRequest } from 'next/server'
+import { POST } from '../app/api/preservation-core/classify/route'
+import { classifyRequestSchema } from '../lib/preservation-core-schema'
+import { MAX_NETWORK_HISTORY } from '../lib/preservation-core'
+import { MAX_GRACE_WINDOW_MS } from '../lib/preservation-core-pending'
+
+const ADMIN_KEY = 'igv_classify-route-test-key'
+const snapshot = { latencyMs: 40, packetLossRate: 0, isConnected: true }
+
+async function classify(body: unknown, raw = false) {
+  const res = await POST(
+    new NextRequest('http://localhost/api/preservation-core/classify', {
+      method: 'POST',
+      headers: { authorization: `Bearer ${ADMIN_KEY}`, 'content-type': 'application/json' },
+      body: raw ? (body as string) : JSON.stringify(body),
+    }),
+    { params: Promise.resolve({}) }
+  )
+  return { status: res.status, body: await res.json() }
+}
+
+async function expectInvalid(body: unknown, details: string[]) {
+  const res = await classify(body)
+
+  expect(res.status).toBe(400)
+  expect(res.body).toEqual({ error: 'Invalid request', details })
+}
+
+describe('Preservation Core - Classify Route 400s', () => {
+  beforeAll(() => {
+    process.env.IGRAVERSE_ADMIN_API_KEY = ADMIN_KEY
+  })
+  afterAll(() => {
+    delete process.env.IGRAVERSE_ADMIN_API_KEY
+  })
+
+  test('Malformed JSON', async () => {
+    const res = await classify('{"quitAction": false', true)
+
+    expect(res.status).toBe(400)
+    expect(res.body).toEqual({ error: 'Invalid request', details: ['body must be valid JSON'] })
+  })
+
+  test('Body that is not an object', async () => {
+    await expectInvalid(null, ['body must be an object'])
+    await expectInvalid([{ quitAction: true }], ['body must be an object'])
+  })
+
+  test('Missing or mistyped quitAction', async () => {
+    await expectInvalid({}, ['quitAction is required'])
+    await expectInvalid({ quitAction: 'true' }, ['quitAction must be a boolean'])
+  })
+
+  test('Network snapshot fields', async () => {
+    await expectInvalid({ quitAction: false, networkBeforeDisconnect: 'lagging' }, ['networkBeforeDisconnect must be an object'])
+    await expectInvalid({ quitAction: false, networkBeforeDisconnect: { latencyMs: -5, packetLossRate: 1.5 } }, [
+      'networkBeforeDisconnect.latencyMs must be >= 0',
+      'networkBeforeDisconnect.packetLossRate must be between 0 and 1',
+      'networkBeforeDisconnect.isConnected is required',
+    ])
+    await expectInvalid({ quitAction: false, networkBeforeDisconnect: { ...snapshot, timestamp: -1 } }, [
+      'networkBeforeDisconnect.timestamp must be >= 0',
+    ])
+  })
+
+  test('Network history', async () => {
+    await expectInvalid({ quitAction: false, networkHistory: snapshot }, ['networkHistory must be an array of snapshots'])
+    await expectInvalid({ quitAction: false, networkHistory: Array(MAX_NETWORK_HISTORY + 1).fill(snapshot) }, [
+      `networkHistory must contain at most ${MAX_NETWORK_HISTORY} snapshots`,
+    ])
+    await expectInvalid(
+      { quitAction: false, networkHistory: [{ ...snapshot, timestamp: 2000 }, { ...snapshot, timestamp: 1000 }] },
+      ['networkHistory[1].timestamp must not be earlier than the previous snapshot']
+    )
+  })
+
+  test('Timing fields', async () => {
+    await expectInvalid({ quitAction: false, timeSinceLastPacket: -1, timeoutThreshold: 0 }, [
+      'timeSinceLastPacket must be >= 0',
+      'timeoutThreshold must be > 0',
+    ])
+    await expectInvalid({ quitAction: false, disconnectedAt: -1 }, ['disconnectedAt must be epoch milliseconds'])
+  })
+
+  test('Crash signals', async () => {
+    await expectInvalid({ quitAction: false, crash: true }, ['crash must be an object'])
+    await expectInvalid({ quitAction: false, crash: { exitCode: 1.5, crashReporterId: ' ', timeSinceLastHeartbeat: -1 } }, [
+      'crash.exitCode must be an integer',
+      'crash.crashReporterId must be a non-empty string',
+      'crash.timeSinceLastHeartbeat must be a number >= 0',
+    ])
+  })
+
+  test('Contextual signals out of range', async () => {
+    await expectInvalid({ quitAction: false, competitiveAdvantage: 1.2, fairnessConfidence: -0.1 }, [
+      'competitiveAdvantage must be between -1.0 and 1.0',
+      'fairnessConfidence must be between 0.0 and 1.0',
+    ])
+  })
+
+  test('Empty ids', async () => {
+    await expectInvalid({ quitAction: false, policyId: '', playerId: ' ', matchId: 7, regionId: '', platform: '' }, [
+      'policyId must be a non-empty string',
+      'playerId must be a non-empty string',
+      'matchId must be a non-empty string',
+      'regionId must be a non-empty string',
+      'platform must be a non-empty string',
+    ])
+  })
+
+  test('Outage correlation and grace window need a playerId', async () => {
+    await expectInvalid({ quitAction: false, serverId: 'eu-1', graceWindowMs: 30_000 }, [
+      'serverId requires playerId (outage correlation counts distinct players)',
+      'graceWindowMs requires playerId (the reconnect is matched to the player)',
+    ])
+    await expectInvalid({ quitAction: false, playerId: 'p-1', graceWindowMs: MAX_GRACE_WINDOW_MS + 1 }, [
+      `graceWindowMs must be an integer between 1 and ${MAX_GRACE_WINDOW_MS}`,
+    ])
+  })
+
+  test('Any body the schema rejects is a 400 with details, never a 500', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.jsonValue().filter((body) => !classifyRequestSchema.safeParse(body).success),
+        async (body) => {
+          const res = await classify(body)
+
+          expect(res.status).toBe(400)
+          expect(res.body.details.length).toBeGreaterThan(0)
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  test('Requests without an API key are rejected before validation', async () => {
+    const res = await POST(
+      new NextRequest('http://localhost/api/preservation-core/classify', { method: 'POST', body: '{' }),
+      { params: Promise.resolve({}) }
+    )
+
+    expect(res.status).toBe(401)
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * Preservation Core - Client SDK Tests
+ *
+ * Uses a scripted fetch so retries, error handling and the local fallback can
+ * be checked without a server.
+ */
+
+import { classifyDisconnect, DEFAULT_POLICY } from '../lib/preservation-core'
+import {
+  backoffDelay,
+  createPreservationCoreClient,
+  PreservationCoreApiError,
+  retryAfterMs,
+} from '../lib/preservation-core-client'
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+function scriptedFetch(steps: Array<() => Promise<Response>>) {
+  const calls: RequestInit[] = []
+  const fetchImpl = async (_input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push(init!)
+    return steps[Math.min(calls.length - 1, steps.length - 1)]()
+  }
+  return { calls, fetch: fetchImpl as typeof fetch }
+}
+
+const signals = { quitAction: false, timeSinceLastPacket: 6000 }
+
+describe('Preservation Core - Client SDK', () => {
+  test('Retries 5xx responses and returns the API result', async () => {
+    const api = { decisionId: 'd1', ...classifyDisconnect(signals) }
+    const { calls, fetch } = scriptedFetch([
+      async () => json(503, { error: 'Unavailable' }),
+      async () => json(200, api),
+    ])
+    const client = createPreservationCoreClient({ fetch, retryBaseDelayMs: 0, callerId: 'match-service' })
+
+    const result = await client.classify(signals)
+
+    expect(calls).toHaveLength(2)
+    expect((calls[0].headers as Record<string, string>)['x-caller-id']).toBe('match-service')
+    expect(result.source).toBe('api')
+    expect(result.decisionId).toBe('d1')
+  })
+
+  test('Validation errors are thrown without retrying or falling back', async () => {
+    const { calls, fetch } = scriptedFetch([
+      async () => json(400, { error: 'Invalid signals', details: ['quitAction must be a boolean'] }),
+    ])
+    const client = createPreservationCoreClient({ fetch, retryBaseDelayMs: 0 })
+
+    let error: any
+    try {
+      await client.classify(signals)
+    } catch (err) {
+      error = err
+    }
+
+    expect(calls).toHaveLength(1)
+    expect(error instanceof PreservationCoreApiError).toBe(true)
+    expect(error.status).toBe(400)
+    expect(error.details).toEqual(['quitAction must be a boolean'])
+  })
+
+  test('Falls back to in-process classification when the API is unreachable', async () => {
+    const { calls, fetch } = scriptedFetch([
+      async () => {
+        throw new TypeError('fetch failed')
+      },
+    ])
+    const client = createPreservationCoreClient({
+      fetch,
+      maxRetries: 1,
+      retryBaseDelayMs: 0,
+      fallback: { classify: classifyDisconnect },
+    })
+
+    const result = await client.classify({ ...signals, playerId: 'p1', matchId: 'm1' })
+
+    expect(calls).toHaveLength(2)
+    expect(result.source).toBe('local')
+    expect(result.decisionId).toBeUndefined()
+    expect(result.type).toBe(classifyDisconnect(signals).type)
+  })
+
+  test('A named policy is only applied locally when it is passed for the request', async () => {
+    const { fetch } = scriptedFetch([async () => json(503, { error: 'Unavailable' })])
+    const classify = vi.fn(classifyDisconnect)
+    const client = createPreservationCoreClient({ fetch, maxRetries: 0, fallback: { classify } })
+    const strict = { ...DEFAULT_POLICY, id: 'strict', name: 'Strict' }
+
+    await expect(client.classify({ ...signals, policyId: 'strict' })).rejects.toMatchObject({ status: 503 })
+    await expect(
+      client.classify({ ...signals, policyId: 'ranked' }, { fallbackPolicy: strict })
+    ).rejects.toThrow(/does not match/)
+    const result = await client.classify({ ...signals, policyId: 'strict' }, { fallbackPolicy: strict })
+    expect(result.source).toBe('local')
+    expect(classify).toHaveBeenCalledTimes(1)
+    expect(classify.mock.calls[0][1]).toBe(strict)
+  })
+
+  test('A grace-window request can come back pending, without a result to apply', async () => {
+    const provisional = classifyDisconnect(signals)
+    const { calls, fetch } = scriptedFetch([
+      async () => json(202, { pendingId: 'p1', status: 'pending', playerId: 'p1', graceWindowMs: 30000, provisional }),
+    ])
+    const client = createPreservationCoreClient({ fetch })
+
+    const result = await client.classify({ ...signals, playerId: 'p1', graceWindowMs: 30000 })
+
+    expect(JSON.parse(calls[0].body as string).graceWindowMs).toBe(30000)
+    expect(result.source).toBe('pending')
+    if (result.source !== 'pending') throw new Error('expected a pending response')
+    expect(result.pendingId).toBe('p1')
+    expect(result.provisional.type).toBe(provisional.type)
+    expect(result).not.toHaveProperty('lossApplied')
+  })
+
+  test('429 responses wait for Retry-After, and one past the cap ends the retries', async () => {
+    const limited = (retryAfter: string) => async () =>
+      new Response(JSON.stringify({ error: 'Too many requests' }), { status: 429, headers: { 'Retry-After': retryAfter } })
+    const slow = scriptedFetch([limited('60')])
+    const client = createPreservationCoreClient({ fetch: slow.fetch, retryBaseDelayMs: 0 })
+    await expect(client.classify(signals)).rejects.toMatchObject({ status: 429 })
+    expect(slow.calls).toHaveLength(1)
+
+    const brief = scriptedFetch([limited('0'), async () => json(200, { decisionId: 'd2' })])
+    const result = await createPreservationCoreClient({ fetch: brief.fetch, retryBaseDelayMs: 0 }).classify(signals)
+    expect(brief.calls).toHaveLength(2)
+    expect(result.decisionId).toBe('d2')
+  })
+
+  test('Retry-After is read as seconds or an HTTP date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z')
+    expect(retryAfterMs('3', now)).toBe(3000)
+    expect(retryAfterMs('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5000)
+    expect(retryAfterMs('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0)
+    expect(retryAfterMs('soon', now)).toBeUndefined()
+    expect(retryAfterMs(null, now)).toBeUndefined()
+  })
+
+  test('Timed out attempts are aborted and count as unreachable', async () => {
+    const hang = (init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) =>
+        init!.signal!.addEventListener('abort', () => reject(new Error('aborted')))
+      )
+    const hangingFetch = ((_input: RequestInfo | URL, init?: RequestInit) => hang(init)) as typeof globalThis.fetch
+    const client = createPreservationCoreClient({ fetch: hangingFetch, timeoutMs: 5, maxRetries: 0, fallback: false })
+
+    let error: any
+    try {
+      await client.classify(signals)
+    } catch (err) {
+      error = err
+    }
+
+    expect(error.message).toBe('aborted')
+  })
+
+  test('Backoff uses full jitter up to base * 2^attempt', () => {
+    expect(backoffDelay(0, 200, () => 0.999)).toBe(199)
+    expect(backoffDelay(3, 200, () => 0.5)).toBe(800)
+    expect(backoffDelay(3, 200, () => 0)).toBe(0)
+  })
+})
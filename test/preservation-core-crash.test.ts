@@ -0,0 +1,105 @@
+/**
+ * Preservation Core - Client Crash Tests
+ *
+ * Verifies that crash signals separate client crashes from network drops and
+ * that each studio's policy decides whether crashes are preserved.
+ */
+
+import {
+  classifyDisconnect,
+  validatePolicy,
+  DEFAULT_POLICY,
+} from '../lib/preservation-core'
+import { buildPolicy } from '../lib/preservation-core-policies'
+import { disconnectSignalsSchema, formatSchemaIssues } from '../lib/preservation-core-schema'
+
+describe('Preservation Core - Client Crash', () => {
+  test('Crash report with a dropped socket is client_crash, not a network drop', () => {
+    const result = classifyDisconnect({
+      quitAction: false,
+      networkBeforeDisconnect: { latencyMs: 40, packetLossRate: 0.01, isConnected: false },
+      crash: { exitCode: -1073741819, crashReporterId: 'CRASH-1' },
+    })
+
+    expect(result.type).toBe('client_crash')
+    expect(result.lossApplied).toBe(false)
+    expect(result.signals.crashDetected).toBe(true)
+    expect(result.signals.hardDisconnect).toBe(true)
+    expect(result.reasons.map((r) => r.code)).toEqual([
+      'HARD_DISCONNECT',
+      'CRASH_REPORTED',
+      'NON_ZERO_EXIT_CODE',
+      'POLICY_CRASH_PRESERVE',
+    ])
+  })
+
+  test('Clean exit code alone is not a crash', () => {
+    const result = classifyDisconnect({ quitAction: false, crash: { exitCode: 0 } })
+
+    expect(result.type).toBe('none')
+    expect(result.signals.crashDetected).toBe(false)
+  })
+
+  test('Lost watchdog heartbeat is compared against the policy threshold', () => {
+    const below = classifyDisconnect({ quitAction: false, crash: { timeSinceLastHeartbeat: 2000 } })
+    const above = classifyDisconnect({ quitAction: false, crash: { timeSinceLastHeartbeat: 4000 } })
+
+    expect(below.type).toBe('none')
+    expect(above.type).toBe('client_crash')
+    expect(above.reasons[0]).toEqual({
+      code: 'WATCHDOG_HEARTBEAT_LOST',
+      value: 4000,
+      threshold: DEFAULT_POLICY.crash.heartbeatTimeoutMs,
+    })
+  })
+
+  test('A heartbeat gap during network trouble is a network drop, not a crash', () => {
+    const timeout = { quitAction: false, timeSinceLastPacket: 6000, crash: { timeSinceLastHeartbeat: 6000 } }
+    const dropped = classifyDisconnect(timeout)
+    const corroborated = classifyDisconnect({ ...timeout, crash: { ...timeout.crash, exitCode: 3 } })
+
+    expect(dropped.type).toBe('unintentional_disconnect')
+    expect(dropped.signals.crashDetected).toBe(false)
+    expect(dropped.reasons.map((r) => r.code)).toContain('WATCHDOG_HEARTBEAT_LOST')
+    expect(corroborated.type).toBe('client_crash')
+  })
+
+  test('A crash report is stronger evidence than a heartbeat gap', () => {
+    const reported = classifyDisconnect({ quitAction: false, crash: { crashReporterId: 'CRASH-2' } })
+    const heartbeat = classifyDisconnect({ quitAction: false, crash: { timeSinceLastHeartbeat: 3100 } })
+
+    expect(reported.confidence).toBeGreaterThan(heartbeat.confidence)
+  })
+
+  test('Quit still wins over crash signals', () => {
+    const result = classifyDisconnect({ quitAction: true, crash: { exitCode: 1 } })
+
+    expect(result.type).toBe('intentional_disconnect')
+    expect(result.lossApplied).toBe(true)
+  })
+
+  test('Studio policy can apply a loss for crashes', () => {
+    const policy = buildPolicy({ id: 'no-crash-preserve', name: 'Strict', crash: { outcome: 'apply_loss' } })
+    const result = classifyDisconnect({ quitAction: false, crash: { crashReporterId: 'CRASH-3' } }, policy)
+
+    expect(policy.crash.heartbeatTimeoutMs).toBe(DEFAULT_POLICY.crash.heartbeatTimeoutMs)
+    expect(result.type).toBe('client_crash')
+    expect(result.lossApplied).toBe(true)
+    expect(result.reasons[result.reasons.length - 1].code).toBe('POLICY_CRASH_APPLY_LOSS')
+  })
+
+  test('Invalid crash signals and crash policy settings are rejected', () => {
+    const parsed = disconnectSignalsSchema.safeParse({ quitAction: false, crash: { exitCode: 1.5, crashReporterId: '', timeSinceLastHeartbeat: -1 } })
+    expect(parsed.success ? [] : formatSchemaIssues(parsed.error)).toEqual([
+      'crash.exitCode must be an integer',
+      'crash.crashReporterId must be a non-empty string',
+      'crash.timeSinceLastHeartbeat must be a number >= 0',
+    ])
+
+    const policy = buildPolicy({ id: 'bad', name: 'Bad', crash: { outcome: 'maybe', heartbeatTimeoutMs: 0 } })
+    expect(validatePolicy(policy).errors).toEqual([
+      "crash.outcome must be 'preserve' or 'apply_loss'",
+      'crash.heartbeatTimeoutMs must be > 0',
+    ])
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Preservation Core - Rolling Network Telemetry Tests
+ *
+ * Verifies that trend features are computed from `networkHistory` and that a
+ * degraded window is treated as a network problem.
+ */
+
+import { classifyDisconnect, computeNetworkTrend, type NetworkSnapshot } from '../lib/preservation-core'
+
+function ping(latencyMs: number, packetLossRate: number, timestamp: number, isConnected = true): NetworkSnapshot {
+  return { latencyMs, packetLossRate, isConnected, timestamp }
+}
+
+describe('Preservation Core - Network Trend', () => {
+  test('Stable connection fires no trend features', () => {
+    const history = [ping(40, 0.01, 0), ping(45, 0.0, 1000), ping(42, 0.02, 2000), ping(44, 0.01, 3000)]
+
+    const trend = computeNetworkTrend(history)
+
+    expect(trend.samples).toBe(4)
+    expect(trend.sustainedDegradation).toBe(false)
+    expect(trend.highJitter).toBe(false)
+    expect(trend.lossBurst).toBe(false)
+    expect(trend.timeToFailureMs).toBeUndefined()
+  })
+
+  test('Single spike at the end is not sustained degradation', () => {
+    const history = [ping(40, 0.01, 0), ping(42, 0.01, 1000), ping(41, 0.01, 2000), ping(900, 0.01, 3000)]
+
+    const trend = computeNetworkTrend(history)
+
+    expect(trend.sustainedDegradation).toBe(false)
+    expect(trend.timeToFailureMs).toBe(0)
+  })
+
+  test('Degrading connection reports sustained degradation, loss burst and time-to-failure', () => {
+    const history = [
+      ping(40, 0.01, 0),
+      ping(850, 0.3, 1000),
+      ping(1100, 0.35, 2000),
+      ping(1400, 0.5, 3000),
+    ]
+
+    const trend = computeNetworkTrend(history)
+
+    expect(trend.sustainedDegradation).toBe(true)
+    expect(trend.lossBurst).toBe(true)
+    expect(trend.highJitter).toBe(true)
+    expect(trend.timeToFailureMs).toBe(2000)
+  })
+
+  test('Degraded window preserves the match even if the last ping looked healthy', () => {
+    const result = classifyDisconnect({
+      quitAction: false,
+      networkHistory: [ping(300, 0.3, 0), ping(350, 0.4, 1000), ping(320, 0.3, 2000), ping(60, 0.01, 3000)],
+    })
+
+    expect(result.type).toBe('unintentional_disconnect')
+    expect(result.lossApplied).toBe(false)
+    expect(result.signals.highPacketLoss).toBe(false)
+    expect(result.signals.trend?.lossBurst).toBe(true)
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Preservation Core - Repeat-Offender Detection Tests
+ *
+ * Verifies that network drops which only happen while losing are escalated,
+ * and that honest players with mixed drop histories are left alone.
+ */
+
+import { classifyDisconnect, DEFAULT_POLICY, type DisconnectSignals } from '../lib/preservation-core'
+import {
+  applyOffenderAssessment,
+  assessRepeatOffender,
+  binomialTail,
+  type DisconnectHistoryEntry,
+} from '../lib/preservation-core-offenders'
+
+const losingDrop: DisconnectSignals = {
+  quitAction: false,
+  networkBeforeDisconnect: { latencyMs: 1200, packetLossRate: 0.4, isConnected: false },
+  competitiveAdvantage: -0.6,
+  fairnessConfidence: 0.9,
+}
+
+function history(advantages: number[], type: DisconnectHistoryEntry['type'] = 'unintentional_disconnect') {
+  return advantages.map((competitiveAdvantage) => ({ type, competitiveAdvantage }))
+}
+
+function classifyWithHistory(entries: DisconnectHistoryEntry[], signals = losingDrop) {
+  const result = classifyDisconnect(signals)
+  return applyOffenderAssessment(result, assessRepeatOffender(entries, signals, result, DEFAULT_POLICY), DEFAULT_POLICY)
+}
+
+describe('Preservation Core - Repeat Offenders', () => {
+  test('binomialTail matches known values', () => {
+    expect(binomialTail(4, 0, 0.5)).toBe(1)
+    expect(binomialTail(4, 4, 0.5)).toBe(0.0625)
+    expect(binomialTail(3, 4, 0.5)).toBe(0)
+  })
+
+  test('Player with mixed drop history is preserved', () => {
+    const result = classifyWithHistory(history([0.5, -0.5, 0.1, 0.6, -0.4, 0.2]))
+
+    expect(result.type).toBe('unintentional_disconnect')
+    expect(result.lossApplied).toBe(false)
+    expect(result.offender?.suspicious).toBe(false)
+  })
+
+  test('Drops that only happen while losing escalate to suspected_intentional (first step: warning)', () => {
+    const result = classifyWithHistory(history([-0.5, -0.7, -0.4, -0.8, -0.6]))
+
+    expect(result.type).toBe('suspected_intentional')
+    expect(result.lossApplied).toBe(false)
+    expect(result.offender?.penalty).toEqual({ name: 'warning', lossApplied: false, level: 1 })
+    expect(result.reasons[result.reasons.length - 1].code).toBe('REPEAT_OFFENDER_PATTERN')
+  })
+
+  test('Previous flags move the player up the penalty ladder', () => {
+    const entries = [
+      ...history([-0.5, -0.7], 'suspected_intentional'),
+      ...history([-0.4, -0.8, -0.6]),
+    ]
+
+    const result = classifyWithHistory(entries)
+
+    expect(result.type).toBe('suspected_intentional')
+    expect(result.lossApplied).toBe(true)
+    expect(result.offender?.penalty?.name).toBe('loss_and_review')
+  })
+
+  test('Too few drops on record are never flagged', () => {
+    const result = classifyWithHistory(history([-0.5, -0.7]))
+
+    expect(result.type).toBe('unintentional_disconnect')
+    expect(result.offender?.networkDrops).toBe(3)
+  })
+
+  test('Quits are not assessed', () => {
+    const signals = { ...losingDrop, quitAction: true }
+    const result = classifyDisconnect(signals)
+
+    expect(assessRepeatOffender(history([-0.5, -0.7, -0.4, -0.8, -0.6]), signals, result, DEFAULT_POLICY)).toBeUndefined()
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Preservation Core - Server Outage Correlation Tests
+ */
+
+import { classifyDisconnect, DEFAULT_POLICY, validatePolicy } from '../lib/preservation-core'
+import { buildPolicy } from '../lib/preservation-core-policies'
+import {
+  applyServerOutage,
+  clusterDisconnects,
+  isOutageCluster,
+  OUTAGE_MIN_PLAYERS,
+  OUTAGE_WINDOW_MS,
+} from '../lib/preservation-core-outages'
+
+const drops = (count: number, start: number, gapMs: number) =>
+  Array.from({ length: count }, (_, i) => ({ playerId: `p${i}`, occurredAt: start + i * gapMs }))
+
+describe('Preservation Core - Server Outages', () => {
+  test('Drops within the window chain into one cluster, a later drop starts a new one', () => {
+    const events = [...drops(3, 1000, 500), { playerId: 'late', occurredAt: 2000 + OUTAGE_WINDOW_MS + 1 }]
+
+    const clusters = clusterDisconnects(events)
+
+    expect(clusters.map((c) => c.map((e) => e.playerId))).toEqual([['p0', 'p1', 'p2'], ['late']])
+  })
+
+  test('Events are clustered in time order regardless of arrival order', () => {
+    const clusters = clusterDisconnects(drops(4, 0, 100).reverse())
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0][0].playerId).toBe('p0')
+  })
+
+  test('A cluster is an outage once enough distinct players dropped', () => {
+    const small = drops(OUTAGE_MIN_PLAYERS - 1, 0, 10)
+    const repeated = [...small, { playerId: 'p0', occurredAt: 100 }]
+    const large = drops(OUTAGE_MIN_PLAYERS, 0, 10)
+
+    expect(isOutageCluster(small)).toBe(false)
+    expect(isOutageCluster(repeated)).toBe(false)
+    expect(isOutageCluster(large)).toBe(true)
+  })
+
+  test('Policies set their own outage size and window', () => {
+    const smallLobby = buildPolicy({ id: 'duo', name: 'Duo', outage: { minPlayers: 3, windowMs: 5000 } })
+    const slow = drops(3, 0, 4000)
+
+    expect(smallLobby.outage).toEqual({ minPlayers: 3, windowMs: 5000 })
+    expect(clusterDisconnects(slow)).toHaveLength(3)
+    expect(clusterDisconnects(slow, smallLobby.outage.windowMs)).toHaveLength(1)
+    expect(isOutageCluster(slow, smallLobby.outage.minPlayers)).toBe(true)
+    expect(applyServerOutage(classifyDisconnect({ quitAction: true }), 3, 3).reasons.at(-1)).toMatchObject({ threshold: 3 })
+
+    const invalid = { ...DEFAULT_POLICY, outage: { minPlayers: 1.5, windowMs: 60_000 } }
+    expect(validatePolicy(invalid).errors).toEqual([
+      'outage.minPlayers must be an integer >= 2',
+      'outage.windowMs must be between 0 (exclusive) and 30000',
+    ])
+  })
+
+  test('Outage preserves even a quit pressed during the freeze', () => {
+    const quit = classifyDisconnect({ quitAction: true })
+
+    const result = applyServerOutage(quit, 64)
+
+    expect(result.type).toBe('unintentional_disconnect')
+    expect(result.lossApplied).toBe(false)
+    expect(result.reasons[result.reasons.length - 1]).toEqual({
+      code: 'SERVER_OUTAGE',
+      value: 64,
+      threshold: OUTAGE_MIN_PLAYERS,
+    })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Preservation Core - Graduated Outcome Tests
+ *
+ * The policy's outcome rules map the final decision and the contextual signals
+ * to a severity, rank-point multiplier, cooldown and teammate forgiveness,
+ * while `lossApplied` keeps its meaning.
+ */
+
+import {
+  classifyDisconnect,
+  resolvePenaltyOutcome,
+  validatePolicy,
+  DEFAULT_POLICY,
+  type ClassificationPolicy,
+} from '../lib/preservation-core'
+import { buildPolicy } from '../lib/preservation-core-policies'
+
+const drop = { quitAction: false, timeSinceLastPacket: 6000 }
+const halfLoss = { severity: 'minor' as const, rankPointMultiplier: 0.5, cooldownMinutes: 0, teammateLossForgiveness: true }
+
+const graduatedPolicy: ClassificationPolicy = {
+  ...DEFAULT_POLICY,
+  id: 'ranked-graduated',
+  name: 'Ranked - graduated',
+  outcomes: [
+    { type: 'unintentional_disconnect', advantage: 'losing', match: 'settled', outcome: halfLoss },
+    {
+      type: 'unintentional_disconnect',
+      advantage: 'losing',
+      outcome: { severity: 'none', rankPointMultiplier: 0, cooldownMinutes: 2, teammateLossForgiveness: true },
+    },
+  ],
+}
+
+describe('Preservation Core - Graduated Outcomes', () => {
+  test('Default policy: a quit is a full loss with a cooldown', () => {
+    const result = classifyDisconnect({ quitAction: true })
+
+    expect(result.lossApplied).toBe(true)
+    expect(result.outcome).toEqual({ severity: 'standard', rankPointMultiplier: 1, cooldownMinutes: 10, teammateLossForgiveness: true })
+  })
+
+  test('Without a rule, a preserved drop costs nothing and forgives teammates', () => {
+    expect(classifyDisconnect(drop).outcome).toEqual({
+      severity: 'none',
+      rankPointMultiplier: 0,
+      cooldownMinutes: 0,
+      teammateLossForgiveness: true,
+    })
+    expect(classifyDisconnect({ quitAction: false }).outcome.teammateLossForgiveness).toBe(false)
+  })
+
+  test('Without a rule, a loss is a full loss', () => {
+    const result = classifyDisconnect(drop, { ...DEFAULT_POLICY, defaultOutcome: 'apply_loss' })
+
+    expect(result.lossApplied).toBe(true)
+    expect(result.outcome).toMatchObject({ severity: 'standard', rankPointMultiplier: 1 })
+  })
+
+  test('Contextual bands pick the rule; the first match wins', () => {
+    const settled = classifyDisconnect({ ...drop, competitiveAdvantage: -0.8, fairnessConfidence: 0.9 }, graduatedPolicy)
+    const open = classifyDisconnect({ ...drop, competitiveAdvantage: -0.8, fairnessConfidence: 0.5 }, graduatedPolicy)
+
+    expect(settled.lossApplied).toBe(false)
+    expect(settled.outcome).toEqual(halfLoss)
+    expect(open.outcome.cooldownMinutes).toBe(2)
+  })
+
+  test('Band conditions never match when the signal was not sent', () => {
+    expect(classifyDisconnect(drop, graduatedPolicy).outcome.rankPointMultiplier).toBe(0)
+    expect(classifyDisconnect(drop, graduatedPolicy).outcome.cooldownMinutes).toBe(0)
+  })
+
+  test('Outcome follows the final decision after escalation and reconnects', () => {
+    expect(resolvePenaltyOutcome({ type: 'suspected_intentional', lossApplied: false }, {}, DEFAULT_POLICY)).toEqual({
+      severity: 'minor',
+      rankPointMultiplier: 0,
+      cooldownMinutes: 5,
+      teammateLossForgiveness: true,
+    })
+    expect(resolvePenaltyOutcome({ type: 'suspected_intentional', lossApplied: true }, {}, DEFAULT_POLICY).severity).toBe('severe')
+    expect(resolvePenaltyOutcome({ type: 'reconnected', lossApplied: false }, {}, DEFAULT_POLICY).teammateLossForgiveness).toBe(false)
+  })
+
+  test('Registered policies keep the default rules unless they send their own', () => {
+    expect(buildPolicy({ id: 'p', name: 'P' }).outcomes).toEqual(DEFAULT_POLICY.outcomes)
+    expect(buildPolicy({ id: 'p', name: 'P', outcomes: [] }).outcomes).toEqual([])
+  })
+
+  test('validatePolicy reports every invalid rule field', () => {
+    const validation = validatePolicy({
+      ...graduatedPolicy,
+      outcomes: [
+        {
+          type: 'rage_quit',
+          advantage: 'ahead',
+          outcome: { severity: 'harsh', rankPointMultiplier: -1, cooldownMinutes: 1.5, teammateLossForgiveness: 'yes' },
+        } as any,
+      ],
+    })
+
+    expect(validation.valid).toBe(false)
+    expect(validation.errors).toEqual([
+      'outcomes[0].type must be one of: none, intentional_disconnect, unintentional_disconnect, suspected_intentional, client_crash, reconnected',
+      'outcomes[0].advantage must be one of: winning, even, losing',
+      'outcomes[0].outcome.severity must be one of: none, minor, standard, severe',
+      'outcomes[0].outcome.rankPointMultiplier must be between 0 and 3',
+      'outcomes[0].outcome.cooldownMinutes must be an integer between 0 and 10080',
+      'outcomes[0].outcome.teammateLossForgiveness must be a boolean',
+    ])
+    expect(validatePolicy(graduatedPolicy).valid).toBe(true)
+  })
+})
@@ -0,0 +1,32 @@
+/**
+ * Preservation Core - Reconnect Grace Window Tests
+ */
+
+import { classifyDisconnect } from '../lib/preservation-core'
+import { applyReconnect } from '../lib/preservation-core-pending'
+
+describe('Preservation Core - Reconnect Grace Window', () => {
+  test('Reconnecting inside the window resumes without a loss', () => {
+    const provisional = classifyDisconnect({ quitAction: true })
+
+    const result = applyReconnect(provisional, 4200, 30000)
+
+    expect(provisional.lossApplied).toBe(true)
+    expect(result.type).toBe('reconnected')
+    expect(result.lossApplied).toBe(false)
+    expect(result.confidence).toBe(1)
+  })
+
+  test('Provisional reasons are kept and the reconnect reason is appended', () => {
+    const provisional = classifyDisconnect({ quitAction: false, timeSinceLastPacket: 6000 })
+
+    const result = applyReconnect(provisional, 4200, 30000)
+
+    expect(result.reasons.slice(0, -1)).toEqual(provisional.reasons)
+    expect(result.reasons[result.reasons.length - 1]).toEqual({
+      code: 'RECONNECTED_WITHIN_GRACE',
+      value: 4200,
+      threshold: 30000,
+    })
+  })
+})
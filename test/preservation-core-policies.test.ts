@@ -0,0 +1,67 @@
+/**
+ * Preservation Core - Classification Policy Tests
+ *
+ * Verifies that studio policies change thresholds and contextual cut-offs
+ * without changing the default behaviour.
+ */
+
+import {
+  classifyDisconnect,
+  validatePolicy,
+  DEFAULT_POLICY,
+  type ClassificationPolicy,
+} from '../lib/preservation-core'
+
+const fightingGamePolicy: ClassificationPolicy = {
+  ...DEFAULT_POLICY,
+  id: 'fighter-strict',
+  name: 'Fighting game - strict latency',
+  thresholds: { ...DEFAULT_POLICY.thresholds, highLatencyMs: 200 },
+}
+
+describe('Preservation Core - Classification Policies', () => {
+  test('200ms latency is fine under the default policy', () => {
+    const result = classifyDisconnect({
+      quitAction: false,
+      networkBeforeDisconnect: { latencyMs: 250, packetLossRate: 0.01, isConnected: true },
+    })
+
+    expect(result.type).toBe('none')
+    expect(result.signals.highLatency).toBe(false)
+  })
+
+  test('200ms latency is a network problem under a strict policy', () => {
+    const result = classifyDisconnect(
+      {
+        quitAction: false,
+        networkBeforeDisconnect: { latencyMs: 250, packetLossRate: 0.01, isConnected: true },
+      },
+      fightingGamePolicy
+    )
+
+    expect(result.type).toBe('unintentional_disconnect')
+    expect(result.lossApplied).toBe(false)
+    expect(result.signals.highLatency).toBe(true)
+  })
+
+  test('defaultOutcome "apply_loss" penalizes network drops with no contextual signal', () => {
+    const result = classifyDisconnect(
+      { quitAction: false, timeSinceLastPacket: 6000 },
+      { ...fightingGamePolicy, defaultOutcome: 'apply_loss' }
+    )
+
+    expect(result.type).toBe('unintentional_disconnect')
+    expect(result.lossApplied).toBe(true)
+  })
+
+  test('validatePolicy rejects out-of-range cut-offs', () => {
+    const validation = validatePolicy({
+      ...fightingGamePolicy,
+      thresholds: { ...fightingGamePolicy.thresholds, highPacketLoss: 1.5 },
+      contextual: { ...fightingGamePolicy.contextual, settledConfidence: 2 },
+    })
+
+    expect(validation.valid).toBe(false)
+    expect(validation.errors).toHaveLength(2)
+  })
+})
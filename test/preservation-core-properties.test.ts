@@ -0,0 +1,225 @@
+/**
+ * Preservation Core - Property-Based Invariants
+ *
+ * Generates signals over the whole DisconnectSignals space (every optional
+ * field, network history, crash signals, contextual signals) and checks the
+ * rules that must hold for any input, not just the hand-picked scenarios.
+ */
+
+import fc from 'fast-check'
+import {
+  classifyDisconnect,
+  DEFAULT_POLICY,
+  DISCONNECT_TYPES,
+  REASON_CODES,
+  type ClassificationPolicy,
+  type DisconnectSignals,
+  type NetworkSnapshot,
+} from '../lib/preservation-core'
+import { disconnectSignalsSchema } from '../lib/preservation-core-schema'
+
+const ratio = (min = 0, max = 1) => fc.double({ min, max, noNaN: true, noDefaultInfinity: true })
+const ms = (max = 20_000) => fc.double({ min: 0, max, noNaN: true, noDefaultInfinity: true })
+
+const snapshotArb: fc.Arbitrary<NetworkSnapshot> = fc.record({
+  latencyMs: ms(5000),
+  packetLossRate: ratio(),
+  isConnected: fc.boolean(),
+})
+
+// Timestamps, when present, are non-decreasing like real telemetry
+const historyArb = fc
+  .tuple(fc.array(snapshotArb, { maxLength: 20 }), fc.boolean(), fc.nat(1_000_000))
+  .map(([history, timestamped, start]) =>
+    timestamped ? history.map((snapshot, i) => ({ ...snapshot, timestamp: start + i * 250 })) : history
+  )
+
+const crashArb = fc.record(
+  {
+    exitCode: fc.integer({ min: -255, max: 255 }),
+    crashReporterId: fc.stringMatching(/^[a-z0-9-]{1,16}$/),
+    timeSinceLastHeartbeat: ms(10_000),
+  },
+  { requiredKeys: [] }
+)
+
+const signalsArb: fc.Arbitrary<DisconnectSignals> = fc.record(
+  {
+    quitAction: fc.boolean(),
+    networkBeforeDisconnect: snapshotArb,
+    networkHistory: historyArb,
+    timeSinceLastPacket: ms(),
+    timeoutThreshold: fc.double({ min: 1, max: 20_000, noNaN: true, noDefaultInfinity: true }),
+    crash: crashArb,
+    competitiveAdvantage: ratio(-1, 1),
+    fairnessConfidence: ratio(),
+  },
+  { requiredKeys: ['quitAction'] }
+)
+
+const policyArb: fc.Arbitrary<ClassificationPolicy> = fc
+  .record({
+    highPacketLoss: fc.double({ min: 0.01, max: 1, noNaN: true }),
+    highLatencyMs: fc.integer({ min: 50, max: 3000 }),
+    timeoutMs: fc.integer({ min: 500, max: 15_000 }),
+    crashOutcome: fc.constantFrom('preserve' as const, 'apply_loss' as const),
+    defaultOutcome: fc.constantFrom('preserve' as const, 'apply_loss' as const),
+  })
+  .map(({ highPacketLoss, highLatencyMs, timeoutMs, crashOutcome, defaultOutcome }) => ({
+    ...DEFAULT_POLICY,
+    id: 'generated',
+    thresholds: { highPacketLoss, highLatencyMs, timeoutMs },
+    crash: { ...DEFAULT_POLICY.crash, outcome: crashOutcome },
+    defaultOutcome,
+  }))
+
+/** Same value with the keys of every object (nested ones included) in reverse order */
+function reverseKeys<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(reverseKeys) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).reverse().map(([key, inner]) => [key, reverseKeys(inner)])) as T
+  }
+  return value
+}
+
+describe('Preservation Core - Classification Invariants', () => {
+  test('Generated signals are valid classify input', () => {
+    fc.assert(fc.property(signalsArb, (signals) => disconnectSignalsSchema.safeParse(signals).success))
+  })
+
+  test('Every input yields a well-formed result with the deciding rule last', () => {
+    fc.assert(
+      fc.property(signalsArb, policyArb, (signals, policy) => {
+        const result = classifyDisconnect(signals, policy)
+
+        expect(DISCONNECT_TYPES).toContain(result.type)
+        expect(result.confidence).toBeGreaterThanOrEqual(0)
+        expect(result.confidence).toBeLessThanOrEqual(1)
+        expect(result.reasons.length).toBeGreaterThan(0)
+        for (const reason of result.reasons) expect(REASON_CODES).toContain(reason.code)
+      })
+    )
+  })
+
+  test('A quit always yields a loss, under any policy', () => {
+    fc.assert(
+      fc.property(signalsArb, policyArb, (signals, policy) => {
+        const result = classifyDisconnect({ ...signals, quitAction: true }, policy)
+
+        expect(result.type).toBe('intentional_disconnect')
+        expect(result.lossApplied).toBe(true)
+        expect(result.reasons[result.reasons.length - 1].code).toBe('QUIT_ACTION')
+      })
+    )
+  })
+
+  test('Without any disconnect signal the player is never penalized', () => {
+    // Below every threshold, still connected, no history and no crash: only contextual signals vary
+    const quietArb = fc.record(
+      {
+        latencyMs: fc.double({ min: 0, max: DEFAULT_POLICY.thresholds.highLatencyMs, maxExcluded: true, noNaN: true }),
+        packetLossRate: fc.double({ min: 0, max: DEFAULT_POLICY.thresholds.highPacketLoss, maxExcluded: true, noNaN: true }),
+        timeSinceLastPacket: fc.double({ min: 0, max: DEFAULT_POLICY.thresholds.timeoutMs, maxExcluded: true, noNaN: true }),
+        competitiveAdvantage: ratio(-1, 1),
+        fairnessConfidence: ratio(),
+        withSnapshot: fc.boolean(),
+      },
+      { requiredKeys: ['latencyMs', 'packetLossRate', 'withSnapshot'] }
+    )
+
+    fc.assert(
+      fc.property(quietArb, fc.constantFrom('preserve' as const, 'apply_loss' as const), (quiet, defaultOutcome) => {
+        const { latencyMs, packetLossRate, withSnapshot, ...rest } = quiet
+        const signals: DisconnectSignals = {
+          quitAction: false,
+          ...rest,
+          ...(withSnapshot ? { networkBeforeDisconnect: { latencyMs, packetLossRate, isConnected: true } } : {}),
+        }
+        const result = classifyDisconnect(signals, { ...DEFAULT_POLICY, defaultOutcome })
+
+        expect(result.type).toBe('none')
+        expect(result.lossApplied).toBe(false)
+      })
+    )
+  })
+
+  test('A worse network turns a heartbeat-only crash into a network drop', () => {
+    const signals = { quitAction: false, crash: { timeSinceLastHeartbeat: 5000 } }
+    const snapshot = { latencyMs: 100, packetLossRate: 0, isConnected: true }
+
+    expect(classifyDisconnect({ ...signals, networkBeforeDisconnect: snapshot }).type).toBe('client_crash')
+    expect(classifyDisconnect({ ...signals, networkBeforeDisconnect: { ...snapshot, latencyMs: 1000 } })).toMatchObject({
+      type: 'unintentional_disconnect',
+      lossApplied: false,
+    })
+  })
+
+  test('Worse latency and packet loss never turn a decision against the player', () => {
+    const worseArb = fc.record({
+      latency: ms(5000),
+      loss: ratio(),
+    })
+
+    // Without crash signals: a lost watchdog heartbeat only counts as a crash while the network
+    // looks fine, so a worse network can rightly turn client_crash into unintentional_disconnect
+    fc.assert(
+      fc.property(signalsArb, snapshotArb, worseArb, ({ crash: _crash, ...signals }, snapshot, worse) => {
+        const base = { ...signals, networkBeforeDisconnect: snapshot }
+        const degraded = {
+          ...signals,
+          networkBeforeDisconnect: {
+            ...snapshot,
+            latencyMs: snapshot.latencyMs + worse.latency,
+            packetLossRate: Math.min(1, snapshot.packetLossRate + worse.loss),
+          },
+        }
+        const before = classifyDisconnect(base)
+        const after = classifyDisconnect(degraded)
+
+        // Signals only switch on as the network gets worse
+        if (before.signals.highLatency) expect(after.signals.highLatency).toBe(true)
+        if (before.signals.highPacketLoss) expect(after.signals.highPacketLoss).toBe(true)
+        // A detected disconnect stays the same decision; a clean finish may become a (preserved) network drop
+        if (before.type !== 'none') {
+          expect(after.type).toBe(before.type)
+          expect(after.lossApplied).toBe(before.lossApplied)
+        } else {
+          expect(['none', 'unintentional_disconnect']).toContain(after.type)
+        }
+        // Under the default policy, more network trouble never costs the player a loss
+        if (!before.lossApplied) expect(after.lossApplied).toBe(false)
+      })
+    )
+  })
+
+  test('Under the default rules, the graduated outcome charges rank points exactly when lossApplied', () => {
+    fc.assert(
+      fc.property(signalsArb, (signals) => {
+        const result = classifyDisconnect(signals)
+
+        expect(result.outcome.rankPointMultiplier > 0).toBe(result.lossApplied)
+        if (result.type === 'none') expect(result.outcome).toMatchObject({ severity: 'none', cooldownMinutes: 0 })
+      })
+    )
+  })
+
+  test('The result does not depend on the order of the request fields', () => {
+    fc.assert(
+      fc.property(signalsArb, policyArb, (signals, policy) => {
+        expect(classifyDisconnect(reverseKeys(signals), policy)).toEqual(classifyDisconnect(signals, policy))
+      })
+    )
+  })
+
+  test('Classification is deterministic and does not mutate its input', () => {
+    fc.assert(
+      fc.property(signalsArb, (signals) => {
+        const copy = structuredClone(signals)
+        const first = classifyDisconnect(signals)
+
+        expect(classifyDisconnect(signals)).toEqual(first)
+        expect(signals).toEqual(copy)
+      })
+    )
+  })
+})
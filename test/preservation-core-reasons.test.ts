@@ -0,0 +1,63 @@
+/**
+ * Preservation Core - Confidence and Reason Code Tests
+ *
+ * Verifies that every decision carries a confidence score and an ordered list
+ * of reasons that support can use to explain it.
+ */
+
+import { classifyDisconnect } from '../lib/preservation-core'
+
+describe('Preservation Core - Confidence and Reasons', () => {
+  test('Quit reports QUIT_ACTION as the deciding reason', () => {
+    const result = classifyDisconnect({ quitAction: true })
+
+    expect(result.reasons).toEqual([{ code: 'QUIT_ACTION' }])
+    expect(result.confidence).toBeGreaterThan(0.9)
+  })
+
+  test('Threshold reasons carry the measured value and the threshold, deciding rule last', () => {
+    const result = classifyDisconnect({
+      quitAction: false,
+      networkBeforeDisconnect: { latencyMs: 1200, packetLossRate: 0.4, isConnected: false },
+      competitiveAdvantage: 0.7,
+    })
+
+    expect(result.reasons.map((r) => r.code)).toEqual([
+      'HIGH_PACKET_LOSS_OVER_THRESHOLD',
+      'HIGH_LATENCY_OVER_THRESHOLD',
+      'HARD_DISCONNECT',
+      'PLAYER_WINNING',
+    ])
+    expect(result.reasons[1]).toEqual({ code: 'HIGH_LATENCY_OVER_THRESHOLD', value: 1200, threshold: 800 })
+  })
+
+  test('Borderline call has lower confidence than a clear one', () => {
+    const borderline = classifyDisconnect({
+      quitAction: false,
+      networkBeforeDisconnect: { latencyMs: 810, packetLossRate: 0.01, isConnected: true },
+    })
+    const clear = classifyDisconnect({
+      quitAction: false,
+      networkBeforeDisconnect: { latencyMs: 2000, packetLossRate: 0.6, isConnected: false },
+      timeSinceLastPacket: 12000,
+    })
+
+    expect(borderline.type).toBe('unintentional_disconnect')
+    expect(borderline.confidence).toBeLessThan(clear.confidence)
+    expect(clear.confidence).toBeLessThanOrEqual(1)
+  })
+
+  test('Near miss on a threshold lowers confidence in a "none" decision', () => {
+    const nearMiss = classifyDisconnect({
+      quitAction: false,
+      networkBeforeDisconnect: { latencyMs: 790, packetLossRate: 0.01, isConnected: true },
+    })
+    const healthy = classifyDisconnect({
+      quitAction: false,
+      networkBeforeDisconnect: { latencyMs: 40, packetLossRate: 0.01, isConnected: true },
+    })
+
+    expect(nearMiss.reasons).toEqual([{ code: 'NO_DISCONNECT_SIGNALS' }])
+    expect(nearMiss.confidence).toBeLessThan(healthy.confidence)
+  })
+})
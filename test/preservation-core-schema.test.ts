@@ -0,0 +1,127 @@
+/**
+ * Preservation Core - Request Schema Tests
+ *
+ * Every violation is reported with its JSON path, and the documentation is
+ * generated from the schema the route validates against.
+ */
+
+import type { ZodTypeAny } from 'zod'
+import {
+  batchEntrySchema,
+  batchRequestSchema,
+  classifyRequestSchema,
+  describeSchema,
+  disconnectSignalsSchema,
+  formatSchemaIssues,
+  policyInputSchema,
+} from '../lib/preservation-core-schema'
+import { buildPolicy } from '../lib/preservation-core-policies'
+
+function violations(schema: ZodTypeAny, input: unknown, root?: string) {
+  const parsed = schema.safeParse(input)
+  return parsed.success ? [] : formatSchemaIssues(parsed.error, root)
+}
+
+describe('Preservation Core - Request Schemas', () => {
+  test('Reports every violation with its JSON path', () => {
+    expect(
+      violations(classifyRequestSchema, {
+        quitAction: false,
+        networkHistory: [
+          { latencyMs: 40, packetLossRate: 0, isConnected: true },
+          { latencyMs: '900', packetLossRate: 0.2, isConnected: true },
+        ],
+        timeSinceLastPacket: '6000',
+        timeoutThreshold: -1,
+        competitiveAdvantage: null,
+      })
+    ).toEqual([
+      'networkHistory[1].latencyMs must be a number',
+      'timeSinceLastPacket must be a number',
+      'timeoutThreshold must be > 0',
+      'competitiveAdvantage must be a number',
+    ])
+  })
+
+  test('Checks types that the range checks used to miss', () => {
+    expect(
+      violations(disconnectSignalsSchema, {
+        quitAction: 'yes',
+        networkBeforeDisconnect: { latencyMs: 'slow', packetLossRate: 2, isConnected: 1 },
+        crash: { exitCode: 1.5 },
+      })
+    ).toEqual([
+      'quitAction must be a boolean',
+      'networkBeforeDisconnect.latencyMs must be a number',
+      'networkBeforeDisconnect.packetLossRate must be between 0 and 1',
+      'networkBeforeDisconnect.isConnected must be a boolean',
+      'crash.exitCode must be an integer',
+    ])
+    expect(violations(disconnectSignalsSchema, undefined, 'signals')).toEqual(['signals is required'])
+  })
+
+  test('Batch context and entries are type-checked too', () => {
+    expect(
+      violations(batchRequestSchema, { fairnessConfidence: '0.9', teams: { red: 'p1' }, serverId: 42, players: [] })
+    ).toEqual([
+      'fairnessConfidence must be a number',
+      'teams.red must be an array of player ids',
+      'serverId must be a non-empty string',
+      'players must be a non-empty array',
+    ])
+    expect(
+      violations(batchEntrySchema, { playerId: ' ', signals: { quitAction: false, crash: 'yes' }, disconnectedAt: 'now' }, 'entry')
+    ).toEqual(['playerId must be a non-empty string', 'signals.crash must be an object', 'disconnectedAt must be a number'])
+  })
+
+  test('Cross-field rules are reported alongside field errors', () => {
+    expect(violations(classifyRequestSchema, { quitAction: true, serverId: 'gs-1', graceWindowMs: 1.5 })).toEqual([
+      'graceWindowMs must be an integer between 1 and 120000',
+      'serverId requires playerId (outage correlation counts distinct players)',
+      'graceWindowMs requires playerId (the reconnect is matched to the player)',
+    ])
+    expect(violations(classifyRequestSchema, { quitAction: true, playerId: 'p1', serverId: 'gs-1', graceWindowMs: 5000 })).toEqual([])
+  })
+
+  test('Valid requests are trimmed and unknown fields dropped', () => {
+    const parsed = classifyRequestSchema.parse({ quitAction: false, playerId: ' p1 ', extra: 1 })
+
+    expect(parsed).toEqual({ quitAction: false, playerId: 'p1' })
+  })
+
+  test('Policy bodies are type-checked before defaults are merged in', () => {
+    const parsed = policyInputSchema.safeParse({
+      id: 'strict',
+      name: ' ',
+      thresholds: { highLatencyMs: '200' },
+      offender: { penaltyLadder: [{ name: 'warning', lossApplied: 'no' }] },
+      crash: { outcome: 'maybe' },
+      outcomes: [{ type: 'rage_quit', outcome: { severity: 'minor', rankPointMultiplier: 1, cooldownMinutes: 0 } }],
+    })
+
+    expect(parsed.success ? [] : formatSchemaIssues(parsed.error)).toEqual([
+      'name must be a non-empty string',
+      'thresholds.highLatencyMs must be a number',
+      'offender.penaltyLadder[0].lossApplied must be a boolean',
+      "crash.outcome must be one of 'preserve', 'apply_loss'",
+      expect.stringMatching(/^outcomes\[0\]\.type must be one of /),
+      'outcomes[0].outcome.teammateLossForgiveness is required',
+    ])
+
+    const policy = buildPolicy(policyInputSchema.parse({ id: 'strict', name: 'Strict', thresholds: { highLatencyMs: 200 }, extra: true }))
+    expect(policy.thresholds.highLatencyMs).toBe(200)
+    expect(policy).not.toHaveProperty('extra')
+  })
+
+  test('Documentation is generated from the schema', () => {
+    const docs = describeSchema(classifyRequestSchema)
+
+    expect(docs.quitAction.type).toBe('boolean')
+    expect(docs.quitAction.required).toBe(true)
+    expect(docs.timeoutThreshold.required).toBe(false)
+    expect(docs.networkHistory.type).toBe('array')
+    expect(docs.networkHistory.items!.properties!.packetLossRate.description).toBe('Packet loss rate (0.0 to 1.0)')
+    expect(docs.crash.properties!.exitCode.type).toBe('number')
+    expect(Object.keys(docs)).toContain('graceWindowMs')
+  })
+})
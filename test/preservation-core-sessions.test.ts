@@ -0,0 +1,94 @@
+/**
+ * Preservation Core - Match Session Tests
+ *
+ * Verifies the signals computed server-side from a recorded session timeline.
+ */
+
+import { classifyDisconnect } from '../lib/preservation-core'
+import { formatSchemaIssues, heartbeatSchema, sessionDisconnectSchema } from '../lib/preservation-core-schema'
+import {
+  buildSessionSignals,
+  computeCompetitiveAdvantage,
+  type HeartbeatSample,
+} from '../lib/preservation-core-sessions'
+
+const healthy = (at: number): HeartbeatSample => ({ at, latencyMs: 40, packetLossRate: 0.01, isConnected: true })
+const degraded = (at: number): HeartbeatSample => ({ at, latencyMs: 1100, packetLossRate: 0.5, isConnected: true })
+
+const heartbeatErrors = (input: unknown) => {
+  const parsed = heartbeatSchema.safeParse(input)
+  return parsed.success ? [] : formatSchemaIssues(parsed.error, 'heartbeat')
+}
+
+describe('Preservation Core - Match Sessions', () => {
+  test('Advantage is the team lead scaled by maxScoreDifference', () => {
+    const teams = { red: ['p1', 'p2'], blue: ['p3', 'p4'] }
+
+    expect(computeCompetitiveAdvantage({ red: 3, blue: 8 }, teams, 'p1', 10)).toBe(-0.5)
+    expect(computeCompetitiveAdvantage({ red: 3, blue: 8 }, teams, 'p3', 10)).toBe(0.5)
+    expect(computeCompetitiveAdvantage({ red: 0, blue: 30 }, teams, 'p1', 10)).toBe(-1)
+  })
+
+  test('Without maxScoreDifference the lead is relative to both scores; players without teams are their own side', () => {
+    expect(computeCompetitiveAdvantage({ p1: 6, p2: 2 }, {}, 'p1')).toBe(0.5)
+    expect(computeCompetitiveAdvantage({ p1: 0, p2: 0 }, {}, 'p1')).toBe(0)
+    expect(computeCompetitiveAdvantage({ p2: 4 }, {}, 'p1')).toBeUndefined()
+  })
+
+  test('Signals come from heartbeats up to the disconnect', () => {
+    const timeline = [healthy(1000), healthy(2000), degraded(3000), degraded(4000), healthy(9000)]
+
+    const signals = buildSessionSignals(timeline, { playerId: 'p1', quitAction: false, at: 8000 }, -0.4)
+
+    expect(signals.networkHistory).toHaveLength(4)
+    expect(signals.timeSinceLastPacket).toBe(4000)
+    expect(signals.competitiveAdvantage).toBe(-0.4)
+    expect(classifyDisconnect(signals).type).toBe('unintentional_disconnect')
+  })
+
+  test('Disconnected heartbeats do not count as a received packet', () => {
+    const timeline = [healthy(1000), { ...healthy(2000), isConnected: false }]
+
+    const signals = buildSessionSignals(timeline, { playerId: 'p1', quitAction: false, at: 7000 })
+
+    expect(signals.timeSinceLastPacket).toBe(6000)
+  })
+
+  test('Reported values override the computed advantage', () => {
+    const signals = buildSessionSignals([], { playerId: 'p1', quitAction: true, at: 0, competitiveAdvantage: 0.9 }, -0.4)
+
+    expect(signals.competitiveAdvantage).toBe(0.9)
+    expect(signals.networkHistory).toBeUndefined()
+    expect(signals.timeSinceLastPacket).toBeUndefined()
+  })
+
+  test('Heartbeat validation reports every invalid entry', () => {
+    expect(heartbeatErrors({})).toEqual(['heartbeat must contain players or scores'])
+    expect(
+      heartbeatErrors({
+        players: [{ playerId: '', network: { latencyMs: -1, packetLossRate: 0.1, isConnected: true } }],
+        scores: { red: 'three' },
+      })
+    ).toEqual([
+      'players[0].playerId must be a non-empty string',
+      'players[0].network.latencyMs must be >= 0',
+      'scores.red must be a number',
+    ])
+  })
+
+  test('Heartbeat and disconnect values must have the right types, and timestamps must fit a date', () => {
+    expect(
+      heartbeatErrors({
+        players: [{ playerId: 'p1', network: { latencyMs: 'abc', packetLossRate: 0.1, isConnected: true, timestamp: 'soon' } }],
+      })
+    ).toEqual(['players[0].network.latencyMs must be a number', 'players[0].network.timestamp must be a number'])
+    expect(heartbeatErrors({ at: 1e20, scores: { red: 1 } })).toEqual(['at must be epoch milliseconds'])
+
+    const report = sessionDisconnectSchema.safeParse({ playerId: 'p1', quitAction: 'yes', fairnessConfidence: '0.5', crash: { exitCode: 'x' } })
+    expect(report.success ? [] : formatSchemaIssues(report.error)).toEqual([
+      'quitAction must be a boolean',
+      'crash.exitCode must be a number',
+      'fairnessConfidence must be a number',
+    ])
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Preservation Core - Policy Simulator Tests
+ */
+
+import { DEFAULT_POLICY } from '../lib/preservation-core'
+import { derivePolicy, parseCorpus, simulatePolicies } from '../lib/preservation-core-simulator'
+
+const laggy = { quitAction: false, networkBeforeDisconnect: { packetLossRate: 0.05, latencyMs: 900, isConnected: true } }
+
+describe('Preservation Core - Policy Simulator', () => {
+  test('Corpus accepts raw signals and stored decisions, skipping blank lines', () => {
+    const { cases, errors } = parseCorpus(
+      [
+        JSON.stringify({ quitAction: true }),
+        '',
+        JSON.stringify({ decisionId: 'd-1', playerId: 'p-1', signals: laggy }),
+      ].join('\n')
+    )
+
+    expect(errors).toEqual([])
+    expect(cases.map((c) => c.caseId)).toEqual(['line 1', 'd-1'])
+    expect(cases[1].playerId).toBe('p-1')
+  })
+
+  test('Invalid corpus lines are reported with their line number', () => {
+    const { cases, errors } = parseCorpus('{"quitAction":false}\nnot json\n{"quitAction":"yes"}')
+
+    expect(cases).toHaveLength(1)
+    expect(errors[0]).toBe('line 2: not valid JSON')
+    expect(errors[1]).toMatch(/^line 3: quitAction /)
+  })
+
+  test('Candidate overrides only the sections it sends', () => {
+    const candidate = derivePolicy(DEFAULT_POLICY, { thresholds: { highLatencyMs: 1000 } })
+
+    expect(candidate.id).toBe('candidate')
+    expect(candidate.thresholds).toEqual({ ...DEFAULT_POLICY.thresholds, highLatencyMs: 1000 })
+    expect(candidate.offender).toEqual(DEFAULT_POLICY.offender)
+  })
+
+  test('Identical policies change nothing', () => {
+    const { cases } = parseCorpus([JSON.stringify(laggy), JSON.stringify({ quitAction: true })].join('\n'))
+    const report = simulatePolicies(cases, DEFAULT_POLICY, DEFAULT_POLICY)
+
+    expect(report.changed).toBe(0)
+    expect(report.examples).toEqual([])
+    expect(report.totals.baseline).toEqual(report.totals.candidate)
+  })
+
+  test('Matrix counts flips and keeps examples per transition', () => {
+    const { cases } = parseCorpus([laggy, laggy, laggy, { quitAction: true }].map((s) => JSON.stringify(s)).join('\n'))
+    const candidate = derivePolicy(DEFAULT_POLICY, { defaultOutcome: 'apply_loss' })
+    const report = simulatePolicies(cases, DEFAULT_POLICY, candidate, 2)
+
+    expect(report.cases).toBe(4)
+    expect(report.matrix.preserved.penalized).toBe(3)
+    expect(report.matrix.penalized.penalized).toBe(1)
+    expect(report.preservedToPenalized).toBe(3)
+    expect(report.penalizedToPreserved).toBe(0)
+    expect(report.changed).toBe(3)
+    expect(report.totals.candidate).toEqual({ no_disconnect: 0, preserved: 0, penalized: 4 })
+    expect(report.examples).toHaveLength(2)
+    expect(report.examples[0]).toMatchObject({ caseId: 'line 1', from: 'preserved', to: 'penalized' })
+  })
+
+  test('Raising a threshold turns drops into no disconnect', () => {
+    const { cases } = parseCorpus(JSON.stringify(laggy))
+    const report = simulatePolicies(cases, DEFAULT_POLICY, derivePolicy(DEFAULT_POLICY, { thresholds: { highLatencyMs: 1000 } }))
+
+    expect(report.matrix.preserved.no_disconnect).toBe(1)
+    expect(report.typeMatrix).toEqual({ unintentional_disconnect: { none: 1 } })
+  })
+})
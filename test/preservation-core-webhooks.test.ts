@@ -0,0 +1,64 @@
+/**
+ * Preservation Core - Webhook Signing and Target Tests
+ */
+
+import {
+  checkWebhookUrl,
+  isBlockedAddress,
+  resolveWebhookTarget,
+  retryDelayMs,
+  signPayload,
+  verifySignature,
+} from '../lib/preservation-core-webhooks'
+
+describe('Preservation Core - Webhooks', () => {
+  const secret = 'test-secret-0123456789'
+  const body = JSON.stringify({ event: 'decision.created', data: { lossApplied: false } })
+
+  test('Signature verifies against the same body and timestamp', () => {
+    const signature = signPayload(secret, 1700000000000, body)
+
+    expect(signature.startsWith('sha256=')).toBe(true)
+    expect(verifySignature(secret, 1700000000000, body, signature)).toBe(true)
+  })
+
+  test('Tampered body, timestamp or secret fails verification', () => {
+    const signature = signPayload(secret, 1700000000000, body)
+
+    expect(verifySignature(secret, 1700000000000, body.replace('false', 'true'), signature)).toBe(false)
+    expect(verifySignature(secret, 1700000000001, body, signature)).toBe(false)
+    expect(verifySignature('another-secret-0123', 1700000000000, body, signature)).toBe(false)
+  })
+
+  test('Retry delay doubles with every attempt', () => {
+    expect(retryDelayMs(1)).toBe(30000)
+    expect(retryDelayMs(2)).toBe(60000)
+    expect(retryDelayMs(5)).toBe(480000)
+  })
+
+  test('Webhook targets must be https on a public host', async () => {
+    expect(await checkWebhookUrl('http://93.184.216.34/hooks')).toBe('url must be an https URL')
+    expect(await checkWebhookUrl('not a url')).toBe('url must be an https URL')
+    expect(await checkWebhookUrl('https://localhost:3000/hooks')).toMatch(/not allowed/)
+    expect(await checkWebhookUrl('https://metadata.google.internal/computeMetadata/v1')).toMatch(/not allowed/)
+    for (const host of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '[::1]', '[fd00:ec2::254]', '[::ffff:10.0.0.1]']) {
+      expect(await checkWebhookUrl(`https://${host}/hooks`)).toMatch(/private or reserved/)
+    }
+    expect(await checkWebhookUrl('https://93.184.216.34/hooks')).toBeNull()
+  })
+
+  test('A checked target carries the address deliveries connect to', async () => {
+    expect(await resolveWebhookTarget('https://93.184.216.34/hooks')).toMatchObject({ ok: true, address: '93.184.216.34', family: 4 })
+    expect(await resolveWebhookTarget('https://[2606:4700:4700::1111]/hooks')).toMatchObject({ ok: true, address: '2606:4700:4700::1111', family: 6 })
+    expect(await resolveWebhookTarget('https://169.254.169.254/latest')).toMatchObject({ ok: false, error: expect.stringMatching(/private or reserved/) })
+  })
+
+  test('Blocked addresses cover private, loopback and link-local ranges only', () => {
+    expect(isBlockedAddress('100.64.0.1')).toBe(true)
+    expect(isBlockedAddress('fe80::1')).toBe(true)
+    // NAT64: 169.254.169.254 embedded in the well-known prefix
+    expect(isBlockedAddress('64:ff9b::a9fe:a9fe')).toBe(true)
+    expect(isBlockedAddress('8.8.8.8')).toBe(false)
+    expect(isBlockedAddress('2606:4700:4700::1111')).toBe(false)
+  })
+})
@@ -0,0 +1,39 @@
+/**
+ * Incremental SHA-256 Tests
+ *
+ * The page's hash has to match what the server computes on completion, for
+ * any way the file is sliced.
+ */
+
+import { createHash } from 'crypto'
+import { createSha256 } from '../lib/sha256'
+
+const nodeSha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex')
+
+describe('Incremental SHA-256', () => {
+  test('Matches the known digests', () => {
+    expect(createSha256().digest()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+    expect(createSha256().update(new TextEncoder().encode('abc')).digest()).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    )
+  })
+
+  test('Matches crypto for every length around the padding boundaries, in any slicing', () => {
+    const data = Uint8Array.from({ length: 300 }, (_, i) => (i * 31 + 7) & 0xff)
+    for (const length of [1, 55, 56, 63, 64, 65, 119, 120, 128, 300]) {
+      const bytes = data.subarray(0, length)
+      expect(createSha256().update(bytes).digest()).toBe(nodeSha256(bytes))
+      for (const slice of [1, 7, 64, 100]) {
+        const hash = createSha256()
+        for (let i = 0; i < length; i += slice) hash.update(bytes.subarray(i, i + slice))
+        expect(hash.digest()).toBe(nodeSha256(bytes))
+      }
+    }
+  })
+
+  test('Cannot be updated after the digest', () => {
+    const hash = createSha256()
+    hash.digest()
+    expect(() => hash.update(new Uint8Array(1))).toThrow(/already digested/)
+  })
+})
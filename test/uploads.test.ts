@@ -0,0 +1,185 @@
+/**
+ * Chunked Upload Tests
+ *
+ * The init → PUT chunk → complete protocol through the routes: offsets,
+ * chunk and file checksums, the MP4 check, plan limits, the caps on
+ * anonymous uploads and the cleanup of abandoned uploads. Anonymous requests are on the free plan, so no
+ * database is needed.
+ */
+
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { POST as START } from '../app/api/upload/route'
+import { GET, PUT } from '../app/api/upload/[id]/route'
+import { POST as COMPLETE } from '../app/api/upload/[id]/complete/route'
+import { ANONYMOUS_UPLOAD_LIMITS, cleanupAbandonedUploads, resolveUploadPlan, UPLOAD_PLANS, UPLOAD_TTL_MS } from '../lib/uploads'
+import { resolveUploadPath, UPLOAD_DIR } from '../lib/video-frames'
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex')
+
+/** 32 bytes that open like an MP4: a size, then the `ftyp` box type */
+const MP4 = Buffer.concat([Buffer.from([0, 0, 0, 24]), Buffer.from('ftypisom'), Buffer.alloc(20, 7)])
+
+async function start(body: unknown, client?: string) {
+  const res = await START(
+    new NextRequest('http://localhost/api/upload', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...(client ? { 'x-forwarded-for': client } : {}) },
+      body: JSON.stringify(body),
+    })
+  )
+  return { status: res.status, body: await res.json() }
+}
+
+async function put(id: string, offset: number, chunk: Buffer, chunkSha256?: string) {
+  const res = await PUT(
+    new NextRequest(`http://localhost/api/upload/${id}?offset=${offset}`, {
+      method: 'PUT',
+      headers: chunkSha256 ? { 'x-chunk-sha256': chunkSha256 } : {},
+      body: new Uint8Array(chunk),
+    }),
+    { params: Promise.resolve({ id }) }
+  )
+  return { status: res.status, body: await res.json() }
+}
+
+async function status(id: string) {
+  const res = await GET(new NextRequest(`http://localhost/api/upload/${id}`), { params: Promise.resolve({ id }) })
+  return { status: res.status, body: await res.json() }
+}
+
+async function complete(id: string) {
+  const res = await COMPLETE(new NextRequest(`http://localhost/api/upload/${id}/complete`, { method: 'POST' }), {
+    params: Promise.resolve({ id }),
+  })
+  return { status: res.status, body: await res.json() }
+}
+
+describe('Chunked Uploads', () => {
+  const created: string[] = []
+  let createdDir = false
+
+  const trustedProxyHops = process.env.TRUSTED_PROXY_HOPS
+
+  beforeAll(async () => {
+    createdDir = !(await fs.stat(UPLOAD_DIR).catch(() => null))
+    // As if behind one proxy, so the requests' x-forwarded-for is the client
+    process.env.TRUSTED_PROXY_HOPS = '1'
+  })
+  afterAll(async () => {
+    if (trustedProxyHops === undefined) delete process.env.TRUSTED_PROXY_HOPS
+    else process.env.TRUSTED_PROXY_HOPS = trustedProxyHops
+    for (const id of created) {
+      for (const suffix of ['.mp4', '.part', '.upload.json']) await fs.rm(path.join(UPLOAD_DIR, id + suffix), { force: true })
+    }
+    // Only if empty: other test files may be using it
+    if (createdDir) await fs.rmdir(UPLOAD_DIR).catch(() => {})
+  })
+
+  async function begin(body: Record<string, unknown>, client?: string) {
+    const res = await start(body, client)
+    if (res.body.uploadId) created.push(res.body.uploadId)
+    return res
+  }
+
+  test('Uploads start as JSON, within the plan limit', async () => {
+    const form = await START(new NextRequest('http://localhost/api/upload', { method: 'POST', body: new FormData() }))
+    expect(form.status).toBe(415)
+    expect((await begin({ size: 0, sha256: sha256(MP4) })).status).toBe(400)
+    expect((await begin({ size: 10, sha256: 'abc' })).status).toBe(400)
+    expect(await begin({ size: MP4.length })).toMatchObject({ status: 400, body: { error: expect.stringMatching(/sha256/) } })
+    expect(await begin({ size: UPLOAD_PLANS.free.maxBytes + 1, sha256: sha256(MP4) })).toMatchObject({ status: 413, body: { error: expect.stringMatching(/free plan/) } })
+
+    const { status: code, body } = await begin({ size: MP4.length, sha256: sha256(MP4), filename: 'match.mp4' })
+    expect(code).toBe(201)
+    expect(body).toMatchObject({ plan: 'free', size: MP4.length, offset: 0, maxBytes: UPLOAD_PLANS.free.maxBytes, sha256: sha256(MP4) })
+  })
+
+  test('Anonymous uploads in progress are capped per address and in total', async () => {
+    for (let i = 0; i < ANONYMOUS_UPLOAD_LIMITS.perClient; i++) {
+      expect((await begin({ size: MP4.length, sha256: sha256(MP4) }, '198.51.100.1')).status).toBe(201)
+    }
+    expect(await begin({ size: MP4.length, sha256: sha256(MP4) }, '198.51.100.1')).toMatchObject({
+      status: 429,
+      body: { error: expect.stringMatching(/uploads in progress/) },
+    })
+    // Prepending a made-up address doesn't get around it
+    expect((await begin({ size: MP4.length, sha256: sha256(MP4) }, '192.0.2.9, 198.51.100.1')).status).toBe(429)
+    // Another address still can, and a finished upload frees its slot
+    const other = (await begin({ size: MP4.length, sha256: sha256(MP4) }, '198.51.100.2')).body.uploadId
+    expect(other).toBeDefined()
+    await put(other, 0, MP4)
+    expect((await complete(other)).status).toBe(200)
+    expect((await begin({ size: MP4.length, sha256: sha256(MP4) }, '198.51.100.2')).status).toBe(201)
+
+    // Full-size uploads from many addresses run into the total
+    const starts = []
+    for (let i = 0; i <= ANONYMOUS_UPLOAD_LIMITS.totalBytes / UPLOAD_PLANS.free.maxBytes; i++) {
+      starts.push(await begin({ size: UPLOAD_PLANS.free.maxBytes, sha256: sha256(MP4) }, `203.0.113.${i}`))
+    }
+    expect(starts[0].status).toBe(201)
+    expect(starts.at(-1)).toMatchObject({ status: 429, body: { error: expect.stringMatching(/try again later/) } })
+  })
+
+  test('The client address is taken from the trusted proxies only', async () => {
+    const headers = new Headers({ 'x-forwarded-for': '192.0.2.9, 198.51.100.1' })
+    expect(await resolveUploadPlan(headers)).toEqual({ ok: true, plan: 'free', client: '198.51.100.1' })
+    process.env.TRUSTED_PROXY_HOPS = '2'
+    expect(await resolveUploadPlan(headers)).toMatchObject({ client: '192.0.2.9' })
+    process.env.TRUSTED_PROXY_HOPS = '3'
+    expect(await resolveUploadPlan(headers)).toMatchObject({ client: 'unknown' })
+    // Without a trusted proxy the header is the client's own and is ignored
+    delete process.env.TRUSTED_PROXY_HOPS
+    expect(await resolveUploadPlan(headers)).toMatchObject({ client: 'unknown' })
+    process.env.TRUSTED_PROXY_HOPS = '1'
+  })
+
+  test('Chunks append at the current offset and the upload resumes from it', async () => {
+    const { body: upload } = await begin({ size: MP4.length, sha256: sha256(MP4) })
+    const id = upload.uploadId
+
+    expect((await put(id, 0, MP4.subarray(0, 12), sha256(MP4.subarray(0, 12)))).body.offset).toBe(12)
+    // A retried chunk that already landed, a corrupted one and one past the end are all refused
+    expect(await put(id, 0, MP4.subarray(0, 12))).toMatchObject({ status: 409, body: { offset: 12 } })
+    expect(await put(id, 12, MP4.subarray(12, 20), sha256(Buffer.from('other')))).toMatchObject({ status: 422, body: { offset: 12 } })
+    expect((await put(id, 12, Buffer.concat([MP4.subarray(12), Buffer.alloc(1)]))).status).toBe(413)
+    expect(await complete(id)).toMatchObject({ status: 409, body: { offset: 12 } })
+    expect((await status(id)).body.offset).toBe(12)
+
+    expect((await put(id, 12, MP4.subarray(12))).body.offset).toBe(MP4.length)
+    expect(await complete(id)).toEqual({
+      status: 200,
+      body: { uploadId: id, path: `/uploads/${id}.mp4`, size: MP4.length, sha256: sha256(MP4) },
+    })
+    expect(await fs.readFile((await resolveUploadPath(id))!)).toEqual(MP4)
+    expect((await status(id)).status).toBe(404)
+  })
+
+  test('A checksum mismatch or a file that is not an MP4 is discarded', async () => {
+    const mismatch = (await begin({ size: MP4.length, sha256: sha256(Buffer.from('other')) })).body.uploadId
+    await put(mismatch, 0, MP4)
+    expect(await complete(mismatch)).toMatchObject({ status: 422, body: { error: expect.stringMatching(/Checksum mismatch/) } })
+    expect((await status(mismatch)).status).toBe(404)
+
+    const text = Buffer.from('definitely not a video file')
+    const notVideo = (await begin({ size: text.length, sha256: sha256(text) })).body.uploadId
+    await put(notVideo, 0, text)
+    expect(await complete(notVideo)).toMatchObject({ status: 422, body: { error: 'Not an MP4 file' } })
+    expect(await resolveUploadPath(notVideo)).toBeNull()
+  })
+
+  test('Uploads without a chunk for the TTL are cleaned up', async () => {
+    const stale = (await begin({ size: MP4.length, sha256: sha256(MP4) }, '198.51.100.5')).body.uploadId
+    const fresh = (await begin({ size: MP4.length, sha256: sha256(MP4) }, '198.51.100.5')).body.uploadId
+    const metaPath = path.join(UPLOAD_DIR, `${stale}.upload.json`)
+    const meta = JSON.parse(await fs.readFile(metaPath, 'utf8'))
+    await fs.writeFile(metaPath, JSON.stringify({ ...meta, updatedAt: new Date(Date.now() - UPLOAD_TTL_MS - 1000).toISOString() }))
+
+    expect(await cleanupAbandonedUploads()).toBeGreaterThanOrEqual(1)
+    expect((await status(stale)).status).toBe(404)
+    expect(await fs.stat(path.join(UPLOAD_DIR, `${stale}.part`)).catch(() => null)).toBeNull()
+    expect((await status(fresh)).status).toBe(200)
+  })
+})
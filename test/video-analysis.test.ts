@@ -0,0 +1,204 @@
+/**
+ * Video Analysis Pipeline Tests
+ *
+ * Frame reading, the motion timeline, the built-in detectors, the detector
+ * registry and the events built from detections. Decoding itself needs an
+ * ffmpeg binary; only its failure path is covered here.
+ */
+
+import { Readable } from 'stream'
+import {
+  extractFrames,
+  readFrames,
+  VideoDecodeError,
+  type VideoFrame,
+} from '../lib/video-frames'
+import {
+  getDetectors,
+  lullDetector,
+  registerDetector,
+  rhythmDetector,
+  runDetectors,
+  selectDetections,
+  type FrameSample,
+} from '../lib/video-detectors'
+import { buildTimeline } from '../lib/video-analysis'
+import { buildAnalysisEvents, findPatterns, summarizeAnalysis } from '../lib/analysis-report'
+
+const FPS = 4
+
+/** Quiet gameplay with a motion spike at each of `spikes` (seconds) */
+function timeline(durationSec: number, spikes: number[] = [], quiet: [number, number][] = []): FrameSample[] {
+  return Array.from({ length: durationSec * FPS }, (_, i) => {
+    const time = i / FPS
+    const isQuiet = quiet.some(([from, to]) => time >= from && time < to)
+    const base = isQuiet ? 0.002 : 0.04 + (i % 3) * 0.01
+    return { time, motion: spikes.includes(time) ? 0.2 : base, brightness: 0.5, cut: false }
+  })
+}
+
+async function* frames(...values: number[]): AsyncGenerator<VideoFrame> {
+  for (const [index, value] of values.entries()) {
+    yield { index, time: index / FPS, width: 2, height: 2, channels: 1, data: new Uint8Array(4).fill(value) }
+  }
+}
+
+describe('Video Analysis - Frames', () => {
+  test('Raw stream is split into whole frames across chunk boundaries', async () => {
+    const stream = Readable.from([Buffer.from([1, 2, 3]), Buffer.from([4, 5]), Buffer.from([6, 7, 8, 9])])
+    const out: number[][] = []
+    for await (const frame of readFrames(stream, 4)) out.push(Array.from(frame))
+
+    expect(out).toEqual([
+      [1, 2, 3, 4],
+      [5, 6, 7, 8],
+    ])
+  })
+
+  test('Timeline measures motion between samples and flags hard cuts', async () => {
+    const samples = await buildTimeline(frames(0, 0, 51, 255))
+
+    expect(samples.map((s) => s.time)).toEqual([0, 0.25, 0.5, 0.75])
+    expect(samples.map((s) => s.motion)).toEqual([0, 0, 0.2, 0.8])
+    expect(samples.map((s) => s.cut)).toEqual([false, false, false, true])
+    expect(samples[3].brightness).toBe(1)
+  })
+
+  test('Missing ffmpeg is a decode error, not a crash', async () => {
+    const previous = process.env.FFMPEG_PATH
+    process.env.FFMPEG_PATH = '/nonexistent/ffmpeg'
+    try {
+      const consume = async () => {
+        for await (const _ of extractFrames('/nonexistent/video.mp4')) void _
+      }
+      await expect(consume()).rejects.toBeInstanceOf(VideoDecodeError)
+      await expect(consume()).rejects.toThrow(/FFMPEG_PATH/)
+    } finally {
+      if (previous === undefined) delete process.env.FFMPEG_PATH
+      else process.env.FFMPEG_PATH = previous
+    }
+  })
+})
+
+describe('Video Analysis - Detectors', () => {
+  test('Fixed-tempo bursts are reported once, at the start of the loop', () => {
+    const detect = rhythmDetector()
+    const loops = detect(timeline(30, [5, 7, 9, 11, 13, 22]), { game: 'UFC 5', tag: 'rhythm_loop', fps: FPS, durationSec: 30 })
+
+    expect(loops).toHaveLength(1)
+    expect(loops[0].time).toBe(5)
+    expect(loops[0].metrics).toMatchObject({ bursts: 5, intervalSec: 2 })
+  })
+
+  test('Irregular bursts are not a rhythm loop', () => {
+    const detect = rhythmDetector()
+
+    expect(detect(timeline(30, [2, 3, 7, 8.5, 15, 16]), { game: 'UFC 5', tag: 'rhythm_loop', fps: FPS, durationSec: 30 })).toEqual([])
+  })
+
+  test('Freezes longer than the minimum are reported at their start', () => {
+    const detect = lullDetector({ minSec: 3 })
+    const lulls = detect(timeline(30, [], [[10, 15], [20, 21]]), {
+      game: 'FIGHT NIGHT CHAMPION',
+      tag: 'pocket_freeze',
+      fps: FPS,
+      durationSec: 30,
+    })
+
+    expect(lulls.map((l) => l.time)).toEqual([10])
+    expect(lulls[0].metrics?.lengthSec).toBe(5)
+  })
+
+  test('Plugins register against the game event tags and can be removed', () => {
+    expect(() => registerDetector('UFC 5', 'paint_mash', () => [])).toThrow(/Unknown event tag "paint_mash" for UFC 5/)
+    expect(() => registerDetector('Tetris', 'stamina_drop', () => [])).toThrow(/Unknown game/)
+
+    const unregister = registerDetector('UFC 5', 'pull_counter_window', () => [{ time: 12, confidence: 1.4 }])
+    try {
+      expect(getDetectors('UFC 5').map((d) => d.tag)).toContain('pull_counter_window')
+      expect(runDetectors('UFC 5', timeline(20), FPS)).toContainEqual({ tag: 'pull_counter_window', time: 12, confidence: 1 })
+    } finally {
+      unregister()
+    }
+    expect(getDetectors('UFC 5').map((d) => d.tag)).not.toContain('pull_counter_window')
+  })
+
+  test('A failing plugin does not stop the other detectors', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const unregister = registerDetector('UFC 5', 'block_break_bait', () => {
+      throw new Error('bad plugin')
+    })
+    try {
+      const detections = runDetectors('UFC 5', timeline(30, [5, 7, 9, 11]), FPS)
+
+      expect(detections.some((d) => d.tag === 'rhythm_loop')).toBe(true)
+      expect(error).toHaveBeenCalled()
+    } finally {
+      unregister()
+      error.mockRestore()
+    }
+  })
+
+  test('Each detector reports its detections as soon as it has run', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const unregister = registerDetector('UFC 5', 'block_break_bait', () => {
+      throw new Error('bad plugin')
+    })
+    try {
+      const reported: [string, number][] = []
+      const detections = runDetectors('UFC 5', timeline(30, [5, 7, 9, 11]), FPS, (tag, found) => reported.push([tag, found.length]))
+
+      expect(reported.map(([tag]) => tag)).toEqual(getDetectors('UFC 5').map((d) => d.tag).filter((tag) => tag !== 'block_break_bait'))
+      expect(reported.reduce((sum, [, count]) => sum + count, 0)).toBe(detections.length)
+    } finally {
+      unregister()
+      error.mockRestore()
+    }
+  })
+
+  test('Selection keeps the most confident detections, spaced apart, in time order', () => {
+    const selected = selectDetections(
+      [
+        { tag: 'a', time: 10, confidence: 0.6 },
+        { tag: 'b', time: 11, confidence: 0.9 },
+        { tag: 'c', time: 30, confidence: 0.7 },
+        { tag: 'd', time: 2, confidence: 0.5 },
+      ],
+      2,
+      3
+    )
+
+    expect(selected.map((d) => d.tag)).toEqual(['b', 'c'])
+  })
+})
+
+describe('Video Analysis - Report', () => {
+  test('Events take their timecodes and confidence from the detections', () => {
+    const events = buildAnalysisEvents(
+      'UFC 5',
+      [
+        { tag: 'rhythm_loop', time: 65.75, confidence: 0.8, metrics: { bursts: 5 } },
+        { tag: 'missed_counter', time: 90.2, confidence: 0.7 },
+      ],
+      [{ code: 'R-1', title: 'Rule', description: 'Do this; then that', tags: ['timing'] }]
+    )
+
+    expect(events.map((e) => [e.timecode, e.eventTag, e.confidence])).toEqual([
+      [65, 'rhythm_loop', 0.8],
+      [90, 'missed_counter', 0.7],
+    ])
+    expect(events[0].metrics).toEqual({ bursts: 5 })
+    expect(events[0].whatHappened).toBe('Rule detected at 1:05')
+    expect(events[1].whatHappened).toBe("Missed counter window on opponent's lead hook")
+    expect(events[0].hudReads).toBeUndefined()
+
+    const patterns = findPatterns('UFC 5', events)
+    expect(patterns.map((p) => p.code)).toEqual(['TIMING-RHYTHM-LOOP'])
+    expect(summarizeAnalysis(events, patterns)).toContain('Insert half-beat delays')
+  })
+
+  test('A clip without detections says so instead of inventing moments', () => {
+    expect(buildAnalysisEvents('UFC 5', [], [])).toEqual([])
+    expect(summarizeAnalysis([], [])).toMatch(/^No key moments detected/)
+  })
+})